@@ -63,6 +63,7 @@ const AdminPage: React.FC = () => {
   const [orgSecret, setOrgSecret] = useState('');
   const [assignUserId, setAssignUserId] = useState('');
   const [assignOrgId, setAssignOrgId] = useState('');
+  const [assignOrgAdmin, setAssignOrgAdmin] = useState(false);
   const [spotifySetup, setSpotifySetup] = useState<SpotifyTenantSetup | null>(null);
   const [spotifySetupError, setSpotifySetupError] = useState<string | null>(null);
   const [copiedUri, setCopiedUri] = useState<string | null>(null);
@@ -354,7 +355,7 @@ const AdminPage: React.FC = () => {
       const res = await hostFetch(`${API_BASE || ''}/api/admin/users/${uid}/organization`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ organizationId }),
+        body: JSON.stringify({ organizationId, orgRole: organizationId != null && assignOrgAdmin ? 'admin' : 'member' }),
       });
       const j = await res.json().catch(() => ({}));
       if (!res.ok) {
@@ -363,6 +364,7 @@ const AdminPage: React.FC = () => {
       }
       setAssignUserId('');
       setAssignOrgId('');
+      setAssignOrgAdmin(false);
     } finally {
       setBusy(false);
     }
@@ -639,6 +641,15 @@ const AdminPage: React.FC = () => {
                 disabled={busy}
                 style={{ minWidth: '220px' }}
               />
+              <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }} title="Org admins see and can end every room run by hosts in their organization.">
+                <input
+                  type="checkbox"
+                  checked={assignOrgAdmin}
+                  onChange={(e) => setAssignOrgAdmin(e.target.checked)}
+                  disabled={busy || !assignOrgId.trim()}
+                />
+                Org admin
+              </label>
               <button type="submit" className="btn btn-primary" disabled={busy || !assignUserId.trim()}>
                 Assign
               </button>
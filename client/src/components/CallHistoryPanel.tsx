@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CallHistoryEntry, CallHistoryPayload, GameSocket } from '../socketProtocol';
+import { fuzzyScore } from '../utils/fuzzySearch';
+
+interface CallHistoryPanelProps {
+  socket: GameSocket | null;
+  roomId: string;
+  /** Replaying a clip drives the music, which verifiers cannot do. */
+  canReplay: boolean;
+  onClose: () => void;
+}
+
+type SongResult = Pick<CallHistoryEntry, 'songId' | 'songName' | 'artistName' | 'customTitle' | 'holders'> & {
+  call: CallHistoryEntry | null;
+};
+
+function formatOffset(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * "Was it played?": search the round's calls by title, artist or custom title to settle a dispute. A
+ * called song shows its call number, time, snippet start and who has it on their card, and can be
+ * replayed for a few seconds on the room's device; a song from the mix that was not called says so.
+ */
+const CallHistoryPanel: React.FC<CallHistoryPanelProps> = ({ socket, roomId, canReplay, onClose }) => {
+  const [history, setHistory] = useState<CallHistoryPayload | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [clipMessage, setClipMessage] = useState<string>('');
+
+  useEffect(() => {
+    if (!socket) return;
+    const onHistory = (data: CallHistoryPayload) => {
+      if (data.roomId === roomId) setHistory(data);
+    };
+    const onClip = (data: { roomId: string; ok: boolean; message: string }) => {
+      if (data.roomId === roomId) setClipMessage(data.message);
+    };
+    socket.on('call-history', onHistory);
+    socket.on('call-clip-replayed', onClip);
+    socket.emit('request-call-history', { roomId });
+    return () => {
+      socket.off('call-history', onHistory);
+      socket.off('call-clip-replayed', onClip);
+    };
+  }, [socket, roomId]);
+
+  const results = useMemo<SongResult[]>(() => {
+    if (!history) return [];
+    const called: SongResult[] = history.calls.map((c) => ({ ...c, call: c }));
+    if (!query.trim()) return called.slice().reverse();
+    const uncalled: SongResult[] = history.uncalled.map((s) => ({ ...s, call: null }));
+    return [...called, ...uncalled]
+      .map((song) => ({ song, score: fuzzyScore(query, [song.songName, song.artistName, song.customTitle]) }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score || (a.song.call ? 0 : 1) - (b.song.call ? 0 : 1))
+      .slice(0, 25)
+      .map((r) => r.song);
+  }, [history, query]);
+
+  const replay = (songId: string) => {
+    setClipMessage('');
+    socket?.emit('replay-call-clip', { roomId, songId });
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Call history"
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.75)', zIndex: 10002, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 16 }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: '100%', maxWidth: 640, maxHeight: '85vh', display: 'flex', flexDirection: 'column', background: '#1b1b2f', color: '#fff', borderRadius: 14, padding: 18, border: '1px solid rgba(255,255,255,0.15)' }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+          <strong style={{ fontSize: '1.1rem' }}>
+            🔎 Was it played?{history ? ` — round ${history.roundNumber}, ${history.calls.length} calls` : ''}
+          </strong>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button type="button" className="btn-secondary" onClick={() => socket?.emit('request-call-history', { roomId })}>
+              Refresh
+            </button>
+            <button type="button" onClick={onClose} aria-label="Close" style={{ all: 'unset', cursor: 'pointer', fontSize: '1.2rem' }}>✕</button>
+          </div>
+        </div>
+        <input
+          type="search"
+          autoFocus
+          placeholder="Title, artist or custom title"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          style={{ width: '100%', padding: '10px 12px', borderRadius: 10, border: '1px solid rgba(255,255,255,0.25)', background: 'rgba(0,0,0,0.3)', color: '#fff', boxSizing: 'border-box', marginBottom: 10 }}
+        />
+        {clipMessage && <div style={{ marginBottom: 8, fontSize: '0.85rem', color: '#ffd54f' }}>{clipMessage}</div>}
+        <div style={{ overflowY: 'auto' }}>
+          {!history ? (
+            <div>Loading…</div>
+          ) : results.length === 0 ? (
+            <div style={{ opacity: 0.8 }}>{query.trim() ? 'No song in this mix matches.' : 'Nothing called yet this round.'}</div>
+          ) : (
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+              {results.map((song) => (
+                <li key={song.songId} style={{ padding: '8px 0', borderBottom: '1px solid rgba(255,255,255,0.08)' }}>
+                  <div style={{ display: 'flex', gap: 10, alignItems: 'baseline', flexWrap: 'wrap' }}>
+                    <span
+                      style={{
+                        minWidth: 44,
+                        fontWeight: 700,
+                        color: song.call ? '#00ff88' : '#ff8a80',
+                      }}
+                    >
+                      {song.call ? `#${song.call.order}` : 'Not called'}
+                    </span>
+                    <span style={{ flex: 1, minWidth: 180 }}>
+                      <strong>{song.customTitle || song.songName}</strong>
+                      {song.customTitle && <span style={{ opacity: 0.6 }}> ({song.songName})</span>}
+                      <span style={{ opacity: 0.75 }}> — {song.artistName}</span>
+                    </span>
+                    {song.call && canReplay && (
+                      <button type="button" className="btn-secondary" onClick={() => replay(song.songId)} title="Play 5 seconds from where the snippet started">
+                        ▶ 5s
+                      </button>
+                    )}
+                  </div>
+                  <div style={{ fontSize: '0.8rem', opacity: 0.8, marginLeft: 54 }}>
+                    {song.call && (
+                      <>
+                        Called {song.call.calledAt ? new Date(song.call.calledAt).toLocaleTimeString() : '—'}
+                        {song.call.startMs != null && ` · snippet from ${formatOffset(song.call.startMs)}`}
+                        {' · '}
+                      </>
+                    )}
+                    {song.holders.length > 0
+                      ? `On ${song.holders.length} card${song.holders.length === 1 ? '' : 's'}: ${song.holders.map((h) => `${h.playerName}${h.marked ? ' ✓' : ''}`).join(', ')}`
+                      : 'On no phone cards'}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CallHistoryPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import type { DuplicateGroup, MatchableSong } from '../utils/songDuplicates';
+import { cleanSongTitle } from '../utils/songTitleCleaner';
+
+interface DuplicateSongsPanelProps {
+  groups: DuplicateGroup[];
+  /** group key → id of the copy to keep; unset keeps the first copy. */
+  keeps: Record<string, string>;
+  /** dropped copy's id → song that takes its place on that playlist. */
+  replacements: Record<string, MatchableSong>;
+  /** Dropped copy a replacement is being looked up for. */
+  suggestingId: string | null;
+  /** Suggestions search Spotify, so they need a Spotify connection. */
+  canSuggest: boolean;
+  message: string;
+  onKeep: (groupKey: string, songId: string) => void;
+  onSuggest: (dropped: MatchableSong) => void;
+  onClearReplacement: (droppedId: string) => void;
+}
+
+export function keptCopyId(group: DuplicateGroup, keeps: Record<string, string>): string {
+  const chosen = keeps[group.key];
+  return chosen && group.copies.some((s) => s.id === chosen) ? chosen : group.copies[0].id;
+}
+
+/**
+ * Finalize step: songs that are on more than one playlist under different releases. One copy is kept
+ * (the first playlist's unless the host picks another); each dropped copy can get a suggested
+ * replacement on its playlist so the column keeps its size.
+ */
+const DuplicateSongsPanel: React.FC<DuplicateSongsPanelProps> = ({
+  groups,
+  keeps,
+  replacements,
+  suggestingId,
+  canSuggest,
+  message,
+  onKeep,
+  onSuggest,
+  onClearReplacement,
+}) => {
+  if (groups.length === 0) return null;
+  return (
+    <div
+      style={{ margin: '0 0 14px', padding: 12, borderRadius: 12, background: 'rgba(255,193,7,0.08)', border: '1px solid rgba(255,193,7,0.35)', color: '#fff' }}
+    >
+      <div style={{ fontWeight: 700, marginBottom: 4 }}>
+        {groups.length} song{groups.length !== 1 ? 's are' : ' is'} on more than one playlist
+      </div>
+      <div style={{ fontSize: '0.8rem', color: '#c8c8c8', marginBottom: 10 }}>
+        Same title and artist (or the same recording) under a different release. Only the kept copy goes into the mix.
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 10, maxHeight: 320, overflowY: 'auto' }}>
+        {groups.map((group) => {
+          const kept = keptCopyId(group, keeps);
+          const lead = group.copies[0];
+          return (
+            <div key={group.key} style={{ padding: '8px 10px', borderRadius: 8, background: 'rgba(0,0,0,0.25)' }}>
+              <div style={{ fontWeight: 600, marginBottom: 6 }}>
+                {cleanSongTitle(lead.name)} <span style={{ color: '#9a9a9a', fontWeight: 400 }}>— {lead.artist}</span>
+              </div>
+              {group.copies.map((copy) => {
+                const replacement = replacements[copy.id];
+                const isKept = copy.id === kept;
+                return (
+                  <div key={copy.id} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, fontSize: '0.85rem', padding: '2px 0' }}>
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, cursor: 'pointer', minWidth: 0 }}>
+                      <input
+                        type="radio"
+                        name={`dup-${group.key}`}
+                        checked={isKept}
+                        onChange={() => onKeep(group.key, copy.id)}
+                      />
+                      <span style={{ color: isKept ? '#fff' : '#9a9a9a', textDecoration: isKept ? 'none' : 'line-through' }}>{copy.name}</span>
+                      <span style={{ color: '#8a8a8a' }}>· {copy.sourcePlaylistName || 'Unknown playlist'}</span>
+                    </label>
+                    {!isKept && replacement && (
+                      <span style={{ color: '#00ff88' }}>
+                        → {replacement.name} — {replacement.artist}{' '}
+                        <button
+                          type="button"
+                          onClick={() => onClearReplacement(copy.id)}
+                          style={{ background: 'none', border: 'none', color: '#ff8a8a', cursor: 'pointer', padding: 0, fontSize: '0.8rem' }}
+                        >
+                          undo
+                        </button>
+                      </span>
+                    )}
+                    {!isKept && canSuggest && (
+                      <button
+                        type="button"
+                        disabled={suggestingId !== null}
+                        onClick={() => onSuggest(copy)}
+                        style={{ padding: '2px 8px', borderRadius: 6, border: '1px solid rgba(255,255,255,0.25)', background: 'rgba(255,255,255,0.06)', color: '#fff', cursor: suggestingId !== null ? 'wait' : 'pointer', fontSize: '0.75rem' }}
+                      >
+                        {suggestingId === copy.id ? 'Finding…' : replacement ? 'Suggest another' : 'Suggest replacement'}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+      {message && <div style={{ marginTop: 8, fontSize: '0.8rem', color: '#ffcf66' }}>{message}</div>}
+    </div>
+  );
+};
+
+export default DuplicateSongsPanel;
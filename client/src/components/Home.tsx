@@ -36,6 +36,8 @@ const Home: React.FC = () => {
   const [roomId, setRoomId] = useState('');
   /** Join as remote/online (host can enable hybrid mode so prize waits for in-person bingo) */
   const [joinAsRemote, setJoinAsRemote] = useState(() => searchParams.get('remote') === '1');
+  /** Staff join: a code from the host's co-host roster opens the host screen with that role. */
+  const [cohostCode, setCohostCode] = useState(() => (searchParams.get('cohost') || '').toUpperCase());
   const [hostSession, setHostSession] = useState<{ id: number; email?: string | null; displayName?: string | null } | null | undefined>(undefined);
   /**
    * Server `POST /api/host/rooms` returns `mode: 'reuse'` when your default code already exists in RAM.
@@ -267,6 +269,11 @@ const Home: React.FC = () => {
     }
     const q = new URLSearchParams();
     q.set('name', playerName.trim());
+    if (cohostCode.trim()) {
+      q.set('cohost', cohostCode.trim());
+      navigate(`/host/${roomId}?${q.toString()}`);
+      return;
+    }
     if (joinAsRemote) q.set('remote', '1');
     navigate(`/player/${roomId}?${q.toString()}`);
   };
@@ -441,12 +448,24 @@ const Home: React.FC = () => {
               </span>
             </label>
 
+            <div className="input-group">
+              <input
+                type="text"
+                placeholder="Co-host code (staff only)"
+                value={cohostCode}
+                onChange={(e) => setCohostCode(e.target.value.toUpperCase())}
+                className="input"
+                autoCapitalize="characters"
+                autoCorrect="off"
+              />
+            </div>
+
             <button 
               onClick={joinGame}
               className="btn btn-pink"
             >
               <UserPlus className="btn-icon" />
-              Join Game
+              {cohostCode.trim() ? 'Join as Co-host' : 'Join Game'}
             </button>
 
             {joinOnly && (
@@ -41,6 +41,7 @@ import {
   Radio,
 } from 'lucide-react';
 import io from 'socket.io-client';
+import type { AutoBingoMode, AutoBingoSettings, CallSnapshot, CardDealSummary, CohostRole, CohostRosterPayload, CustomTitleScope, GameSocket, LeaderboardPayload, LicenseCheck, LicenseErrorDetail, LicenseInfo, MarkAuditFlag, PatternStage, PlaybackProvider, PlaylistRef, PlayerCardEntry, PlayerCardsDeltaPayload, VerificationQueueEntry, WinnerPolicy } from '../socketProtocol';
 import { API_BASE, SOCKET_URL } from '../config';
 import { hostFetch, getHostJwt, setHostJwt, clearHostJwt, apiOrigin, browserGoogleLoginUrl } from '../utils/hostFetch';
 import { BingoPattern, PATTERN_OPTIONS, BINGO_PATTERNS, getPatternDisplayName, getSavedCustomPatterns, saveCustomPattern, SavedCustomPattern } from '../patternDefinitions';
@@ -48,9 +49,21 @@ import CustomPatternModal from './CustomPatternModal';
 import SongTitleEditModal from './SongTitleEditModal';
 import HostAcknowledgeModal, { type HostAckVariant } from './HostAcknowledgeModal';
 import RoundPlanner from './RoundPlanner';
+import PlayerProfilesSection from './PlayerProfilesSection';
+import CallHistoryPanel from './CallHistoryPanel';
+import DuplicateSongsPanel, { keptCopyId } from './DuplicateSongsPanel';
 import { SpotifyExplicitBadge } from './SpotifyExplicitBadge';
 import { cleanSongTitle } from '../utils/songTitleCleaner';
+import { findDuplicateGroups, songMatchKeys, type MatchableSong } from '../utils/songDuplicates';
 import { validateSongTitle, validateSongTitleSync, getValidationMessage, getValidationColor } from '../utils/songTitleValidator';
+import {
+  LOCAL_DEVICE_ID,
+  createLocalAudioPlayer,
+  loadLocalLibrary,
+  releaseLocalLibrary,
+  type LocalAudioPlayer,
+  type LocalLibrary,
+} from '../utils/localAudio';
 import './HostView.css';
 
 interface Playlist {
@@ -103,6 +116,8 @@ interface Song {
   duration?: number; // Make duration optional
   /** Spotify: track has explicit content */
   explicit?: boolean;
+  /** Spotify: recording id shared by every release of the track */
+  isrc?: string | null;
   sourcePlaylistId?: string;
   sourcePlaylistName?: string;
 }
@@ -116,6 +131,21 @@ interface EventRound {
   status: 'completed' | 'active' | 'planned' | 'unplanned';
   startedAt?: number;
   completedAt?: number;
+  winnerPolicy?: WinnerPolicy;
+  stages?: PatternStage[];
+}
+
+/** One row of GET /api/rooms: only rooms this host owns, or their organization's rooms for org admins. */
+interface RoomListing {
+  id: string;
+  playerCount: number;
+  gameState: string;
+  started: boolean;
+  currentSong: { id: string; name: string; artist: string } | null;
+  ownerUserId: number | null;
+  ownerName: string | null;
+  organizationId: number | null;
+  organizationName: string | null;
 }
 
 interface Player {
@@ -150,14 +180,52 @@ function isBingoFreeSpaceSquare(square: { isFreeSpace?: boolean; songId?: string
   return !!(square && (square.isFreeSpace || square.songId === '__FREE_SPACE__'));
 }
 
-/** Stable fingerprint for host player-card payloads so we detect mark changes, not only played-song count. */
-function hostPlayerCardSnapshot(cardData: { card?: { squares?: Array<{ position?: string; marked?: boolean }> }; playedSongs?: string[] }) {
-  const played = [...(cardData.playedSongs || [])].sort().join(',');
-  const marks = (cardData.card?.squares || [])
-    .map((s) => `${s.position ?? ''}:${s.marked ? 1 : 0}`)
-    .sort()
-    .join('|');
-  return `${played}#${marks}`;
+/** A player's card as the host grid shows it: the synced entry plus the room's played songs. */
+type HostPlayerCard = PlayerCardEntry & { playedSongs: string[] };
+
+/** Apply a `player-cards-delta`; only the entries it touches get new objects. */
+function applyPlayerCardsDelta(
+  prev: Map<string, HostPlayerCard>,
+  delta: PlayerCardsDeltaPayload,
+  playedSongs: string[]
+): Map<string, HostPlayerCard> {
+  const next = new Map(prev);
+  if (delta.playedSongs || delta.calls?.length) {
+    next.forEach((entry, playerId) => next.set(playerId, { ...entry, playedSongs }));
+  }
+  (delta.removed || []).forEach((playerId) => next.delete(playerId));
+  Object.entries(delta.cards || {}).forEach(([playerId, entry]) => {
+    next.set(playerId, { ...entry, playerName: entry.playerName || 'Unknown', squaresToGo: entry.squaresToGo ?? null, playedSongs });
+  });
+  const marksByPlayer = new Map<string, Map<string, boolean>>();
+  (delta.marks || []).forEach(({ playerId, position, marked }) => {
+    const marks = marksByPlayer.get(playerId) || new Map<string, boolean>();
+    marks.set(position, marked);
+    marksByPlayer.set(playerId, marks);
+  });
+  marksByPlayer.forEach((marks, playerId) => {
+    const entry = next.get(playerId);
+    if (!entry) return;
+    const squares = entry.card.squares.map((sq) => {
+      const marked = marks.get(sq.position);
+      return marked === undefined ? sq : { ...sq, marked };
+    });
+    next.set(playerId, { ...entry, card: { ...entry.card, squares } });
+  });
+  Object.entries(delta.squaresToGo || {}).forEach(([playerId, squaresToGo]) => {
+    const entry = next.get(playerId);
+    if (entry) next.set(playerId, { ...entry, squaresToGo });
+  });
+  return next;
+}
+
+/** Closest to the pattern first (server `squaresToGo`, in calls); cards without a distance go last. */
+function byCloseness<T extends { playerName: string; squaresToGo?: number | null }>(entries: Array<[string, T]>) {
+  return [...entries].sort(([, a], [, b]) => {
+    const da = a.squaresToGo ?? Infinity;
+    const db = b.squaresToGo ?? Infinity;
+    return da !== db ? da - db : a.playerName.localeCompare(b.playerName);
+  });
 }
 
 /** Spotify may return HTML in playlist descriptions; strip tags for display. */
@@ -189,6 +257,31 @@ function applyPlaylistExplicitKnowledge(
 /** Persisted before Spotify/Google redirects so return URL without ?name= still shows the right host label. */
 const HOST_DISPLAY_NAME_KEY = 'tempo_host_display_name';
 
+/** A player-card resync that got no snapshot by then may be asked for again. */
+const PLAYER_CARDS_RESYNC_TIMEOUT_MS = 5000;
+
+/** Host-facing explanation for each license check the server can fail (server/licenses.js). */
+const LICENSE_CHECK_HELP: Record<LicenseCheck, string> = {
+  missing: 'This server requires a license key to host. Enter the key your organization was issued.',
+  not_configured: 'The server has no license public key configured, so keys cannot be checked. Ask your TEMPO administrator.',
+  format: 'That is not a TEMPO license key. Paste the whole key, starting with "TEMPO.".',
+  signature: 'The key failed its signature check: it was mistyped, altered, or issued for a different TEMPO server.',
+  expired: 'This license has expired. Contact your TEMPO provider to renew it.',
+  room_limit: 'Your organization already has its maximum number of rooms open. End a game in another room and try again.',
+};
+
+/** What each invitable role can do; the server enforces the same split (server/hostRoles.js). */
+const COHOST_ROLE_LABELS: Record<CohostRole, { label: string; help: string }> = {
+  cohost: { label: 'Co-host', help: 'Everything except managing co-hosts' },
+  verifier: { label: 'Verifier', help: 'Checks phone and paper bingos' },
+  dj: { label: 'DJ', help: 'Music and public display controls' },
+};
+
+function describeLicenseError(detail: LicenseErrorDetail): string {
+  const help = LICENSE_CHECK_HELP[detail.check];
+  return help ? `${help} (${detail.message})` : detail.message;
+}
+
 /** Spotify playlist ids are strings; rounds/API may store numbers — normalize for Set lookups. */
 function normalizeSpotifyPlaylistId(id: unknown): string {
   if (id == null || id === '') return '';
@@ -199,6 +292,7 @@ function normalizeSpotifyPlaylistId(id: unknown): string {
 function filterBasePlaylistsForMix(playlists: Playlist[], showAllPlaylists: boolean): Playlist[] {
   if (!showAllPlaylists) {
     return playlists.filter((p: Playlist) => {
+      if (p.id.startsWith('local-pl:')) return true;
       const nameLower = p.name.toLowerCase();
       if (nameLower.includes('game of tones output') || nameLower.includes('gameoftones output')) {
         return false;
@@ -212,10 +306,13 @@ function filterBasePlaylistsForMix(playlists: Playlist[], showAllPlaylists: bool
 }
 
 const HostView: React.FC = () => {
-  const { roomId } = useParams<{ roomId: string }>();
+  const { roomId: roomIdParam } = useParams<{ roomId: string }>();
+  const roomId = roomIdParam || '';
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
-  const hostPlayerName = searchParams.get('name')?.trim() || 'Host';
+  /** Set when opened from a co-host invite: join as staff with that code instead of as the host. */
+  const cohostCode = (searchParams.get('cohost') || '').trim().toUpperCase();
+  const hostPlayerName = searchParams.get('name')?.trim() || (cohostCode ? 'Co-host' : 'Host');
 
   useEffect(() => {
     if (!roomId) return;
@@ -242,7 +339,7 @@ const HostView: React.FC = () => {
       return Math.random().toString(36).slice(2);
     }
   });
-  const [socket, setSocket] = useState<any>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [gameState, setGameState] = useState<'waiting' | 'playing' | 'ended'>('waiting');
   const [currentSong, setCurrentSong] = useState<Song | null>(null);
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
@@ -255,6 +352,11 @@ const HostView: React.FC = () => {
   const [isSpotifyConnected, setIsSpotifyConnected] = useState(false);
   const [isSpotifyConnecting, setIsSpotifyConnecting] = useState(false);
   const [pendingVerification, setPendingVerification] = useState<any>(null);
+  /** Claims waiting for a decision, first come first served; the modal shows the head. */
+  const [verificationQueue, setVerificationQueue] = useState<VerificationQueueEntry[]>([]);
+  /** The room's calls now, next to the claim's frozen calls in the verification modal. */
+  const [verificationCalls, setVerificationCalls] = useState<CallSnapshot | null>(null);
+  const [showCallHistory, setShowCallHistory] = useState<boolean>(false);
   const [gamePaused, setGamePaused] = useState(false);
   const [mixFinalized, setMixFinalized] = useState(false);
   const [spotifyError, setSpotifyError] = useState<string | null>(null);
@@ -319,6 +421,8 @@ const HostView: React.FC = () => {
   const [showSongTitleModal, setShowSongTitleModal] = useState(false);
   const [editingSong, setEditingSong] = useState<{id: string, title: string, artist: string} | null>(null);
   const [customSongTitles, setCustomSongTitles] = useState<Record<string, string>>({});
+  const [customSongTitleScopes, setCustomSongTitleScopes] = useState<Record<string, CustomTitleScope>>({});
+  const [customTitleOrganizationName, setCustomTitleOrganizationName] = useState<string | null>(null);
   const [showSetup, setShowSetup] = useState<boolean>(false);
   const [preQueueEnabled, setPreQueueEnabled] = useState<boolean>(false);
   const [preQueueWindow, setPreQueueWindow] = useState<number>(5);
@@ -334,9 +438,20 @@ const HostView: React.FC = () => {
   const [playedInOrder, setPlayedInOrder] = useState<Array<{ id: string; name: string; artist: string }>>([]);
   const [superStrict, setSuperStrict] = useState<boolean>(false);
   const [showRooms, setShowRooms] = useState<boolean>(false);
-  const [rooms, setRooms] = useState<Array<any>>([]);
-  const [playerCards, setPlayerCards] = useState<Map<string, any>>(new Map());
-  const [playerCardsVersion, setPlayerCardsVersion] = useState<number>(0); // Force re-render trigger
+  const [rooms, setRooms] = useState<RoomListing[]>([]);
+  const [roomsError, setRoomsError] = useState<string | null>(null);
+  /** Our role when joined with a co-host code; null for the host. */
+  const [cohostRole, setCohostRole] = useState<CohostRole | null>(null);
+  const [cohostRoster, setCohostRoster] = useState<CohostRosterPayload | null>(null);
+  const [newCohostRole, setNewCohostRole] = useState<CohostRole>('cohost');
+  /** Event leaderboard (points across rounds, keyed by player clientId on the server). */
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPayload | null>(null);
+  /** Server-side bingo detection: nudge players or claim for them (auto) after the grace period. */
+  const [autoBingo, setAutoBingo] = useState<AutoBingoSettings>({ mode: 'off', graceSeconds: 10 });
+  /** Seed of the current card deal; the signed manifest lets a disputed card be regenerated later. */
+  const [cardDeal, setCardDeal] = useState<CardDealSummary | null>(null);
+  const [playerCards, setPlayerCards] = useState<Map<string, HostPlayerCard>>(new Map());
+  const [playerCardsVersion, setPlayerCardsVersion] = useState<number>(0); // Bumped per snapshot to rebuild the grid
   const [playerCardsFullscreen, setPlayerCardsFullscreen] = useState<boolean>(false);
   /** When overlay is open: false = centered modal, true = viewport-filling panel */
   const [playerCardsMaximized, setPlayerCardsMaximized] = useState<boolean>(false);
@@ -389,6 +504,10 @@ const HostView: React.FC = () => {
   useEffect(() => {
     eventRoundsRef.current = eventRounds;
   }, [eventRounds]);
+  // Server keeps the round plan for the results report (re-sent on room-joined)
+  useEffect(() => {
+    if (socket && roomId && !cohostCode) socket.emit('set-event-rounds', { roomId, rounds: eventRounds });
+  }, [socket, roomId, cohostCode, eventRounds]);
   const [currentRoundIndex, setCurrentRoundIndex] = useState<number>(-1);
   
   // License key management
@@ -397,7 +516,21 @@ const HostView: React.FC = () => {
     return saved || '';
   });
   const [licenseError, setLicenseError] = useState<string | null>(null);
+  const [licenseInfo, setLicenseInfo] = useState<LicenseInfo | null>(null);
+  const [licenseKeyDraft, setLicenseKeyDraft] = useState<string>(licenseKey);
   const [isJoiningRoom, setIsJoiningRoom] = useState<boolean>(false);
+  const [paperCardCount, setPaperCardCount] = useState<string>('20');
+  const [paperCardIdDraft, setPaperCardIdDraft] = useState<string>('');
+  const [isPrintingPaperCards, setIsPrintingPaperCards] = useState<boolean>(false);
+  /** 'local': songs come from a folder picked on this computer and play in this browser tab. */
+  const [playbackProvider, setPlaybackProvider] = useState<PlaybackProvider>('spotify');
+  const [localLibrarySummary, setLocalLibrarySummary] = useState<string | null>(null);
+  const [isLoadingLocalLibrary, setIsLoadingLocalLibrary] = useState<boolean>(false);
+  const localLibraryRef = useRef<LocalLibrary | null>(null);
+  const localPlayerRef = useRef<LocalAudioPlayer | null>(null);
+  const playbackProviderRef = useRef<PlaybackProvider>('spotify');
+  playbackProviderRef.current = playbackProvider;
+  const isLocalPlayback = playbackProvider === 'local';
   const [isLicenseValidated, setIsLicenseValidated] = useState<boolean>(false);
 
   /** Dev / audit trail - host log goes to browser console only */
@@ -456,7 +589,7 @@ const HostView: React.FC = () => {
     }
     
     // If we have a socket and room, try to rejoin with new license key
-    if (socket && roomId && newLicenseKey.trim()) {
+    if (socket && roomId && newLicenseKey.trim() && !cohostCode) {
       console.log('Attempting to join room with license key:', newLicenseKey.trim());
       setIsJoiningRoom(true);
       setLicenseError(null);
@@ -480,7 +613,7 @@ const HostView: React.FC = () => {
         }
       }, 10000); // 10 second timeout
     }
-  }, [socket, roomId, isJoiningRoom, licenseKey, hostPlayerName, clientId]);
+  }, [socket, roomId, cohostCode, isJoiningRoom, licenseKey, hostPlayerName, clientId]);
 
   // Advanced playback states
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
@@ -598,6 +731,8 @@ const HostView: React.FC = () => {
   }, [hostAckNotification]);
 
   const loadPlaylists = useCallback(async () => {
+    // Local-files mode lists the picked folder instead of the Spotify library
+    if (playbackProviderRef.current === 'local') return;
     try {
       const assignedForQuery = eventRoundsRef.current
         .flatMap((r) => r.playlistIds || [])
@@ -939,8 +1074,10 @@ const HostView: React.FC = () => {
     try {
       const res = await hostFetch(`${API_BASE || ''}/api/rooms`);
       const data = await res.json();
-      setRooms(Array.isArray(data?.rooms) ? data.rooms : []);
+      setRoomsError(res.ok ? null : data?.message || 'Sign in to see your rooms.');
+      setRooms(res.ok && Array.isArray(data?.rooms) ? data.rooms : []);
     } catch {
+      setRoomsError('Could not load rooms.');
       setRooms([]);
     }
   }, []);
@@ -1163,12 +1300,12 @@ const HostView: React.FC = () => {
     
     // Request all custom song titles
     if (socket) {
-      socket.emit('get-all-custom-titles');
+      socket.emit('get-all-custom-titles', { roomId });
     }
 
     // Initialize socket connection
     const hostJwt = getHostJwt();
-    const newSocket = io(SOCKET_URL || undefined, {
+    const newSocket: GameSocket = io(SOCKET_URL || undefined, {
       transports: ['websocket'],
       reconnection: true,
       reconnectionAttempts: Infinity,
@@ -1189,13 +1326,17 @@ const HostView: React.FC = () => {
     /** Set below; reconnect calls this after reset so host re-enters the room socket. */
     let emitHostJoinImpl: () => void = () => {};
 
-    // Auto-refresh host player-card snapshot (debounced; replaces manual Request Player Cards)
+    /** Joined with the 'verify' permission (host, co-host, verifier): only those get player cards. */
+    let playerCardAccess = false;
+
+    // Debounced full snapshot request, used after a reconnect; deltas keep the cards current otherwise
     let playerCardsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
     const schedulePlayerCardsRefresh = (delayMs = 500) => {
       if (!roomId) return;
       if (playerCardsRefreshTimer) clearTimeout(playerCardsRefreshTimer);
       playerCardsRefreshTimer = setTimeout(() => {
         playerCardsRefreshTimer = null;
+        if (!playerCardAccess) return;
         try {
           newSocket.emit('request-player-cards', { roomId });
         } catch {
@@ -1205,27 +1346,71 @@ const HostView: React.FC = () => {
     };
 
     // Socket event listeners
-    newSocket.on('player-joined', (data: any) => {
+    newSocket.on('player-joined', (data) => {
       console.log('Player joined:', data);
-      schedulePlayerCardsRefresh(450);
     });
-    newSocket.on('prequeue-updated', (data: any) => {
+    newSocket.on('prequeue-updated', (data) => {
       setPreQueueEnabled(!!data?.enabled);
       if (typeof data?.window === 'number') setPreQueueWindow(data.window);
       addLog(`Pre-queue ${data?.enabled ? 'enabled' : 'disabled'} (window=${data?.window ?? preQueueWindow})`, 'info');
     });
 
     // Bingo verification: single handler (avoid duplicate listeners / double state updates)
-    newSocket.on('bingo-verification-needed', (data: any) => {
+    newSocket.on('bingo-verification-needed', (data) => {
       console.log('?? Bingo verification needed:', data?.playerName);
-      setPendingVerification(data);
+      // A claim already on screen stays there; the queue decides what comes next
+      setPendingVerification((current: any) => current || data);
       setGamePaused(true);
       addLog(`?? ${data.playerName} called BINGO - verification needed!`, 'warn');
       playHostAlertSound();
-      schedulePlayerCardsRefresh(120);
     });
 
-    newSocket.on('bingo-verified', (data: any) => {
+    newSocket.on('verification-queue', (data) => {
+      const entries = Array.isArray(data?.entries) ? data.entries : [];
+      setVerificationQueue(entries);
+      setVerificationCalls(data?.calls ?? null);
+      setPendingVerification(entries[0]?.verificationData ?? null);
+    });
+
+    newSocket.on('paper-card-error', (data) => {
+      showToast(data.message, 'error');
+      addLog(`Paper card check failed (${data.code}): ${data.cardId}`, 'warn');
+    });
+
+    newSocket.on('playback-provider-updated', (data) => {
+      setPlaybackProvider(data.provider);
+    });
+
+    // Local-files rooms: the server schedules songs, this tab plays them
+    newSocket.on('local-playback', (data) => {
+      if (!localPlayerRef.current) localPlayerRef.current = createLocalAudioPlayer();
+      const player = localPlayerRef.current;
+      try {
+        if (data.action === 'play') {
+          const track = data.trackId ? localLibraryRef.current?.tracksById.get(data.trackId) : undefined;
+          if (!track) {
+            showToast('Local file not loaded in this tab — choose the music folder again.', 'error');
+            addLog(`Local track missing: ${data.trackId}`, 'error');
+            return;
+          }
+          player.play(track.url, data.startMs || 0).catch((e) => {
+            addLog(`Local playback failed: ${e?.message || e}`, 'error');
+          });
+        } else if (data.action === 'pause') {
+          player.pause();
+        } else if (data.action === 'resume') {
+          player.resume().catch(() => {});
+        } else if (data.action === 'seek' && typeof data.positionMs === 'number') {
+          player.seek(data.positionMs);
+        } else if (data.action === 'volume' && typeof data.volume === 'number') {
+          player.setVolume(data.volume);
+        }
+      } catch (e: any) {
+        addLog(`Local playback command ${data.action} failed: ${e?.message || e}`, 'error');
+      }
+    });
+
+    newSocket.on('bingo-verified', (data) => {
       if (verificationTimeoutRef.current) {
         clearTimeout(verificationTimeoutRef.current);
         verificationTimeoutRef.current = null;
@@ -1233,6 +1418,13 @@ const HostView: React.FC = () => {
       console.log('Bingo verified:', data);
       setPendingVerification(null);
       setIsProcessingVerification(false);
+      const check = data.snapshotCheck;
+      if (check && check.claimTime.valid !== check.approvalTime.valid) {
+        addLog(
+          `${data.playerName}: card ${check.claimTime.valid ? 'complete' : 'incomplete'} with the ${check.claimTime.callCount} calls at claim time, ${check.approvalTime.valid ? 'complete' : 'incomplete'} with ${check.approvalTime.callCount} now — judged on claim time`,
+          'warn'
+        );
+      }
 
       if (data.error === 'player_not_found' || data.error === 'no_room' || data.error === 'not_host') {
         addLog(data.reason || 'Could not complete verification.', 'error');
@@ -1252,16 +1444,26 @@ const HostView: React.FC = () => {
           setGameState('ended');
           setIsPlaying(false);
           setGamePaused(false);
+        } else if (data.stageComplete) {
+          // Progressive round: the server switches pattern and resumes calling by itself
+          addLog(data.message || `Stage won by ${data.playerName}`, 'info');
+        } else if (data.tiebreak) {
+          addLog(data.message || `Tie-break: ${data.playerName}`, 'info');
+          // Sudden death plays on; a draw keeps the game paused until the round completes
+          setGamePaused(data.tiebreak.mode === 'draw');
+        } else if (data.awaitingClaims) {
+          addLog(data.message || `Bingo approved for ${data.playerName} - more claims to check`, 'info');
         } else {
           addLog(`? Bingo approved for ${data.playerName}`, 'info');
         }
       } else {
         addLog(`? Bingo rejected for ${data.playerName}: ${data.reason || 'Invalid pattern'}`, 'warn');
-        setGamePaused(false);
+        // Other claims on the same song keep the game paused until the host has seen them
+        if (!data.awaitingClaims) setGamePaused(false);
       }
     });
 
-    newSocket.on('game-started', (data: any) => {
+    newSocket.on('game-started', (data) => {
       console.log('?? GAME-STARTED EVENT RECEIVED:', data);
       setGameState('playing');
       console.log('?? SET GAME STATE TO PLAYING');
@@ -1270,14 +1472,13 @@ const HostView: React.FC = () => {
       addLog('Game started - state set to playing', 'info');
       // Auto-collapse lists during gameplay
       setShowSongList(false);
-      schedulePlayerCardsRefresh(800);
     });
 
     // Receive the finalized shuffled order for 5x15
-    newSocket.on('finalized-order', (data: any) => {
+    newSocket.on('finalized-order', (data) => {
       try {
         const arr = Array.isArray(data?.order)
-          ? data.order.map((o: any) => ({
+          ? data.order.map((o) => ({
               id: o.id,
               name: o.name,
               artist: o.artist,
@@ -1293,7 +1494,7 @@ const HostView: React.FC = () => {
       }
     });
 
-    newSocket.on('song-playing', (data: any) => {
+    newSocket.on('song-playing', (data) => {
       setCurrentSong({
         id: data.songId,
         name: data.songName,
@@ -1311,7 +1512,7 @@ const HostView: React.FC = () => {
           artist: data.artistName,
           explicit: data.explicit === true,
         },
-        duration: data.snippetLength * 1000, // Convert to milliseconds
+        duration: (data.snippetLength ?? 30) * 1000, // Convert to milliseconds
         currentTime: 0
       }));
       setPlayedInOrder(prev => {
@@ -1330,11 +1531,10 @@ const HostView: React.FC = () => {
       setTimeout(() => {
         syncVolumeToSpotify();
       }, 500);
-      schedulePlayerCardsRefresh(550);
     });
 
     // Handle bingo verification pending
-    newSocket.on('bingo-verification-pending', (data: any) => {
+    newSocket.on('bingo-verification-pending', (data) => {
       console.log('Bingo verification pending:', data.playerName);
         setGamePaused(true);
         // Play alert sound for host
@@ -1342,16 +1542,16 @@ const HostView: React.FC = () => {
     });
 
     // Handle confirmed bingo wins (for winner tracking)
-    newSocket.on('bingo-called', (data: any) => {
+    newSocket.on('bingo-called', (data) => {
       // Only update winners list if this is a verified bingo
       if (data.verified && !data.awaitingVerification) {
-        setWinners(prev => [...prev, data]);
+        setWinners(prev => [...prev, { id: data.playerId, name: data.playerName, isHost: false, hasBingo: true }]);
         console.log('Bingo confirmed for:', data.playerName);
       }
     });
 
     // Handle round-complete event (sent to all clients)
-    newSocket.on('round-complete', (data: any) => {
+    newSocket.on('round-complete', (data) => {
       console.log('Round complete event received:', data);
       if (data.roundWinners) {
         setRoundWinners(data.roundWinners);
@@ -1368,15 +1568,25 @@ const HostView: React.FC = () => {
     });
 
     // Custom song title events
-    newSocket.on('custom-song-title-updated', (data: any) => {
-      setCustomSongTitles(prev => ({
-        ...prev,
-        [data.songId]: data.customTitle
-      }));
+    newSocket.on('custom-song-title-updated', (data) => {
+      setCustomSongTitles(prev => {
+        const next = { ...prev };
+        if (data.customTitle) next[data.songId] = data.customTitle;
+        else delete next[data.songId];
+        return next;
+      });
+      setCustomSongTitleScopes(prev => {
+        const next = { ...prev };
+        if (data.scope) next[data.songId] = data.scope;
+        else delete next[data.songId];
+        return next;
+      });
     });
 
-    newSocket.on('all-custom-titles-response', (data: any) => {
-      setCustomSongTitles(data);
+    newSocket.on('all-custom-titles-response', (data) => {
+      setCustomSongTitles(data?.titles || {});
+      setCustomSongTitleScopes(data?.scopes || {});
+      setCustomTitleOrganizationName(data?.organizationName || null);
     });
 
     newSocket.on('game-ended', () => {
@@ -1386,7 +1596,7 @@ const HostView: React.FC = () => {
       void disconnectSpotify();
     });
 
-    newSocket.on('game-restarted', (data: any) => {
+    newSocket.on('game-restarted', (data) => {
       console.log('Game restarted:', data);
       // Reset host state
       setWinners([]);
@@ -1399,7 +1609,7 @@ const HostView: React.FC = () => {
       addLog('Game restarted by host', 'info');
     });
 
-    newSocket.on('song-replaced', (data: any) => {
+    newSocket.on('song-replaced', (data) => {
       console.log('Song replaced:', data);
       // Update the song list with the new song
       setSongList(prev => {
@@ -1426,7 +1636,7 @@ const HostView: React.FC = () => {
     });
 
     // NEW: Handle next round reset (back to setup)
-    newSocket.on('next-round-reset', (data: any) => {
+    newSocket.on('next-round-reset', (data) => {
       console.log('Next round reset to setup:', data);
       // CRITICAL: Clear round complete modal and pending verification
       setRoundComplete(null);
@@ -1461,7 +1671,7 @@ const HostView: React.FC = () => {
     });
 
     // NEW: Handle game session ended
-    newSocket.on('game-session-ended', (data: any) => {
+    newSocket.on('game-session-ended', (data) => {
       console.log('Game session ended:', data);
       setRoundComplete(null);
       setGameState('ended');
@@ -1471,9 +1681,21 @@ const HostView: React.FC = () => {
         setRoundWinners(data.roundWinners);
       }
       addLog(`Game session ended after ${data.totalRounds} rounds`, 'info');
+      if (Array.isArray(data.leaderboard) && data.leaderboard.length) {
+        const top = data.leaderboard.slice(0, 3).map((p) => `${p.rank}. ${p.playerName} (${p.points})`).join(', ');
+        addLog(`Final leaderboard: ${top} — full standings are in the results export`, 'info');
+      }
+    });
+
+    newSocket.on('auto-bingo-updated', ({ mode, graceSeconds }) => {
+      setAutoBingo({ mode, graceSeconds });
     });
 
-    newSocket.on('sync-state-response', (data: any) => {
+    newSocket.on('leaderboard-updated', (data) => {
+      setLeaderboard(data);
+    });
+
+    newSocket.on('sync-state-response', (data) => {
       console.log('Sync state response:', data);
       if (data.gameState) {
         setGameState(data.gameState);
@@ -1487,43 +1709,45 @@ const HostView: React.FC = () => {
       }
     });
 
-    newSocket.on('player-left', (data: any) => {
+    newSocket.on('player-left', (data) => {
       console.log('Player left:', data);
     });
 
-    newSocket.on('super-strict-updated', (data: any) => {
+    newSocket.on('super-strict-updated', (data) => {
       setSuperStrict(!!data?.enabled);
       addLog(`Super-Strict Lock ${data?.enabled ? 'enabled' : 'disabled'}`, 'warn');
     });
 
-    newSocket.on('hybrid-mode-updated', (data: any) => {
+    newSocket.on('hybrid-mode-updated', (data) => {
       if (typeof data?.hybridInPersonPlusOnline === 'boolean') {
         setHybridInPersonPlusOnline(data.hybridInPersonPlusOnline);
       }
     });
 
     // Listen for pattern updates
-    newSocket.on('pattern-updated', (data: any) => {
+    newSocket.on('pattern-updated', (data) => {
       if (data?.pattern) {
         setPattern(data.pattern);
         addLog(`Pattern updated to ${data.pattern}`, 'info');
       }
     });
 
-    newSocket.on('public-display-font-size-updated', (data: any) => {
+    newSocket.on('public-display-font-size-updated', (data) => {
       if (typeof data?.fontSize === 'number') {
         setPublicDisplayFontSize(data.fontSize);
       }
     });
 
-    newSocket.on('public-display-call-list-mode-updated', (data: any) => {
+    newSocket.on('public-display-call-list-mode-updated', (data) => {
       const m = data?.mode;
       if (m === 'grouped' || m === '5x15' || m === 'auto') {
         setPublicDisplayCallListMode(m);
       }
     });
 
-    newSocket.on('room-state', (payload: any) => {
+    newSocket.on('room-state', (payload) => {
+      if (payload?.autoBingo) setAutoBingo(payload.autoBingo);
+      if (payload && 'cardDeal' in payload) setCardDeal(payload.cardDeal || null);
       if (
         payload?.publicDisplayCallListMode === 'grouped' ||
         payload?.publicDisplayCallListMode === '5x15' ||
@@ -1536,69 +1760,66 @@ const HostView: React.FC = () => {
       }
     });
 
-    newSocket.on('fiveby15-pool', (data: any) => {
+    newSocket.on('card-deal', (deal) => {
+      setCardDeal(deal);
+    });
+
+    newSocket.on('fiveby15-pool', (data) => {
       if (Array.isArray(data?.names) && data.names.length === 5) {
         setBingoColumnPlaylistNames(data.names);
       }
     });
 
-    // Listen for player card updates
-    newSocket.on('player-cards-update', (data: any) => {
-      try {
-        console.log('?? Received player-cards-update:', data);
-        if (data && typeof data === 'object') {
-          const newPlayerCards = new Map();
-          Object.entries(data).forEach(([playerId, cardData]: [string, any]) => {
-            if (cardData && cardData.card) {
-              console.log(`?? Host received player card for ${cardData.playerName}:`, {
-                playedSongs: cardData.playedSongs,
-                playedSongsLength: cardData.playedSongs?.length || 0,
-                cardSquares: cardData.card.squares?.length || 0
-              });
-              newPlayerCards.set(playerId, {
-                playerName: cardData.playerName || 'Unknown',
-                card: cardData.card,
-                playedSongs: cardData.playedSongs || [] // Ensure playedSongs is included
-              });
-            }
-          });
-          setPlayerCards((prev) => {
-            let hasChanged =
-              prev.size !== newPlayerCards.size ||
-              Array.from(newPlayerCards.keys()).some((id) => {
-                const old = prev.get(id);
-                const updated = newPlayerCards.get(id);
-                if (!old || !updated) return true;
-                return hostPlayerCardSnapshot(old) !== hostPlayerCardSnapshot(updated);
-              });
-            if (!hasChanged) {
-              const removed = Array.from(prev.keys()).some((id) => !newPlayerCards.has(id));
-              if (removed) hasChanged = true;
-            }
-            if (!hasChanged) return prev;
-            console.log('?? Updating playerCards map:', newPlayerCards.size, 'cards (was', prev.size, ')');
-            if (prev.size === 0 && newPlayerCards.size > 0) {
-              showToast(`Player cards loaded: ${newPlayerCards.size} players`, 'success');
-            }
-            setPlayerCardsVersion((v) => v + 1);
-            return newPlayerCards;
-          });
+    // Player cards: one snapshot, then versioned deltas (server/playerCardSync.js). A gap in the
+    // versions, or a new syncId after a server restart, drops the delta and asks for a snapshot.
+    let cardSync: { syncId: string; version: number; playedSongs: string[] } | null = null;
+    // Set while a resync is in flight; cleared by the snapshot, a refusal, or after PLAYER_CARDS_RESYNC_TIMEOUT_MS
+    let cardResyncTimer: ReturnType<typeof setTimeout> | null = null;
+    const clearCardResync = () => {
+      if (cardResyncTimer) clearTimeout(cardResyncTimer);
+      cardResyncTimer = null;
+    };
+    const resyncPlayerCards = () => {
+      if (cardResyncTimer || !roomId || !playerCardAccess) return;
+      cardResyncTimer = setTimeout(() => {
+        cardResyncTimer = null;
+      }, PLAYER_CARDS_RESYNC_TIMEOUT_MS);
+      newSocket.emit('request-player-cards', { roomId });
+    };
 
-          requestAnimationFrame(() => {
-            requestAnimationFrame(() => {
-              const element = document.querySelector('.player-cards-section');
-              console.log('?? Post-update DOM check (.player-cards-section):', element ? 'FOUND' : 'NOT FOUND');
-            });
-          });
-        } else {
-          console.log('?? No valid player cards data received');
+    newSocket.on('player-cards-snapshot', (data) => {
+      if (data.roomId !== roomId) return;
+      clearCardResync();
+      cardSync = { syncId: data.syncId, version: data.version, playedSongs: data.playedSongs || [] };
+      const playedSongs = cardSync.playedSongs;
+      const next = new Map<string, HostPlayerCard>();
+      Object.entries(data.cards || {}).forEach(([playerId, entry]) => {
+        next.set(playerId, { ...entry, playerName: entry.playerName || 'Unknown', squaresToGo: entry.squaresToGo ?? null, playedSongs });
+      });
+      setPlayerCards((prev) => {
+        if (prev.size === 0 && next.size > 0) {
+          showToast(`Player cards loaded: ${next.size} players`, 'success');
         }
-      } catch (e) {
-        console.warn('Failed to parse player cards:', e);
+        return next;
+      });
+      setPlayerCardsVersion((v) => v + 1);
+    });
+
+    newSocket.on('player-cards-delta', (delta) => {
+      if (delta.roomId !== roomId) return;
+      if (!cardSync || delta.syncId !== cardSync.syncId || delta.version > cardSync.version + 1) {
+        resyncPlayerCards();
+        return;
       }
+      if (delta.version <= cardSync.version) return; // already part of the snapshot
+      cardSync.version = delta.version;
+      if (delta.playedSongs) cardSync.playedSongs = delta.playedSongs;
+      if (delta.calls?.length) cardSync.playedSongs = [...cardSync.playedSongs, ...delta.calls];
+      const playedSongs = cardSync.playedSongs;
+      setPlayerCards((prev) => applyPlayerCardsDelta(prev, delta, playedSongs));
     });
 
-    newSocket.on('playback-update', (data: any) => {
+    newSocket.on('playback-update', (data) => {
       setPlaybackState(prev => ({
         ...prev,
         currentTime: data.currentTime,
@@ -1607,7 +1828,7 @@ const HostView: React.FC = () => {
       }));
     });
 
-    newSocket.on('queue-update', (data: any) => {
+    newSocket.on('queue-update', (data) => {
       setPlaybackState(prev => ({
         ...prev,
         queue: data.queue,
@@ -1615,7 +1836,7 @@ const HostView: React.FC = () => {
       }));
     });
 
-    newSocket.on('error', (data: any) => {
+    newSocket.on('error', (data) => {
       const msg = data?.message || 'Unknown server error';
       console.error('Socket error:', msg);
       setIsStartingGame(false);
@@ -1623,12 +1844,20 @@ const HostView: React.FC = () => {
       addLog(`Server error: ${msg}`, 'error');
     });
 
-    newSocket.on('connect_error', (err: any) => {
+    newSocket.on('protocol-error', (data) => {
+      console.error(`Server rejected ${data.event}:`, data.issues);
+      setIsStartingGame(false);
+      addLog(`Server rejected ${data.event}: ${data.message}`, 'error');
+    });
+
+    newSocket.on('connect_error', (err) => {
       console.error('Socket connect_error:', err?.message || err);
     });
 
     newSocket.on('disconnect', (reason: string) => {
       hostJoinEmitted = false;
+      playerCardAccess = false;
+      clearCardResync();
       console.warn('Socket disconnected:', reason);
       if (reason !== 'io client disconnect') {
         showToast('Connection lost - reconnecting...', 'warn');
@@ -1669,7 +1898,7 @@ const HostView: React.FC = () => {
         }, 1000);
       })();
     });
-    newSocket.io.on('reconnect_error', (err: any) => {
+    newSocket.io.on('reconnect_error', (err) => {
       console.warn('Reconnection error:', err?.message || err);
     });
 
@@ -1684,7 +1913,7 @@ const HostView: React.FC = () => {
       console.log('?? Game reset');
     });
 
-    newSocket.on('playback-error', (data: any) => {
+    newSocket.on('playback-error', (data) => {
       const msg = data?.message || 'Playback error: Could not start on locked device.';
       const type = data?.type || 'general';
       const suggestions = data?.suggestions || [];
@@ -1702,7 +1931,7 @@ const HostView: React.FC = () => {
       addLog(`Playback error: ${msg}`, 'error');
     });
 
-    newSocket.on('spotify-failsafe', (data: any) => {
+    newSocket.on('spotify-failsafe', (data) => {
       const msg =
         data?.message ||
         'Spotify was disconnected due to very high API traffic. Reconnect from the host when you are ready.';
@@ -1722,7 +1951,7 @@ const HostView: React.FC = () => {
       });
     });
 
-    newSocket.on('playback-warning', (data: any) => {
+    newSocket.on('playback-warning', (data) => {
       const msg = data?.message || 'Playback warning occurred';
       const type = data?.type || 'general';
       const suggestions = data?.suggestions || [];
@@ -1749,7 +1978,7 @@ const HostView: React.FC = () => {
       }
     });
 
-    newSocket.on('playback-diagnostic', (diag: any) => {
+    newSocket.on('playback-diagnostic', (diag) => {
       try {
         const payload = JSON.stringify(diag, null, 2);
         addLog(`Playback diagnostic: ${payload}`, 'warn');
@@ -1759,7 +1988,7 @@ const HostView: React.FC = () => {
     });
 
     // Handle 5x15 deduplication warnings
-    newSocket.on('mode-warning', (data: any) => {
+    newSocket.on('mode-warning', (data) => {
       const msg = data?.message || 'Mode warning occurred';
       console.warn('Mode warning:', msg);
       addLog(`Mode warning: ${msg}`, 'warn');
@@ -1783,13 +2012,13 @@ const HostView: React.FC = () => {
     });
 
     // Handle successful deduplication notifications
-    newSocket.on('deduplication-success', (data: any) => {
+    newSocket.on('deduplication-success', (data) => {
       if (data?.totalDuplicatesRemoved > 0) {
         const msg = `Removed ${data.totalDuplicatesRemoved} duplicate songs across playlists for 5x15 mode`;
         console.log('Deduplication success:', msg);
         addLog(`? ${msg}`, 'info');
         if (data?.playlistDetails && Array.isArray(data.playlistDetails)) {
-          data.playlistDetails.forEach((detail: any) => {
+          data.playlistDetails.forEach((detail) => {
             if (detail.duplicatesRemoved > 0) {
               addLog(`  ${detail.name}: ${detail.originalCount} ? ${detail.finalCount} songs (${detail.duplicatesRemoved} duplicates removed)`, 'info');
             }
@@ -1799,18 +2028,27 @@ const HostView: React.FC = () => {
     });
 
     // Acknowledge reveal events
-    newSocket.on('call-revealed', (data: any) => {
+    newSocket.on('call-revealed', (data) => {
       addLog(`Call revealed: ${data.hint || 'full'} ${data.songName ? '— ' + data.songName : ''} ${data.artistName ? '— ' + data.artistName : ''}`, 'info');
     });
 
     // Handle join errors (license key validation)
-    newSocket.on('join-error', (data: any) => {
+    newSocket.on('join-error', (data) => {
       console.log('Join error:', data);
-      setLicenseError(data.error || 'Failed to join room');
+      if (data.code === 'invalid_cohost_code') {
+        setIsJoiningRoom(false);
+        addLog(data.error, 'error');
+        alert(data.error);
+        navigate('/');
+        return;
+      }
+      setLicenseError(data.check ? describeLicenseError({ check: data.check, message: data.error }) : data.error || 'Failed to join room');
+      setLicenseInfo(null);
       setIsJoiningRoom(false);
+      setActiveTab('setup');
     });
 
-    newSocket.on('host-join-denied', (data: any) => {
+    newSocket.on('host-join-denied', (data) => {
       console.warn('host-join-denied:', data);
       setIsJoiningRoom(false);
       addLog(data.message || 'This room already has a host.', 'error');
@@ -1878,14 +2116,22 @@ const HostView: React.FC = () => {
     });
 
     // Handle successful room join
-    newSocket.on('room-joined', (data: any) => {
+    newSocket.on('room-joined', (data) => {
       console.log('Successfully joined room:', data);
       setIsJoiningRoom(false);
-      setLicenseError(null);
-      setIsLicenseValidated(true);
+      setLicenseError(data?.licenseError ? describeLicenseError(data.licenseError) : null);
+      setLicenseInfo(data?.license || null);
+      setIsLicenseValidated(!!data?.license);
+      setCohostRole(data?.cohostRole || null);
+      playerCardAccess = !data?.cohostRole || (data.permissions || []).includes('verify');
+      // The round plan belongs to the host; a co-host's local default must not overwrite it.
+      if (!data?.cohostRole) newSocket.emit('set-event-rounds', { roomId, rounds: eventRoundsRef.current });
       if (typeof data?.hybridInPersonPlusOnline === 'boolean') {
         setHybridInPersonPlusOnline(data.hybridInPersonPlusOnline);
       }
+      if (data?.playbackProvider) {
+        setPlaybackProvider(data.playbackProvider);
+      }
       addLog(`Joined room ${roomId} successfully`, 'info');
       
       // Force check Spotify status after joining room
@@ -1911,16 +2157,35 @@ const HostView: React.FC = () => {
       }, 1000);
     });
 
+    newSocket.on('cohost-roster', (data) => {
+      setCohostRoster(data);
+    });
+
+    newSocket.on('cohost-removed', () => {
+      alert('The host removed you from this room.');
+      navigate('/');
+    });
+
+    newSocket.on('permission-denied', (data) => {
+      if (data.event === 'request-player-cards') clearCardResync();
+      addLog(data.message, 'warn');
+    });
+
     // Join as host after the socket is connected so the handshake runs first; re-read JWT at emit time.
     const onConnectJoin = () => emitHostJoinImpl();
     emitHostJoinImpl = () => {
       if (!roomId || hostJoinEmitted) return;
       hostJoinEmitted = true;
-      console.log('?? License validation disabled - joining room as host');
+      if (cohostCode) {
+        newSocket.emit('join-room', { roomId, playerName: hostPlayerName, isHost: false, clientId, cohostCode });
+        return;
+      }
+      const savedLicenseKey = (localStorage.getItem('tempo-license-key') || '').trim();
       newSocket.emit('join-room', {
         roomId,
         playerName: hostPlayerName,
         isHost: true,
+        ...(savedLicenseKey ? { licenseKey: savedLicenseKey } : {}),
         clientId,
         hostSecret: '',
         hostToken: getHostJwt() || '',
@@ -1985,6 +2250,7 @@ const HostView: React.FC = () => {
     return () => {
       newSocket.off('connect', onConnectJoin);
       if (playerCardsRefreshTimer) clearTimeout(playerCardsRefreshTimer);
+      clearCardResync();
       newSocket.close();
       // Clear any pending volume timeout
       if (volumeTimeout) {
@@ -1997,6 +2263,7 @@ const HostView: React.FC = () => {
     loadPlaylists,
     loadDevices,
     hostPlayerName,
+    cohostCode,
     clientId,
     navigate,
     disconnectSpotify,
@@ -2122,6 +2389,108 @@ const HostView: React.FC = () => {
 
 
 
+  // Same song on several playlists (different releases): which copy to keep, and replacements for dropped copies
+  const [duplicateKeeps, setDuplicateKeeps] = useState<Record<string, string>>({});
+  const [duplicateReplacements, setDuplicateReplacements] = useState<Record<string, MatchableSong>>({});
+  const [suggestingReplacementFor, setSuggestingReplacementFor] = useState<string | null>(null);
+  const [duplicateMessage, setDuplicateMessage] = useState<string>('');
+
+  /** Songs in selected-playlist order, so a duplicate's first copy is the earliest playlist's (as the server's 5x15 dedup keeps it). */
+  const inPlaylistOrder = useCallback(
+    (songs: Song[]) => {
+      const rank = new Map(selectedPlaylists.map((p, i) => [p.id, i]));
+      const at = (s: Song) => rank.get(s.sourcePlaylistId || '') ?? selectedPlaylists.length;
+      return [...songs].sort((a, b) => at(a) - at(b));
+    },
+    [selectedPlaylists]
+  );
+
+  const duplicateGroups = useMemo(() => findDuplicateGroups(inPlaylistOrder(songList)), [songList, inPlaylistOrder]);
+
+  /** The list to finalize: one copy of each duplicated song, dropped copies swapped for their replacements. */
+  const applyDuplicateChoices = (songs: Song[]): Song[] => {
+    const dropped = new Set<string>();
+    for (const group of findDuplicateGroups(inPlaylistOrder(songs))) {
+      const kept = keptCopyId(group, duplicateKeeps);
+      group.copies.forEach((s) => {
+        if (s.id !== kept) dropped.add(s.id);
+      });
+    }
+    if (dropped.size === 0) return songs;
+    const ids = new Set(songs.map((s) => s.id));
+    const out: Song[] = [];
+    for (const song of songs) {
+      if (!dropped.has(song.id)) {
+        out.push(song);
+        continue;
+      }
+      const replacement = duplicateReplacements[song.id];
+      if (replacement && !ids.has(replacement.id)) {
+        ids.add(replacement.id);
+        out.push({ ...replacement, sourcePlaylistId: song.sourcePlaylistId, sourcePlaylistName: song.sourcePlaylistName });
+      }
+    }
+    addLog(`Duplicates across playlists: kept one copy of ${dropped.size} song(s)`, 'info');
+    return out;
+  };
+
+  /** Ask suggest-songs for a song for the dropped copy's playlist that is not already in the mix. */
+  const suggestDuplicateReplacement = async (dropped: MatchableSong) => {
+    const playlist = selectedPlaylists.find((p) => p.id === dropped.sourcePlaylistId);
+    if (!playlist) return;
+    setSuggestingReplacementFor(dropped.id);
+    setDuplicateMessage('');
+    try {
+      const existingSongs = songList
+        .filter((s) => s.sourcePlaylistId === playlist.id)
+        .map((s) => ({ id: s.id, name: s.name, artist: s.artist }));
+      const res = await hostFetch(`${API_BASE || ''}/api/spotify/suggest-songs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          playlistId: playlist.id,
+          playlistName: playlist.name,
+          existingSongs,
+          targetCount: existingSongs.length + 1,
+        }),
+      });
+      const d = (await res.json().catch(() => ({}))) as {
+        suggestions?: { songs?: Array<{ id: string; name: string; artist: string; duration_ms?: number; explicit?: boolean; isrc?: string | null }> };
+        error?: string;
+      };
+      if (!res.ok) {
+        setDuplicateMessage(d.error || 'Could not get suggestions.');
+        return;
+      }
+      // Skip anything that would itself be a duplicate of a song in the mix or an earlier replacement
+      const taken = new Set<string>();
+      [...songList, ...Object.values(duplicateReplacements)].forEach((s) => songMatchKeys(s).forEach((k) => taken.add(k)));
+      const pick = (d.suggestions?.songs || []).find(
+        (s) => !songList.some((x) => x.id === s.id) && !songMatchKeys(s).some((k) => taken.has(k))
+      );
+      if (!pick) {
+        setDuplicateMessage(`No new song found for "${playlist.name}". Keep the duplicate or add a song to the playlist.`);
+        return;
+      }
+      setDuplicateReplacements((prev) => ({
+        ...prev,
+        [dropped.id]: {
+          id: pick.id,
+          name: pick.name,
+          artist: pick.artist,
+          isrc: pick.isrc ?? null,
+          ...(typeof pick.duration_ms === 'number' ? { duration: pick.duration_ms } : {}),
+          ...(pick.explicit ? { explicit: true } : {}),
+        } as MatchableSong,
+      }));
+    } catch (error) {
+      console.error('Error suggesting a replacement:', error);
+      setDuplicateMessage('Could not get suggestions.');
+    } finally {
+      setSuggestingReplacementFor(null);
+    }
+  };
+
   /** True while finalizeMix is loading tracks or waiting on socket — blocks overlapping finalize (shared finalize generation ref) and debounced setlist rebuilds. */
   const finalizeMixInFlightRef = useRef(false);
 
@@ -2138,7 +2507,7 @@ const HostView: React.FC = () => {
 
     try {
       addLog('Loading tracks from playlists before finalizing…', 'info');
-      const listToSend = await generateSongList({ force: true, reason: 'finalize' });
+      const listToSend = applyDuplicateChoices(await generateSongList({ force: true, reason: 'finalize' }));
 
       if (listToSend.length === 0) {
         window.alert(
@@ -2194,7 +2563,7 @@ const HostView: React.FC = () => {
           resolve(false);
         };
 
-        const onFinalized = (data: any) => {
+        const onFinalized = (data: { playlists: PlaylistRef[] }) => {
           cleanup();
           console.log('Mix finalized:', data);
           setMixFinalized(true);
@@ -2228,7 +2597,7 @@ const HostView: React.FC = () => {
       return;
     }
 
-    if (!selectedDevice) {
+    if (!selectedDevice && !isLocalPlayback) {
       alert(
         'Please select a Spotify playback device first.\n\nOpen Connection (header button), pick a device in Playback device, or open Spotify on your target device and tap Refresh devices.'
       );
@@ -2240,7 +2609,7 @@ const HostView: React.FC = () => {
       return;
     }
 
-    if (!isSpotifyConnected) {
+    if (!isSpotifyConnected && !isLocalPlayback) {
       alert('Spotify is not connected. Open Connection in the header and connect Spotify first.');
       return;
     }
@@ -2281,7 +2650,7 @@ const HostView: React.FC = () => {
         roomId,
         playlists: selectedPlaylists,
         snippetLength,
-        deviceId: selectedDevice.id, // Require the selected device ID
+        deviceId: isLocalPlayback ? LOCAL_DEVICE_ID : selectedDevice?.id, // Require the selected device ID
         songList: songListForStart, // Send the shuffled song list to ensure server uses same order
         randomStarts,
         pattern,
@@ -2461,7 +2830,7 @@ const HostView: React.FC = () => {
           gap: compact ? 16 : 22
         }}
       >
-        {Array.from(playerCards.entries()).map(([playerId, playerData]) => (
+        {byCloseness(Array.from(playerCards.entries())).map(([playerId, playerData]) => (
           <div
             key={playerId}
             style={{
@@ -2482,6 +2851,11 @@ const HostView: React.FC = () => {
               }}
             >
               {playerData.playerName}
+              {playerData.squaresToGo === 1 && (
+                <span style={{ marginLeft: 8, color: '#ffaa00', fontSize: '0.8em' }} title="One call from the pattern">
+                  🔥 one away
+                </span>
+              )}
             </div>
 
             {(() => {
@@ -2836,9 +3210,9 @@ const HostView: React.FC = () => {
     setShowSongTitleModal(true);
   };
 
-  const handleSaveSongTitle = (songId: string, customTitle: string) => {
+  const handleSaveSongTitle = (songId: string, customTitle: string, scope: CustomTitleScope) => {
     if (socket) {
-      socket.emit('set-custom-song-title', { songId, customTitle });
+      socket.emit('set-custom-song-title', { roomId, songId, customTitle, scope });
     }
   };
 
@@ -3044,6 +3418,144 @@ const HostView: React.FC = () => {
     }
   };
 
+  /** Results export (GET /api/rooms/:roomId/report). HTML opens in a new tab for Print → Save as PDF. */
+  const downloadResultsReport = async (format: 'csv' | 'json' | 'html') => {
+    if (!roomId) return;
+    try {
+      const res = await hostFetch(`${API_BASE || ''}/api/rooms/${encodeURIComponent(roomId)}/report?format=${format}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        showToast(body?.message || `Could not export results (${res.status})`, 'error');
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      if (format === 'html') {
+        window.open(url, '_blank');
+      } else {
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `tempo-${roomId}-results.${format}`;
+        document.body.appendChild(a);
+        a.click();
+        a.remove();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      addLog(`Exported results (${format.toUpperCase()})`, 'info');
+    } catch (error) {
+      console.error('Error exporting results:', error);
+      showToast('Could not export results. Check your connection and try again.', 'error');
+    }
+  };
+
+  /** Signed card manifest for the current deal (check a card with tools/verify-card.js). */
+  const downloadCardManifest = async () => {
+    if (!roomId || !cardDeal) return;
+    try {
+      const res = await hostFetch(
+        `${API_BASE || ''}/api/rooms/${encodeURIComponent(roomId)}/card-manifest?seed=${encodeURIComponent(cardDeal.seed)}`
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        showToast(body?.message || `Could not export the card manifest (${res.status})`, 'error');
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `tempo-${roomId}-cards-${cardDeal.seed.slice(0, 8)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      addLog(`Exported card manifest (seed ${cardDeal.seed})`, 'info');
+    } catch (error) {
+      console.error('Error exporting card manifest:', error);
+      showToast('Could not export the card manifest. Check your connection and try again.', 'error');
+    }
+  };
+
+  const changePlaybackProvider = (next: PlaybackProvider) => {
+    if (next === playbackProvider) return;
+    if (mixFinalized || gameState === 'playing') {
+      showToast('Music source is locked once the mix is finalized', 'error');
+      return;
+    }
+    playbackProviderRef.current = next;
+    setPlaybackProvider(next);
+    setSelectedPlaylists([]);
+    setSongList([]);
+    setPlaylists(next === 'local' ? localLibraryRef.current?.playlists || [] : []);
+    if (next === 'spotify') void loadPlaylists();
+    socket?.emit('set-playback-provider', { roomId, provider: next });
+    addLog(`Music source: ${next === 'local' ? 'local files' : 'Spotify'}`, 'info');
+  };
+
+  const handleLocalFilesPicked = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsLoadingLocalLibrary(true);
+    try {
+      const library = await loadLocalLibrary(files);
+      if (library.playlists.length === 0) {
+        showToast('No audio files found in that selection', 'error');
+        return;
+      }
+      releaseLocalLibrary(localLibraryRef.current);
+      localLibraryRef.current = library;
+      setPlaylists(library.playlists);
+      setSelectedPlaylists((prev) => prev.filter((p) => library.tracksByPlaylist.has(p.id)));
+      setLocalLibrarySummary(
+        `${library.fileCount} audio file${library.fileCount === 1 ? '' : 's'} in ${library.playlists.length} playlist${library.playlists.length === 1 ? '' : 's'}`
+      );
+      addLog(`Loaded local library: ${library.fileCount} files, ${library.playlists.length} playlists`, 'info');
+    } catch (e: any) {
+      showToast(`Could not read local files: ${e?.message || e}`, 'error');
+    } finally {
+      setIsLoadingLocalLibrary(false);
+    }
+  };
+
+  /** Paper cards: POST prints a new batch, GET reprints every card registered for this mix. Opens printable HTML. */
+  const openPaperCards = async (mode: 'new' | 'reprint') => {
+    if (!roomId) return;
+    const count = Number(paperCardCount);
+    if (mode === 'new' && (!Number.isInteger(count) || count < 1)) {
+      showToast('Enter how many paper cards to print.', 'error');
+      return;
+    }
+    setIsPrintingPaperCards(true);
+    try {
+      const url = `${API_BASE || ''}/api/rooms/${encodeURIComponent(roomId)}/paper-cards`;
+      const res = await hostFetch(
+        url,
+        mode === 'new'
+          ? { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ count }) }
+          : undefined
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        showToast(body?.message || `Could not print paper cards (${res.status})`, 'error');
+        return;
+      }
+      const pageUrl = URL.createObjectURL(await res.blob());
+      window.open(pageUrl, '_blank');
+      setTimeout(() => URL.revokeObjectURL(pageUrl), 60000);
+      addLog(mode === 'new' ? `Printed ${count} paper card(s)` : 'Reprinted paper cards', 'info');
+    } catch (error) {
+      console.error('Error printing paper cards:', error);
+      showToast('Could not print paper cards. Check your connection and try again.', 'error');
+    } finally {
+      setIsPrintingPaperCards(false);
+    }
+  };
+
+  const checkPaperCard = () => {
+    const cardId = paperCardIdDraft.trim();
+    if (!socket || !roomId || !cardId) return;
+    socket.emit('verify-paper-card', { roomId, cardId });
+    addLog(`Checking paper card ${cardId}`, 'info');
+    setPaperCardIdDraft('');
+  };
+
   const handleEndGameSession = () => {
     if (!socket) return;
     
@@ -3077,6 +3589,26 @@ const HostView: React.FC = () => {
   // Generate and shuffle song list from selected playlists. Only fetches tracks for newly selected playlists (avoids re-downloading the whole library on each click). Use { force: true } to refetch all.
   const generateSongList = useCallback(
     async (opts?: { force?: boolean; reason?: 'selection' | 'finalize' }): Promise<Song[]> => {
+      if (playbackProvider === 'local') {
+        // Tracks were read when the folder was picked; no fetching, just the selection shuffled.
+        const library = localLibraryRef.current;
+        const seen = new Set<string>();
+        const songs: Song[] = [];
+        for (const playlist of selectedPlaylists) {
+          for (const { url, ...track } of library?.tracksByPlaylist.get(playlist.id) || []) {
+            if (!seen.has(track.id)) {
+              seen.add(track.id);
+              songs.push(track);
+            }
+          }
+        }
+        for (let i = songs.length - 1; i > 0; i--) {
+          const j = Math.floor(Math.random() * (i + 1));
+          [songs[i], songs[j]] = [songs[j], songs[i]];
+        }
+        setSongList(songs);
+        return songs;
+      }
       if (!isSpotifyConnected) {
         console.warn('Cannot generate song list: Spotify not connected');
         setSongList([]);
@@ -3196,7 +3728,7 @@ const HostView: React.FC = () => {
         return [];
       }
     },
-    [selectedPlaylists, isSpotifyConnected, setPlaylists, setSelectedPlaylists]
+    [selectedPlaylists, isSpotifyConnected, playbackProvider, setPlaylists, setSelectedPlaylists]
   );
 
   /** Always latest generateSongList — debounced effect must not depend on this callback (identity churn retriggers → duplicate playlist-tracks waves). */
@@ -3216,6 +3748,12 @@ const HostView: React.FC = () => {
   // Advanced playback functions
   const [volumeTimeout, setVolumeTimeout] = useState<NodeJS.Timeout | null>(null);
 
+  /** Local-files rooms: apply in this tab and store on the room so the next song keeps it. */
+  const setLocalVolume = useCallback((volume: number) => {
+    localPlayerRef.current?.setVolume(volume);
+    socket?.emit('set-volume', { roomId, volume });
+  }, [socket, roomId]);
+
   // Function to fetch current Spotify volume
   const fetchCurrentVolume = useCallback(async () => {
     try {
@@ -3345,6 +3883,10 @@ const HostView: React.FC = () => {
     // Set local state immediately for responsive UI
     setPlaybackState(prev => ({ ...prev, volume: newVolume }));
     setIsMuted(false);
+    if (isLocalPlayback) {
+      setLocalVolume(newVolume);
+      return;
+    }
     
     // Don't persist volume to localStorage - always default to 100%
 
@@ -3378,13 +3920,17 @@ const HostView: React.FC = () => {
     }, 100); // 100ms debounce
 
     setVolumeTimeout(timeout);
-  }, [selectedDevice?.id, volumeTimeout, fetchCurrentVolume, roomId]);
+  }, [selectedDevice?.id, volumeTimeout, fetchCurrentVolume, roomId, isLocalPlayback, setLocalVolume]);
 
   const handleMuteToggle = useCallback(async () => {
     if (isMuted) {
       // Unmute - restore previous volume
       setPlaybackState(prev => ({ ...prev, volume: previousVolume }));
       setIsMuted(false);
+      if (isLocalPlayback) {
+        setLocalVolume(previousVolume);
+        return;
+      }
       
       try {
         console.log(`?? Unmuting, setting volume to ${previousVolume}%`);
@@ -3416,6 +3962,10 @@ const HostView: React.FC = () => {
       setPreviousVolume(playbackState.volume);
       setPlaybackState(prev => ({ ...prev, volume: 0 }));
       setIsMuted(true);
+      if (isLocalPlayback) {
+        setLocalVolume(0);
+        return;
+      }
       
       try {
         console.log(`?? Muting, setting volume to 0%`);
@@ -3443,7 +3993,7 @@ const HostView: React.FC = () => {
         fetchCurrentVolume();
       }
     }
-  }, [isMuted, previousVolume, playbackState.volume, selectedDevice?.id, fetchCurrentVolume, roomId]);
+  }, [isMuted, previousVolume, playbackState.volume, selectedDevice?.id, fetchCurrentVolume, roomId, isLocalPlayback, setLocalVolume]);
 
   const handleSeek = useCallback(async (newTime: number) => {
     setPlaybackState(prev => ({ ...prev, currentTime: newTime }));
@@ -3532,6 +4082,19 @@ const HostView: React.FC = () => {
     }, 15000);
   }, [socket, roomId, pendingVerification, addLog]);
 
+  const recheckBingo = () => {
+    if (!socket || !pendingVerification) return;
+    const note = prompt('What needs rechecking? (optional)');
+    if (note === null) return;
+    socket.emit('recheck-bingo-claim', {
+      roomId,
+      playerId: pendingVerification.playerId,
+      playerName: pendingVerification.playerName,
+      note: note || undefined
+    });
+    addLog(`${pendingVerification.playerName}'s bingo moved to the back of the queue for a recheck`, 'info');
+  };
+
   // Create output playlist
   const createOutputPlaylist = useCallback(async () => {
     if (!songList || songList.length === 0) {
@@ -3604,9 +4167,9 @@ const HostView: React.FC = () => {
   //   return () => clearInterval(volumeSyncInterval);
   // }, [isPlaying, currentSong, fetchCurrentVolume]);
 
-  // Periodic playback state synchronization
+  // Periodic playback state synchronization (Spotify only; local playback state lives in this tab)
   useEffect(() => {
-    if (!currentSong) return;
+    if (!currentSong || isLocalPlayback) return;
     const playbackSyncInterval = setInterval(async () => {
       try {
         if (Date.now() < spotifyPollBackoffUntilRef.current) return;
@@ -3657,17 +4220,17 @@ const HostView: React.FC = () => {
       }
     }, 120_000); // 120s: minimize /me/player via /api/spotify/current-playback (was 60s)
     return () => clearInterval(playbackSyncInterval);
-  }, [currentSong, isPlaying, isPausedByInterface]);
+  }, [currentSong, isPlaying, isPausedByInterface, isLocalPlayback]);
 
   // Build master setlist when selection changes. Debounced: ticking several playlists in a row = one import wave.
-  // Depends on playlistSelectionKey + isSpotifyConnected only — NOT generateSongList — so callback identity churn does not reschedule this effect (was causing 3× identical playlist-tracks bursts).
+  // Depends on playlistSelectionKey + isSpotifyConnected + playbackProvider only — NOT generateSongList — so callback identity churn does not reschedule this effect (was causing 3× identical playlist-tracks bursts).
   useEffect(() => {
     const t = window.setTimeout(() => {
       if (finalizeMixInFlightRef.current) return;
       void generateSongListRef.current({ reason: 'selection' });
     }, 750);
     return () => window.clearTimeout(t);
-  }, [playlistSelectionKey, isSpotifyConnected]);
+  }, [playlistSelectionKey, isSpotifyConnected, playbackProvider]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -3738,7 +4301,7 @@ const HostView: React.FC = () => {
 
   // Early-fail guard on the host (client-side): if playback hasn't advanced soon after start, play preview
   useEffect(() => {
-    if (!isPlaying || !currentSong) return;
+    if (!isPlaying || !currentSong || isLocalPlayback) return;
     let cancelled = false;
     const t = setTimeout(async () => {
       if (cancelled) return;
@@ -3755,7 +4318,7 @@ const HostView: React.FC = () => {
       } catch {}
     }, 4000);
     return () => { cancelled = true; clearTimeout(t); };
-  }, [isPlaying, currentSong]);
+  }, [isPlaying, currentSong, isLocalPlayback]);
 
   const confirmAndNewRound = () => {
     // Use the same handler as the modal button for consistency
@@ -4255,15 +4818,228 @@ const HostView: React.FC = () => {
             })}
           </div>
 
+          {cohostRole && (
+            <div
+              role="status"
+              style={{ margin: '0 0 12px', padding: '8px 12px', borderRadius: 8, background: 'rgba(0,255,136,0.1)', border: '1px solid rgba(0,255,136,0.35)', fontSize: '0.9rem' }}
+            >
+              Signed in as <strong>{COHOST_ROLE_LABELS[cohostRole].label}</strong> — {COHOST_ROLE_LABELS[cohostRole].help.toLowerCase()}. Controls outside your role are refused by the server.
+            </div>
+          )}
+
           {/* Tab Content */}
           <div className="tab-content">
             {activeTab === 'setup' && (
               <div className="setup-tab host-manager">
-                {/* License Status - TEMPORARILY HIDDEN */}
-                {showRoundManager && (
-                  <div style={{ display: 'none' }}>License validation disabled for tonight</div>
+                {/* License status: signed key saved on this device and sent with every host join */}
+                {(licenseError || licenseInfo || licenseKey) && (
+                  <section className="host-manager-section" style={{ marginBottom: 16 }}>
+                    <h2 className="host-manager-section__title">License</h2>
+                    {licenseInfo ? (
+                      <p className="host-manager-section__lead" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                        <CheckCircle2 className="w-4 h-4" style={{ color: '#00ff88', flexShrink: 0 }} aria-hidden />
+                        Licensed to {licenseInfo.organizationId} until {licenseInfo.expiresAt}
+                        {licenseInfo.maxRooms ? ` · up to ${licenseInfo.maxRooms} room${licenseInfo.maxRooms === 1 ? '' : 's'}` : ''}
+                        {licenseInfo.features.length ? ` · ${licenseInfo.features.join(', ')}` : ''}
+                      </p>
+                    ) : (
+                      <p className="host-manager-section__lead">Paste the license key your organization was issued.</p>
+                    )}
+                    {licenseError && (
+                      <div
+                        role="alert"
+                        style={{
+                          display: 'flex',
+                          alignItems: 'flex-start',
+                          gap: 8,
+                          marginBottom: 12,
+                          padding: '10px 12px',
+                          borderRadius: 8,
+                          border: '1px solid rgba(255, 68, 68, 0.45)',
+                          background: 'rgba(255, 68, 68, 0.1)',
+                          color: '#ffb3b3',
+                          fontSize: '0.88rem',
+                          lineHeight: 1.45,
+                        }}
+                      >
+                        <AlertTriangle className="w-4 h-4" style={{ flexShrink: 0, marginTop: 2 }} aria-hidden />
+                        <span>{licenseError}</span>
+                      </div>
+                    )}
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                      <input
+                        type="text"
+                        value={licenseKeyDraft}
+                        onChange={(e) => setLicenseKeyDraft(e.target.value)}
+                        placeholder="TEMPO.…"
+                        spellCheck={false}
+                        autoComplete="off"
+                        style={{
+                          flex: '1 1 260px',
+                          minWidth: 0,
+                          padding: '8px 10px',
+                          borderRadius: 8,
+                          border: '1px solid rgba(255,255,255,0.2)',
+                          background: 'rgba(0,0,0,0.3)',
+                          color: '#fff',
+                          fontFamily: 'monospace',
+                          fontSize: '0.8rem',
+                        }}
+                      />
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        disabled={isJoiningRoom || !licenseKeyDraft.trim()}
+                        onClick={() => handleLicenseKeyChange(licenseKeyDraft.trim())}
+                      >
+                        {isJoiningRoom ? 'Checking…' : 'Apply key'}
+                      </button>
+                    </div>
+                  </section>
                 )}
 
+                {/* Rooms this host can manage: own rooms, or the organization's for org admins */}
+                <section className="host-manager-section" style={{ marginBottom: 16 }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+                    <h2 className="host-manager-section__title" style={{ margin: 0 }}>Rooms</h2>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      style={{ marginLeft: 'auto' }}
+                      onClick={() => {
+                        if (!showRooms) void refreshRooms();
+                        setShowRooms(!showRooms);
+                      }}
+                    >
+                      {showRooms ? 'Hide rooms' : 'Show rooms'}
+                    </button>
+                    {showRooms && (
+                      <button type="button" className="btn-secondary" onClick={() => void refreshRooms()}>
+                        Refresh
+                      </button>
+                    )}
+                  </div>
+                  {showRooms && (
+                    roomsError ? (
+                      <p className="host-manager-section__lead" style={{ margin: '10px 0 0', color: '#ffb3b3' }}>{roomsError}</p>
+                    ) : rooms.length === 0 ? (
+                      <p className="host-manager-section__lead" style={{ margin: '10px 0 0' }}>No active rooms.</p>
+                    ) : (
+                      <div style={{ overflowX: 'auto', marginTop: 10 }}>
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+                          <thead>
+                            <tr style={{ textAlign: 'left', color: 'rgba(255,255,255,0.6)' }}>
+                              {['Room', 'Owner', 'Organization', 'Players', 'State', 'Now playing'].map((h) => (
+                                <th key={h} style={{ padding: '6px 8px', fontWeight: 600, borderBottom: '1px solid rgba(255,255,255,0.12)' }}>{h}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {rooms.map((r) => (
+                              <tr key={r.id} style={{ background: r.id === roomId ? 'rgba(0,255,136,0.08)' : undefined }}>
+                                <td style={{ padding: '6px 8px', fontWeight: 700 }}>{r.id}</td>
+                                <td style={{ padding: '6px 8px' }}>{r.ownerName || (r.ownerUserId != null ? `#${r.ownerUserId}` : '—')}</td>
+                                <td style={{ padding: '6px 8px' }}>{r.organizationName || '—'}</td>
+                                <td style={{ padding: '6px 8px' }}>{r.playerCount}</td>
+                                <td style={{ padding: '6px 8px' }}>{r.gameState}</td>
+                                <td style={{ padding: '6px 8px', color: 'rgba(255,255,255,0.75)' }}>
+                                  {r.currentSong ? `${r.currentSong.name} — ${r.currentSong.artist}` : '—'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )
+                  )}
+                </section>
+
+                {/* Co-host roster: the host creates join codes per role; everyone on staff sees who else is helping */}
+                {cohostRoster && (
+                  <section className="host-manager-section" style={{ marginBottom: 16 }}>
+                    <h2 className="host-manager-section__title">Co-hosts</h2>
+                    {!cohostRole && (
+                      <>
+                        <p className="host-manager-section__lead">
+                          Give a code to staff helping run the room. They enter it on the home page with the room code.
+                        </p>
+                        <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                          <select value={newCohostRole} onChange={(e) => setNewCohostRole(e.target.value as CohostRole)}>
+                            {(Object.keys(COHOST_ROLE_LABELS) as CohostRole[]).map((role) => (
+                              <option key={role} value={role}>
+                                {COHOST_ROLE_LABELS[role].label} — {COHOST_ROLE_LABELS[role].help}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() => socket?.emit('create-cohost-invite', { roomId, role: newCohostRole })}
+                          >
+                            Create code
+                          </button>
+                        </div>
+                        {cohostRoster.invites.length > 0 && (
+                          <ul style={{ listStyle: 'none', padding: 0, margin: '10px 0 0' }}>
+                            {cohostRoster.invites.map((invite) => (
+                              <li key={invite.code} style={{ display: 'flex', gap: 10, alignItems: 'center', padding: '4px 0', flexWrap: 'wrap' }}>
+                                <code style={{ fontSize: '1.05rem', fontWeight: 700, letterSpacing: '0.12em' }}>{invite.code}</code>
+                                <span>{COHOST_ROLE_LABELS[invite.role].label}</span>
+                                <span style={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.8rem' }}>
+                                  until {new Date(invite.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </span>
+                                <button
+                                  type="button"
+                                  className="btn-secondary"
+                                  onClick={() => {
+                                    const link = `${window.location.origin}/?cohost=${invite.code}&prefillRoom=${encodeURIComponent(roomId)}`;
+                                    void navigator.clipboard?.writeText(link);
+                                    addLog(`Copied co-host link for ${invite.code}`, 'info');
+                                  }}
+                                >
+                                  Copy link
+                                </button>
+                                <button
+                                  type="button"
+                                  className="btn-secondary"
+                                  onClick={() => socket?.emit('revoke-cohost-invite', { roomId, code: invite.code })}
+                                >
+                                  Revoke
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </>
+                    )}
+                    {cohostRoster.cohosts.length === 0 ? (
+                      <p className="host-manager-section__lead" style={{ margin: '10px 0 0' }}>No co-hosts connected.</p>
+                    ) : (
+                      <ul style={{ listStyle: 'none', padding: 0, margin: '10px 0 0' }}>
+                        {cohostRoster.cohosts.map((c) => (
+                          <li key={c.id} style={{ display: 'flex', gap: 10, alignItems: 'center', padding: '4px 0' }}>
+                            <strong>{c.name}</strong>
+                            <span>{COHOST_ROLE_LABELS[c.role].label}</span>
+                            {!cohostRole && (
+                              <button
+                                type="button"
+                                className="btn-secondary"
+                                style={{ marginLeft: 'auto' }}
+                                onClick={() => socket?.emit('remove-cohost', { roomId, cohostId: c.id })}
+                              >
+                                Remove
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </section>
+                )}
+
+                {/* Venue regulars (player profiles) belong to the host's organization; co-hosts are not signed in */}
+                {!cohostRole && <PlayerProfilesSection addLog={addLog} />}
+
                 <div className="host-manager-grid">
                   <div className="host-manager-grid__primary">
                     <section className="host-manager-section">
@@ -4306,8 +5082,56 @@ const HostView: React.FC = () => {
                 </label>
                     </section>
 
+                    {/* Music source: Spotify Connect or audio files played by this browser tab */}
+                    <section className="host-manager-section">
+                      <h2 className="host-manager-section__title">Music source</h2>
+                      <div role="group" aria-label="Music source" style={{ display: 'inline-flex', borderRadius: 10, overflow: 'hidden', border: '1px solid rgba(255,255,255,0.22)', background: 'rgba(0,0,0,0.25)', marginBottom: 10 }}>
+                        <button type="button" disabled={mixFinalized} onClick={() => changePlaybackProvider('spotify')} style={{ border: 'none', padding: '10px 16px', fontSize: '0.88rem', fontWeight: 700, cursor: 'pointer', background: !isLocalPlayback ? 'rgba(0,255,136,0.22)' : 'transparent', color: !isLocalPlayback ? '#00ff88' : '#ccc', borderRight: '1px solid rgba(255,255,255,0.12)' }}>Spotify</button>
+                        <button type="button" disabled={mixFinalized} onClick={() => changePlaybackProvider('local')} style={{ border: 'none', padding: '10px 16px', fontSize: '0.88rem', fontWeight: 700, cursor: 'pointer', background: isLocalPlayback ? 'rgba(0,255,136,0.22)' : 'transparent', color: isLocalPlayback ? '#00ff88' : '#ccc' }}>Local files</button>
+                      </div>
+                      {isLocalPlayback && (
+                        <>
+                          <p className="host-manager-section__lead">
+                            Pick a music folder (each subfolder becomes a playlist) or audio files with .m3u playlists. Songs play from
+                            this tab, so keep it open and connected to the venue speakers. After a reload, pick the same folder again.
+                          </p>
+                          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+                            <label className="btn-secondary" style={{ cursor: 'pointer' }}>
+                              Choose folder
+                              <input
+                                type="file"
+                                multiple
+                                ref={(el) => el?.setAttribute('webkitdirectory', '')}
+                                onChange={(e) => {
+                                  void handleLocalFilesPicked(e.target.files);
+                                  e.target.value = '';
+                                }}
+                                style={{ display: 'none' }}
+                              />
+                            </label>
+                            <label className="btn-secondary" style={{ cursor: 'pointer' }}>
+                              Choose files / M3U
+                              <input
+                                type="file"
+                                multiple
+                                accept="audio/*,.m3u,.m3u8"
+                                onChange={(e) => {
+                                  void handleLocalFilesPicked(e.target.files);
+                                  e.target.value = '';
+                                }}
+                                style={{ display: 'none' }}
+                              />
+                            </label>
+                            <span style={{ fontSize: '0.85rem', color: '#a8a8a8' }}>
+                              {isLoadingLocalLibrary ? 'Reading files…' : localLibrarySummary || 'No local music loaded'}
+                            </span>
+                          </div>
+                        </>
+                      )}
+                    </section>
+
           {/* Pattern Selection */}
-          {isSpotifyConnected && (
+          {(isSpotifyConnected || isLocalPlayback) && (
             <motion.div 
               className="pattern-section host-manager-section"
               initial={{ opacity: 0 }}
@@ -4624,7 +5448,7 @@ const HostView: React.FC = () => {
                 </div>
 
           {/* Music & rounds: planner + playlists */}
-          {isSpotifyConnected && (
+          {(isSpotifyConnected || isLocalPlayback) && (
             <div className="host-manager-music host-manager-section">
               <h2 className="host-manager-music__title">Music &amp; rounds</h2>
             <RoundPlanner
@@ -4634,6 +5458,11 @@ const HostView: React.FC = () => {
               currentRound={currentRoundIndex}
               onStartRound={handleStartRound}
               gameState={gameState}
+              pattern={pattern}
+              customMask={pattern === 'custom' && customPattern.length ? customPattern : customMask}
+              freeSpace={freeSpaceEnabled}
+              snippetLength={snippetLength}
+              playerCount={playerCards.size}
             />
 
           <motion.div 
@@ -5221,6 +6050,22 @@ const HostView: React.FC = () => {
             </div>
             </div>
 
+                  {gameState === 'waiting' && !currentSong && !mixFinalized && (
+                    <DuplicateSongsPanel
+                      groups={duplicateGroups}
+                      keeps={duplicateKeeps}
+                      replacements={duplicateReplacements}
+                      suggestingId={suggestingReplacementFor}
+                      canSuggest={isSpotifyConnected && !isLocalPlayback}
+                      message={duplicateMessage}
+                      onKeep={(groupKey, songId) => setDuplicateKeeps((prev) => ({ ...prev, [groupKey]: songId }))}
+                      onSuggest={suggestDuplicateReplacement}
+                      onClearReplacement={(droppedId) =>
+                        setDuplicateReplacements(({ [droppedId]: _removed, ...rest }) => rest)
+                      }
+                    />
+                  )}
+
                   {/* Main Game Controls */}
              <div className="control-buttons">
                {gameState === 'waiting' && !currentSong ? (
@@ -5299,7 +6144,7 @@ const HostView: React.FC = () => {
                       </p>
                       <p style={{ color: '#2b2215', fontSize: '0.95rem', marginBottom: 14, fontWeight: 600 }}>
                         {pendingVerification
-                          ? `Bingo verification: ${pendingVerification.playerName}`
+                          ? `Bingo verification: ${pendingVerification.playerName}${verificationQueue.length > 1 ? ` (+${verificationQueue.length - 1} waiting)` : ''}`
                           : 'Playback paused (verification or Spotify). Use Resume when ready.'}
                       </p>
                       <button
@@ -5350,6 +6195,166 @@ const HostView: React.FC = () => {
                       Reset Letters
                     </button>
                   </div>
+                  <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ opacity: 0.9 }}>Results:</span>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => downloadResultsReport('csv')}
+                      title="Download rounds, call order, winners and rejected claims as CSV"
+                    >
+                      CSV
+                    </button>
+                    <button type="button" className="btn-secondary" onClick={() => downloadResultsReport('json')}>
+                      JSON
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => downloadResultsReport('html')}
+                      title="Open a printable results page (Print → Save as PDF)"
+                    >
+                      Print / PDF
+                    </button>
+                  </div>
+                  <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ opacity: 0.9 }}>Leaderboard:</span>
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                      Win
+                      <input
+                        type="number"
+                        min={0}
+                        max={1000}
+                        value={leaderboard?.scoring.win ?? 10}
+                        onChange={(e) => socket?.emit('set-leaderboard-scoring', { roomId, win: Number(e.target.value) })}
+                        aria-label="Points per round win"
+                        style={{ width: 60 }}
+                      />
+                    </label>
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }} title="Points for ending a round one call away from the pattern (0 = off)">
+                      One away
+                      <input
+                        type="number"
+                        min={0}
+                        max={1000}
+                        value={leaderboard?.scoring.oneAway ?? 2}
+                        onChange={(e) => socket?.emit('set-leaderboard-scoring', { roomId, oneAway: Number(e.target.value) })}
+                        aria-label="Points for finishing one away"
+                        style={{ width: 60 }}
+                      />
+                    </label>
+                    {leaderboard && leaderboard.standings.length > 0 && (
+                      <span style={{ opacity: 0.85, fontSize: '0.85rem' }}>
+                        {leaderboard.standings.slice(0, 5).map((p) => `${p.rank}. ${p.playerName} ${p.points}`).join(' · ')}
+                      </span>
+                    )}
+                  </div>
+                  <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ opacity: 0.9 }}>Disputes:</span>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => setShowCallHistory(true)}
+                      title="Search this round's calls by title or artist and replay a clip"
+                    >
+                      🔎 Was it played?
+                    </button>
+                  </div>
+                  <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ opacity: 0.9 }}>Auto bingo:</span>
+                    <select
+                      value={autoBingo.mode}
+                      onChange={(e) => socket?.emit('set-auto-bingo', { roomId, mode: e.target.value as AutoBingoMode, graceSeconds: autoBingo.graceSeconds })}
+                      aria-label="Automatic bingo detection"
+                      title="The server checks every card after each call"
+                    >
+                      <option value="off">Off — players claim themselves</option>
+                      <option value="nudge">Nudge — tell players they have bingo</option>
+                      <option value="auto">Auto-claim after a grace period</option>
+                    </select>
+                    {autoBingo.mode === 'auto' && (
+                      <label style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                        Grace
+                        <input
+                          type="number"
+                          min={3}
+                          max={120}
+                          value={autoBingo.graceSeconds}
+                          onChange={(e) => socket?.emit('set-auto-bingo', { roomId, mode: 'auto', graceSeconds: Number(e.target.value) })}
+                          aria-label="Seconds before an automatic claim"
+                          style={{ width: 60 }}
+                        />
+                        s
+                      </label>
+                    )}
+                  </div>
+                  {cardDeal && (
+                    <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                      <span style={{ opacity: 0.9 }}>Card seed:</span>
+                      <code title={`Mix ${cardDeal.mixHash} · dealt ${new Date(cardDeal.dealtAt).toLocaleString()}`} style={{ fontSize: '0.85rem' }}>
+                        {cardDeal.seed}
+                      </code>
+                      <button
+                        type="button"
+                        className="btn-secondary"
+                        onClick={downloadCardManifest}
+                        title="Download the signed list of issued cards, to regenerate and check any card later"
+                      >
+                        Card manifest
+                      </button>
+                    </div>
+                  )}
+                  <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <span style={{ opacity: 0.9 }}>Paper cards:</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={200}
+                      value={paperCardCount}
+                      onChange={(e) => setPaperCardCount(e.target.value)}
+                      aria-label="Number of paper cards to print"
+                      style={{ width: 70 }}
+                    />
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => openPaperCards('new')}
+                      disabled={isPrintingPaperCards || !mixFinalized}
+                      title={mixFinalized ? 'Print new cards for in-person players (four per page)' : 'Finalize the mix first'}
+                    >
+                      Print
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => openPaperCards('reprint')}
+                      disabled={isPrintingPaperCards || !mixFinalized}
+                      title="Reprint every paper card already issued for this mix"
+                    >
+                      Reprint all
+                    </button>
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        checkPaperCard();
+                      }}
+                      style={{ display: 'inline-flex', gap: 8, alignItems: 'center' }}
+                    >
+                      <input
+                        type="text"
+                        value={paperCardIdDraft}
+                        onChange={(e) => setPaperCardIdDraft(e.target.value)}
+                        placeholder="Card ID (type or scan)"
+                        aria-label="Paper card ID"
+                        autoComplete="off"
+                        spellCheck={false}
+                        style={{ width: 170, textTransform: 'uppercase' }}
+                      />
+                      <button type="submit" className="btn-secondary" disabled={!paperCardIdDraft.trim()}>
+                        Verify card
+                      </button>
+                    </form>
+                  </div>
                   <div style={{ display: 'flex', gap: 8, marginTop: 8, flexWrap: 'wrap', alignItems: 'center' }}>
                     {playerCards.size > 0 && !playerCardsFullscreen && (
                       <button
@@ -5744,6 +6749,10 @@ ${validation.suggestions.length > 0 ? '\nSuggestions: ' + validation.suggestions
                         <div style={{ color: '#8a9ba8', fontSize: '0.8rem', marginTop: 4 }}>
                           {playerCards.size} player{playerCards.size !== 1 ? 's' : ''} · Pattern:{' '}
                           <strong style={{ color: '#c5d4e0' }}>{getPatternDisplayName(pattern)}</strong>
+                          {(() => {
+                            const oneAway = Array.from(playerCards.values()).filter((p) => p.squaresToGo === 1).length;
+                            return oneAway > 0 ? <span style={{ color: '#ffaa00' }}> · {oneAway} one away</span> : null;
+                          })()}
                         </div>
                       </div>
                       <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
@@ -6072,6 +7081,15 @@ ${validation.suggestions.length > 0 ? '\nSuggestions: ' + validation.suggestions
 
         
 
+      {showCallHistory && roomId && (
+        <CallHistoryPanel
+          socket={socket}
+          roomId={roomId}
+          canReplay={cohostRole !== 'verifier'}
+          onClose={() => setShowCallHistory(false)}
+        />
+      )}
+
       {/* Bingo Verification Modal */}
       {pendingVerification && (
         <div 
@@ -6105,11 +7123,108 @@ ${validation.suggestions.length > 0 ? '\nSuggestions: ' + validation.suggestions
               <AlertTriangle className="w-7 h-7" aria-hidden />
               BINGO VERIFICATION NEEDED
             </h2>
+
+            {(verificationQueue.length > 1 || verificationQueue[0]?.recheck) && (
+              <div style={{ marginBottom: '16px', padding: '8px 12px', borderRadius: '8px', background: 'rgba(255, 193, 7, 0.1)', border: '1px solid rgba(255, 193, 7, 0.35)', color: '#ffd54f', fontSize: '0.85rem' }}>
+                {verificationQueue.length > 1 && (
+                  <div>
+                    Claim 1 of {verificationQueue.length} · next:{' '}
+                    {verificationQueue.slice(1).map((entry) => `${entry.playerName}${entry.recheck ? ' (recheck)' : ''}`).join(', ')}
+                  </div>
+                )}
+                {verificationQueue[0]?.recheck && (
+                  <div>
+                    Back for a recheck{verificationQueue[0].recheck.note ? `: ${verificationQueue[0].recheck.note}` : ''}
+                  </div>
+                )}
+              </div>
+            )}
             
             <div style={{ marginBottom: '20px', textAlign: 'center' }}>
               <p style={{ fontSize: '1.2rem', color: '#fff', marginBottom: '8px' }}>
                 <strong>{pendingVerification.playerName}</strong> called BINGO!
               </p>
+              {pendingVerification.isPaperCard && (
+                <p style={{ color: '#ccc', fontSize: '0.85rem', marginBottom: '6px' }}>
+                  Printed card — squares are marked from the songs called so far. Check the player&apos;s daubs match.
+                </p>
+              )}
+              {pendingVerification.markAudit?.flags?.length > 0 && (
+                <div
+                  role="alert"
+                  style={{
+                    textAlign: 'left',
+                    margin: '10px auto 8px',
+                    maxWidth: 460,
+                    padding: '10px 12px',
+                    borderRadius: 8,
+                    border: '1px solid rgba(255, 170, 0, 0.5)',
+                    background: 'rgba(255, 170, 0, 0.1)',
+                    color: '#ffd58a',
+                    fontSize: '0.85rem',
+                  }}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontWeight: 700, marginBottom: 4 }}>
+                    <Flag className="w-4 h-4" aria-hidden />
+                    Mark audit: {pendingVerification.markAudit.flags.length} flag{pendingVerification.markAudit.flags.length === 1 ? '' : 's'}
+                  </div>
+                  <ul style={{ margin: 0, paddingLeft: 18, lineHeight: 1.45 }}>
+                    {pendingVerification.markAudit.flags.slice(-8).map((flag: MarkAuditFlag, i: number) => (
+                      <li key={`${flag.type}-${flag.at}-${i}`}>
+                        {new Date(flag.at).toLocaleTimeString()} — {flag.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {pendingVerification.markAudit.flags.length > 8 && (
+                    <div style={{ opacity: 0.8, marginTop: 4 }}>
+                      Showing the latest 8 of {pendingVerification.markAudit.flags.length}.
+                    </div>
+                  )}
+                </div>
+              )}
+              {pendingVerification.markAudit && pendingVerification.markAudit.flags?.length === 0 && (
+                <p style={{ color: '#8fd9b3', fontSize: '0.8rem', marginBottom: '6px' }}>
+                  Mark audit: {pendingVerification.markAudit.eventCount} marks this round, nothing suspicious.
+                </p>
+              )}
+              {typeof pendingVerification.detectedAt === 'number' && (
+                <p style={{ color: '#9fd3ff', fontSize: '0.85rem', marginBottom: '6px' }}>
+                  Bingo detected at {new Date(pendingVerification.detectedAt).toLocaleTimeString()}
+                  {pendingVerification.autoClaimed
+                    ? ' · claimed automatically'
+                    : ` · claimed ${Math.max(0, Math.round((pendingVerification.timestamp - pendingVerification.detectedAt) / 1000))}s later`}
+                </p>
+              )}
+              {pendingVerification.claimSnapshot && (() => {
+                const atClaim: CallSnapshot = pendingVerification.claimSnapshot;
+                const claimIds = new Set(atClaim.calledSongIds);
+                const since = verificationCalls ? verificationCalls.calledSongIds.filter((id) => !claimIds.has(id)) : [];
+                const songLabel = (id: string) => playedInOrder.find((p) => p.id === id)?.name || id;
+                return (
+                  <div style={{ margin: '0 auto 8px', maxWidth: '480px', padding: '8px 12px', borderRadius: '8px', background: 'rgba(255,255,255,0.05)', color: '#ddd', fontSize: '0.85rem', textAlign: 'left' }}>
+                    <div>
+                      <strong>At claim</strong> ({new Date(atClaim.takenAt).toLocaleTimeString()}): {atClaim.callCount} calls
+                      {atClaim.currentSongName ? ` · playing "${atClaim.currentSongName}"` : ''} — this claim is judged on these
+                    </div>
+                    {verificationCalls && (
+                      <div style={{ color: since.length > 0 ? '#ffd54f' : '#ddd' }}>
+                        <strong>Now</strong> ({new Date(verificationCalls.takenAt).toLocaleTimeString()}): {verificationCalls.callCount} calls
+                        {since.length > 0
+                          ? ` · ${since.length} called since the claim: ${since.map(songLabel).join(', ')}`
+                          : ' · nothing called since the claim'}
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => setShowCallHistory(true)}
+                      style={{ marginTop: '6px' }}
+                    >
+                      🔎 Was it played?
+                    </button>
+                  </div>
+                );
+              })()}
               <p style={{ color: '#ccc', fontSize: '0.9rem' }}>
                 Pattern: <strong>{pendingVerification.winningPatternType || pendingVerification.requiredPattern}</strong>
               </p>
@@ -6429,6 +7544,25 @@ ${validation.suggestions.length > 0 ? '\nSuggestions: ' + validation.suggestions
               >
                 {isProcessingVerification ? '? Processing...' : '? REJECT BINGO'}
                   </button>
+
+              <button
+                onClick={recheckBingo}
+                disabled={isProcessingVerification}
+                title="Set this claim aside and check the next one; it comes back at the end of the queue"
+                style={{
+                  background: 'rgba(255, 193, 7, 0.15)',
+                  color: '#ffd54f',
+                  border: '1px solid rgba(255, 193, 7, 0.5)',
+                  padding: '12px 24px',
+                  borderRadius: '8px',
+                  fontSize: '1rem',
+                  fontWeight: 'bold',
+                  cursor: isProcessingVerification ? 'not-allowed' : 'pointer',
+                  opacity: isProcessingVerification ? 0.6 : 1
+                }}
+              >
+                NEEDS RECHECK
+              </button>
                 </div>
 
             {/* Debug Info - Only show in debug mode */}
@@ -6614,6 +7748,9 @@ ${validation.suggestions.length > 0 ? '\nSuggestions: ' + validation.suggestions
           songId={editingSong.id}
           originalTitle={editingSong.title}
           customTitle={customSongTitles[editingSong.id]}
+          customTitleScope={customSongTitleScopes[editingSong.id]}
+          roomId={roomId || ''}
+          organizationName={customTitleOrganizationName}
           artistName={editingSong.artist}
         />
       )}
@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { API_BASE } from '../config';
+
+export interface PlayerProfileSummary {
+  id: number;
+  displayName: string;
+  email: string | null;
+}
+
+interface PlayerProfileStats {
+  gamesPlayed: number;
+  roundsPlayed: number;
+  wins: number;
+  favoriteDecades: { decade: string; count: number }[];
+  lastPlayedAt: string | null;
+}
+
+interface PlayerProfilePanelProps {
+  roomId: string;
+  playerName: string;
+  /** Player session JWT ('' when signed out). */
+  token: string;
+  onSignedIn: (token: string, profile: PlayerProfileSummary) => void;
+  onSignOut: () => void;
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: 10,
+  border: '1px solid rgba(255,255,255,0.25)',
+  background: 'rgba(0,0,0,0.3)',
+  color: '#fff',
+  boxSizing: 'border-box',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '10px 14px',
+  borderRadius: 10,
+  border: 'none',
+  background: '#00ff88',
+  color: '#111',
+  fontWeight: 700,
+  cursor: 'pointer',
+};
+
+/**
+ * "My stats": optional venue profile for regulars. Sign in with an emailed link or the name + PIN the
+ * host issued; once signed in, the server records each round played at this venue.
+ */
+const PlayerProfilePanel: React.FC<PlayerProfilePanelProps> = ({ roomId, playerName, token, onSignedIn, onSignOut, onClose }) => {
+  const [loading, setLoading] = useState<boolean>(true);
+  const [available, setAvailable] = useState<boolean>(true);
+  const [profile, setProfile] = useState<PlayerProfileSummary | null>(null);
+  const [stats, setStats] = useState<PlayerProfileStats | null>(null);
+  const [method, setMethod] = useState<'email' | 'pin'>('email');
+  const [email, setEmail] = useState<string>('');
+  const [pinName, setPinName] = useState<string>(playerName);
+  const [pin, setPin] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_BASE || ''}/api/rooms/${encodeURIComponent(roomId)}/player-profile`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      const data = await res.json();
+      setAvailable(!!data.available);
+      setProfile(data.profile || null);
+      setStats(data.stats || null);
+    } catch {
+      setMessage('Could not load your stats. Check your connection.');
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId, token]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const sendLink = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const res = await fetch(`${API_BASE || ''}/api/rooms/${encodeURIComponent(roomId)}/player-profile/magic-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, displayName: playerName }),
+      });
+      const data = await res.json().catch(() => ({}));
+      setMessage(res.ok ? `Check ${email} for your sign-in link.` : data.message || 'Could not send the link.');
+    } catch {
+      setMessage('Could not send the link. Check your connection.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signInWithPin = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const res = await fetch(`${API_BASE || ''}/api/rooms/${encodeURIComponent(roomId)}/player-profile/pin`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ displayName: pinName, pin }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok && data.token) {
+        setPin('');
+        onSignedIn(data.token, data.profile);
+      } else {
+        setMessage(data.message || 'Could not sign in.');
+      }
+    } catch {
+      setMessage('Could not sign in. Check your connection.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="My stats"
+      onClick={onClose}
+      style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.7)', zIndex: 1000, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 16 }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: '100%', maxWidth: 420, background: '#1b1b2f', color: '#fff', borderRadius: 14, padding: 18, border: '1px solid rgba(255,255,255,0.15)' }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <strong style={{ fontSize: '1.1rem' }}>📊 My stats</strong>
+          <button type="button" onClick={onClose} aria-label="Close" style={{ all: 'unset', cursor: 'pointer', fontSize: '1.2rem' }}>✕</button>
+        </div>
+
+        {loading ? (
+          <div>Loading…</div>
+        ) : !available ? (
+          <div>This venue does not keep player profiles.</div>
+        ) : profile && stats ? (
+          <div>
+            <div style={{ marginBottom: 10 }}>
+              Signed in as <strong>{profile.displayName}</strong>
+              {profile.email ? <span style={{ opacity: 0.7 }}> ({profile.email})</span> : null}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8, textAlign: 'center', marginBottom: 12 }}>
+              {[
+                { label: 'Games', value: stats.gamesPlayed },
+                { label: 'Rounds', value: stats.roundsPlayed },
+                { label: 'Wins', value: stats.wins },
+              ].map((s) => (
+                <div key={s.label} style={{ background: 'rgba(255,255,255,0.06)', borderRadius: 10, padding: '8px 4px' }}>
+                  <div style={{ fontSize: '1.4rem', fontWeight: 700 }}>{s.value}</div>
+                  <div style={{ fontSize: '0.8rem', opacity: 0.75 }}>{s.label}</div>
+                </div>
+              ))}
+            </div>
+            <div style={{ marginBottom: 12, fontSize: '0.9rem' }}>
+              Favorite decades:{' '}
+              {stats.favoriteDecades.length > 0
+                ? stats.favoriteDecades.map((d) => d.decade).join(', ')
+                : 'play a few rounds to find out'}
+            </div>
+            <button type="button" onClick={onSignOut} style={{ ...buttonStyle, background: 'rgba(255,255,255,0.15)', color: '#fff' }}>
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <div>
+            <p style={{ margin: '0 0 10px', fontSize: '0.9rem', opacity: 0.85 }}>
+              Sign in to keep your games, wins and favorite decades at this venue. Playing without an account works too.
+            </p>
+            <div style={{ display: 'flex', gap: 8, marginBottom: 10 }}>
+              {(['email', 'pin'] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => { setMethod(m); setMessage(''); }}
+                  style={{ ...buttonStyle, flex: 1, background: method === m ? '#00ff88' : 'rgba(255,255,255,0.12)', color: method === m ? '#111' : '#fff' }}
+                >
+                  {m === 'email' ? 'Email link' : 'Venue PIN'}
+                </button>
+              ))}
+            </div>
+            {method === 'email' ? (
+              <div style={{ display: 'grid', gap: 8 }}>
+                <input type="email" placeholder="you@example.com" value={email} onChange={(e) => setEmail(e.target.value)} style={inputStyle} />
+                <button type="button" disabled={busy || !email.trim()} onClick={() => void sendLink()} style={buttonStyle}>
+                  Email me a sign-in link
+                </button>
+              </div>
+            ) : (
+              <div style={{ display: 'grid', gap: 8 }}>
+                <input type="text" placeholder="Name on your profile" value={pinName} onChange={(e) => setPinName(e.target.value)} style={inputStyle} />
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="6-digit PIN"
+                  maxLength={6}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  style={inputStyle}
+                />
+                <button type="button" disabled={busy || !pinName.trim() || pin.length !== 6} onClick={() => void signInWithPin()} style={buttonStyle}>
+                  Sign in
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {message && <div style={{ marginTop: 10, fontSize: '0.85rem', color: '#ffd54f' }}>{message}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfilePanel;
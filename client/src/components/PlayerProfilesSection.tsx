@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { API_BASE } from '../config';
+import { hostFetch } from '../utils/hostFetch';
+
+interface OrgPlayerProfile {
+  id: number;
+  displayName: string;
+  email: string | null;
+  hasPin: boolean;
+  gamesPlayed: number;
+  wins: number;
+  lastSeenAt: string | null;
+}
+
+interface PlayerProfilesSectionProps {
+  addLog: (message: string, level?: 'info' | 'warn' | 'error') => void;
+}
+
+/**
+ * Host setup panel for the organization's regulars: look profiles up, issue a profile with a PIN for
+ * players without email, reissue a forgotten PIN, and merge duplicates into one history.
+ */
+const PlayerProfilesSection: React.FC<PlayerProfilesSectionProps> = ({ addLog }) => {
+  const [query, setQuery] = useState<string>('');
+  const [profiles, setProfiles] = useState<OrgPlayerProfile[]>([]);
+  const [unavailable, setUnavailable] = useState<string>('');
+  const [newName, setNewName] = useState<string>('');
+  const [newEmail, setNewEmail] = useState<string>('');
+  /** Last PIN issued; shown once so the host can read it to the player. */
+  const [issuedPin, setIssuedPin] = useState<{ name: string; pin: string } | null>(null);
+  const [mergeSource, setMergeSource] = useState<string>('');
+  const [mergeTarget, setMergeTarget] = useState<string>('');
+  /** HostView's addLog changes every render; keep search stable so it does not refetch in a loop. */
+  const addLogRef = useRef(addLog);
+  addLogRef.current = addLog;
+
+  const search = useCallback(async (q: string) => {
+    try {
+      const res = await hostFetch(`${API_BASE || ''}/api/org/player-profiles?q=${encodeURIComponent(q)}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setUnavailable(data.message || 'Player profiles are not available.');
+        return;
+      }
+      setUnavailable('');
+      setProfiles(data.profiles || []);
+    } catch (e) {
+      addLogRef.current(`Could not load player profiles: ${e instanceof Error ? e.message : String(e)}`, 'error');
+    }
+  }, []);
+
+  useEffect(() => {
+    void search('');
+  }, [search]);
+
+  const createProfile = async () => {
+    const res = await hostFetch(`${API_BASE || ''}/api/org/player-profiles`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ displayName: newName, email: newEmail || undefined }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addLog(data.message || 'Could not create the profile', 'error');
+      return;
+    }
+    setIssuedPin({ name: data.profile.displayName, pin: data.pin });
+    setNewName('');
+    setNewEmail('');
+    addLog(`Created player profile for ${data.profile.displayName}`, 'info');
+    void search(query);
+  };
+
+  const reissuePin = async (profile: OrgPlayerProfile) => {
+    const res = await hostFetch(`${API_BASE || ''}/api/org/player-profiles/${profile.id}/pin`, { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addLog(data.message || data.error || 'Could not reissue the PIN', 'error');
+      return;
+    }
+    setIssuedPin({ name: profile.displayName, pin: data.pin });
+    void search(query);
+  };
+
+  const merge = async () => {
+    const source = profiles.find((p) => String(p.id) === mergeSource);
+    const target = profiles.find((p) => String(p.id) === mergeTarget);
+    if (!source || !target || source.id === target.id) return;
+    if (!window.confirm(`Merge "${source.displayName}" into "${target.displayName}"? The duplicate's games move over and it stops working.`)) return;
+    const res = await hostFetch(`${API_BASE || ''}/api/org/player-profiles/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sourceId: source.id, targetId: target.id }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      addLog(data.message || data.error || 'Could not merge the profiles', 'error');
+      return;
+    }
+    addLog(`Merged ${source.displayName} into ${target.displayName}`, 'info');
+    setMergeSource('');
+    setMergeTarget('');
+    void search(query);
+  };
+
+  return (
+    <section className="host-manager-section" style={{ marginBottom: 16 }}>
+      <h2 className="host-manager-section__title">Regulars</h2>
+      {unavailable ? (
+        <p className="host-manager-section__lead">{unavailable}</p>
+      ) : (
+        <>
+          <p className="host-manager-section__lead">
+            Players can sign in from their phone with an email link, or with a name and PIN you issue here.
+          </p>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 10 }}>
+            <input type="text" placeholder="Player name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <input type="email" placeholder="Email (optional)" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} />
+            <button type="button" className="btn-secondary" disabled={!newName.trim()} onClick={() => void createProfile()}>
+              Create with PIN
+            </button>
+          </div>
+          {issuedPin && (
+            <div style={{ marginBottom: 10, padding: '8px 12px', borderRadius: 8, background: 'rgba(0, 255, 136, 0.08)', border: '1px solid rgba(0, 255, 136, 0.3)' }}>
+              PIN for <strong>{issuedPin.name}</strong>:{' '}
+              <code style={{ fontSize: '1.1rem', fontWeight: 700, letterSpacing: '0.15em' }}>{issuedPin.pin}</code>{' '}
+              <span style={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.8rem' }}>shown once — give it to the player now</span>
+              <button type="button" className="btn-secondary" style={{ marginLeft: 10 }} onClick={() => setIssuedPin(null)}>
+                Done
+              </button>
+            </div>
+          )}
+          <input
+            type="search"
+            placeholder="Search name or email"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              void search(e.target.value);
+            }}
+            style={{ width: '100%', maxWidth: 360, marginBottom: 8 }}
+          />
+          {profiles.length === 0 ? (
+            <p className="host-manager-section__lead" style={{ margin: 0 }}>No profiles yet.</p>
+          ) : (
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0, maxHeight: 240, overflowY: 'auto' }}>
+              {profiles.map((p) => (
+                <li key={p.id} style={{ display: 'flex', gap: 10, alignItems: 'center', padding: '4px 0', flexWrap: 'wrap' }}>
+                  <strong>{p.displayName}</strong>
+                  {p.email && <span style={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.85rem' }}>{p.email}</span>}
+                  <span style={{ fontSize: '0.85rem' }}>
+                    {p.gamesPlayed} game{p.gamesPlayed === 1 ? '' : 's'} · {p.wins} win{p.wins === 1 ? '' : 's'}
+                  </span>
+                  <button type="button" className="btn-secondary" style={{ marginLeft: 'auto' }} onClick={() => void reissuePin(p)}>
+                    {p.hasPin ? 'New PIN' : 'Issue PIN'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {profiles.length > 1 && (
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginTop: 10 }}>
+              <span>Merge duplicate</span>
+              <select value={mergeSource} onChange={(e) => setMergeSource(e.target.value)}>
+                <option value="">Choose…</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>{p.displayName}{p.email ? ` (${p.email})` : ''} #{p.id}</option>
+                ))}
+              </select>
+              <span>into</span>
+              <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)}>
+                <option value="">Choose…</option>
+                {profiles.filter((p) => String(p.id) !== mergeSource).map((p) => (
+                  <option key={p.id} value={p.id}>{p.displayName}{p.email ? ` (${p.email})` : ''} #{p.id}</option>
+                ))}
+              </select>
+              <button type="button" className="btn-secondary" disabled={!mergeSource || !mergeTarget} onClick={() => void merge()}>
+                Merge
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PlayerProfilesSection;
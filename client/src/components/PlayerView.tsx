@@ -2,10 +2,12 @@ import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useParams, useSearchParams } from 'react-router-dom';
 import io from 'socket.io-client';
-import { SOCKET_URL } from '../config';
+import type { BingoDetectedPayload, CardProgressPayload, GameSocket, LeaderboardPayload, PatternStageChangedPayload, VerificationQueuePositionPayload } from '../socketProtocol';
+import { API_BASE, SOCKET_URL } from '../config';
 import { Music, Users } from 'lucide-react';
 import { cleanSongTitle } from '../utils/songTitleCleaner';
-import { STANDARD_BINGO_POSITIONS, validateBingoCardGrid } from '../patternDefinitions';
+import { BINGO_PATTERNS, STANDARD_BINGO_POSITIONS, validateBingoCardGrid } from '../patternDefinitions';
+import PlayerProfilePanel from './PlayerProfilePanel';
 
 interface BingoSquare {
   position: string;
@@ -20,6 +22,8 @@ interface BingoSquare {
 
 interface BingoCard {
   id: string;
+  /** Seeded deal card ID, shown so the host can audit the card */
+  cardId?: string;
   squares: BingoSquare[];
 }
 
@@ -60,7 +64,8 @@ function stripGotPlaylistPrefix(raw: string): string {
  */
 /** Bingo grid must stay large in logical px — never repeat 120px “minimum” bug. */
 const PlayerView: React.FC = () => {
-  const { roomId } = useParams<{ roomId: string }>();
+  const { roomId: roomIdParam } = useParams<{ roomId: string }>();
+  const roomId = roomIdParam || '';
   const [searchParams] = useSearchParams();
   /** false when joined with ?remote=1 — server treats as online-only for hybrid prize rules */
   const inPersonJoin = searchParams.get('remote') !== '1';
@@ -81,7 +86,16 @@ const PlayerView: React.FC = () => {
     }
   });
 
-  const [socket, setSocket] = useState<any>(null);
+  /** Venue player profile session (optional); sent with join-room so the server records our rounds. */
+  const PROFILE_TOKEN_STORAGE_KEY = 'player_profile_token';
+  const [profileToken, setProfileToken] = useState<string>(() => {
+    try { return localStorage.getItem(PROFILE_TOKEN_STORAGE_KEY) || ''; } catch { return ''; }
+  });
+  const profileTokenRef = useRef<string>(profileToken);
+  profileTokenRef.current = profileToken;
+  const [showProfile, setShowProfile] = useState<boolean>(false);
+
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'reconnecting' | 'disconnected'>('disconnected');
   const [reconnectAttempts, setReconnectAttempts] = useState<number>(0);
   const [bingoCard, setBingoCard] = useState<BingoCard | null>(null);
@@ -103,6 +117,23 @@ const PlayerView: React.FC = () => {
   const [playedSongIds, setPlayedSongIds] = useState<string[]>([]);
   const [connectionToast, setConnectionToast] = useState<string>('');
   const [hybridPrizeInPersonOnly, setHybridPrizeInPersonOnly] = useState(false);
+  /** Progressive round ladder (null or no stages = single-prize round). */
+  const [prizeStages, setPrizeStages] = useState<PatternStageChangedPayload | null>(null);
+  /** Event standings across rounds; our row is the one on our socket id. */
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPayload | null>(null);
+  const [showStandings, setShowStandings] = useState<boolean>(false);
+  /** Our card's distance to the pattern (server-computed on each call) and the opt-in highlight of what's missing. */
+  const [cardProgress, setCardProgress] = useState<CardProgressPayload | null>(null);
+  /** Highlight only near the end: early in a round nearly every square is on some closest line. */
+  const NEEDED_HINT_MAX = 2;
+  /** Server saw our card complete the pattern (room auto-bingo setting); cleared once we claim. */
+  const [bingoNudge, setBingoNudge] = useState<BingoDetectedPayload | null>(null);
+  const [nudgeNow, setNudgeNow] = useState<number>(() => Date.now());
+  /** Our claim's place in the host's verification queue; null when we have no claim waiting. */
+  const [queuePosition, setQueuePosition] = useState<VerificationQueuePositionPayload | null>(null);
+  const [showNeeded, setShowNeeded] = useState<boolean>(() => {
+    try { return localStorage.getItem('player_show_needed') === '1'; } catch { return false; }
+  });
   const previousPlayedSongIdsRef = useRef<string[]>([]); // Track previous state for missed songs calculation
   const wasReconnectingRef = useRef<boolean>(false); // Track if we're in a reconnection state
   const [gameState, setGameState] = useState<GameState>({
@@ -278,7 +309,7 @@ const PlayerView: React.FC = () => {
 
   useEffect(() => {
     // Initialize socket connection with robust reconnection
-    const newSocket = io(SOCKET_URL || undefined, {
+    const newSocket: GameSocket = io(SOCKET_URL || undefined, {
       transports: ['websocket'],
       reconnection: true,
       reconnectionAttempts: Infinity,
@@ -295,7 +326,7 @@ const PlayerView: React.FC = () => {
       setReconnectAttempts(0);
       // Join only if we have a name; otherwise wait for user input
       if (playerName && playerName.trim()) {
-        newSocket.emit('join-room', { roomId, playerName, isHost: false, clientId, inPerson: inPersonJoin });
+        newSocket.emit('join-room', { roomId, playerName, isHost: false, clientId, inPerson: inPersonJoin, profileToken: profileTokenRef.current || undefined });
       }
       // Ask server for state in case game already started
       // This will trigger room-state which will calculate missed songs
@@ -309,12 +340,12 @@ const PlayerView: React.FC = () => {
       }
     });
 
-    newSocket.on('reconnect_attempt', (attempt: number) => {
+    newSocket.io.on('reconnect_attempt', (attempt: number) => {
       setConnectionStatus('reconnecting');
       setReconnectAttempts(attempt || 1);
       wasReconnectingRef.current = true;
     });
-    newSocket.on('reconnect', () => {
+    newSocket.io.on('reconnect', () => {
       setConnectionStatus('connected');
       setReconnectAttempts(0);
       // Request sync to get latest state and calculate missed songs
@@ -334,17 +365,17 @@ const PlayerView: React.FC = () => {
     newSocket.on('connect_error', () => {
       setConnectionStatus('reconnecting');
     });
-    newSocket.on('reconnect_error', () => {
+    newSocket.io.on('reconnect_error', () => {
       setConnectionStatus('reconnecting');
     });
 
-    newSocket.on('room-joined', (data: any) => {
+    newSocket.on('room-joined', (data) => {
       if (data?.venueBranding !== undefined) {
         setVenueBranding(data.venueBranding ?? null);
       }
     });
 
-    newSocket.on('player-joined', (data: any) => {
+    newSocket.on('player-joined', (data) => {
       console.log('Player joined:', data);
       setGameState(prev => ({
         ...prev,
@@ -352,14 +383,16 @@ const PlayerView: React.FC = () => {
       }));
     });
 
-    newSocket.on('fiveby15-pool', (data: any) => {
+    newSocket.on('fiveby15-pool', (data) => {
       if (Array.isArray(data?.names) && data.names.length === 5) {
         setBingoColumnPlaylistNames(data.names);
       }
     });
 
-    newSocket.on('game-started', (data: any) => {
+    newSocket.on('game-started', (data) => {
       console.log('Game started:', data);
+      setBingoNudge(null);
+      setQueuePosition(null);
       setBingoColumnPlaylistNames([]);
       setGameState(prev => ({
         ...prev,
@@ -375,7 +408,7 @@ const PlayerView: React.FC = () => {
       wasReconnectingRef.current = false;
     });
 
-    newSocket.on('room-state', (payload: any) => {
+    newSocket.on('room-state', (payload) => {
       try {
         if (payload?.venueBranding !== undefined) {
           setVenueBranding(payload.venueBranding ?? null);
@@ -431,7 +464,7 @@ const PlayerView: React.FC = () => {
       } catch {}
     });
 
-    newSocket.on('song-playing', (data: any) => {
+    newSocket.on('song-playing', (data) => {
       console.log('Song playing:', data);
       setGameState(prev => ({
         ...prev,
@@ -445,7 +478,7 @@ const PlayerView: React.FC = () => {
       setSongsPlayed(prev => prev + 1);
     });
 
-    newSocket.on('bingo-card', (data: any) => {
+    newSocket.on('bingo-card', (data) => {
       console.log('Received bingo card:', data);
       // Check if this is a new card (different song IDs) vs an update to existing card
       setBingoCard(prev => {
@@ -457,7 +490,7 @@ const PlayerView: React.FC = () => {
         let isNewCardByContent = false;
         if (prev && data.squares) {
           const prevSongIds = new Set(prev.squares.map(s => s.songId));
-          const newSongIds = new Set(data.squares.map((s: any) => s.songId));
+          const newSongIds = new Set(data.squares.map((s) => s.songId));
           isNewCardByContent = prevSongIds.size !== newSongIds.size || 
                                 !Array.from(prevSongIds).every(id => newSongIds.has(id));
         }
@@ -477,8 +510,8 @@ const PlayerView: React.FC = () => {
         }
         
         // Same card structure - preserve marks from previous card, then apply stored marks
-        const mergedSquares = data.squares.map((newSquare: any) => {
-          const oldSquare = prev.squares.find((s: any) => s.position === newSquare.position);
+        const mergedSquares = data.squares.map((newSquare) => {
+          const oldSquare = prev.squares.find((s) => s.position === newSquare.position);
           return {
             ...newSquare,
             marked: oldSquare?.marked || false // Preserve mark state from previous card
@@ -494,19 +527,19 @@ const PlayerView: React.FC = () => {
       });
     });
 
-    newSocket.on('mix-finalized', (data: any) => {
+    newSocket.on('mix-finalized', (data) => {
       console.log('Mix finalized:', data);
       // Cards are now available but game hasn't started yet
     });
 
     // Listen for pattern updates
-    newSocket.on('hybrid-mode-updated', (data: any) => {
+    newSocket.on('hybrid-mode-updated', (data) => {
       if (typeof data?.hybridInPersonPlusOnline === 'boolean') {
         setHybridPrizeInPersonOnly(data.hybridInPersonPlusOnline);
       }
     });
 
-    newSocket.on('pattern-updated', (data: any) => {
+    newSocket.on('pattern-updated', (data) => {
       console.log('Pattern updated:', data);
       setGameState((prev) => ({
         ...prev,
@@ -520,9 +553,37 @@ const PlayerView: React.FC = () => {
       }));
     });
 
+    newSocket.on('leaderboard-updated', (data) => {
+      setLeaderboard(data);
+    });
+
+    newSocket.on('card-progress', (data) => {
+      setCardProgress(data);
+      if (data.squaresToGo > 0) setBingoNudge(null);
+    });
+
+    newSocket.on('bingo-detected', (data) => {
+      setBingoNudge(data);
+      vibrate([80, 40, 80]);
+    });
+
+    newSocket.on('pattern-stage-changed', (data) => {
+      setPrizeStages(data.stages.length > 0 ? data : null);
+      const stage = data.stages[data.stageIndex];
+      if (stage && data.stageIndex > 0) {
+        setBingoMessage(`🎯 Next prize: ${BINGO_PATTERNS[stage.pattern]?.label || stage.pattern}!`);
+        setTimeout(() => setBingoMessage(''), 4000);
+      }
+    });
+
     // Handle bingo validation result (for the caller)
-    newSocket.on('bingo-result', (data: any) => {
+    newSocket.on('protocol-error', (data) => {
+      console.warn(`Server rejected ${data.event}:`, data.issues);
+    });
+
+    newSocket.on('bingo-result', (data) => {
       console.log('Bingo result:', data);
+      setBingoNudge(null);
       if (data.success) {
         setBingoStatus('success');
         setBingoMessage(
@@ -555,8 +616,12 @@ const PlayerView: React.FC = () => {
       }
     });
 
+    newSocket.on('verification-queue-position', (data) => {
+      setQueuePosition(data.position ? data : null);
+    });
+
     // Handle bingo verification pending
-    newSocket.on('bingo-verification-pending', (data: any) => {
+    newSocket.on('bingo-verification-pending', (data) => {
       console.log('Bingo verification pending:', data);
       // Check if this is someone else's bingo call
       if (data.playerId !== newSocket.id) {
@@ -569,12 +634,13 @@ const PlayerView: React.FC = () => {
     });
 
     // Handle confirmed bingo wins
-    newSocket.on('bingo-called', (data: any) => {
+    newSocket.on('bingo-called', (data) => {
       console.log('Bingo confirmed:', data);
       // Only celebrate if this is a verified/confirmed bingo
       if (data.verified && !data.awaitingVerification) {
-        // Check if this is someone else's verified bingo
-        if (data.playerId !== newSocket.id) {
+        // Check if this is someone else's verified bingo (a split prize lists every winner)
+        const wonHere = data.playerId === newSocket.id || (Array.isArray(data.coWinners) && data.coWinners.some((w) => w?.playerId === newSocket.id));
+        if (!wonHere) {
           // Play celebration sound for other players
           playNotificationSound();
           // Show celebration message
@@ -590,7 +656,7 @@ const PlayerView: React.FC = () => {
     });
 
     // Listen for mark confirmation from server to ensure sync
-    newSocket.on('mark-confirmed', (data: any) => {
+    newSocket.on('mark-confirmed', (data) => {
       const { position, songId, marked } = data;
       if (!position || !songId) return;
       
@@ -611,7 +677,7 @@ const PlayerView: React.FC = () => {
       });
     });
 
-    newSocket.on('game-restarted', (data: any) => {
+    newSocket.on('game-restarted', (data) => {
       console.log('Game restarted:', data);
       // Reset player state
       setGameState(prev => ({
@@ -657,7 +723,7 @@ const PlayerView: React.FC = () => {
       setTimeout(() => setBingoMessage(''), 5000);
     });
 
-    newSocket.on('pattern-complete', (data: any) => {
+    newSocket.on('pattern-complete', (data) => {
       console.log('Pattern complete:', data);
       setGameState(prev => ({ ...prev, hasBingo: true }));
       setBingoMessage('🎯 BINGO PATTERN READY! Hold button to call it!');
@@ -678,7 +744,7 @@ const PlayerView: React.FC = () => {
       console.log('🔁 Game reset');
     });
 
-    newSocket.on('player-left', (data: any) => {
+    newSocket.on('player-left', (data) => {
       console.log('Player left:', data);
       setGameState(prev => ({
         ...prev,
@@ -687,13 +753,13 @@ const PlayerView: React.FC = () => {
     });
 
     // Optional hint reveal to players (disabled for now; we listen but do not change UI)
-    newSocket.on('call-revealed', (payload: any) => {
+    newSocket.on('call-revealed', (payload) => {
       // If we later want to surface hints to players, gate by payload.revealToPlayers
       // Currently no-op
     });
 
     // Hard refresh from host
-    newSocket.on('force-refresh', (_: any) => {
+    newSocket.on('force-refresh', (_) => {
       try {
         localStorage.clear();
       } catch {}
@@ -724,17 +790,61 @@ const PlayerView: React.FC = () => {
   // If name becomes available after initial connect, join the room
   useEffect(() => {
     if (socket && socket.connected && playerName && playerName.trim()) {
-      try { socket.emit('join-room', { roomId, playerName, isHost: false, clientId, inPerson: inPersonJoin }); } catch {}
+      try { socket.emit('join-room', { roomId, playerName, isHost: false, clientId, inPerson: inPersonJoin, profileToken: profileToken || undefined }); } catch {}
     }
-  }, [socket, playerName, roomId, clientId, inPersonJoin]);
+  }, [socket, playerName, roomId, clientId, inPersonJoin, profileToken]);
+
+  // Emailed sign-in link (?profileLink=): trade it for a profile session once, then drop it from the URL
+  const profileLink = searchParams.get('profileLink');
+  useEffect(() => {
+    const link = profileLink;
+    if (!link) return;
+    try {
+      const url = new URL(window.location.href);
+      url.searchParams.delete('profileLink');
+      window.history.replaceState({}, '', url.toString());
+    } catch {}
+    (async () => {
+      try {
+        const res = await fetch(`${API_BASE || ''}/api/player-profile/magic-link/verify`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: link }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok || !data.token) {
+          setConnectionToast(data.message || 'That sign-in link did not work.');
+          setTimeout(() => setConnectionToast(''), 5000);
+          return;
+        }
+        try { localStorage.setItem(PROFILE_TOKEN_STORAGE_KEY, data.token); } catch {}
+        setProfileToken(data.token);
+        if (data.profile?.displayName) {
+          setPlayerName((current) => current || data.profile.displayName);
+        }
+        setShowProfile(true);
+      } catch {
+        setConnectionToast('Could not verify the sign-in link.');
+        setTimeout(() => setConnectionToast(''), 5000);
+      }
+    })();
+  }, [profileLink]);
 
   const handleResync = () => {
     if (!socket) return;
     try {
-      socket.emit('join-room', { roomId, playerName, isHost: false, clientId, inPerson: inPersonJoin });
+      socket.emit('join-room', { roomId, playerName, isHost: false, clientId, inPerson: inPersonJoin, profileToken: profileToken || undefined });
     } catch (_e) {}
   };
 
+  // Tick the auto-claim countdown while a nudge is showing
+  useEffect(() => {
+    if (!bingoNudge?.autoClaimAt) return;
+    setNudgeNow(Date.now());
+    const id = window.setInterval(() => setNudgeNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [bingoNudge]);
+
   // Keep screen awake during game using Wake Lock API
   useEffect(() => {
     let wakeLock: any = null;
@@ -902,6 +1012,11 @@ const PlayerView: React.FC = () => {
     }
   };
 
+  const handleShowNeededToggle = (checked: boolean) => {
+    setShowNeeded(checked);
+    try { localStorage.setItem('player_show_needed', checked ? '1' : '0'); } catch {}
+  };
+
   const handleDisplayModeToggle = (checked: boolean) => {
     const mode = checked ? 'artist' : 'title';
     setDisplayMode(mode);
@@ -1321,7 +1436,7 @@ const PlayerView: React.FC = () => {
           {bingoCard.squares.map((square) => (
             <motion.div
               key={square.position}
-              className={`bingo-square ${square.marked ? 'marked' : ''} ${isPatternSquare(square.position) ? 'pattern-highlight' : ''} ${square.isFreeSpace || square.songId === '__FREE_SPACE__' ? 'free-space' : ''}`}
+              className={`bingo-square ${square.marked ? 'marked' : ''} ${isPatternSquare(square.position) ? 'pattern-highlight' : ''} ${square.isFreeSpace || square.songId === '__FREE_SPACE__' ? 'free-space' : ''} ${showNeeded && cardProgress && cardProgress.squaresToGo <= NEEDED_HINT_MAX && cardProgress.missing.includes(square.position) ? 'needed-square' : ''}`}
               data-position={square.position}
               onClick={() => markSquare(square.position)}
               onPointerDown={(e) => handlePointerDown(square, e)}
@@ -1370,6 +1485,11 @@ const PlayerView: React.FC = () => {
             </motion.div>
           ))}
         </div>
+        {bingoCard.cardId && (
+          <div className="bingo-card-id" title="Card number — the host can check this card against the round's card manifest">
+            Card {bingoCard.cardId}
+          </div>
+        )}
       </div>
     );
   };
@@ -1407,7 +1527,7 @@ const PlayerView: React.FC = () => {
                   window.history.replaceState({}, '', url.toString());
                 } catch {}
                 if (socket && socket.connected) {
-                  try { socket.emit('join-room', { roomId, playerName: name, isHost: false, clientId, inPerson: inPersonJoin }); } catch {}
+                  try { socket.emit('join-room', { roomId, playerName: name, isHost: false, clientId, inPerson: inPersonJoin, profileToken: profileToken || undefined }); } catch {}
                 }
               }}
               autoFocus
@@ -1605,6 +1725,27 @@ const PlayerView: React.FC = () => {
               </div>
             )}
 
+            {bingoCard && (
+              <div className="player-controls-row player-controls-row-display">
+                <span className="player-controls-label">Hints</span>
+                <div className="player-controls-slot">
+                  <span className="player-controls-hint">
+                    {showNeeded && cardProgress && cardProgress.squaresToGo > 0
+                      ? `${cardProgress.squaresToGo} to go`
+                      : 'Show squares I need'}
+                  </span>
+                  <label className="toggle-switch toggle-switch--compact">
+                    <input
+                      type="checkbox"
+                      checked={showNeeded}
+                      onChange={(e) => handleShowNeededToggle(e.target.checked)}
+                    />
+                    <span className="slider" />
+                  </label>
+                </div>
+              </div>
+            )}
+
             <div
               className={`player-controls-row player-controls-row-textsize${!bingoCard ? ' player-controls-row-full' : ''}`}
             >
@@ -1661,6 +1802,169 @@ const PlayerView: React.FC = () => {
             </div>
           )}
 
+          {bingoNudge && (
+            <div
+              role="alert"
+              style={{
+                margin: '0 auto 10px',
+                maxWidth: 520,
+                padding: '10px 14px',
+                borderRadius: 12,
+                textAlign: 'center',
+                fontWeight: 800,
+                color: '#001b12',
+                background: 'linear-gradient(135deg, #00ff88, #00ccff)',
+              }}
+            >
+              🎉 You have BINGO — hold the button to claim it!
+              {bingoNudge.autoClaimAt && (
+                <div style={{ fontWeight: 600, fontSize: '0.85rem' }}>
+                  {bingoNudge.autoClaimAt > nudgeNow
+                    ? `We'll claim it for you in ${Math.ceil((bingoNudge.autoClaimAt - nudgeNow) / 1000)}s`
+                    : 'Claiming for you…'}
+                </div>
+              )}
+            </div>
+          )}
+
+          {queuePosition && (
+            <div
+              role="status"
+              style={{
+                margin: '0 auto 10px',
+                maxWidth: 520,
+                padding: '10px 14px',
+                borderRadius: 12,
+                textAlign: 'center',
+                fontWeight: 700,
+                color: '#fff8e1',
+                background: 'rgba(255, 193, 7, 0.14)',
+                border: '1px solid rgba(255, 193, 7, 0.45)',
+              }}
+            >
+              ⏳ You are #{queuePosition.position} in the verification queue
+              <div style={{ fontWeight: 500, fontSize: '0.85rem' }}>
+                {queuePosition.recheck
+                  ? 'The host is taking a second look at your card.'
+                  : queuePosition.position === 1
+                    ? 'The host is checking your card now.'
+                    : `${queuePosition.total} claims are waiting — hang tight.`}
+              </div>
+            </div>
+          )}
+
+          {prizeStages && (
+            <div
+              className="player-prize-stages"
+              style={{
+                margin: '0 auto 10px',
+                maxWidth: 520,
+                padding: '8px 12px',
+                borderRadius: 10,
+                fontSize: '0.82rem',
+                color: 'rgba(240,255,248,0.95)',
+                background: 'rgba(0, 255, 136, 0.1)',
+                border: '1px solid rgba(0, 255, 136, 0.35)',
+                textAlign: 'center',
+              }}
+            >
+              <strong>
+                Prize {prizeStages.stageIndex + 1} of {prizeStages.stages.length}:{' '}
+                {BINGO_PATTERNS[prizeStages.stages[prizeStages.stageIndex].pattern]?.label}
+              </strong>
+              <div style={{ marginTop: 4, opacity: 0.75 }}>
+                {prizeStages.stages.map((stage, i) => (
+                  <span
+                    key={i}
+                    style={{
+                      textDecoration: i < prizeStages.stageIndex ? 'line-through' : 'none',
+                      fontWeight: i === prizeStages.stageIndex ? 700 : 400,
+                    }}
+                  >
+                    {i > 0 ? ' → ' : ''}
+                    {BINGO_PATTERNS[stage.pattern]?.label || stage.pattern}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {leaderboard && leaderboard.standings.length > 0 && (() => {
+            const mine = leaderboard.standings.find((row) => row.playerId && row.playerId === socket?.id);
+            return (
+              <div
+                className="player-leaderboard"
+                style={{
+                  margin: '0 auto 10px',
+                  maxWidth: 520,
+                  padding: '8px 12px',
+                  borderRadius: 10,
+                  fontSize: '0.82rem',
+                  color: 'rgba(255,251,234,0.95)',
+                  background: 'rgba(255, 215, 0, 0.08)',
+                  border: '1px solid rgba(255, 215, 0, 0.3)',
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => setShowStandings((v) => !v)}
+                  aria-expanded={showStandings}
+                  style={{ all: 'unset', cursor: 'pointer', display: 'flex', width: '100%', justifyContent: 'space-between' }}
+                >
+                  <strong>🏆 Leaderboard</strong>
+                  <span>{mine ? `You: #${mine.rank} · ${mine.points} pts` : 'No points yet'} {showStandings ? '▲' : '▼'}</span>
+                </button>
+                {showStandings && (
+                  <ol style={{ margin: '6px 0 0', paddingLeft: 22 }}>
+                    {leaderboard.standings.slice(0, 10).map((row) => (
+                      <li
+                        key={`${row.rank}-${row.playerName}`}
+                        value={row.rank}
+                        style={{ fontWeight: row === mine ? 700 : 400 }}
+                      >
+                        {row.playerName} — {row.points} pts
+                        {row.wins > 0 ? ` · ${row.wins} win${row.wins === 1 ? '' : 's'}` : ''}
+                      </li>
+                    ))}
+                    {mine && mine.rank > 10 && (
+                      <li value={mine.rank} style={{ fontWeight: 700 }}>
+                        {mine.playerName} — {mine.points} pts
+                      </li>
+                    )}
+                  </ol>
+                )}
+              </div>
+            );
+          })()}
+
+          <div style={{ margin: '0 auto 10px', maxWidth: 520, textAlign: 'center' }}>
+            <button
+              type="button"
+              onClick={() => setShowProfile(true)}
+              style={{ all: 'unset', cursor: 'pointer', fontSize: '0.82rem', color: 'rgba(255,255,255,0.8)', textDecoration: 'underline' }}
+            >
+              📊 {profileToken ? 'My stats' : 'Sign in to track my stats'}
+            </button>
+          </div>
+          {showProfile && (
+            <PlayerProfilePanel
+              roomId={roomId}
+              playerName={playerName}
+              token={profileToken}
+              onSignedIn={(token, profile) => {
+                try { localStorage.setItem(PROFILE_TOKEN_STORAGE_KEY, token); } catch {}
+                setProfileToken(token);
+                if (!playerName.trim() && profile.displayName) setPlayerName(profile.displayName);
+              }}
+              onSignOut={() => {
+                try { localStorage.removeItem(PROFILE_TOKEN_STORAGE_KEY); } catch {}
+                setProfileToken('');
+                setShowProfile(false);
+              }}
+              onClose={() => setShowProfile(false)}
+            />
+          )}
+
           {connectionToast && (
             <motion.div
               className="player-connection-toast"
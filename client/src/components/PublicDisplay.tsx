@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import io from 'socket.io-client';
+import type { GameSocket, LeaderboardPayload, NearWinSummaryPayload, PatternStageChangedPayload, RoundTiebreakPayload } from '../socketProtocol';
 import { SOCKET_URL } from '../config';
 import { 
   Music, 
@@ -75,7 +76,8 @@ function countOccupiedBandsInPool(ids: string[] | null | undefined, playedIds: R
 }
 
 const PublicDisplay: React.FC = () => {
-  const { roomId } = useParams<{ roomId: string }>();
+  const { roomId: roomIdParam } = useParams<{ roomId: string }>();
+  const roomId = roomIdParam || '';
   const [fontSizeMultiplier, setFontSizeMultiplier] = useState<number>(1.0);
   const navigate = useNavigate();
   const [connectCode, setConnectCode] = useState<string>('');
@@ -250,13 +252,25 @@ const PublicDisplay: React.FC = () => {
     }>;
     winningPositions: string[];
     pattern: string;
+    /** Names sharing a split prize; the card shown is the first of them. */
+    coWinnerNames?: string[];
   } | null>(null);
   const [remoteHybridNotice, setRemoteHybridNotice] = useState<string>('');
+  /** Running tie-break (random draw or sudden death) between players who claimed on the same song. */
+  const [tiebreak, setTiebreak] = useState<RoundTiebreakPayload | null>(null);
+  const [drawSpinName, setDrawSpinName] = useState<string>('');
+  /** Progressive round ladder (null = single-prize round). */
+  const [stageLadder, setStageLadder] = useState<PatternStageChangedPayload | null>(null);
+  /** Event standings; shown between rounds (after round-complete until the next game starts). */
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPayload | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState<boolean>(false);
+  /** Cards one call from the pattern, pushed by the server on each call. */
+  const [nearWins, setNearWins] = useState<NearWinSummaryPayload | null>(null);
   // Connection status and sync management
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'reconnecting' | 'disconnected'>('disconnected');
   const [reconnectAttempts, setReconnectAttempts] = useState<number>(0);
   const [lastSyncTime, setLastSyncTime] = useState<number>(0);
-  const [socket, setSocket] = useState<any>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   // Global scroll phase to keep columns aligned + freeze control
   const [phasePx, setPhasePx] = useState<number>(0);
   const rafRef = useRef<number | null>(null);
@@ -350,7 +364,7 @@ const PublicDisplay: React.FC = () => {
     console.log('🖥️ PublicDisplay: Initializing socket connection');
     
     // Initialize socket with robust reconnection
-    const newSocket = io(SOCKET_URL || undefined, {
+    const newSocket: GameSocket = io(SOCKET_URL || undefined, {
       transports: ['websocket'],
       reconnection: true,
       reconnectionAttempts: Infinity,
@@ -384,13 +398,13 @@ const PublicDisplay: React.FC = () => {
       ensureGrid();
     });
 
-    newSocket.on('reconnect_attempt', (attempt: number) => {
+    newSocket.io.on('reconnect_attempt', (attempt: number) => {
       console.log(`🖥️ PublicDisplay: Reconnection attempt ${attempt}`);
       setConnectionStatus('reconnecting');
       setReconnectAttempts(attempt || 1);
     });
 
-    newSocket.on('reconnect', () => {
+    newSocket.io.on('reconnect', () => {
       console.log('🖥️ PublicDisplay: Reconnected successfully');
       setConnectionStatus('connected');
       setReconnectAttempts(0);
@@ -405,18 +419,18 @@ const PublicDisplay: React.FC = () => {
       setConnectionStatus('disconnected');
     });
 
-    newSocket.on('connect_error', (error: any) => {
+    newSocket.on('connect_error', (error) => {
       console.warn('🖥️ PublicDisplay: Connection error:', error?.message || error);
       setConnectionStatus('reconnecting');
     });
 
-    newSocket.on('reconnect_error', (error: any) => {
+    newSocket.io.on('reconnect_error', (error) => {
       console.warn('🖥️ PublicDisplay: Reconnection error:', error?.message || error);
       setConnectionStatus('reconnecting');
     });
 
     // State sync handler
-    newSocket.on('room-state', (payload: any) => {
+    newSocket.on('room-state', (payload) => {
       console.log('🖥️ PublicDisplay: Received room state sync:', payload);
       try {
         if (payload) {
@@ -438,7 +452,7 @@ const PublicDisplay: React.FC = () => {
             winners: payload.winners || prev.winners,
             playedSongs: (() => {
               if (Array.isArray(payload.playedSongs)) {
-                payload.playedSongs.forEach((song: any) => {
+                payload.playedSongs.forEach((song) => {
                   if (song && typeof song === 'object' && song.id && song.name) {
                     idMetaRef.current[song.id] = {
                       name: song.name,
@@ -447,7 +461,7 @@ const PublicDisplay: React.FC = () => {
                   }
                 });
                 return payload.playedSongs
-                  .map((song: any) => {
+                  .map((song) => {
                     const id = typeof song === 'string' ? song : song?.id;
                     if (!id) return null;
                     const meta = idMetaRef.current[id];
@@ -505,7 +519,7 @@ const PublicDisplay: React.FC = () => {
           // This is the ONLY place where playedOrderRef should be updated
           if (Array.isArray(payload.playedSongs)) {
             const playedIds = payload.playedSongs
-              .map((song: any) => (typeof song === 'string' ? song : song?.id))
+              .map((song) => (typeof song === 'string' ? song : song?.id))
               .filter(Boolean);
             // Validate sync: compare local vs server state
             const serverCount = playedIds.length;
@@ -533,7 +547,7 @@ const PublicDisplay: React.FC = () => {
             console.log(`🔄 Synced playedSeqRef to match server order (${playedIds.length} songs)`);
             
             // Update metadata cache
-            payload.playedSongs.forEach((song: any) => {
+            payload.playedSongs.forEach((song) => {
               const sid = typeof song === 'string' ? song : song?.id;
               if (sid && typeof song === 'object' && song.name) {
                 idMetaRef.current[sid] = {
@@ -607,27 +621,27 @@ const PublicDisplay: React.FC = () => {
     });
 
     // Listen for font size updates
-    newSocket.on('public-display-font-size-updated', (data: any) => {
+    newSocket.on('public-display-font-size-updated', (data) => {
       if (typeof data?.fontSize === 'number') {
         setFontSizeMultiplier(data.fontSize);
         console.log(`📏 Public display font size updated to ${data.fontSize}x`);
       }
     });
 
-    newSocket.on('public-display-call-list-mode-updated', (data: any) => {
+    newSocket.on('public-display-call-list-mode-updated', (data) => {
       const m = data?.mode;
       if (m === 'grouped' || m === '5x15' || m === 'auto') {
         setCallListMode(m);
       }
     });
 
-    newSocket.on('player-joined', (data: any) => {
+    newSocket.on('player-joined', (data) => {
       const count = Math.max(0, Number(data.playerCount || 0));
       setGameState(prev => ({ ...prev, playerCount: count }));
       window.dispatchEvent(new CustomEvent('display-player-count', { detail: { playerCount: count } }));
       setRoomInfo(prev => (prev ? { ...prev, playerCount: count } : prev));
     });
-    newSocket.on('player-left', (data: any) => {
+    newSocket.on('player-left', (data) => {
       const count = Math.max(0, Number(data.playerCount || 0));
       setGameState(prev => ({ ...prev, playerCount: count }));
       window.dispatchEvent(new CustomEvent('display-player-count', { detail: { playerCount: count } }));
@@ -635,7 +649,7 @@ const PublicDisplay: React.FC = () => {
     });
 
     // Receive 1x75 pool ordering (ids only)
-    newSocket.on('oneby75-pool', (data: any) => {
+    newSocket.on('oneby75-pool', (data) => {
       if (Array.isArray(data?.ids) && data.ids.length === 75) {
         setOneBy75Ids(data.ids);
         oneBy75IdsRef.current = data.ids;
@@ -677,15 +691,15 @@ const PublicDisplay: React.FC = () => {
     });
 
     // Receive 5x15 pool as 5 columns of 15 ids
-    newSocket.on('fiveby15-pool', (data: any) => {
-      if (Array.isArray(data?.columns) && data.columns.length === 5 && data.columns.every((c: any) => Array.isArray(c))) {
+    newSocket.on('fiveby15-pool', (data) => {
+      if (Array.isArray(data?.columns) && data.columns.length === 5 && data.columns.every((c) => Array.isArray(c))) {
         try {
-          const cols = data.columns.map((col: any) => col.slice(0, 15));
+          const cols = data.columns.map((col) => col.slice(0, 15));
           setFiveBy15Columns(cols);
           if (Array.isArray(data?.names)) setPlaylistNames(data.names);
           // Preload metadata for revealed titles to avoid 'Unknown'
           if (data?.meta && typeof data.meta === 'object') {
-            Object.entries(data.meta).forEach(([id, m]: any) => {
+            Object.entries(data.meta).forEach(([id, m]) => {
               idMetaRef.current[id] = { name: m?.name || 'Unknown', artist: m?.artist || '' };
             });
           }
@@ -741,7 +755,7 @@ const PublicDisplay: React.FC = () => {
     });
 
     // Receive explicit id->column map (authoritative placement)
-    newSocket.on('fiveby15-map', (data: any) => {
+    newSocket.on('fiveby15-map', (data) => {
       if (data && data.idToColumn && typeof data.idToColumn === 'object') {
         idToColumnRef.current = data.idToColumn;
         // Reconcile pending after receiving authoritative map
@@ -755,8 +769,8 @@ const PublicDisplay: React.FC = () => {
       }
     });
 
-    newSocket.on('bingo-card', (card: any) => {
-      const squares = (card.squares || []).map((s: any) => ({
+    newSocket.on('bingo-card', (card) => {
+      const squares = (card.squares || []).map((s) => ({
         song: { 
           id: s.songId, 
           name: s.customSongName || cleanSongTitle(s.songName), 
@@ -768,14 +782,14 @@ const PublicDisplay: React.FC = () => {
       setGameState(prev => ({ ...prev, bingoCard: { squares, size: 5 } }));
     });
 
-    newSocket.on('pattern-updated', (data: any) => {
+    newSocket.on('pattern-updated', (data) => {
       try {
         const p = data?.pattern;
         if (p) setPattern(p);
       } catch {}
     });
 
-    newSocket.on('song-playing', (data: any) => {
+    newSocket.on('song-playing', (data) => {
       const song = { 
         id: data.songId, 
         name: data.customSongName || cleanSongTitle(data.songName), 
@@ -914,7 +928,8 @@ const PublicDisplay: React.FC = () => {
       }, 100);
     });
 
-    newSocket.on('game-started', (data: any) => {
+    newSocket.on('game-started', (data) => {
+      setShowLeaderboard(false);
       setWinnerCardModal(null);
       setGameState(prev => ({ 
         ...prev, 
@@ -1021,7 +1036,7 @@ const PublicDisplay: React.FC = () => {
       }, 3000);
     });
 
-    newSocket.on('pattern-updated', (data: any) => {
+    newSocket.on('pattern-updated', (data) => {
       try {
         if (data?.pattern) setPattern(data.pattern);
         if (Array.isArray(data?.customMask)) {
@@ -1032,7 +1047,7 @@ const PublicDisplay: React.FC = () => {
       } catch {}
     });
 
-    newSocket.on('bingo-remote-unofficial', (data: any) => {
+    newSocket.on('bingo-remote-unofficial', (data) => {
       try {
         const n = data?.playerName ? String(data.playerName) : '';
         if (n) {
@@ -1042,17 +1057,39 @@ const PublicDisplay: React.FC = () => {
       } catch {}
     });
 
+    newSocket.on('pattern-stage-changed', (data) => {
+      setStageLadder(data.stages.length > 0 ? data : null);
+    });
+
+    newSocket.on('leaderboard-updated', (data) => {
+      setLeaderboard(data);
+    });
+
+    newSocket.on('near-win-summary', (data) => {
+      setNearWins(data);
+    });
+
+    newSocket.on('round-complete', () => {
+      setShowLeaderboard(true);
+    });
+
+    newSocket.on('round-tiebreak', (data) => {
+      setIsVerificationPending(false);
+      setTiebreak(data);
+    });
+
     // Handle bingo verification pending (someone called bingo, awaiting host verification)
-    newSocket.on('bingo-verification-pending', (data: any) => {
+    newSocket.on('bingo-verification-pending', (data) => {
       setIsVerificationPending(true);
       console.log(`${data.playerName} called BINGO - awaiting verification`);
     });
 
     // Handle confirmed bingo wins (after host verification)
-    newSocket.on('bingo-called', (data: any) => {
+    newSocket.on('bingo-called', (data) => {
       // Only show winner if this is a verified/confirmed bingo
       if (data.verified && !data.awaitingVerification) {
         setIsVerificationPending(false); // Clear verification pending state
+        setTiebreak(null);
         setGameState(prev => ({ ...prev, winners: data.winners || prev.winners }));
         try {
           if (data.playerName) {
@@ -1073,6 +1110,7 @@ const PublicDisplay: React.FC = () => {
                 squares: wc.squares,
                 winningPositions: Array.isArray(data.winningPositions) ? data.winningPositions : [],
                 pattern: typeof data.pattern === 'string' ? data.pattern : 'line',
+                coWinnerNames: Array.isArray(data.coWinners) ? data.coWinners.map((w) => String(w?.playerName || '')) : undefined,
               });
               playPublicCelebrationSound();
             } else {
@@ -1091,10 +1129,11 @@ const PublicDisplay: React.FC = () => {
       }
     });
 
-    newSocket.on('mix-finalized', (payload: any) => {
+    newSocket.on('mix-finalized', (payload) => {
       setWinnerCardModal(null);
+      setTiebreak(null);
       try {
-        const names = Array.isArray(payload?.playlists) ? payload.playlists.map((p: any) => String(p?.name || '')) : [];
+        const names = Array.isArray(payload?.playlists) ? payload.playlists.map((p) => String(p?.name || '')) : [];
         setPlaylistNames(names);
         
         // Switch to game mode: hide splash and rules, show bingo card
@@ -1106,6 +1145,7 @@ const PublicDisplay: React.FC = () => {
     });
 
     newSocket.on('game-session-ended', () => {
+      setShowLeaderboard(true);
       setWinnerCardModal(null);
       setGameState((prev) => ({
         ...prev,
@@ -1135,7 +1175,7 @@ const PublicDisplay: React.FC = () => {
       console.log('▶️ Game resumed (display)');
     });
 
-    newSocket.on('game-restarted', (data: any) => {
+    newSocket.on('game-restarted', (data) => {
       console.log('Game restarted:', data);
       setWinnerCardModal(null);
       // Reset display state
@@ -1175,7 +1215,9 @@ const PublicDisplay: React.FC = () => {
     });
 
     // Handle next-round-reset event (full reset to setup)
-    newSocket.on('next-round-reset', (data: any) => {
+    newSocket.on('next-round-reset', (data) => {
+      setTiebreak(null);
+      setStageLadder(null);
       console.log('Next round reset (public display):', data);
       setWinnerCardModal(null);
       // Reset display state completely
@@ -1212,6 +1254,8 @@ const PublicDisplay: React.FC = () => {
     });
 
     newSocket.on('game-reset', () => {
+      setTiebreak(null);
+      setStageLadder(null);
       setWinnerCardModal(null);
       setGameState({
         isPlaying: false,
@@ -1236,14 +1280,14 @@ const PublicDisplay: React.FC = () => {
     });
 
     // Staged reveal event: show name/artist hints without changing the bingo grid
-    newSocket.on('call-revealed', (payload: any) => {
+    newSocket.on('call-revealed', (payload) => {
       console.log('📣 Call revealed:', payload);
       if (payload?.revealToDisplay) {
         // Update the header Now Playing banner content without marking grid
         setGameState(prev => ({
           ...prev,
           currentSong: {
-            id: payload.songId || prev.currentSong?.id,
+            id: payload.songId || prev.currentSong?.id || '',
             name: payload.songName || prev.currentSong?.name || '',
             artist: payload.artistName || prev.currentSong?.artist || ''
           }
@@ -1479,6 +1523,22 @@ const PublicDisplay: React.FC = () => {
     };
   }, [visibleCols]);
 
+  // Random-draw tie-break: cycle through the tied names until the server announces the pick
+  useEffect(() => {
+    if (!tiebreak || tiebreak.mode !== 'draw') return;
+    if (tiebreak.phase === 'resolved') {
+      setDrawSpinName(tiebreak.winnerName || '');
+      return;
+    }
+    const names = tiebreak.candidates.map((c) => c.playerName);
+    let i = 0;
+    const interval = setInterval(() => {
+      i = (i + 1) % names.length;
+      setDrawSpinName(names[i]);
+    }, 120);
+    return () => clearInterval(interval);
+  }, [tiebreak]);
+
   // Measure per-column viewport height to derive row height (5 visible rows)
   useEffect(() => {
     const el = vertViewportRef.current;
@@ -2418,6 +2478,12 @@ const PublicDisplay: React.FC = () => {
     );
   }
 
+  // Generated by the server as SVG so it stays sharp at any size; the venue logo sits in the centre.
+  const joinUrl = (typeof window !== 'undefined' ? window.location.origin : '') + '/player/' + roomId;
+  const joinQrSrc =
+    `${API_BASE || ''}/api/qr?format=svg&size=800&data=${encodeURIComponent(joinUrl)}` +
+    (venueBranding?.logoUrl ? `&logo=venue&roomId=${encodeURIComponent(roomId || '')}` : '');
+
   return (
     <div
       ref={displayRef}
@@ -2559,6 +2625,11 @@ const PublicDisplay: React.FC = () => {
                 >
                   {patternLabelForWinnerModal(winnerCardModal.pattern)}
                 </div>
+                {winnerCardModal.coWinnerNames && winnerCardModal.coWinnerNames.length > 1 && (
+                  <div style={{ fontSize: 'clamp(0.95rem, 2.2vmin, 1.6rem)', opacity: 0.85, fontWeight: 700 }}>
+                    Split prize · card shown: {winnerCardModal.coWinnerNames[0]}
+                  </div>
+                )}
               </div>
 
               {/* Center: maximize square card in remaining width + viewport height */}
@@ -2757,6 +2828,180 @@ const PublicDisplay: React.FC = () => {
           </motion.div>
           );
         })()}
+        {stageLadder && (
+          <motion.div
+            key="stage-ladder"
+            aria-label="Prize stages"
+            initial={{ opacity: 0, x: -12 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -12 }}
+            style={{
+              position: 'fixed',
+              left: 16,
+              bottom: 16,
+              zIndex: 10005,
+              padding: '12px 16px',
+              borderRadius: 14,
+              background: 'rgba(0, 0, 0, 0.55)',
+              border: '1px solid rgba(0, 255, 170, 0.35)',
+              color: '#eafff8',
+              boxShadow: '0 8px 32px rgba(0,0,0,0.45)',
+              minWidth: 200,
+            }}
+          >
+            <div style={{ fontSize: 'clamp(0.75rem, 1.2vw, 0.95rem)', opacity: 0.75, fontWeight: 700, marginBottom: 6 }}>
+              PRIZES
+            </div>
+            {[...stageLadder.stages].reverse().map((stage, reversedIndex) => {
+              const i = stageLadder.stages.length - 1 - reversedIndex;
+              const done = stageLadder.completed.find((c) => c.stageIndex === i);
+              const current = i === stageLadder.stageIndex;
+              return (
+                <div
+                  key={i}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'baseline',
+                    gap: 10,
+                    padding: '4px 8px',
+                    borderRadius: 8,
+                    fontSize: 'clamp(0.9rem, 1.6vw, 1.3rem)',
+                    fontWeight: current ? 900 : 600,
+                    background: current ? 'rgba(0, 255, 170, 0.22)' : 'transparent',
+                    opacity: done || current ? 1 : 0.6,
+                  }}
+                >
+                  <span style={{ width: '1.4em', textAlign: 'right' }}>{done ? '✓' : i + 1}</span>
+                  <span style={{ textDecoration: done ? 'line-through' : 'none' }}>{patternLabelForWinnerModal(stage.pattern)}</span>
+                  {done && (
+                    <span style={{ fontSize: '0.75em', opacity: 0.85, fontWeight: 600 }}>{done.winners.join(' & ')}</span>
+                  )}
+                </div>
+              );
+            })}
+          </motion.div>
+        )}
+        {showLeaderboard && !winnerCardModal && leaderboard && leaderboard.standings.length > 0 && (
+          <motion.div
+            key="leaderboard"
+            aria-label="Leaderboard"
+            initial={{ opacity: 0, x: 12 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 12 }}
+            style={{
+              position: 'fixed',
+              right: 16,
+              bottom: 16,
+              zIndex: 10005,
+              padding: '12px 16px',
+              borderRadius: 14,
+              background: 'rgba(0, 0, 0, 0.6)',
+              border: '1px solid rgba(255, 215, 0, 0.4)',
+              color: '#fffbea',
+              boxShadow: '0 8px 32px rgba(0,0,0,0.45)',
+              minWidth: 260,
+            }}
+          >
+            <div style={{ fontSize: 'clamp(0.75rem, 1.2vw, 0.95rem)', opacity: 0.75, fontWeight: 700, marginBottom: 6 }}>
+              LEADERBOARD
+            </div>
+            {leaderboard.standings.slice(0, 10).map((row) => (
+              <div
+                key={`${row.rank}-${row.playerName}`}
+                style={{
+                  display: 'flex',
+                  alignItems: 'baseline',
+                  gap: 10,
+                  padding: '3px 8px',
+                  fontSize: 'clamp(0.9rem, 1.6vw, 1.3rem)',
+                  fontWeight: row.rank === 1 ? 900 : 600,
+                }}
+              >
+                <span style={{ width: '1.6em', textAlign: 'right', opacity: 0.8 }}>{row.rank}</span>
+                <span style={{ flex: 1 }}>{row.playerName}</span>
+                <span style={{ fontVariantNumeric: 'tabular-nums' }}>{row.points}</span>
+              </div>
+            ))}
+          </motion.div>
+        )}
+        {tiebreak && (
+          <motion.div
+            key="round-tiebreak"
+            role="status"
+            aria-live="polite"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            style={{
+              position: 'fixed',
+              left: 0,
+              right: 0,
+              top: `${headerToastTopPx}px`,
+              marginLeft: 'auto',
+              marginRight: 'auto',
+              maxWidth: 'min(92vw, 900px)',
+              width: 'fit-content',
+              zIndex: 10011,
+              padding: '18px 28px',
+              borderRadius: 16,
+              background: 'linear-gradient(180deg, rgba(170,60,255,0.45), rgba(60,0,110,0.35))',
+              border: '1px solid rgba(200,120,255,0.6)',
+              color: '#f6ecff',
+              fontWeight: 800,
+              fontSize: 'clamp(1.1rem, 2.6vw, 1.8rem)',
+              textAlign: 'center',
+              boxShadow: '0 8px 32px rgba(0,0,0,0.45)',
+            }}
+          >
+            {tiebreak.mode === 'draw' ? (
+              <>
+                <div>🎲 Tie! Drawing a winner…</div>
+                <div style={{ fontSize: 'clamp(1.6rem, 5vw, 3.2rem)', fontWeight: 900, marginTop: 8 }}>
+                  {drawSpinName || tiebreak.candidates[0]?.playerName}
+                </div>
+              </>
+            ) : (
+              <>
+                <div>⚔️ Sudden death: {tiebreak.candidates.map((c) => c.playerName).join(' vs ')}</div>
+                <div style={{ fontSize: 'clamp(0.9rem, 1.8vw, 1.2rem)', fontWeight: 700, opacity: 0.9, marginTop: 6 }}>
+                  {tiebreak.phase === 'resolved'
+                    ? `${tiebreak.winnerName} takes it!`
+                    : `First to hold the next song on their card wins · song ${Math.min((tiebreak.songsPlayed || 0) + 1, tiebreak.maxSongs || 1)} of ${tiebreak.maxSongs}`}
+                </div>
+              </>
+            )}
+          </motion.div>
+        )}
+        {gameState.isPlaying && !isVerificationPending && !winnerCardModal && nearWins && nearWins.oneAway > 0 && (
+          <motion.div
+            key="near-wins"
+            role="status"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            style={{
+              position: 'fixed',
+              left: 0,
+              right: 0,
+              bottom: 16,
+              marginLeft: 'auto',
+              marginRight: 'auto',
+              width: 'fit-content',
+              zIndex: 10004,
+              padding: '10px 20px',
+              borderRadius: 14,
+              background: 'linear-gradient(180deg, rgba(255,140,0,0.4), rgba(120,50,0,0.3))',
+              border: '1px solid rgba(255,170,0,0.6)',
+              color: '#fff4e0',
+              fontWeight: 800,
+              fontSize: 'clamp(1rem, 2.2vw, 1.5rem)',
+              textAlign: 'center',
+              boxShadow: '0 8px 32px rgba(0,0,0,0.45)',
+            }}
+          >
+            🔥 {nearWins.oneAway === 1 ? '1 player is' : `${nearWins.oneAway} players are`} one away!
+          </motion.div>
+        )}
         {remoteHybridNotice && (
           <motion.div
             key="remote-hybrid-notice"
@@ -3146,7 +3391,7 @@ const PublicDisplay: React.FC = () => {
                       border: '1px solid rgba(255,255,255,0.2)',
                       boxShadow: '0 16px 44px rgba(0,0,0,0.5)',
                     }}
-                    src={`${API_BASE || ''}/api/qr?size=800&data=${encodeURIComponent((typeof window !== 'undefined' ? window.location.origin : '') + '/player/' + roomId)}`}
+                    src={joinQrSrc}
                   />
                   <div
                     style={{
@@ -3742,7 +3987,7 @@ const PublicDisplay: React.FC = () => {
                         borderRadius: 8, 
                         border: '1px solid rgba(255,255,255,0.15)' 
                       }}
-                      src={`${API_BASE || ''}/api/qr?size=800&data=${encodeURIComponent((typeof window !== 'undefined' ? window.location.origin : '') + '/player/' + roomId)}`}
+                      src={joinQrSrc}
                     />
                     <div style={{ fontSize: '1.3rem', fontWeight: 800, color: '#ddd', lineHeight: 1 }}>Scan to join</div>
                 </div>
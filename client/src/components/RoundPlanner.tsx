@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   ChevronDown,
   ChevronUp,
@@ -8,8 +8,14 @@ import {
   Plus,
   Trash2,
   Music,
-  Folder
+  Folder,
+  Timer
 } from 'lucide-react';
+import type { PatternStage, WinnerPolicy } from '../socketProtocol';
+import { PATTERN_OPTIONS, getPatternDisplayName } from '../patternDefinitions';
+import type { BingoPattern } from '../patternDefinitions';
+import { fetchRoundEstimates } from '../utils/roundEstimates';
+import type { RoundEstimate } from '../utils/roundEstimates';
 
 interface Playlist {
   id: string;
@@ -27,6 +33,10 @@ interface EventRound {
   status: 'completed' | 'active' | 'planned' | 'unplanned';
   startedAt?: number;
   completedAt?: number;
+  /** Unset = 'first'. */
+  winnerPolicy?: WinnerPolicy;
+  /** Progressive round: prizes in order, all on the same cards. */
+  stages?: PatternStage[];
 }
 
 interface RoundPlannerProps {
@@ -36,6 +46,13 @@ interface RoundPlannerProps {
   currentRound: number;
   onStartRound: (roundIndex: number) => void;
   gameState: 'waiting' | 'playing' | 'ended';
+  /** Game settings the estimates use when a round has no prize stages of its own. */
+  pattern: BingoPattern;
+  customMask: string[];
+  freeSpace: boolean;
+  snippetLength: number;
+  /** Players in the room now; the estimate's default player count. */
+  playerCount: number;
 }
 
 /**
@@ -44,6 +61,25 @@ interface RoundPlannerProps {
  */
 const MAX_ROUND_BUCKETS = 12;
 
+/** Matches MAX_STAGES in server/patternStages.js. */
+const MAX_PRIZE_STAGES = 6;
+/** Custom masks are drawn in the pattern picker, so stages offer the preset shapes. */
+const STAGE_PATTERN_OPTIONS = PATTERN_OPTIONS.filter((p) => p.value !== 'custom');
+const STAGE_DEFAULT_ORDER: PatternStage['pattern'][] = ['line', 'four_corners', 'full_card', 'x'];
+
+/** Quiet time after a planner change before asking the server for new estimates. */
+const ESTIMATE_DEBOUNCE_MS = 400;
+
+/** Player count for estimates before anyone has joined. */
+const DEFAULT_PLANNED_PLAYERS = 20;
+
+const WINNER_POLICY_OPTIONS: Array<{ value: WinnerPolicy; label: string }> = [
+  { value: 'first', label: 'First verified wins' },
+  { value: 'split', label: 'Same-song claims split' },
+  { value: 'tiebreak_song', label: 'Tie → sudden-death song' },
+  { value: 'tiebreak_draw', label: 'Tie → random draw' },
+];
+
 // Add shimmer and pulse animation styles
 const animationStyles = `
   @keyframes shimmer {
@@ -77,10 +113,52 @@ const RoundPlanner: React.FC<RoundPlannerProps> = ({
   playlists,
   currentRound,
   onStartRound,
-  gameState
+  gameState,
+  pattern,
+  customMask,
+  freeSpace,
+  snippetLength,
+  playerCount
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [dragOverBucket, setDragOverBucket] = useState<number | null>(null);
+  /** Host-entered player count for the estimates; null follows the room. */
+  const [plannedPlayers, setPlannedPlayers] = useState<number | null>(null);
+  const estimatePlayers = plannedPlayers ?? (playerCount > 0 ? playerCount : DEFAULT_PLANNED_PLAYERS);
+
+  // Round-length estimates (server Monte Carlo over the card rules) for rounds still to play
+  const [estimates, setEstimates] = useState<Array<RoundEstimate | null>>([]);
+  const estimateRequests = useMemo(() => {
+    const gameStage = { pattern, customMask: pattern === 'custom' ? customMask : undefined };
+    return rounds.map((round) => ({
+      playlistSizes:
+        round.status === 'completed' || round.songCount <= 0
+          ? []
+          : (round.playlistIds || []).map((id) => playlists.find((p) => p.id === id)?.tracks || 0),
+      stages: round.stages && round.stages.length ? round.stages : [gameStage],
+    }));
+  }, [rounds, playlists, pattern, customMask]);
+  useEffect(() => {
+    if (!estimateRequests.some((r) => r.playlistSizes.length)) {
+      setEstimates([]);
+      return;
+    }
+    let stale = false;
+    // Debounced: the planner changes on every drag and keystroke
+    const timer = window.setTimeout(() => {
+      fetchRoundEstimates(estimateRequests, { freeSpace, players: estimatePlayers, snippetSeconds: snippetLength })
+        .then((next) => {
+          if (!stale) setEstimates(next);
+        })
+        .catch(() => {
+          if (!stale) setEstimates([]);
+        });
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      stale = true;
+      window.clearTimeout(timer);
+    };
+  }, [estimateRequests, freeSpace, snippetLength, estimatePlayers]);
 
   // Utility function to ensure consistent round numbering
   const ensureSequentialNumbering = (roundsToNumber: EventRound[]) => {
@@ -147,6 +225,25 @@ const RoundPlanner: React.FC<RoundPlannerProps> = ({
     onUpdateRounds(newRounds);
   };
 
+  const setRoundWinnerPolicy = (roundIndex: number, winnerPolicy: WinnerPolicy) => {
+    const newRounds = [...rounds];
+    newRounds[roundIndex] = { ...newRounds[roundIndex], winnerPolicy };
+    onUpdateRounds(newRounds);
+  };
+
+  const setRoundStages = (roundIndex: number, stages: PatternStage[]) => {
+    const newRounds = [...rounds];
+    newRounds[roundIndex] = { ...newRounds[roundIndex], stages };
+    onUpdateRounds(newRounds);
+  };
+
+  const addRoundStage = (roundIndex: number) => {
+    const stages = rounds[roundIndex].stages || [];
+    const used = new Set(stages.map((st) => st.pattern));
+    const pattern = STAGE_DEFAULT_ORDER.find((p) => !used.has(p)) || 'full_card';
+    setRoundStages(roundIndex, [...stages, { pattern }]);
+  };
+
   const removePlaylistFromRound = (roundIndex: number, playlistId: string) => {
     const newRounds = [...rounds];
     const round = newRounds[roundIndex];
@@ -261,6 +358,25 @@ const RoundPlanner: React.FC<RoundPlannerProps> = ({
             <p className="text-sm text-gray-400 mt-1">
               Drag playlists from the list above into each bucket. Up to {MAX_ROUND_BUCKETS} rounds.
             </p>
+            <label
+              className="inline-flex items-center gap-2 text-xs text-gray-400 mt-2"
+              title="Round-length estimates assume this many players, one card each"
+            >
+              <Timer className="w-3.5 h-3.5 text-[#00ff88]" aria-hidden />
+              Estimate for
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={estimatePlayers}
+                onChange={(e) => {
+                  const n = parseInt(e.target.value, 10);
+                  setPlannedPlayers(Number.isFinite(n) ? Math.min(500, Math.max(1, n)) : null);
+                }}
+                className="w-16 bg-black/40 border border-white/20 rounded-md px-2 py-1 text-white text-xs"
+              />
+              players · {snippetLength}s snippets
+            </label>
           </div>
         </div>
         <div className="flex flex-wrap items-center justify-end gap-2 shrink-0 w-full sm:w-auto">
@@ -571,6 +687,90 @@ const RoundPlanner: React.FC<RoundPlannerProps> = ({
                         })()}
                       </div>
                     )}
+
+                    {estimates[index] && (
+                      <div
+                        className="text-xs text-gray-400 mb-2"
+                        title={`${estimates[index]!.mode} cards, ${estimates[index]!.callPool} songs to call. Median, with the 10th–90th percentile range.`}
+                      >
+                        {estimates[index]!.stages.map((stage, stageIndex) => (
+                          <div key={stageIndex} className="flex items-center gap-1.5">
+                            <Timer className="w-3 h-3 shrink-0 text-[#00ff88]" aria-hidden />
+                            <span>
+                              {estimates[index]!.stages.length > 1 ? `${getPatternDisplayName(stage.pattern)}: ` : 'First winner: '}
+                              ~{stage.songs.p50} songs · {stage.minutes.p50} min
+                              <span className="text-gray-500"> ({stage.songs.p10}–{stage.songs.p90})</span>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <label className="flex items-center gap-2 text-xs text-gray-400 mb-2">
+                      <span className="shrink-0">Winners</span>
+                      <select
+                        value={round.winnerPolicy || 'first'}
+                        onChange={(e) => setRoundWinnerPolicy(index, e.target.value as WinnerPolicy)}
+                        disabled={round.status === 'completed'}
+                        className="flex-1 min-w-0 bg-black/40 border border-white/20 rounded-md px-2 py-1 text-white text-xs disabled:opacity-50"
+                        title="What happens when several players claim bingo on the same song"
+                      >
+                        {WINNER_POLICY_OPTIONS.map((opt) => (
+                          <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                      </select>
+                    </label>
+
+                    <div className="text-xs text-gray-400 mb-2">
+                      <div className="flex items-center justify-between mb-1">
+                        <span>Prize stages</span>
+                        {round.status !== 'completed' && (round.stages || []).length < MAX_PRIZE_STAGES && (
+                          <button
+                            type="button"
+                            onClick={() => addRoundStage(index)}
+                            className="text-[#00ff88] hover:underline"
+                          >
+                            + Add stage
+                          </button>
+                        )}
+                      </div>
+                      {(round.stages || []).length === 0 ? (
+                        <div className="text-gray-500">One prize — pattern from the game settings</div>
+                      ) : (
+                        <ol className="space-y-1">
+                          {(round.stages || []).map((stage, stageIndex) => (
+                            <li key={stageIndex} className="flex items-center gap-2">
+                              <span className="w-4 shrink-0 text-gray-500">{stageIndex + 1}.</span>
+                              <select
+                                value={stage.pattern}
+                                onChange={(e) => {
+                                  const next = [...(round.stages || [])];
+                                  next[stageIndex] = { pattern: e.target.value as PatternStage['pattern'] };
+                                  setRoundStages(index, next);
+                                }}
+                                disabled={round.status === 'completed'}
+                                className="flex-1 min-w-0 bg-black/40 border border-white/20 rounded-md px-2 py-1 text-white text-xs disabled:opacity-50"
+                              >
+                                {STAGE_PATTERN_OPTIONS.map((opt) => (
+                                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                ))}
+                              </select>
+                              {round.status !== 'completed' && (
+                                <button
+                                  type="button"
+                                  onClick={() => setRoundStages(index, (round.stages || []).filter((_, i) => i !== stageIndex))}
+                                  className="text-red-400 hover:text-red-300 px-1"
+                                  title="Remove stage"
+                                  aria-label={`Remove stage ${stageIndex + 1}`}
+                                >
+                                  ×
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
                     
                     <div className="flex gap-2 items-stretch">
                       {!isActive && round.status !== 'completed' && canStartRound(round) && (
@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Save, RotateCcw } from 'lucide-react';
+import type { CustomTitleScope } from '../socketProtocol';
 
 interface SongTitleEditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (songId: string, customTitle: string) => void;
+  /** An empty customTitle clears the override for that scope. */
+  onSave: (songId: string, customTitle: string, scope: CustomTitleScope) => void;
   songId: string;
   originalTitle: string;
   customTitle?: string;
+  /** Scope the current custom title comes from (undefined when there is none). */
+  customTitleScope?: CustomTitleScope;
+  roomId: string;
+  organizationName?: string | null;
   artistName: string;
 }
 
@@ -19,33 +25,52 @@ const SongTitleEditModal: React.FC<SongTitleEditModalProps> = ({
   songId,
   originalTitle,
   customTitle,
+  customTitleScope,
+  roomId,
+  organizationName,
   artistName
 }) => {
   const [editedTitle, setEditedTitle] = useState(customTitle || originalTitle);
+  const [scope, setScope] = useState<CustomTitleScope>(customTitleScope || 'organization');
   const [hasChanges, setHasChanges] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
       setEditedTitle(customTitle || originalTitle);
+      setScope(customTitleScope || 'organization');
       setHasChanges(false);
     }
-  }, [isOpen, customTitle, originalTitle]);
+  }, [isOpen, customTitle, customTitleScope, originalTitle]);
+
+  const computeHasChanges = (title: string, nextScope: CustomTitleScope) =>
+    title !== (customTitle || originalTitle) || (!!customTitle && nextScope !== customTitleScope);
 
   const handleTitleChange = (value: string) => {
     setEditedTitle(value);
-    setHasChanges(value !== (customTitle || originalTitle));
+    setHasChanges(computeHasChanges(value, scope));
+  };
+
+  const handleScopeChange = (next: CustomTitleScope) => {
+    setScope(next);
+    setHasChanges(computeHasChanges(editedTitle, next));
   };
 
   const handleSave = () => {
-    onSave(songId, editedTitle);
+    // Saving the original title clears the override for the chosen scope
+    onSave(songId, editedTitle.trim() === originalTitle ? '' : editedTitle, scope);
     onClose();
   };
 
   const handleReset = () => {
     setEditedTitle(originalTitle);
-    setHasChanges(false);
+    setHasChanges(computeHasChanges(originalTitle, scope));
   };
 
+  const scopeLabel = (value: CustomTitleScope) =>
+    value === 'room'
+      ? `This room only (${roomId})`
+      : `All rooms for ${organizationName || 'your organization'}`;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && e.ctrlKey) {
       handleSave();
@@ -192,6 +217,47 @@ const SongTitleEditModal: React.FC<SongTitleEditModalProps> = ({
                 </div>
               </div>
 
+              <div style={{ marginBottom: '20px' }}>
+                <label style={{ 
+                  display: 'block', 
+                  color: '#b3b3b3', 
+                  fontSize: '0.9rem', 
+                  marginBottom: '8px',
+                  fontWeight: '500'
+                }}>
+                  Applies To
+                </label>
+                <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                  {(['organization', 'room'] as CustomTitleScope[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => handleScopeChange(value)}
+                      style={{
+                        padding: '8px 12px',
+                        borderRadius: '8px',
+                        border: scope === value ? '2px solid #00ffa3' : '1px solid rgba(255,255,255,0.15)',
+                        background: scope === value ? 'rgba(0,255,163,0.12)' : 'rgba(255,255,255,0.05)',
+                        color: scope === value ? '#00ffa3' : '#e0e0e0',
+                        fontSize: '0.85rem',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {scopeLabel(value)}
+                    </button>
+                  ))}
+                </div>
+                {customTitle && customTitleScope && (
+                  <div style={{ 
+                    fontSize: '0.8rem', 
+                    color: '#888', 
+                    marginTop: '6px' 
+                  }}>
+                    Current custom title is set for: {scopeLabel(customTitleScope)}
+                  </div>
+                )}
+              </div>
+
               {hasChanges && (
                 <div style={{
                   padding: '12px',
@@ -201,7 +267,7 @@ const SongTitleEditModal: React.FC<SongTitleEditModalProps> = ({
                   marginBottom: '16px'
                 }}>
                   <div style={{ color: '#00ffa3', fontSize: '0.9rem', fontWeight: '500' }}>
-                    Preview: {editedTitle}
+                    Preview: {editedTitle.trim() === originalTitle ? `${originalTitle} (override removed)` : editedTitle}
                   </div>
                 </div>
               )}
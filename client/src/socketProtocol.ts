@@ -0,0 +1,804 @@
+// Shared socket.io event contracts between the server (server/index.js) and the client views.
+// The server validates every client → server payload at runtime against the same shapes
+// (server/socketProtocol.js) and answers malformed ones with `protocol-error`.
+
+import type { Socket } from 'socket.io-client';
+import type { BingoPattern } from './patternDefinitions';
+
+export type GameState = 'waiting' | 'playing' | 'paused' | 'paused_for_verification' | 'round_complete' | 'ended';
+export type RandomStarts = 'none' | 'early' | 'random';
+/** Values stored on the room; the server also accepts '1x75' and 'columns' as aliases when setting. */
+export type CallListMode = 'auto' | 'grouped' | '5x15';
+export type RevealHint = 'artist' | 'title' | 'full';
+/** Where a custom title applies: every room in the host's organization, or only one room. */
+export type CustomTitleScope = 'organization' | 'room';
+/** Spotify Connect, or audio files from the host's computer played in the host browser. */
+export type PlaybackProvider = 'spotify' | 'local';
+/** What happens when several players claim bingo on the same song (server/winnerPolicy.js). */
+export type WinnerPolicy = 'first' | 'split' | 'tiebreak_song' | 'tiebreak_draw';
+/** Invitable staff roles (server/hostRoles.js); the room's own host is 'host'. */
+export type CohostRole = 'cohost' | 'verifier' | 'dj';
+export type StaffPermission = 'manage_cohosts' | 'game' | 'music' | 'display' | 'verify';
+
+export interface BingoSquare {
+  position: string;
+  songId: string;
+  songName: string;
+  customSongName?: string;
+  artistName: string;
+  marked: boolean;
+  isFreeSpace?: boolean;
+}
+
+export interface BingoCard {
+  id: string;
+  /** Seeded deal card ID (`<seed prefix>-<N>`), reproducible from the deal's seed and mix */
+  cardId?: string;
+  cardNumber?: number;
+  size?: number;
+  squares: BingoSquare[];
+}
+
+export interface SongRef {
+  id: string;
+  name: string;
+  artist: string;
+  explicit?: boolean;
+}
+
+export interface PlaylistRef {
+  id: string;
+  name?: string;
+}
+
+/** Song entries in a finalized order; the server reads id/name/artist and passes the rest through. */
+export interface SongListEntry {
+  id: string;
+  name?: string;
+  artist?: string;
+}
+
+export interface WinnerRef {
+  playerId: string;
+  playerName: string;
+}
+
+/** An entry in the room's winners list. */
+export interface WinnerEntry extends WinnerRef {
+  timestamp: number;
+}
+
+/** How a tie was settled: who was tied, and whether a draw picked the winner. */
+export interface TiebreakRecord {
+  mode: 'draw' | 'sudden_death';
+  entrants: WinnerRef[];
+  songsPlayed?: number;
+  drawn?: boolean;
+}
+
+/** One prize of a progressive round; `customMask` only for 'custom'. */
+export interface PatternStage {
+  pattern: BingoPattern;
+  customMask?: string[];
+}
+
+export interface CompletedPatternStage {
+  stageIndex: number;
+  pattern: BingoPattern;
+  winners: string[];
+  at: string;
+}
+
+export interface RoundWinner {
+  roundNumber: number;
+  /** Every winner's name joined with " & " when the prize was split. */
+  playerName: string;
+  playerId: string;
+  winners?: WinnerRef[];
+  winnerPolicy?: WinnerPolicy;
+  tiebreak?: TiebreakRecord | null;
+  /** Progressive rounds: every stage's winners, the last one included. */
+  stages?: CompletedPatternStage[] | null;
+  timestamp: string;
+}
+
+export interface RoomPayload {
+  roomId: string;
+}
+
+// ---------------------------------------------------------------------------
+// Client → server
+// ---------------------------------------------------------------------------
+
+export interface JoinRoomPayload extends RoomPayload {
+  playerName: string;
+  isHost?: boolean;
+  clientId?: string | null;
+  licenseKey?: string;
+  hostSecret?: string;
+  hostToken?: string;
+  /** false = joined as remote/online when the host enables hybrid mode */
+  inPerson?: boolean;
+  /** Join as co-host with a code from the host's roster (isHost must be false). */
+  cohostCode?: string;
+  /** Player profile session (venue regulars); the server records rounds against it. */
+  profileToken?: string;
+}
+
+export interface FinalizeMixPayload extends RoomPayload {
+  playlists: PlaylistRef[];
+  songList?: SongListEntry[];
+  freeSpace?: boolean;
+}
+
+export interface StartGamePayload extends RoomPayload {
+  playlists: PlaylistRef[];
+  snippetLength?: number;
+  deviceId?: string;
+  songList?: SongListEntry[];
+  randomStarts?: RandomStarts;
+  pattern?: BingoPattern;
+  customMask?: string[];
+  freeSpace?: boolean;
+}
+
+export interface VerifyBingoPayload extends RoomPayload {
+  playerId: string;
+  playerName?: string;
+  approved: boolean;
+  reason?: string;
+}
+
+/** "Needs recheck": send the claim on screen to the back of the verification queue. */
+export interface RecheckBingoClaimPayload extends RoomPayload {
+  playerId: string;
+  playerName?: string;
+  note?: string;
+}
+
+export interface MarkSquarePayload extends RoomPayload {
+  songId: string;
+  position: string;
+}
+
+export interface SetCustomSongTitlePayload extends RoomPayload {
+  songId: string;
+  /** Empty string clears the override for that scope. */
+  customTitle: string;
+  scope?: CustomTitleScope;
+}
+
+/** One entry of the host's round plan; the server keeps it for the results report. */
+export interface EventRoundPayload {
+  id: string;
+  name: string;
+  playlistNames: string[];
+  songCount: number;
+  status: 'completed' | 'active' | 'planned' | 'unplanned';
+  startedAt?: number;
+  completedAt?: number;
+  winnerPolicy?: WinnerPolicy;
+  /** Two or more = progressive round: the pattern advances after each stage's verified bingo. */
+  stages?: PatternStage[];
+}
+
+export interface ClientToServerEvents {
+  'join-room': (data: JoinRoomPayload) => void;
+  'finalize-mix': (data: FinalizeMixPayload) => void;
+  'set-pattern': (data: RoomPayload & { pattern: BingoPattern; customMask?: string[] }) => void;
+  'set-hybrid-mode': (data: RoomPayload & { hybridInPersonPlusOnline: boolean }) => void;
+  'set-playback-provider': (data: RoomPayload & { provider: PlaybackProvider }) => void;
+  'set-event-rounds': (data: RoomPayload & { rounds: EventRoundPayload[] }) => void;
+  'set-public-display-font-size': (data: RoomPayload & { fontSize: number }) => void;
+  'set-public-display-call-list-mode': (data: RoomPayload & { mode: CallListMode | '1x75' | 'columns' }) => void;
+  'player-bingo': (data: RoomPayload) => void;
+  'verify-bingo': (data: VerifyBingoPayload) => void;
+  'recheck-bingo-claim': (data: RecheckBingoClaimPayload) => void;
+  'verify-paper-card': (data: RoomPayload & { cardId: string }) => void;
+  'manual-resume-game': (data: RoomPayload) => void;
+  'continue-or-end': (data: RoomPayload & { action: 'continue' | 'end' }) => void;
+  'emergency-stop': (data: RoomPayload) => void;
+  'restart-game': (data: RoomPayload) => void;
+  'start-next-round': (data: RoomPayload & { fullReset?: boolean }) => void;
+  'end-game-session': (data: RoomPayload) => void;
+  'sync-state': (data: RoomPayload) => void;
+  'request-player-cards': (data: RoomPayload) => void;
+  'request-call-history': (data: RoomPayload) => void;
+  'replay-call-clip': (data: RoomPayload & { songId: string }) => void;
+  'new-round': (data: RoomPayload) => void;
+  'set-super-strict': (data: RoomPayload & { enabled: boolean }) => void;
+  'set-leaderboard-scoring': (data: RoomPayload & { win?: number; oneAway?: number }) => void;
+  'set-auto-bingo': (data: RoomPayload & { mode: AutoBingoMode; graceSeconds?: number }) => void;
+  'start-game': (data: StartGamePayload) => void;
+  'end-game': (data: RoomPayload & { stopPlayback?: boolean }) => void;
+  'reset-game': (data: RoomPayload & { stopPlayback?: boolean }) => void;
+  'skip-song': (data: RoomPayload) => void;
+  'pause-song': (data: RoomPayload) => void;
+  'resume-song': (data: RoomPayload & { resumePosition?: number }) => void;
+  'previous-song': (data: RoomPayload & { currentPosition?: number }) => void;
+  'shuffle-playlist': (data: RoomPayload) => void;
+  'toggle-repeat': (data: RoomPayload) => void;
+  'reveal-call': (data: RoomPayload & { revealToDisplay?: boolean; revealToPlayers?: boolean; hint?: RevealHint }) => void;
+  'force-refresh': (data: RoomPayload & { reason?: string }) => void;
+  'set-volume': (data: RoomPayload & { volume: number }) => void;
+  'seek-song': (data: RoomPayload & { position: number }) => void;
+  'play-song': (data: RoomPayload & { songId: string; songName: string; artistName: string }) => void;
+  'mark-square': (data: MarkSquarePayload) => void;
+  'display-show-rules': (data: RoomPayload) => void;
+  'display-show-splash': (data: RoomPayload) => void;
+  'display-show-call-list': (data: RoomPayload) => void;
+  'display-reset-letters': (data: RoomPayload) => void;
+  'set-custom-song-title': (data: SetCustomSongTitlePayload) => void;
+  'get-custom-song-title': (data: RoomPayload & { songId: string }) => void;
+  'get-all-custom-titles': (data: RoomPayload) => void;
+  'create-cohost-invite': (data: RoomPayload & { role: CohostRole }) => void;
+  'revoke-cohost-invite': (data: RoomPayload & { code: string }) => void;
+  'remove-cohost': (data: RoomPayload & { cohostId: string }) => void;
+  /** Client-local round reset; the server has no listener for it. */
+  'game-reset': () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Server → client
+// ---------------------------------------------------------------------------
+
+/** Sent when a client → server payload fails validation; the event is dropped. */
+export interface ProtocolErrorPayload {
+  event: string;
+  code: 'invalid_payload';
+  message: string;
+  issues: string[];
+}
+
+export interface SongPlayingPayload {
+  songId: string;
+  songName: string;
+  customSongName?: string;
+  artistName: string;
+  explicit?: boolean;
+  snippetLength?: number;
+  currentIndex?: number;
+  totalSongs?: number;
+  previewUrl?: string | null;
+  [key: string]: unknown;
+}
+
+export interface RoomStatePayload {
+  isPlaying: boolean;
+  pattern: BingoPattern;
+  customMask: string[];
+  currentSong: SongRef | null;
+  snippetLength: number;
+  playerCount: number;
+  gameState: GameState;
+  winners: WinnerEntry[];
+  roundWinners: RoundWinner[];
+  publicDisplayFontSize: number;
+  publicDisplayCallListMode: CallListMode;
+  venueBranding: Record<string, unknown> | null;
+  playedSongs: Array<Pick<SongRef, 'id' | 'name' | 'artist'>>;
+  playedSongIds: string[];
+  totalPlayedCount: number;
+  currentSongIndex: number;
+  totalSongs: number;
+  syncTimestamp: number;
+  hybridInPersonPlusOnline: boolean;
+  /** Host sync only */
+  autoBingo?: AutoBingoSettings;
+  /** Host sync only */
+  cardDeal?: CardDealSummary | null;
+}
+
+/** Current card deal (server/cardDeals.js); the signed manifest is GET /api/rooms/:roomId/card-manifest. */
+export interface CardDealSummary {
+  seed: string;
+  mixHash: string;
+  mode: '5x15' | '1x75' | 'fallback';
+  dealtAt: string;
+  cardCount: number;
+}
+
+/** off = detect only; nudge = tell the player; auto = claim for them after the grace period. */
+export type AutoBingoMode = 'off' | 'nudge' | 'auto';
+
+export interface AutoBingoSettings {
+  mode: AutoBingoMode;
+  graceSeconds: number;
+}
+
+/** The server saw this player's card complete the pattern with called songs. */
+export interface BingoDetectedPayload {
+  roomId: string;
+  detectedAt: number;
+  /** When the server claims for the player (auto mode); null = nudge only */
+  autoClaimAt: number | null;
+}
+
+export interface BingoResultPayload {
+  success: boolean;
+  message?: string;
+  reason?: string;
+  isWinner?: boolean;
+  verified?: boolean;
+  rejected?: boolean;
+  awaitingVerification?: boolean;
+  hybridUnofficial?: boolean;
+  isValid?: boolean;
+}
+
+export type MarkAuditFlagType = 'early_mark' | 'burst' | 'multi_socket';
+
+export interface MarkAuditFlag {
+  type: MarkAuditFlagType;
+  at: number;
+  position: string | null;
+  message: string;
+}
+
+/** Claimant's mark/unmark history this round (server/markAudit.js). */
+export interface MarkAuditSummary {
+  flags: MarkAuditFlag[];
+  flagCounts: Record<MarkAuditFlagType, number>;
+  eventCount: number;
+  recentEvents: Array<{
+    at: number;
+    action: 'mark' | 'unmark';
+    position: string;
+    songId: string;
+    currentSongId: string | null;
+    called: boolean;
+  }>;
+}
+
+/** The call sequence at one moment: every called song plus the one playing. */
+export interface CallSnapshot {
+  calledSongIds: string[];
+  callCount: number;
+  currentSongId: string | null;
+  currentSongName: string | null;
+  takenAt: number;
+}
+
+/** A claimant's card judged against the claim-time calls (the decision) and the calls at approval. */
+export interface SnapshotCheck {
+  claimTime: { valid: boolean; reason: string | null; callCount: number; takenAt: number };
+  approvalTime: { valid: boolean; reason: string | null; callCount: number; takenAt: number };
+}
+
+export interface BingoVerificationNeededPayload {
+  playerId: string;
+  playerName: string;
+  playerCard: BingoCard;
+  markedSquares: Array<Record<string, unknown>>;
+  requiredPattern: BingoPattern;
+  customMask: string[] | null;
+  playedSongs: Array<Record<string, unknown>>;
+  calledSongIds: string[];
+  currentSongIndex: number;
+  timestamp: number;
+  validationReason?: string;
+  winningPatternPositions: string[];
+  winningPatternType: string;
+  /** Set when the host checked a printed card; marks are derived from the call history. */
+  isPaperCard?: boolean;
+  paperCardId?: string;
+  /** Null when the player never marked a square this round; absent for paper cards. */
+  markAudit?: MarkAuditSummary | null;
+  /** When the server first saw this card complete the pattern (null if it never did) */
+  detectedAt?: number | null;
+  /** Claimed by the server after the auto-bingo grace period */
+  autoClaimed?: boolean;
+  /** Server validation when the claim arrived */
+  isValid?: boolean;
+  /** Calls frozen when the claim arrived; the claim is judged against these */
+  claimSnapshot?: CallSnapshot;
+  [key: string]: unknown;
+}
+
+/** One claim in the room's verification queue; the host decides them in `position` order. */
+export interface VerificationQueueEntry {
+  position: number;
+  playerId: string;
+  playerName: string;
+  claimedAt: number;
+  queuedAt: number;
+  /** Null for a claim recorded without verification data */
+  isValid: boolean | null;
+  isPaperCard: boolean;
+  /** Set when the host sent the claim back for a second look */
+  recheck: { note: string; by: string | null; requestedAt: number; count: number } | null;
+  verificationData: BingoVerificationNeededPayload | null;
+}
+
+export interface VerificationQueuePayload {
+  roomId: string;
+  /** The room's calls now, for comparing with each claim's snapshot */
+  calls: CallSnapshot | null;
+  entries: VerificationQueueEntry[];
+}
+
+/** A phone player with the song on their card. */
+export interface CallHistoryHolder {
+  playerId: string;
+  playerName: string;
+  marked: boolean;
+}
+
+export interface CallHistoryEntry {
+  /** 1-based call index within the round */
+  order: number;
+  songId: string;
+  songName: string;
+  artistName: string;
+  /** Title players see, when the host set one */
+  customTitle: string | null;
+  calledAt: string | null;
+  /** Where the snippet started in the track (random starts); null for calls logged before this existed */
+  startMs: number | null;
+  holders: CallHistoryHolder[];
+}
+
+/** The round's calls plus the mix's songs not called yet, for "was it played?" lookups. */
+export interface CallHistoryPayload {
+  roomId: string;
+  roundNumber: number;
+  calls: CallHistoryEntry[];
+  uncalled: Array<Pick<CallHistoryEntry, 'songId' | 'songName' | 'artistName' | 'customTitle' | 'holders'>>;
+}
+
+export interface CallClipReplayedPayload {
+  roomId: string;
+  songId: string;
+  ok: boolean;
+  message: string;
+}
+
+/** A claimant's place in the verification queue; `position` is null once the claim is decided. */
+export interface VerificationQueuePositionPayload {
+  roomId: string;
+  position: number | null;
+  total: number;
+  recheck: boolean;
+}
+
+export interface PaperCardErrorPayload {
+  cardId: string;
+  code: 'not_host' | 'invalid_id' | 'not_found' | 'tiebreak';
+  message: string;
+}
+
+/** Local-files rooms: the server drives the host browser's audio player with these commands. */
+export interface LocalPlaybackPayload {
+  roomId: string;
+  action: 'play' | 'pause' | 'resume' | 'seek' | 'volume';
+  trackId?: string;
+  index?: number;
+  startMs?: number;
+  positionMs?: number;
+  volume?: number;
+}
+
+export interface BingoVerifiedPayload {
+  approved: boolean;
+  playerName: string;
+  reason?: string;
+  error?: 'no_room' | 'not_host' | 'player_not_found';
+  gameEnded?: boolean;
+  roundComplete?: boolean;
+  roundNumber?: number;
+  message?: string;
+  options?: { nextRound: boolean; endGame: boolean; changePattern: boolean; changePlaylists: boolean };
+  winnerPolicy?: WinnerPolicy;
+  /** Claims on the same song still waiting for the host before the round is decided. */
+  awaitingClaims?: number;
+  /** A progressive round's stage was won; play resumes on the next pattern. */
+  stageComplete?: boolean;
+  /** Set when approved claims tied and a tie-break is now deciding the round. */
+  tiebreak?: { mode: 'draw' | 'sudden_death'; candidates: WinnerRef[] };
+  snapshotCheck?: SnapshotCheck | null;
+}
+
+export interface BingoCalledPayload {
+  playerId: string;
+  playerName: string;
+  winners: WinnerEntry[];
+  totalWinners: number;
+  isFirstWinner: boolean;
+  awaitingVerification: boolean;
+  verified: boolean;
+  pattern: BingoPattern;
+  winningCard: BingoCard | null;
+  winningPositions: string[];
+  /** Everyone sharing a split prize; `winningCard` is the first of them. */
+  coWinners?: WinnerRef[];
+  winnerPolicy?: WinnerPolicy;
+  /** Which prize of a progressive round was won. */
+  stage?: { index: number; total: number };
+}
+
+/** Progressive round ladder; `stages: []` = the round has no stages (or the host picked a pattern by hand). */
+export interface PatternStageChangedPayload {
+  roomId: string;
+  stageIndex: number;
+  stages: PatternStage[];
+  completed: CompletedPatternStage[];
+}
+
+export interface RoundTiebreakPayload {
+  roomId: string;
+  mode: 'draw' | 'sudden_death';
+  /** 'narrowed' / 'continue' follow each sudden-death call that did not settle the tie. */
+  phase: 'started' | 'narrowed' | 'continue' | 'resolved';
+  candidates: WinnerRef[];
+  winnerName?: string;
+  songsPlayed?: number;
+  maxSongs?: number;
+}
+
+export interface PlayerCardEntry {
+  playerName: string;
+  card: BingoCard;
+  /** Uncalled squares left for the pattern (0 = bingo available); null without a usable card */
+  squaresToGo?: number | null;
+}
+
+/**
+ * Full player-card state at `version`, sent when a host connects or asks (`request-player-cards`).
+ * `syncId` changes when the server starts counting again (restart), so versions are only comparable
+ * under the same one.
+ */
+export interface PlayerCardsSnapshotPayload {
+  roomId: string;
+  syncId: string;
+  version: number;
+  /** Called songs in order, the song now playing last */
+  playedSongs: string[];
+  cards: Record<string, PlayerCardEntry>;
+}
+
+/**
+ * What changed since `version - 1`. A host whose last version is not `version - 1` (or whose syncId
+ * differs) drops the delta and requests a snapshot.
+ */
+export interface PlayerCardsDeltaPayload {
+  roomId: string;
+  syncId: string;
+  version: number;
+  /** Songs appended to the played list */
+  calls?: string[];
+  /** Replaces the played list (new round or reset) */
+  playedSongs?: string[];
+  /** Players who joined or were dealt a new card */
+  cards?: Record<string, PlayerCardEntry>;
+  marks?: Array<{ playerId: string; position: string; marked: boolean }>;
+  squaresToGo?: Record<string, number | null>;
+  removed?: string[];
+}
+
+/** Which license check failed (server/licenses.js LICENSE_CHECKS). */
+export type LicenseCheck = 'missing' | 'not_configured' | 'format' | 'signature' | 'expired' | 'room_limit';
+
+/** Verified claims of a signed license key. */
+export interface LicenseInfo {
+  organizationId: string;
+  /** Last valid day, YYYY-MM-DD (UTC) */
+  expiresAt: string;
+  /** 0 = unlimited concurrent rooms */
+  maxRooms: number;
+  features: string[];
+  issuedAt: string | null;
+}
+
+export interface LicenseErrorDetail {
+  check: LicenseCheck;
+  message: string;
+}
+
+export interface RoomJoinedPayload {
+  roomId: string;
+  organizationId: string;
+  playerName: string;
+  isHost: boolean;
+  playerCount: number;
+  hybridInPersonPlusOnline: boolean;
+  venueBranding: Record<string, unknown> | null;
+  playbackProvider: PlaybackProvider;
+  /** Host only: the room's verified license, if any. */
+  license: LicenseInfo | null;
+  /** Host only: why the supplied key was not applied (license optional on this server). */
+  licenseError: LicenseErrorDetail | null;
+  /** Set when joined with a co-host code. */
+  cohostRole?: CohostRole;
+  permissions?: StaffPermission[];
+}
+
+/**
+ * Sent instead of room-joined when TEMPO_REQUIRE_LICENSE is set and the host's key fails a check,
+ * or when a co-host code is unknown, expired or revoked.
+ */
+export interface JoinErrorPayload {
+  roomId: string;
+  code: 'invalid_license' | 'invalid_cohost_code';
+  check?: LicenseCheck;
+  error: string;
+  /** Decoded claims when the key was genuine but expired or over its room limit. */
+  license?: LicenseInfo | null;
+}
+
+export interface CohostInvite {
+  code: string;
+  role: CohostRole;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CohostRosterPayload {
+  roomId: string;
+  cohosts: Array<{ id: string; name: string; role: CohostRole; joinedAt: number }>;
+  /** Open join codes; only sent to the host. */
+  invites: CohostInvite[];
+}
+
+/** Reply to a privileged event from a socket whose role lacks the permission; the event is dropped. */
+export interface PermissionDeniedPayload {
+  roomId: string | null;
+  event: string;
+  permission: StaffPermission;
+  role: 'host' | CohostRole | null;
+  message: string;
+}
+
+/** Points per round win (shared on a split prize) and for ending a round one call away (server/leaderboard.js). */
+export interface LeaderboardScoring {
+  win: number;
+  oneAway: number;
+}
+
+export interface LeaderboardStanding {
+  rank: number;
+  playerName: string;
+  points: number;
+  wins: number;
+  oneAways: number;
+  /** Socket the player is connected on now; null when they have left. */
+  playerId: string | null;
+}
+
+export interface LeaderboardPayload {
+  roomId: string;
+  scoring: LeaderboardScoring;
+  standings: LeaderboardStanding[];
+}
+
+/** This player's distance to the pattern, pushed when it changes. */
+export interface CardProgressPayload {
+  roomId: string;
+  squaresToGo: number;
+  /** Uncalled positions on the closest ways to finish ('row-col') */
+  missing: string[];
+}
+
+/** Room-wide tension counts for the public display. */
+export interface NearWinSummaryPayload {
+  roomId: string;
+  oneAway: number;
+  twoAway: number;
+  cards: number;
+}
+
+export interface AllCustomTitlesPayload {
+  roomId: string | null;
+  titles: Record<string, string>;
+  scopes: Record<string, CustomTitleScope>;
+  organizationName: string | null;
+}
+
+export interface CallRevealedPayload {
+  roomId: string;
+  songId: string;
+  snippetLength: number;
+  revealToDisplay: boolean;
+  revealToPlayers: boolean;
+  hint: RevealHint;
+  songName?: string;
+  artistName?: string;
+}
+
+/** Payloads the client only reads loosely (status banners, diagnostics). */
+type LoosePayload = Record<string, any>;
+
+export interface ServerToClientEvents {
+  'protocol-error': (data: ProtocolErrorPayload) => void;
+  'error': (data: { message: string }) => void;
+  'room-joined': (data: RoomJoinedPayload) => void;
+  'host-join-denied': (data: { roomId: string; reason: string; message: string }) => void;
+  'join-error': (data: JoinErrorPayload) => void;
+  'cohost-roster': (data: CohostRosterPayload) => void;
+  'cohost-removed': (data: RoomPayload) => void;
+  'permission-denied': (data: PermissionDeniedPayload) => void;
+  'player-joined': (data: { playerId: string; playerName: string; isHost: boolean; playerCount: number; inPerson: boolean }) => void;
+  'player-left': (data: { playerId: string; playerName: string; playerCount: number }) => void;
+  'room-state': (data: RoomStatePayload) => void;
+  'song-playing': (data: SongPlayingPayload) => void;
+  /** `isNewCard` marks a freshly dealt card (new round), as opposed to a resend of the current one. */
+  'bingo-card': (data: BingoCard & { isNewCard?: boolean }) => void;
+  'bingo-card-error': (data: { message: string; required: number; available: number }) => void;
+  'mark-confirmed': (data: { position: string; songId: string; marked: boolean }) => void;
+  'pattern-complete': (data: { message: string; hasPattern: boolean }) => void;
+  'pattern-updated': (data: { pattern: BingoPattern; customMask: string[] }) => void;
+  'hybrid-mode-updated': (data: { hybridInPersonPlusOnline: boolean }) => void;
+  'playback-provider-updated': (data: { provider: PlaybackProvider }) => void;
+  'local-playback': (data: LocalPlaybackPayload) => void;
+  'public-display-font-size-updated': (data: { fontSize: number }) => void;
+  'public-display-call-list-mode-updated': (data: { mode: CallListMode }) => void;
+  'super-strict-updated': (data: { enabled: boolean }) => void;
+  'auto-bingo-updated': (data: AutoBingoSettings & { roomId: string }) => void;
+  'bingo-detected': (data: BingoDetectedPayload) => void;
+  'call-history': (data: CallHistoryPayload) => void;
+  'call-clip-replayed': (data: CallClipReplayedPayload) => void;
+  'mix-finalized': (data: { playlists: PlaylistRef[] }) => void;
+  'finalize-mix-failed': (data: { code: string; message: string }) => void;
+  'finalized-order': (data: { order: SongRef[] }) => void;
+  'fiveby15-pool': (data: { columns: string[][]; names: string[]; meta: Record<string, Partial<SongRef>> }) => void;
+  'fiveby15-map': (data: { idToColumn: Record<string, number> }) => void;
+  'oneby75-pool': (data: { ids: string[] }) => void;
+  'deduplication-success': (data: LoosePayload) => void;
+  'mode-warning': (data: { type: string; message: string; details?: unknown }) => void;
+  'game-started': (data: { roomId: string; snippetLength: number; deviceId?: string; pattern: BingoPattern; customMask?: string[] }) => void;
+  'game-ended': (data: { roomId?: string; reason?: string; winners?: Array<Record<string, unknown>> }) => void;
+  'game-reset': (data: { roomId: string }) => void;
+  'game-restarted': (data: LoosePayload) => void;
+  'game-resumed': (data: { reason: string }) => void;
+  'game-session-ended': (data: { roomId: string; totalRounds: number; roundWinners: RoundWinner[]; leaderboard: LeaderboardStanding[]; finalMessage: string }) => void;
+  'leaderboard-updated': (data: LeaderboardPayload) => void;
+  'card-progress': (data: CardProgressPayload) => void;
+  'near-win-summary': (data: NearWinSummaryPayload) => void;
+  'next-round-reset': (data: LoosePayload) => void;
+  'round-reset': (data: { round: number }) => void;
+  'round-complete': (data: { roomId: string; winner: string; roundNumber: number; roundWinners: RoundWinner[]; message: string }) => void;
+  'emergency-stopped': (data: { message: string }) => void;
+  'bingo-result': (data: BingoResultPayload) => void;
+  'bingo-verification-needed': (data: BingoVerificationNeededPayload) => void;
+  'verification-queue': (data: VerificationQueuePayload) => void;
+  'verification-queue-position': (data: VerificationQueuePositionPayload) => void;
+  'bingo-verification-pending': (data: { playerId: string; playerName: string; awaitingVerification: boolean }) => void;
+  'bingo-verified': (data: BingoVerifiedPayload) => void;
+  'paper-card-error': (data: PaperCardErrorPayload) => void;
+  'bingo-confirmed': (data: { playerId: string; playerName: string; verified: boolean }) => void;
+  'bingo-called': (data: BingoCalledPayload) => void;
+  'round-tiebreak': (data: RoundTiebreakPayload) => void;
+  'pattern-stage-changed': (data: PatternStageChangedPayload) => void;
+  'bingo-remote-unofficial': (data: { playerId: string; playerName: string; patternType: string; timestamp: number }) => void;
+  'player-cards-snapshot': (data: PlayerCardsSnapshotPayload) => void;
+  'player-cards-delta': (data: PlayerCardsDeltaPayload) => void;
+  'card-deal': (data: CardDealSummary | null) => void;
+  'call-revealed': (data: CallRevealedPayload) => void;
+  'force-refresh': (data: { ts: number; reason: string }) => void;
+  'playback-paused': () => void;
+  'playback-resumed': () => void;
+  'playback-warning': (data: { message: string; type?: string; suggestions?: string[] }) => void;
+  'playback-error': (data: { message: string; type?: 'restriction'; suggestions?: string[] }) => void;
+  'playback-diagnostic': (data: LoosePayload) => void;
+  'playlist-shuffled': () => void;
+  'repeat-toggled': (data: { repeatMode: boolean }) => void;
+  'volume-changed': (data: { volume: number }) => void;
+  'song-seeked': (data: { position: number }) => void;
+  'song-replaced': (data: { oldSongId: string; newSong: SongRef & Record<string, unknown>; position: number }) => void;
+  'spotify-failsafe': (data: { message: string; count30s: number; max: number; reason: string }) => void;
+  'display-show-rules': () => void;
+  'display-hide-rules': () => void;
+  'display-show-splash': () => void;
+  'display-hide-splash': () => void;
+  'display-reset-letters': () => void;
+  'custom-song-title-updated': (data: { songId: string; customTitle: string | null; scope: CustomTitleScope | null }) => void;
+  'custom-song-title-response': (data: { songId: string; customTitle?: string; scope: CustomTitleScope | null }) => void;
+  'all-custom-titles-response': (data: AllCustomTitlesPayload) => void;
+  // Older server builds emitted these; current views still listen but nothing sends them.
+  'sync-state-response': (data: LoosePayload) => void;
+  'playback-update': (data: LoosePayload) => void;
+  'queue-update': (data: LoosePayload) => void;
+  'prequeue-updated': (data: LoosePayload) => void;
+}
+
+/** Client-side socket typed with both directions of the protocol. */
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -0,0 +1,66 @@
+/**
+ * Forgiving text search for quick host lookups: case, accents and punctuation are ignored, query words
+ * may come in any order, a word may be the start of a longer one, and a one-letter typo or two swapped
+ * letters still match.
+ */
+
+export function normalizeSearchText(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** True when `a` and `b` differ by at most one insertion, deletion, substitution or swap of neighbours. */
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else if (a[i] === b[j + 1] && a[i + 1] === b[j]) {
+      i += 2;
+      j += 2;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/**
+ * How well `query` matches any of `fields`; 0 = no match, higher is better. Every query word has to
+ * match some word: exact (3), prefix (2), substring (1) or one typo away for words of 4+ letters (1).
+ * A query found verbatim in one field scores a bonus.
+ */
+export function fuzzyScore(query: string, fields: Array<string | null | undefined>): number {
+  const q = normalizeSearchText(query);
+  if (!q) return 0;
+  const haystacks = fields.map((f) => normalizeSearchText(f || '')).filter(Boolean);
+  const words = haystacks.flatMap((h) => h.split(' '));
+  let score = 0;
+  for (const token of q.split(' ')) {
+    let best = 0;
+    for (const word of words) {
+      if (word === token) best = 3;
+      else if (word.startsWith(token)) best = Math.max(best, 2);
+      else if (word.includes(token) || (token.length >= 4 && withinOneEdit(word, token))) best = Math.max(best, 1);
+      if (best === 3) break;
+    }
+    if (best === 0) return 0;
+    score += best;
+  }
+  return haystacks.some((h) => h.includes(q)) ? score + 5 : score;
+}
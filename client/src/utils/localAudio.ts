@@ -0,0 +1,292 @@
+/**
+ * Local audio library for offline rooms (playback provider 'local').
+ * The host picks a music folder (or audio files plus .m3u playlists); each M3U becomes a playlist and
+ * remaining files are grouped by their folder. Files stay in this browser — the server only receives
+ * track metadata and sends play/pause/seek commands back over `local-playback`.
+ */
+
+/** Must match LOCAL_DEVICE_ID in server/playbackProviders.js. */
+export const LOCAL_DEVICE_ID = 'local-host-browser';
+
+const AUDIO_EXTENSIONS = /\.(mp3|m4a|aac|ogg|oga|opus|wav|flac|webm)$/i;
+const PLAYLIST_EXTENSIONS = /\.m3u8?$/i;
+const METADATA_TIMEOUT_MS = 5000;
+const METADATA_CONCURRENCY = 4;
+
+export interface LocalTrack {
+  /** `local:<hash>` of path + size: stable across re-picking the same folder after a reload. */
+  id: string;
+  name: string;
+  artist: string;
+  /** ms, used for random starts; undefined when the browser cannot read it. */
+  duration?: number;
+  sourcePlaylistId: string;
+  sourcePlaylistName: string;
+  url: string;
+}
+
+export interface LocalPlaylist {
+  id: string;
+  name: string;
+  tracks: number;
+  description?: string;
+}
+
+export interface LocalLibrary {
+  playlists: LocalPlaylist[];
+  tracksByPlaylist: Map<string, LocalTrack[]>;
+  tracksById: Map<string, LocalTrack>;
+  /** Audio files found, whether or not they ended up in a playlist. */
+  fileCount: number;
+}
+
+interface M3uEntry {
+  path: string;
+  title?: string;
+  durationSec?: number;
+}
+
+/** Two FNV-1a passes with different offsets → 16 hex chars; plenty for one host's library. */
+function hashString(value: string): string {
+  const pass = (seed: number) => {
+    let h = seed >>> 0;
+    for (let i = 0; i < value.length; i++) {
+      h ^= value.charCodeAt(i);
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h.toString(16).padStart(8, '0');
+  };
+  return pass(0x811c9dc5) + pass(0x9747b28c);
+}
+
+function relativePath(file: File): string {
+  const rel = (file as File & { webkitRelativePath?: string }).webkitRelativePath;
+  return normalizePath(rel || file.name);
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.replace(/\\/g, '/').split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function dirname(path: string): string {
+  const i = path.lastIndexOf('/');
+  return i === -1 ? '' : path.slice(0, i);
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+/** "Artist - Title" (optionally after a track number) → parts; otherwise the whole name is the title. */
+export function parseTrackName(raw: string): { artist: string; name: string } {
+  const cleaned = stripExtension(raw).replace(/_/g, ' ').replace(/^\s*\d{1,3}\s*[-.)]\s*/, '').trim();
+  const dash = cleaned.indexOf(' - ');
+  if (dash > 0) {
+    return { artist: cleaned.slice(0, dash).trim(), name: cleaned.slice(dash + 3).trim() || cleaned };
+  }
+  return { artist: '', name: cleaned || raw };
+}
+
+export function parseM3u(text: string): M3uEntry[] {
+  const entries: M3uEntry[] = [];
+  let pending: { title?: string; durationSec?: number } = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith('#EXTINF:')) {
+      const body = line.slice('#EXTINF:'.length);
+      const comma = body.indexOf(',');
+      const seconds = parseFloat(comma === -1 ? body : body.slice(0, comma));
+      pending = {
+        durationSec: Number.isFinite(seconds) && seconds > 0 ? seconds : undefined,
+        title: comma === -1 ? undefined : body.slice(comma + 1).trim() || undefined,
+      };
+      continue;
+    }
+    if (line.startsWith('#')) continue;
+    let path = line;
+    if (/^file:\/\//i.test(path)) {
+      try {
+        path = decodeURIComponent(new URL(path).pathname);
+      } catch {
+        path = path.replace(/^file:\/\//i, '');
+      }
+    }
+    entries.push({ path, ...pending });
+    pending = {};
+  }
+  return entries;
+}
+
+function readDurationMs(url: string): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const audio = new Audio();
+    const done = (value: number | undefined) => {
+      window.clearTimeout(timer);
+      audio.removeAttribute('src');
+      resolve(value);
+    };
+    const timer = window.setTimeout(() => done(undefined), METADATA_TIMEOUT_MS);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(Number.isFinite(audio.duration) ? Math.round(audio.duration * 1000) : undefined);
+    audio.onerror = () => done(undefined);
+    audio.src = url;
+  });
+}
+
+/** Build the library from a folder pick (webkitdirectory) or a multi-file pick. */
+export async function loadLocalLibrary(fileList: FileList | File[]): Promise<LocalLibrary> {
+  const files = Array.from(fileList);
+  const audioFiles = files.filter((f) => AUDIO_EXTENSIONS.test(f.name));
+  const playlistFiles = files.filter((f) => PLAYLIST_EXTENSIONS.test(f.name));
+
+  const byPath = new Map<string, File>();
+  const byBasename = new Map<string, File[]>();
+  for (const file of audioFiles) {
+    const path = relativePath(file);
+    byPath.set(path.toLowerCase(), file);
+    const base = basename(path).toLowerCase();
+    byBasename.set(base, [...(byBasename.get(base) || []), file]);
+  }
+
+  const urls = new Map<File, string>();
+  const urlFor = (file: File) => {
+    let url = urls.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      urls.set(file, url);
+    }
+    return url;
+  };
+
+  const playlists: LocalPlaylist[] = [];
+  const tracksByPlaylist = new Map<string, LocalTrack[]>();
+  const tracksById = new Map<string, LocalTrack>();
+  const referenced = new Set<File>();
+  const hints = new Map<File, { title?: string; durationSec?: number }>();
+
+  const addPlaylist = (key: string, name: string, description: string, members: File[]) => {
+    if (members.length === 0) return;
+    const id = `local-pl:${hashString(key)}`;
+    const tracks = members.map((file) => {
+      const path = relativePath(file);
+      const hint = hints.get(file);
+      const parsed = parseTrackName(hint?.title || basename(path));
+      const track: LocalTrack = {
+        id: `local:${hashString(`${path}|${file.size}`)}`,
+        name: parsed.name,
+        artist: parsed.artist || basename(dirname(path)) || 'Unknown artist',
+        duration: hint?.durationSec ? Math.round(hint.durationSec * 1000) : undefined,
+        sourcePlaylistId: id,
+        sourcePlaylistName: name,
+        url: urlFor(file),
+      };
+      tracksById.set(track.id, track);
+      return track;
+    });
+    playlists.push({ id, name, tracks: tracks.length, description });
+    tracksByPlaylist.set(id, tracks);
+  };
+
+  for (const m3u of playlistFiles) {
+    const m3uPath = relativePath(m3u);
+    const dir = dirname(m3uPath);
+    const members: File[] = [];
+    for (const entry of parseM3u(await m3u.text())) {
+      const joined = normalizePath(entry.path.startsWith('/') ? entry.path : `${dir}/${entry.path}`).toLowerCase();
+      const sameBase = byBasename.get(basename(normalizePath(entry.path)).toLowerCase()) || [];
+      const file = byPath.get(joined) || (sameBase.length === 1 ? sameBase[0] : undefined);
+      if (!file || members.includes(file)) continue;
+      members.push(file);
+      referenced.add(file);
+      if (entry.title || entry.durationSec) hints.set(file, { title: entry.title, durationSec: entry.durationSec });
+    }
+    addPlaylist(m3uPath, stripExtension(basename(m3uPath)), `M3U playlist: ${m3uPath}`, members);
+  }
+
+  const byFolder = new Map<string, File[]>();
+  for (const file of audioFiles) {
+    if (referenced.has(file)) continue;
+    const dir = dirname(relativePath(file));
+    byFolder.set(dir, [...(byFolder.get(dir) || []), file]);
+  }
+  byFolder.forEach((members, dir) => {
+    addPlaylist(`dir:${dir}`, basename(dir) || 'Local files', dir ? `Folder: ${dir}` : 'Selected files', members);
+  });
+
+  // Durations drive random starts; read the ones M3U did not provide, a few at a time.
+  const missing = Array.from(tracksById.values()).filter((t) => t.duration == null);
+  for (let i = 0; i < missing.length; i += METADATA_CONCURRENCY) {
+    const batch = missing.slice(i, i + METADATA_CONCURRENCY);
+    const durations = await Promise.all(batch.map((t) => readDurationMs(t.url)));
+    batch.forEach((t, j) => {
+      t.duration = durations[j];
+    });
+  }
+
+  return { playlists, tracksByPlaylist, tracksById, fileCount: audioFiles.length };
+}
+
+export function releaseLocalLibrary(library: LocalLibrary | null): void {
+  if (!library) return;
+  library.tracksById.forEach((t) => URL.revokeObjectURL(t.url));
+}
+
+export interface LocalAudioPlayer {
+  play(url: string, startMs?: number): Promise<void>;
+  pause(): void;
+  resume(): Promise<void>;
+  seek(positionMs: number): void;
+  /** 0–100, same scale as the Spotify volume control. */
+  setVolume(volume: number): void;
+  stop(): void;
+}
+
+export function createLocalAudioPlayer(): LocalAudioPlayer {
+  const audio = new Audio();
+  audio.preload = 'auto';
+
+  return {
+    play(url, startMs = 0) {
+      audio.pause();
+      audio.src = url;
+      if (startMs > 0) {
+        audio.addEventListener(
+          'loadedmetadata',
+          () => {
+            audio.currentTime = startMs / 1000;
+          },
+          { once: true }
+        );
+      }
+      return audio.play();
+    },
+    pause() {
+      audio.pause();
+    },
+    resume() {
+      return audio.play();
+    },
+    seek(positionMs) {
+      audio.currentTime = Math.max(0, positionMs / 1000);
+    },
+    setVolume(volume) {
+      audio.volume = Math.min(1, Math.max(0, volume / 100));
+    },
+    stop() {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    },
+  };
+}
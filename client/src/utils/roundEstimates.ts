@@ -0,0 +1,50 @@
+/**
+ * Round-length estimates for the round planner, simulated by the server (server/roundSimulator.js,
+ * POST /api/round-estimates) with the same card rules the game deals with.
+ */
+
+import { API_BASE } from '../config';
+import type { BingoPattern } from '../patternDefinitions';
+import { hostFetch } from './hostFetch';
+
+export type CardMode = '5x15' | '1x75' | 'fallback';
+
+export interface SimulatedStage {
+  pattern: BingoPattern;
+  customMask?: string[];
+}
+
+export interface LengthSummary {
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface RoundEstimate {
+  mode: CardMode;
+  callPool: number;
+  players: number;
+  stages: Array<{ pattern: BingoPattern; songs: LengthSummary; minutes: LengthSummary }>;
+}
+
+export interface RoundEstimateRequest {
+  /** Song count of each of the round's playlists, in playlist order (the card mode depends on them). */
+  playlistSizes: number[];
+  stages: SimulatedStage[];
+}
+
+/** Estimates in round order; null for a round the server cannot deal cards for. Throws when the request fails. */
+export async function fetchRoundEstimates(
+  rounds: RoundEstimateRequest[],
+  settings: { freeSpace: boolean; players: number; snippetSeconds: number }
+): Promise<Array<RoundEstimate | null>> {
+  const res = await hostFetch(`${API_BASE || ''}/api/round-estimates`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rounds, ...settings }),
+  });
+  if (!res.ok) throw new Error(`Round estimates failed (${res.status})`);
+  const data = await res.json();
+  return Array.isArray(data?.estimates) ? data.estimates : [];
+}
@@ -0,0 +1,64 @@
+/**
+ * One song on several playlists under different ids (remaster, live cut, single vs album release):
+ * copies share an ISRC, or the same title after cleanSongTitle and the same primary artist. Same keys
+ * as server/songMatching.js, which drops the later copies from 5x15 columns.
+ */
+
+import { cleanSongTitle } from './songTitleCleaner';
+import { normalizeSearchText } from './fuzzySearch';
+
+export interface MatchableSong {
+  id: string;
+  name: string;
+  artist: string;
+  isrc?: string | null;
+  sourcePlaylistId?: string;
+  sourcePlaylistName?: string;
+}
+
+export interface DuplicateGroup<S extends MatchableSong = MatchableSong> {
+  /** Stable while the same copies are in the mix: the copies' ids, sorted. */
+  key: string;
+  /** Copies in mix order; the first is kept unless the host picks another. */
+  copies: S[];
+}
+
+/** First credited artist: Spotify joins artists with ", "; local files may say "A feat. B". */
+export function primaryArtist(artist: string): string {
+  return (artist || '').split(/,|\s+(?:feat\.?|ft\.?|featuring)\s+/i)[0].trim();
+}
+
+export function songMatchKeys(song: MatchableSong): string[] {
+  const keys: string[] = [];
+  const isrc = (song.isrc || '').replace(/[^a-z0-9]/gi, '').toUpperCase();
+  if (isrc) keys.push(`isrc:${isrc}`);
+  const title = normalizeSearchText(cleanSongTitle(song.name || ''));
+  if (title) keys.push(`title:${title}|${normalizeSearchText(primaryArtist(song.artist))}`);
+  return keys;
+}
+
+/**
+ * Groups of copies of the same song that come from two or more playlists, in the order of `songs`
+ * (pass the playlists' songs in playlist order so the first playlist's copy leads).
+ */
+export function findDuplicateGroups<S extends MatchableSong>(songs: S[]): DuplicateGroup<S>[] {
+  const groupOfKey = new Map<string, S[]>();
+  const groups: S[][] = [];
+  const claim = (group: S[], song: S) => songMatchKeys(song).forEach((k) => groupOfKey.set(k, group));
+  for (const song of songs) {
+    const found = Array.from(
+      new Set(songMatchKeys(song).map((k) => groupOfKey.get(k)).filter((g): g is S[] => !!g))
+    );
+    const group = found[0] || [];
+    if (!found.length) groups.push(group);
+    // A song can bridge two groups (ISRC matches one, title the other): fold the rest into the first
+    for (const other of found.slice(1)) {
+      group.push(...other.splice(0));
+    }
+    if (!group.some((s) => s.id === song.id)) group.push(song);
+    group.forEach((s) => claim(group, s));
+  }
+  return groups
+    .filter((copies) => new Set(copies.map((s) => s.sourcePlaylistId || '')).size > 1)
+    .map((copies) => ({ key: copies.map((s) => s.id).sort().join('+'), copies }));
+}
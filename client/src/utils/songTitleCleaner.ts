@@ -2,6 +2,9 @@
  * Automatic Song Title Cleaning Utility
  * Removes technical metadata and non-essential words from Spotify song titles
  * to make them more player-friendly for Game of Tones
+ *
+ * server/songMatching.js copies the default rules for cross-playlist dedup; after changing them, run
+ * `npm run check:title-rules` and update TITLE_SUFFIXES there to match.
  */
 
 export interface CleanTitleOptions {
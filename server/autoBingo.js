@@ -0,0 +1,90 @@
+/**
+ * Automatic bingo detection. After every call the server measures each player card against the
+ * pattern (patternProgress); a card at distance 0 has bingo whether or not the player noticed.
+ * Room setting `room.autoBingo = { mode, graceSeconds }`:
+ *   off    detection only (the time still orders tied claims)
+ *   nudge  tell the player "you have bingo — claim it!"
+ *   auto   nudge, then claim for the player once `graceSeconds` pass without a claim
+ *
+ * Detections live in `room.bingoDetections` (player key → { playerId, detectedAt, songId, callIndex }),
+ * keyed by clientId like the leaderboard so a reconnect keeps the original time. `callIndex` is the
+ * number of calls made when the card completed; claims that completed on an earlier call win a tie.
+ */
+
+const AUTO_BINGO_MODES = ['off', 'nudge', 'auto'];
+const DEFAULT_GRACE_SECONDS = 10;
+const MIN_GRACE_SECONDS = 3;
+const MAX_GRACE_SECONDS = 120;
+
+function normalizeAutoBingo(value) {
+  const mode = AUTO_BINGO_MODES.includes(value && value.mode) ? value.mode : 'off';
+  const grace = Math.round(Number(value && value.graceSeconds));
+  return {
+    mode,
+    graceSeconds: Number.isFinite(grace)
+      ? Math.max(MIN_GRACE_SECONDS, Math.min(MAX_GRACE_SECONDS, grace))
+      : DEFAULT_GRACE_SECONDS,
+  };
+}
+
+function settingsFor(room) {
+  return normalizeAutoBingo(room && room.autoBingo);
+}
+
+function setAutoBingo(room, value) {
+  room.autoBingo = normalizeAutoBingo({ ...settingsFor(room), ...value });
+  return room.autoBingo;
+}
+
+function keyFor(player, playerId) {
+  return (player && player.clientId) || `socket:${playerId}`;
+}
+
+/**
+ * Reconcile detections with a fresh `progress` map (playerId → { squaresToGo }). Cards that left
+ * distance 0 (a new round dealt new cards) drop their detection. Returns the newly detected entries.
+ */
+function updateDetections(room, progress, { songId = null, callIndex = 0, now = Date.now() } = {}) {
+  const previous = room.bingoDetections && typeof room.bingoDetections === 'object' ? room.bingoDetections : {};
+  const next = {};
+  const detected = [];
+  for (const [playerId, p] of progress) {
+    if (p.squaresToGo !== 0) continue;
+    const key = keyFor(room.players.get(playerId), playerId);
+    const existing = previous[key];
+    if (existing) {
+      next[key] = { ...existing, playerId };
+    } else {
+      next[key] = { playerId, detectedAt: now, songId, callIndex };
+      detected.push(next[key]);
+    }
+  }
+  room.bingoDetections = next;
+  return detected;
+}
+
+function detectionFor(room, playerId) {
+  if (!room || !room.bingoDetections) return null;
+  return room.bingoDetections[keyFor(room.players.get(playerId), playerId)] || null;
+}
+
+/** Mark every called square (and the free space) so an automatic claim passes mark validation; returns them. */
+function daubCalledSquares(card, called) {
+  const daubed = [];
+  for (const sq of (card && card.squares) || []) {
+    if (!sq.marked && (sq.isFreeSpace || called.has(sq.songId))) {
+      sq.marked = true;
+      daubed.push(sq);
+    }
+  }
+  return daubed;
+}
+
+module.exports = {
+  AUTO_BINGO_MODES,
+  settingsFor,
+  setAutoBingo,
+  updateDetections,
+  detectionFor,
+  daubCalledSquares,
+};
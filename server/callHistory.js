@@ -0,0 +1,79 @@
+/**
+ * Call history for settling "that song already played!" disputes: the round's calls in order (the
+ * results log kept by roomReport.recordCall) with when each was called, where its snippet started and
+ * which players hold the song; songs of the mix not called yet are listed too, so a search can answer "no".
+ * The host can replay CLIP_MS of a called song from its snippet start (index.js `replayCallClip`).
+ */
+
+const roomReport = require('./roomReport');
+
+const CLIP_MS = 5000;
+
+/** Phone players holding each song on their card: songId → [{ playerId, playerName, marked }]. */
+function holdersBySong(room) {
+  const bySong = new Map();
+  const cards = room.bingoCards instanceof Map ? room.bingoCards : new Map();
+  for (const [playerId, card] of cards) {
+    const player = room.players.get(playerId);
+    if (!player || player.isHost || !card || !Array.isArray(card.squares)) continue;
+    for (const sq of card.squares) {
+      if (sq.isFreeSpace || !sq.songId) continue;
+      if (!bySong.has(sq.songId)) bySong.set(sq.songId, []);
+      bySong.get(sq.songId).push({ playerId, playerName: player.name, marked: !!sq.marked });
+    }
+  }
+  return bySong;
+}
+
+/** Calls of the round in play; after a round ends (nothing called yet), the round just finished. */
+function roundCalls(room) {
+  const calls = (room.results && Array.isArray(room.results.calls)) ? room.results.calls : [];
+  let roundNumber = roomReport.currentRoundNumber(room);
+  if (!calls.some((c) => c.roundNumber === roundNumber) && calls.length) {
+    roundNumber = calls[calls.length - 1].roundNumber;
+  }
+  return { roundNumber, calls: calls.filter((c) => c.roundNumber === roundNumber) };
+}
+
+function findCall(room, songId) {
+  return roundCalls(room).calls.find((c) => c.songId === songId) || null;
+}
+
+/**
+ * `call-history` payload.
+ * @param {{ titleFor?: (songId: string) => string|undefined }} options custom titles players see
+ */
+function callHistoryPayload(room, roomId, { titleFor = () => undefined } = {}) {
+  const { roundNumber, calls } = roundCalls(room);
+  const holders = holdersBySong(room);
+  const called = new Set(calls.map((c) => c.songId));
+  return {
+    roomId,
+    roundNumber,
+    calls: calls.map((c) => ({
+      order: c.order,
+      songId: c.songId,
+      songName: c.songName,
+      artistName: c.artistName,
+      customTitle: titleFor(c.songId) || null,
+      calledAt: c.calledAt,
+      startMs: Number.isFinite(c.startMs) ? c.startMs : null,
+      holders: holders.get(c.songId) || [],
+    })),
+    uncalled: (room.playlistSongs || [])
+      .filter((s) => s && s.id && !called.has(s.id))
+      .map((s) => ({
+        songId: s.id,
+        songName: s.name,
+        artistName: s.artist,
+        customTitle: titleFor(s.id) || null,
+        holders: holders.get(s.id) || [],
+      })),
+  };
+}
+
+module.exports = {
+  CLIP_MS,
+  findCall,
+  callHistoryPayload,
+};
@@ -0,0 +1,327 @@
+/**
+ * Seeded card deals, so cards can be reproduced and audited after the game. Every deal of cards for a
+ * mix (finalize, or a start that regenerates cards) takes a random seed; card N of the deal is drawn
+ * from a random stream derived from seed + N alone, so anyone holding the seed and the mix (the song
+ * pools cards are drawn from) can regenerate card N. Late joiners and printed paper cards continue the
+ * current deal's numbering.
+ *
+ * Issued cards are listed on the deal with a hash of their layout; `signManifest` turns a deal into an
+ * Ed25519-signed manifest (TEMPO_CARD_MANIFEST_PRIVATE_KEY) and tools/verify-card.js checks a card a
+ * player shows against it. Deals live on `room.cardDeals` (newest last) and ride along in snapshots.
+ */
+
+const crypto = require('crypto');
+const { parseKey } = require('./licenses');
+
+const MANIFEST_VERSION = 1;
+/** Older deals are kept for audits of earlier rounds, up to this many per room. */
+const MAX_KEPT_DEALS = 20;
+const CARD_MODES = ['5x15', '1x75', 'fallback'];
+
+let manifestKeys = null;
+
+function newSeed() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Random numbers in [0, 1) for one card: SHA-256 of `seed:cardNumber:block`, read 32 bits at a time.
+ * Same seed and number, same stream — on any machine and Node version.
+ */
+function cardRandom(seed, cardNumber) {
+  let block = null;
+  let blockIndex = 0;
+  let offset = 32;
+  return () => {
+    if (offset + 4 > 32) {
+      block = crypto.createHash('sha256').update(`${seed}:${cardNumber}:${blockIndex++}`).digest();
+      offset = 0;
+    }
+    const n = block.readUInt32BE(offset);
+    offset += 4;
+    return n / 0x100000000;
+  };
+}
+
+/** Fisher-Yates over `random` (does not mutate the input). */
+function shuffle(array, random) {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Card mode for a mix from its playlists' unique song counts (after cross-playlist dedup for five):
+ * 1x75 for one playlist of 75 or more, 5x15 for five of at least 15 each, otherwise one global pool.
+ */
+function cardModeFor(uniqueCounts) {
+  const counts = Array.isArray(uniqueCounts) ? uniqueCounts : [];
+  if (counts.length === 1 && counts[0] >= 75) return '1x75';
+  if (counts.length === 5 && counts.every((n) => n >= 15)) return '5x15';
+  return 'fallback';
+}
+
+/**
+ * What cards are drawn from. `pools` holds song ids: five column pools for 5x15, otherwise one pool
+ * (the 75 for 1x75, every unique song of the mix for the global-pool fallback). Order matters.
+ */
+function createMix(mode, freeSpace, pools) {
+  return {
+    mode: CARD_MODES.includes(mode) ? mode : 'fallback',
+    freeSpace: !!freeSpace,
+    pools: (pools || []).map((pool) => (pool || []).map((id) => String(id))),
+  };
+}
+
+function mixHash(mix) {
+  return crypto.createHash('sha256').update(JSON.stringify([mix.mode, mix.freeSpace, mix.pools])).digest('hex');
+}
+
+/** Card positions in the order drawn songs fill them: row-major, skipping the free centre. */
+function songPositions(freeSpace) {
+  const positions = [];
+  for (let row = 0; row < 5; row++) {
+    for (let col = 0; col < 5; col++) {
+      if (freeSpace && row === 2 && col === 2) continue;
+      positions.push(`${row}-${col}`);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Song ids for card `cardNumber`, in `songPositions` order, or null when the mix cannot fill a card.
+ * 5x15 picks each column from its own pool (no song twice on a card); the other modes take the first
+ * 24/25 of a shuffle of the single pool.
+ */
+function drawCard(mix, seed, cardNumber) {
+  const random = cardRandom(seed, cardNumber);
+  const need = mix.freeSpace ? 24 : 25;
+  if (mix.mode !== '5x15') {
+    const pool = mix.pools[0] || [];
+    return pool.length >= need ? shuffle(pool, random).slice(0, need) : null;
+  }
+  const used = new Set();
+  const columns = [];
+  for (let col = 0; col < 5; col++) {
+    const colNeed = mix.freeSpace && col === 2 ? 4 : 5;
+    const picks = [];
+    for (const id of shuffle(mix.pools[col] || [], random)) {
+      if (!used.has(id)) {
+        picks.push(id);
+        used.add(id);
+      }
+      if (picks.length === colNeed) break;
+    }
+    if (picks.length < colNeed) return null;
+    columns.push(picks);
+  }
+  return songPositions(mix.freeSpace).map((position) => {
+    const [row, col] = position.split('-').map(Number);
+    return columns[col][mix.freeSpace && col === 2 && row > 2 ? row - 1 : row];
+  });
+}
+
+/** Hash of a card's layout (position → song, free space left out); what the manifest lists per card. */
+function layoutHash(squares) {
+  const cells = (squares || [])
+    .filter((s) => s && !s.isFreeSpace && s.songId != null)
+    .map((s) => `${s.position}=${s.songId}`)
+    .sort();
+  return crypto.createHash('sha256').update(cells.join('|')).digest('hex');
+}
+
+function currentDeal(room) {
+  const deals = room && Array.isArray(room.cardDeals) ? room.cardDeals : [];
+  return deals.length ? deals[deals.length - 1] : null;
+}
+
+function findDeal(room, seed) {
+  const deals = room && Array.isArray(room.cardDeals) ? room.cardDeals : [];
+  return deals.find((d) => d.seed === seed) || null;
+}
+
+/** New deal for the room's cards; earlier deals stay listed for audits. */
+function startDeal(room, mix, seed = newSeed()) {
+  const deal = { seed, mix, mixHash: mixHash(mix), dealtAt: new Date().toISOString(), nextCardNumber: 1, cards: [] };
+  const deals = Array.isArray(room.cardDeals) ? room.cardDeals : [];
+  room.cardDeals = [...deals, deal].slice(-MAX_KEPT_DEALS);
+  return deal;
+}
+
+function cardIdFor(deal, cardNumber) {
+  return `${deal.seed.slice(0, 8)}-${cardNumber}`;
+}
+
+/**
+ * Draw the deal's next card: { cardNumber, cardId, songIds } or null when the mix cannot fill one.
+ * The number is used up either way; only cards handed out (`recordIssued`) appear in the manifest.
+ */
+function dealCard(deal) {
+  const cardNumber = deal.nextCardNumber++;
+  const songIds = drawCard(deal.mix, deal.seed, cardNumber);
+  return songIds ? { cardNumber, cardId: cardIdFor(deal, cardNumber), songIds } : null;
+}
+
+/** `holder` names who got it (player name, or the paper card's printed ID). */
+function recordIssued(deal, { cardNumber, cardId, squares }, holder) {
+  deal.cards.push({
+    cardNumber,
+    cardId,
+    layoutHash: layoutHash(squares),
+    holder: holder ? String(holder).slice(0, 80) : null,
+    issuedAt: new Date().toISOString(),
+  });
+}
+
+/** What the host sees for the current deal. */
+function dealSummary(deal) {
+  if (!deal) return null;
+  return { seed: deal.seed, mixHash: deal.mixHash, mode: deal.mix.mode, dealtAt: deal.dealtAt, cardCount: deal.cards.length };
+}
+
+/**
+ * Signing key: TEMPO_CARD_MANIFEST_PRIVATE_KEY (Ed25519, PEM or base64 PKCS#8). Without one a key is
+ * made up per process — manifests still verify against the public key they carry, but nothing ties
+ * that key to this server (`keyConfigured: false`). A key that is set but unreadable, or not Ed25519,
+ * throws (code `manifest_key_invalid`) instead of falling back to a made-up key.
+ */
+function signingKeys() {
+  if (manifestKeys) return manifestKeys;
+  const raw = process.env.TEMPO_CARD_MANIFEST_PRIVATE_KEY;
+  if (String(raw || '').trim()) {
+    const configured = parseKey(raw, 'private');
+    if (!configured || configured.asymmetricKeyType !== 'ed25519') {
+      const err = new Error('TEMPO_CARD_MANIFEST_PRIVATE_KEY is not an Ed25519 private key (PEM or base64 PKCS#8)');
+      err.code = 'manifest_key_invalid';
+      throw err;
+    }
+    manifestKeys = { privateKey: configured, publicKey: crypto.createPublicKey(configured), configured: true };
+  } else {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    manifestKeys = { privateKey, publicKey, configured: false };
+  }
+  return manifestKeys;
+}
+
+/** Why the configured manifest key cannot sign, or null; checked at startup so a bad key shows in the log. */
+function signingKeyProblem() {
+  try {
+    signingKeys();
+    return null;
+  } catch (e) {
+    return e.message;
+  }
+}
+
+/** Unsigned manifest body. `labelFor(songId)` gives "Title — Artist" for readable regenerated cards. */
+function buildManifest(roomId, deal, { labelFor = () => null } = {}) {
+  const songs = {};
+  for (const pool of deal.mix.pools) {
+    for (const id of pool) {
+      const label = labelFor(id);
+      if (label) songs[id] = label;
+    }
+  }
+  return {
+    v: MANIFEST_VERSION,
+    roomId: String(roomId),
+    seed: deal.seed,
+    dealtAt: deal.dealtAt,
+    issuedAt: new Date().toISOString(),
+    mixHash: deal.mixHash,
+    mix: deal.mix,
+    cards: deal.cards.map(({ cardNumber, cardId, layoutHash: hash, holder }) => ({ cardNumber, cardId, layoutHash: hash, holder })),
+    songs,
+  };
+}
+
+/** `{ manifest, signature, publicKey }`: Ed25519 over JSON.stringify(manifest), base64. */
+function signManifest(manifest) {
+  const { privateKey, publicKey, configured } = signingKeys();
+  const signature = crypto.sign(null, Buffer.from(JSON.stringify(manifest), 'utf8'), privateKey).toString('base64');
+  return {
+    manifest,
+    signature,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+    keyConfigured: configured,
+  };
+}
+
+/**
+ * Check a signed manifest. `publicKey` pins the server's key; without it the manifest's own key is
+ * used, which proves the manifest is intact but not who signed it (`pinned: false`).
+ */
+function verifyManifest(signed, { publicKey = null } = {}) {
+  if (!signed || typeof signed !== 'object' || !signed.manifest || typeof signed.signature !== 'string') {
+    return { valid: false, pinned: false, message: 'Not a signed card manifest.' };
+  }
+  const key = parseKey(publicKey != null ? publicKey : signed.publicKey, 'public');
+  if (!key || key.asymmetricKeyType !== 'ed25519') {
+    return { valid: false, pinned: false, message: 'No usable Ed25519 public key.' };
+  }
+  let ok = false;
+  try {
+    ok = crypto.verify(null, Buffer.from(JSON.stringify(signed.manifest), 'utf8'), key, Buffer.from(signed.signature, 'base64'));
+  } catch {
+    ok = false;
+  }
+  if (!ok) return { valid: false, pinned: publicKey != null, message: 'Signature does not match — the manifest was altered or signed by another key.' };
+  if (mixHash(signed.manifest.mix) !== signed.manifest.mixHash) {
+    return { valid: false, pinned: publicKey != null, message: 'Mix does not match its hash.' };
+  }
+  return { valid: true, pinned: publicKey != null, message: 'Signature valid.' };
+}
+
+/**
+ * Regenerate card `cardNumber` (or a `cardId`) from a manifest's seed and mix and compare it with the
+ * manifest entry and, when given, the squares a player showed.
+ * Returns { cardNumber, cardId, squares, issued, matchesManifest, matchesShown } (null fields = not checked).
+ */
+function regenerateCard(manifest, card, shownSquares = null) {
+  let cardNumber = Number(card);
+  if (typeof card === 'string' && card.includes('-')) {
+    const [prefix, number] = card.split('-');
+    if (prefix !== manifest.seed.slice(0, 8)) return null;
+    cardNumber = Number(number);
+  }
+  if (!Number.isInteger(cardNumber) || cardNumber < 1) return null;
+  const songIds = drawCard(manifest.mix, manifest.seed, cardNumber);
+  if (!songIds) return null;
+  const positions = songPositions(manifest.mix.freeSpace);
+  const squares = positions.map((position, i) => ({ position, songId: songIds[i] }));
+  const hash = layoutHash(squares);
+  const issued = (manifest.cards || []).find((c) => c.cardNumber === cardNumber) || null;
+  return {
+    cardNumber,
+    cardId: `${manifest.seed.slice(0, 8)}-${cardNumber}`,
+    squares,
+    issued,
+    matchesManifest: issued ? issued.layoutHash === hash : null,
+    matchesShown: Array.isArray(shownSquares) ? layoutHash(shownSquares) === hash : null,
+  };
+}
+
+module.exports = {
+  MAX_KEPT_DEALS,
+  cardModeFor,
+  createMix,
+  mixHash,
+  drawCard,
+  songPositions,
+  layoutHash,
+  currentDeal,
+  findDeal,
+  startDeal,
+  dealCard,
+  recordIssued,
+  dealSummary,
+  buildManifest,
+  signingKeyProblem,
+  signManifest,
+  verifyManifest,
+  regenerateCard,
+};
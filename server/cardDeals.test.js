@@ -0,0 +1,139 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const cardDeals = require('./cardDeals');
+const { generateKeyPair } = require('./licenses');
+
+const ids = (prefix, n) => Array.from({ length: n }, (_, i) => `${prefix}${i + 1}`);
+const fiveByFifteen = () => cardDeals.createMix('5x15', true, ['b', 'i', 'n', 'g', 'o'].map((p) => ids(p, 15)));
+const squaresFor = (songIds, freeSpace) => cardDeals.songPositions(freeSpace).map((position, i) => ({ position, songId: songIds[i] }));
+
+/**
+ * Run `fn` on a fresh copy of the module with TEMPO_CARD_MANIFEST_PRIVATE_KEY set to `key` (unset when
+ * null): the signing key is read once per process.
+ */
+function withManifestKey(key, fn) {
+  const saved = process.env.TEMPO_CARD_MANIFEST_PRIVATE_KEY;
+  if (key == null) delete process.env.TEMPO_CARD_MANIFEST_PRIVATE_KEY;
+  else process.env.TEMPO_CARD_MANIFEST_PRIVATE_KEY = key;
+  delete require.cache[require.resolve('./cardDeals')];
+  try {
+    return fn(require('./cardDeals'));
+  } finally {
+    if (saved === undefined) delete process.env.TEMPO_CARD_MANIFEST_PRIVATE_KEY;
+    else process.env.TEMPO_CARD_MANIFEST_PRIVATE_KEY = saved;
+  }
+}
+
+test('cardModeFor picks 1x75, 5x15 or the global pool', () => {
+  assert.equal(cardDeals.cardModeFor([80]), '1x75');
+  assert.equal(cardDeals.cardModeFor([74]), 'fallback');
+  assert.equal(cardDeals.cardModeFor([15, 20, 15, 30, 15]), '5x15');
+  assert.equal(cardDeals.cardModeFor([15, 20, 14, 30, 15]), 'fallback');
+  assert.equal(cardDeals.cardModeFor(null), 'fallback');
+});
+
+test('songPositions skips the free centre', () => {
+  assert.equal(cardDeals.songPositions(false).length, 25);
+  const positions = cardDeals.songPositions(true);
+  assert.equal(positions.length, 24);
+  assert.ok(!positions.includes('2-2'));
+});
+
+test('the same seed and number always draw the same card', () => {
+  const mix = fiveByFifteen();
+  assert.deepEqual(cardDeals.drawCard(mix, 'seed-a', 3), cardDeals.drawCard(mix, 'seed-a', 3));
+  assert.notDeepEqual(cardDeals.drawCard(mix, 'seed-a', 3), cardDeals.drawCard(mix, 'seed-a', 4));
+  assert.notDeepEqual(cardDeals.drawCard(mix, 'seed-a', 3), cardDeals.drawCard(mix, 'seed-b', 3));
+});
+
+test('5x15 cards take each column from its own pool, no song twice', () => {
+  const mix = fiveByFifteen();
+  const songIds = cardDeals.drawCard(mix, 'seed', 1);
+  assert.equal(new Set(songIds).size, 24);
+  squaresFor(songIds, true).forEach(({ position, songId }) => {
+    const col = Number(position.split('-')[1]);
+    assert.ok(mix.pools[col].includes(songId), `${songId} at ${position}`);
+  });
+});
+
+test('drawCard returns null when the mix cannot fill a card', () => {
+  assert.equal(cardDeals.drawCard(cardDeals.createMix('fallback', false, [ids('s', 24)]), 'seed', 1), null);
+  assert.equal(cardDeals.drawCard(cardDeals.createMix('fallback', true, [ids('s', 24)]), 'seed', 1).length, 24);
+  const shortColumn = cardDeals.createMix('5x15', false, [ids('b', 15), ids('i', 15), ids('n', 4), ids('g', 15), ids('o', 15)]);
+  assert.equal(cardDeals.drawCard(shortColumn, 'seed', 1), null);
+});
+
+test('layoutHash ignores square order and the free space', () => {
+  const squares = [{ position: '0-0', songId: 'a' }, { position: '0-1', songId: 'b' }];
+  const withFree = [...squares].reverse().concat({ position: '2-2', isFreeSpace: true, songId: null });
+  assert.equal(cardDeals.layoutHash(squares), cardDeals.layoutHash(withFree));
+  assert.notEqual(cardDeals.layoutHash(squares), cardDeals.layoutHash([{ position: '0-0', songId: 'b' }, { position: '0-1', songId: 'a' }]));
+});
+
+test('deals number their cards and keep the newest MAX_KEPT_DEALS', () => {
+  const room = {};
+  const deal = cardDeals.startDeal(room, fiveByFifteen(), 'abcdef0123456789');
+  const first = cardDeals.dealCard(deal);
+  const second = cardDeals.dealCard(deal);
+  assert.equal(first.cardId, 'abcdef01-1');
+  assert.equal(second.cardNumber, 2);
+  cardDeals.recordIssued(deal, { ...first, squares: squaresFor(first.songIds, true) }, 'Ada');
+  assert.deepEqual(cardDeals.dealSummary(deal), { seed: deal.seed, mixHash: deal.mixHash, mode: '5x15', dealtAt: deal.dealtAt, cardCount: 1 });
+
+  for (let i = 0; i < cardDeals.MAX_KEPT_DEALS; i++) cardDeals.startDeal(room, fiveByFifteen());
+  assert.equal(room.cardDeals.length, cardDeals.MAX_KEPT_DEALS);
+  assert.equal(cardDeals.findDeal(room, 'abcdef0123456789'), null);
+  assert.equal(cardDeals.currentDeal(room), room.cardDeals[room.cardDeals.length - 1]);
+});
+
+test('a signed manifest verifies, and regenerates issued and shown cards', () => {
+  const deal = cardDeals.startDeal({}, fiveByFifteen());
+  const card = cardDeals.dealCard(deal);
+  const squares = squaresFor(card.songIds, true);
+  cardDeals.recordIssued(deal, { ...card, squares }, 'Ada');
+  const manifest = cardDeals.buildManifest('ROOM1', deal, { labelFor: (id) => (id === 'b1' ? 'Song — Artist' : null) });
+  assert.deepEqual(manifest.songs, { b1: 'Song — Artist' });
+
+  const signed = cardDeals.signManifest(manifest);
+  assert.deepEqual(cardDeals.verifyManifest(signed), { valid: true, pinned: false, message: 'Signature valid.' });
+  assert.equal(cardDeals.verifyManifest(signed, { publicKey: signed.publicKey }).pinned, true);
+
+  const regenerated = cardDeals.regenerateCard(manifest, card.cardId, squares);
+  assert.equal(regenerated.cardNumber, 1);
+  assert.equal(regenerated.matchesManifest, true);
+  assert.equal(regenerated.matchesShown, true);
+  const swapped = squares.map((s, i) => (i < 2 ? { ...s, songId: squares[1 - i].songId } : s));
+  assert.equal(cardDeals.regenerateCard(manifest, 1, swapped).matchesShown, false);
+  assert.equal(cardDeals.regenerateCard(manifest, 2).issued, null);
+  assert.equal(cardDeals.regenerateCard(manifest, 'ffffffff-1'), null);
+});
+
+test('verifyManifest rejects altered manifests and other keys', () => {
+  const deal = cardDeals.startDeal({}, fiveByFifteen());
+  const signed = cardDeals.signManifest(cardDeals.buildManifest('ROOM1', deal));
+  const altered = { ...signed, manifest: { ...signed.manifest, roomId: 'ROOM2' } };
+  assert.equal(cardDeals.verifyManifest(altered).valid, false);
+  assert.equal(cardDeals.verifyManifest(signed, { publicKey: generateKeyPair().publicKey }).valid, false);
+  assert.equal(cardDeals.verifyManifest({ manifest: signed.manifest }).valid, false);
+});
+
+test('without a configured key manifests are signed with a made-up one', () => {
+  withManifestKey(null, (fresh) => {
+    assert.equal(fresh.signingKeyProblem(), null);
+    assert.equal(fresh.signManifest({ v: 1 }).keyConfigured, false);
+  });
+});
+
+test('a configured key signs manifests; a misconfigured one refuses to', () => {
+  const { privateKey, publicKey } = generateKeyPair();
+  withManifestKey(privateKey, (configured) => {
+    const signed = configured.signManifest({ v: 1, mix: fiveByFifteen(), mixHash: cardDeals.mixHash(fiveByFifteen()) });
+    assert.equal(signed.keyConfigured, true);
+    assert.equal(configured.verifyManifest(signed, { publicKey }).valid, true);
+  });
+  withManifestKey('not a key', (broken) => {
+    assert.match(broken.signingKeyProblem(), /not an Ed25519 private key/);
+    assert.throws(() => broken.signManifest({ v: 1 }), (e) => e.code === 'manifest_key_invalid');
+  });
+});
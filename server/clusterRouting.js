@@ -0,0 +1,330 @@
+/**
+ * Routes socket events to the instance that owns their room (roomLeases.js). A player may connect to
+ * any instance; an event carrying a `roomId` for a room another instance owns is published to that
+ * owner instead of being handled here. The owner replays it on a RemoteClientSocket, a stand-in for
+ * the real socket with the same id: handlers registered on it run exactly as for a local socket, and
+ * its emit/join/leave go through the socket.io Redis adapter (sharedStore.js) back to the real one.
+ *
+ * A room nobody owns is taken by the instance the event arrived on, which loads it from the saved
+ * snapshot (`prepareRoom`). Events keep their order per socket on both ends.
+ *
+ * REST requests for a room (`forwardRequests`) are routed the same way: the owner replays the request
+ * against its own HTTP server on loopback, marked with a per-process secret so it is handled there and
+ * not routed again, and the response is relayed back to the instance the caller reached.
+ */
+
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+const ROUTE_CHANNEL_PREFIX = 'tempo:route#';
+/** An owner change mid-flight re-forwards an event; give up after this many hops. */
+const MAX_HOPS = 3;
+const REQUEST_TIMEOUT_MS = 15000;
+/** Carries the replaying instance's secret; only requests bearing it skip routing or set the client IP. */
+const ROUTED_HEADER = 'x-tempo-routed';
+const CLIENT_IP_HEADER = 'x-tempo-client-ip';
+/** Not copied between the caller, the owner's loopback request and the relayed response. */
+const HOP_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-length',
+  'content-encoding',
+  'accept-encoding',
+  'host',
+  'date',
+  ROUTED_HEADER,
+  CLIENT_IP_HEADER,
+]);
+
+function copyHeaders(entries) {
+  const out = {};
+  for (const [name, value] of entries) {
+    if (!HOP_HEADERS.has(name.toLowerCase()) && value != null) out[name] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return out;
+}
+
+function roomIdOf(payload) {
+  return payload && typeof payload === 'object' && typeof payload.roomId === 'string' && payload.roomId
+    ? payload.roomId
+    : null;
+}
+
+/** What the connection middleware (io.use) learned about the real socket. */
+function identityOf(socket) {
+  return { hostUserId: socket.hostUserId ?? null, hostEmailFromJwt: socket.hostEmailFromJwt ?? null };
+}
+
+/** Stand-in on the owning instance for a socket connected to another instance. */
+class RemoteClientSocket extends EventEmitter {
+  constructor(io, id, identity = {}) {
+    super();
+    this.io = io;
+    this.id = id;
+    this.connected = true;
+    if (identity.hostUserId != null) this.hostUserId = identity.hostUserId;
+    this.hostEmailFromJwt = identity.hostEmailFromJwt || null;
+    this.handshake = { auth: {}, headers: {}, query: {} };
+    this.middlewares = [];
+  }
+
+  use(fn) {
+    this.middlewares.push(fn);
+    return this;
+  }
+
+  emit(event, ...args) {
+    this.io.to(this.id).emit(event, ...args);
+    return true;
+  }
+
+  join(room) {
+    this.io.in(this.id).socketsJoin(room);
+  }
+
+  leave(room) {
+    this.io.in(this.id).socketsLeave(room);
+  }
+
+  /** Run a forwarded packet through the socket middlewares, then the handlers. */
+  deliver(packet) {
+    let i = 0;
+    const next = (err) => {
+      if (err) return;
+      const middleware = this.middlewares[i++];
+      if (middleware) return middleware(packet, next);
+      super.emit(...packet);
+    };
+    next();
+  }
+
+  disconnected(reason) {
+    this.connected = false;
+    super.emit('disconnect', reason);
+    this.removeAllListeners();
+  }
+}
+
+/**
+ * @param {{
+ *   io: import('socket.io').Server,
+ *   store: ReturnType<import('./sharedStore').createSharedStore>,
+ *   leases: ReturnType<import('./roomLeases').createRoomLeases>,
+ *   prepareRoom: (roomId: string) => Promise<void>,
+ *   registerHandlers: (socket: object) => void,
+ *   localOrigin: () => string,
+ * }} options localOrigin gives this instance's own HTTP server, e.g. http://127.0.0.1:5000
+ */
+function createClusterRouting({ io, store, leases, prepareRoom, registerHandlers, localOrigin }) {
+  /** socketId → RemoteClientSocket for sockets on other instances that sent events here */
+  const remoteClients = new Map();
+  /** roomId → promise that resolves once a room just taken over is loaded */
+  const prepared = new Map();
+  /** socketId → tail of that socket's forwarded events being handled here */
+  const receiveChains = new Map();
+  /** requestId → { resolve, reject, timer } for REST requests forwarded from here */
+  const pendingRequests = new Map();
+  const routedSecret = crypto.randomBytes(16).toString('hex');
+
+  const channelFor = (instanceId) => `${ROUTE_CHANNEL_PREFIX}${instanceId}`;
+  const publish = (instanceId, message) => store.publish(channelFor(instanceId), JSON.stringify(message));
+
+  /** null when this instance handles the room (taking it over if free), else the owner's instance id. */
+  async function route(roomId) {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (leases.isOwner(roomId)) {
+        await prepared.get(roomId);
+        return null;
+      }
+      const owner = await leases.ownerOf(roomId);
+      if (owner && owner !== leases.instanceId) return owner;
+      if (await leases.acquire(roomId)) {
+        const ready = prepareRoom(roomId);
+        prepared.set(roomId, ready);
+        await ready;
+        return null;
+      }
+      leases.forgetOwner(roomId);
+    }
+    throw new Error(`no instance could take room ${roomId}`);
+  }
+
+  /** Route a real socket's room events; call before the handlers' own middlewares are registered. */
+  function attach(socket) {
+    let chain = Promise.resolve();
+    const forwardedTo = new Set();
+    socket.use((packet, next) => {
+      const [event, payload] = packet;
+      const roomId = roomIdOf(payload);
+      if (!roomId) return next();
+      chain = chain
+        .then(async () => {
+          const owner = await route(roomId);
+          if (!owner) return next();
+          forwardedTo.add(owner);
+          await publish(owner, { kind: 'event', socketId: socket.id, identity: identityOf(socket), packet, hops: 0 });
+        })
+        .catch((e) => console.error(`❌ Failed to route ${event} for room ${roomId}:`, e?.message || e));
+    });
+    socket.on('disconnect', (reason) => {
+      for (const owner of forwardedTo) {
+        publish(owner, { kind: 'disconnect', socketId: socket.id, reason }).catch((e) =>
+          console.error('❌ Failed to forward disconnect:', e?.message || e)
+        );
+      }
+    });
+  }
+
+  const isRoutedRequest = (req) => req.get(ROUTED_HEADER) === routedSecret;
+
+  /** Send a request to the room's owner and wait for its response. */
+  async function forwardRequest(owner, roomId, req) {
+    const requestId = crypto.randomUUID();
+    const response = new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequests.delete(requestId);
+        reject(new Error(`no response from ${owner}`));
+      }, REQUEST_TIMEOUT_MS);
+      pendingRequests.set(requestId, { resolve, reject, timer });
+    });
+    const headers = copyHeaders(Object.entries(req.headers));
+    // What requestOrigin() and rate limits see on the owner
+    if (!headers['x-forwarded-host']) headers['x-forwarded-host'] = req.get('host') || '';
+    if (!headers['x-forwarded-proto']) headers['x-forwarded-proto'] = req.protocol;
+    const hasJsonBody = req.is('application/json') && req.body !== undefined;
+    await publish(owner, {
+      kind: 'request',
+      requestId,
+      replyTo: leases.instanceId,
+      roomId,
+      method: req.method,
+      url: req.originalUrl,
+      headers,
+      clientIp: req.ip,
+      body: hasJsonBody ? JSON.stringify(req.body) : null,
+      hops: 0,
+    });
+    return response;
+  }
+
+  /** On the owner: replay a forwarded request against this instance's HTTP server. */
+  async function replayRequest(message) {
+    let reply;
+    try {
+      const response = await fetch(`${localOrigin()}${message.url}`, {
+        method: message.method,
+        headers: { ...message.headers, [ROUTED_HEADER]: routedSecret, [CLIENT_IP_HEADER]: message.clientIp || '' },
+        body: message.body != null && message.method !== 'GET' && message.method !== 'HEAD' ? message.body : undefined,
+        redirect: 'manual',
+      });
+      reply = {
+        status: response.status,
+        headers: copyHeaders(response.headers.entries()),
+        body: Buffer.from(await response.arrayBuffer()).toString('base64'),
+      };
+    } catch (e) {
+      console.error(`❌ Failed to replay ${message.method} ${message.url}:`, e?.message || e);
+      reply = { status: 502, headers: {}, body: null };
+    }
+    await publish(message.replyTo, { kind: 'response', requestId: message.requestId, ...reply });
+  }
+
+  function receiveResponse(message) {
+    const pending = pendingRequests.get(message.requestId);
+    if (!pending) return;
+    pendingRequests.delete(message.requestId);
+    clearTimeout(pending.timer);
+    pending.resolve(message);
+  }
+
+  /**
+   * Express middleware: a request for a room another instance owns is answered by that owner.
+   * `roomIdOf(req)` picks the room (null: not a room request, handled here).
+   */
+  function forwardRequests(roomIdOf) {
+    return (req, res, next) => {
+      const roomId = roomIdOf(req);
+      if (!roomId || isRoutedRequest(req)) return next();
+      route(roomId)
+        .then(async (owner) => {
+          if (!owner) return next();
+          const response = await forwardRequest(owner, roomId, req);
+          res.status(response.status);
+          for (const [name, value] of Object.entries(response.headers || {})) res.set(name, value);
+          return res.end(response.body ? Buffer.from(response.body, 'base64') : undefined);
+        })
+        .catch((e) => {
+          console.error(`❌ Failed to route ${req.method} ${req.originalUrl} for room ${roomId}:`, e?.message || e);
+          if (!res.headersSent) res.status(503).json({ error: 'room_unavailable', message: 'This room is busy moving between servers. Try again in a moment.' });
+        });
+    };
+  }
+
+  async function receive(message) {
+    if (message.kind === 'disconnect') {
+      const client = remoteClients.get(message.socketId);
+      if (!client) return;
+      remoteClients.delete(message.socketId);
+      client.disconnected(message.reason);
+      return;
+    }
+    const isRequest = message.kind === 'request';
+    const roomId = isRequest ? message.roomId : roomIdOf(message.packet[1]);
+    const owner = await route(roomId);
+    if (owner) {
+      if (message.hops >= MAX_HOPS) {
+        console.error(`❌ Dropped ${isRequest ? message.url : message.packet[0]} for room ${roomId}: owner kept moving`);
+        return;
+      }
+      await publish(owner, { ...message, hops: message.hops + 1 });
+      return;
+    }
+    if (isRequest) {
+      await replayRequest(message);
+      return;
+    }
+    let client = remoteClients.get(message.socketId);
+    if (!client) {
+      client = new RemoteClientSocket(io, message.socketId, message.identity);
+      remoteClients.set(message.socketId, client);
+      registerHandlers(client);
+    }
+    client.deliver(message.packet);
+  }
+
+  return {
+    attach,
+    forwardRequests,
+    /** The caller's address: the original client's for a request replayed here from another instance. */
+    clientIp: (req) => (isRoutedRequest(req) && req.get(CLIENT_IP_HEADER)) || req.ip,
+    /** Local socket or remote stand-in for a socket id (what io.sockets.sockets.get is for one instance). */
+    clientSocket: (socketId) => io.sockets.sockets.get(socketId) || remoteClients.get(socketId),
+    /** The room left this instance (lease lost or handed over). */
+    forgetRoom: (roomId) => prepared.delete(roomId),
+    async start() {
+      await store.subscribe(channelFor(leases.instanceId), (raw) => {
+        const message = JSON.parse(raw);
+        if (message.kind === 'response') {
+          receiveResponse(message);
+          return;
+        }
+        if (message.kind === 'request') {
+          receive(message).catch((e) => console.error('❌ Failed to handle a routed request:', e?.message || e));
+          return;
+        }
+        const tail = (receiveChains.get(message.socketId) || Promise.resolve())
+          .then(() => receive(message))
+          .catch((e) => console.error('❌ Failed to handle a routed socket event:', e?.message || e))
+          .finally(() => {
+            if (receiveChains.get(message.socketId) === tail) receiveChains.delete(message.socketId);
+          });
+        receiveChains.set(message.socketId, tail);
+      });
+    },
+  };
+}
+
+module.exports = {
+  createClusterRouting,
+};
@@ -92,6 +92,24 @@ function verifySpotifyOAuthState(token) {
   }
 }
 
+/** Session for a recurring player profile (server/playerProfiles.js); sent as a Bearer token, never a cookie. */
+function signPlayerJwt(profileId, organizationId) {
+  return jwt.sign({ sub: String(profileId), typ: 'player', org: Number(organizationId) }, getJwtSecret(), { expiresIn: '180d' });
+}
+
+function verifyPlayerJwt(token) {
+  try {
+    const p = jwt.verify(token, getJwtSecret());
+    if (p.typ !== 'player' || !p.sub) return null;
+    const profileId = parseInt(p.sub, 10);
+    const organizationId = Number(p.org);
+    if (!Number.isFinite(profileId) || !Number.isFinite(organizationId)) return null;
+    return { profileId, organizationId };
+  } catch {
+    return null;
+  }
+}
+
 function parseCookies(header) {
   const out = {};
   if (!header || typeof header !== 'string') return out;
@@ -211,6 +229,8 @@ module.exports = {
   getHostSessionTokenFromHandshake,
   signSpotifyOAuthState,
   verifySpotifyOAuthState,
+  signPlayerJwt,
+  verifyPlayerJwt,
   parseCookies,
   getHostUserIdFromRequest,
   sessionCookieOptions,
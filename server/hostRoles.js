@@ -0,0 +1,222 @@
+/**
+ * Co-host roles: extra staff on a room, invited by the host with a short join code.
+ *   cohost    everything the host can do except managing co-hosts
+ *   verifier  check phone and paper bingos
+ *   dj        music and public display controls
+ *
+ * Co-host sockets live in `room.cohosts` (socket id → { id, name, role, clientId, joinedAt }), not in
+ * `room.players`, so they never get a card or count as players. Open invites live in
+ * `room.cohostInvites` (code → { code, role, createdAt, expiresAt }); a code can be reused until it
+ * expires or is revoked, so a co-host can rejoin after a reload.
+ *
+ * Every privileged client event maps to one permission in EVENT_PERMISSIONS and
+ * `permissionMiddleware` enforces it before any handler runs.
+ */
+
+const crypto = require('crypto');
+
+const COHOST_ROLES = ['cohost', 'verifier', 'dj'];
+const ROLE_LABELS = { host: 'Host', cohost: 'Co-host', verifier: 'Verifier', dj: 'DJ' };
+
+const ROLE_PERMISSIONS = {
+  host: ['manage_cohosts', 'game', 'music', 'display', 'verify'],
+  cohost: ['game', 'music', 'display', 'verify'],
+  verifier: ['verify'],
+  dj: ['music', 'display'],
+};
+
+const EVENT_PERMISSIONS = {
+  'finalize-mix': 'game',
+  'set-pattern': 'game',
+  'set-hybrid-mode': 'game',
+  'set-playback-provider': 'game',
+  'set-event-rounds': 'game',
+  'start-game': 'game',
+  'end-game': 'game',
+  'reset-game': 'game',
+  'new-round': 'game',
+  'start-next-round': 'game',
+  'restart-game': 'game',
+  'end-game-session': 'game',
+  'continue-or-end': 'game',
+  'set-super-strict': 'game',
+  'set-custom-song-title': 'game',
+  'set-leaderboard-scoring': 'game',
+  'set-auto-bingo': 'game',
+  'skip-song': 'music',
+  'pause-song': 'music',
+  'resume-song': 'music',
+  'previous-song': 'music',
+  'shuffle-playlist': 'music',
+  'toggle-repeat': 'music',
+  'set-volume': 'music',
+  'seek-song': 'music',
+  'play-song': 'music',
+  'reveal-call': 'music',
+  'emergency-stop': 'music',
+  'replay-call-clip': 'music',
+  'set-public-display-font-size': 'display',
+  'set-public-display-call-list-mode': 'display',
+  'display-show-rules': 'display',
+  'display-show-splash': 'display',
+  'display-show-call-list': 'display',
+  'display-reset-letters': 'display',
+  'force-refresh': 'display',
+  'verify-bingo': 'verify',
+  'recheck-bingo-claim': 'verify',
+  'verify-paper-card': 'verify',
+  'manual-resume-game': 'verify',
+  'request-player-cards': 'verify',
+  'request-call-history': 'verify',
+  'create-cohost-invite': 'manage_cohosts',
+  'revoke-cohost-invite': 'manage_cohosts',
+  'remove-cohost': 'manage_cohosts',
+};
+
+/** Server → host events that co-hosts also receive, by the permission that needs them. */
+const HOST_EVENT_AUDIENCE = {
+  'bingo-verification-needed': 'verify',
+  'bingo-verified': 'verify',
+  'verification-queue': 'verify',
+  'player-cards-delta': 'verify',
+};
+
+/** No 0/O or 1/I/L: codes are read out loud across a venue. */
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const INVITE_TTL_MS = 12 * 60 * 60 * 1000;
+const MAX_OPEN_INVITES = 20;
+
+function ensureCohosts(room) {
+  if (!(room.cohosts instanceof Map)) room.cohosts = new Map();
+  if (!(room.cohostInvites instanceof Map)) room.cohostInvites = new Map();
+  return room.cohosts;
+}
+
+/** 'host' for the host socket, the co-host's role, or null for players and strangers. */
+function roleOf(room, socketId) {
+  if (!room) return null;
+  const player = room.players && room.players.get(socketId);
+  if (room.host === socketId || (player && player.isHost)) return 'host';
+  const cohost = room.cohosts instanceof Map ? room.cohosts.get(socketId) : null;
+  return cohost ? cohost.role : null;
+}
+
+function can(role, permission) {
+  return !!role && (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+function permissionsFor(role) {
+  return role ? [...(ROLE_PERMISSIONS[role] || [])] : [];
+}
+
+function pruneInvites(room) {
+  const now = Date.now();
+  for (const [code, invite] of room.cohostInvites) {
+    if (invite.expiresAt <= now) room.cohostInvites.delete(code);
+  }
+}
+
+function createInvite(room, role) {
+  if (!COHOST_ROLES.includes(role)) return null;
+  ensureCohosts(room);
+  pruneInvites(room);
+  if (room.cohostInvites.size >= MAX_OPEN_INVITES) return null;
+  let code;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+  } while (room.cohostInvites.has(code));
+  const now = Date.now();
+  const invite = { code, role, createdAt: now, expiresAt: now + INVITE_TTL_MS };
+  room.cohostInvites.set(code, invite);
+  return invite;
+}
+
+function revokeInvite(room, code) {
+  ensureCohosts(room);
+  return room.cohostInvites.delete(normalizeCode(code));
+}
+
+function normalizeCode(code) {
+  return String(code || '').trim().toUpperCase();
+}
+
+/** The open invite for a join code, or null when unknown or expired. */
+function findInvite(room, code) {
+  if (!room) return null;
+  ensureCohosts(room);
+  pruneInvites(room);
+  return room.cohostInvites.get(normalizeCode(code)) || null;
+}
+
+/** Register a co-host socket; a rejoin from the same clientId replaces the stale entry. */
+function addCohost(room, { socketId, name, clientId, invite }) {
+  const cohosts = ensureCohosts(room);
+  if (clientId) {
+    for (const [id, c] of cohosts) {
+      if (c.clientId === clientId) cohosts.delete(id);
+    }
+  }
+  const entry = { id: socketId, name, role: invite.role, clientId: clientId || null, code: invite.code, joinedAt: Date.now() };
+  cohosts.set(socketId, entry);
+  return entry;
+}
+
+function removeCohost(room, socketId) {
+  return room.cohosts instanceof Map ? room.cohosts.delete(socketId) : false;
+}
+
+/** Co-hosts whose role needs a host-only event (see HOST_EVENT_AUDIENCE). */
+function cohostsFor(room, event) {
+  const permission = HOST_EVENT_AUDIENCE[event];
+  if (!permission || !(room.cohosts instanceof Map)) return [];
+  return Array.from(room.cohosts.values()).filter((c) => can(c.role, permission));
+}
+
+/** `cohost-roster` payload for the host's roster panel; invites are included for managers only. */
+function rosterPayload(room, roomId, { includeInvites = false } = {}) {
+  ensureCohosts(room);
+  pruneInvites(room);
+  return {
+    roomId,
+    cohosts: Array.from(room.cohosts.values()).map(({ id, name, role, joinedAt }) => ({ id, name, role, joinedAt })),
+    invites: includeInvites ? Array.from(room.cohostInvites.values()) : [],
+  };
+}
+
+/**
+ * Per-socket middleware (`socket.use`), after payload validation. Drops privileged events from sockets
+ * without the permission and replies with `permission-denied`.
+ * `roleFor(roomId)` resolves the sender's role in that room.
+ */
+function permissionMiddleware(socket, roleFor, onDeny) {
+  return (packet, next) => {
+    const [event, payload] = packet;
+    const permission = EVENT_PERMISSIONS[event];
+    if (!permission) return next();
+    const roomId = payload && typeof payload === 'object' ? payload.roomId : null;
+    const role = roleFor(roomId);
+    if (can(role, permission)) return next();
+    const message = role
+      ? `${ROLE_LABELS[role] || role} cannot use ${event}`
+      : `${event} is only available to the host`;
+    if (onDeny) onDeny(message);
+    socket.emit('permission-denied', { roomId: roomId || null, event, permission, role, message });
+  };
+}
+
+module.exports = {
+  COHOST_ROLES,
+  EVENT_PERMISSIONS,
+  roleOf,
+  can,
+  permissionsFor,
+  createInvite,
+  revokeInvite,
+  findInvite,
+  addCohost,
+  removeCohost,
+  cohostsFor,
+  rosterPayload,
+  permissionMiddleware,
+};
@@ -1,6 +1,5 @@
 const express = require('express');
 const http = require('http');
-const https = require('https');
 const socketIo = require('socket.io');
 const cors = require('cors');
 const helmet = require('helmet');
@@ -9,10 +8,37 @@ const cookieParser = require('cookie-parser');
 const { OAuth2Client } = require('google-auth-library');
 const SpotifyService = require('./spotify');
 const fs = require('fs');
+const os = require('os');
+const crypto = require('crypto');
 const path = require('path');
 const hostAuth = require('./hostAuth');
 const usersStore = require('./users');
 const organizationsStore = require('./organizations');
+const roomStateStore = require('./roomStateStore');
+const songTitles = require('./songTitles');
+const socketProtocol = require('./socketProtocol');
+const licenses = require('./licenses');
+const roomReport = require('./roomReport');
+const paperCards = require('./paperCards');
+const playbackProviders = require('./playbackProviders');
+const markAudit = require('./markAudit');
+const winnerPolicy = require('./winnerPolicy');
+const patternStages = require('./patternStages');
+const qrCode = require('./qrCode');
+const hostRoles = require('./hostRoles');
+const leaderboard = require('./leaderboard');
+const patternProgress = require('./patternProgress');
+const autoBingo = require('./autoBingo');
+const playerProfiles = require('./playerProfiles');
+const verificationQueue = require('./verificationQueue');
+const callHistory = require('./callHistory');
+const playerCardSync = require('./playerCardSync');
+const cardDeals = require('./cardDeals');
+const roundSimulator = require('./roundSimulator');
+const songMatching = require('./songMatching');
+const { createSharedStore } = require('./sharedStore');
+const { createRoomLeases } = require('./roomLeases');
+const { createClusterRouting } = require('./clusterRouting');
 const credentialCrypto = require('./credentialCrypto');
 const spotifyPipelineLog = require('./spotifyPipelineLog');
 
@@ -269,6 +295,7 @@ if (isProduction) {
   }
 }
 
+/** @type {import('socket.io').Server<import('./socketProtocol').ClientToServerEvents, import('./socketProtocol').ServerToClientEvents>} */
 const io = socketIo(server, {
   cors: {
     origin: allowAllCors ? '*' : corsAllowedOrigins,
@@ -277,6 +304,59 @@ const io = socketIo(server, {
   }
 });
 
+/**
+ * Horizontal scaling: with TEMPO_SHARED_STORE_URL set, instances share a Redis store; each room is
+ * owned by one instance (roomLeases), broadcasts fan out through the socket.io Redis adapter, and socket
+ * events and REST requests for a room owned elsewhere are forwarded there (clusterRouting). Unset,
+ * nothing changes.
+ */
+const sharedStore = createSharedStore();
+const clusterMode = sharedStore.shared;
+const instanceId = process.env.TEMPO_INSTANCE_ID || `${os.hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+if (clusterMode) io.adapter(sharedStore.socketAdapter());
+const roomLeases = createRoomLeases(sharedStore, {
+  instanceId,
+  onLost: (roomId, owner) => dropRoomLocally(roomId, owner),
+  inUse: (roomId) => rooms.has(roomId),
+});
+const clusterRouting = createClusterRouting({
+  io,
+  store: sharedStore,
+  leases: roomLeases,
+  prepareRoom: (roomId) => loadOwnedRoom(roomId),
+  registerHandlers: (socket) => registerSocketHandlers(socket),
+  localOrigin: () => `http://127.0.0.1:${PORT}`,
+});
+const CLUSTER_NOTICE_CHANNEL = 'tempo:notices';
+
+/** Socket by id, including sockets on other instances that sent this instance events for a room it owns. */
+function clientSocket(socketId) {
+  return clusterRouting.clientSocket(socketId);
+}
+
+/**
+ * Ask every other instance (socket.io serverSideEmit with acks); resolves with the answers that came
+ * back within the adapter's request timeout, so an instance that is slow or going away only leaves its
+ * own rooms out.
+ */
+function askOtherInstances(event, ...args) {
+  if (!clusterMode) return Promise.resolve([]);
+  return new Promise((resolve) => {
+    io.serverSideEmit(event, ...args, (err, answers) => {
+      if (err) logger.warn(`⚠️ Not every instance answered ${event}: ${err.message || err}`, 'cluster-ask', 20);
+      resolve(Array.isArray(answers) ? answers : []);
+    });
+  });
+}
+
+/** Tell the other instances about a change to shared state (tokens, titles); no-op on a single instance. */
+function publishClusterNotice(type, data) {
+  if (!clusterMode) return;
+  sharedStore
+    .publish(CLUSTER_NOTICE_CHANNEL, JSON.stringify({ type, from: instanceId, ...data }))
+    .catch((e) => console.error(`❌ Failed to publish ${type} notice:`, e?.message || e));
+}
+
 // Middleware — allow Synapse (and self) to embed this app in an iframe; rely on CSP, not X-Frame-Options
 // (default helmet SAMEORIGIN blocks cross-origin parents even if CSP allows them).
 const helmetCspDirectives = {
@@ -308,6 +388,14 @@ app.use(cors({
 }));
 app.use(express.json());
 app.use(cookieParser());
+// Room routes run on the instance that owns the room; the venue-logo QR reads the room's branding
+if (clusterMode) {
+  app.use('/api/rooms/:roomId', clusterRouting.forwardRequests((req) => req.params.roomId));
+  app.use(
+    '/api/qr',
+    clusterRouting.forwardRequests((req) => (req.query.logo === 'venue' && String(req.query.roomId || '').trim()) || null)
+  );
+}
 app.use(express.static('public'));
 
 // Note: production static serving is registered after API routes below
@@ -316,9 +404,127 @@ app.use(express.static('public'));
 const games = new Map();
 const rooms = new Map();
 
-// Store custom song titles (songId -> customTitle)
-const customSongTitles = new Map();
+
+/** Per-room write chain so snapshots land in order (see roomStateStore.js). */
+const roomStateWrites = new Map();
+let resolveRoomStateRestored;
+/** Resolves once persisted rooms are back in `rooms`; join-room waits so a fast reconnect cannot create an empty room first. */
+const roomStateRestored = new Promise((resolve) => { resolveRoomStateRestored = resolve; });
+
+function persistRoomState(roomId, reason) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const prev = roomStateWrites.get(roomId) || Promise.resolve();
+  const next = prev
+    .then(() => roomStateStore.saveRoomSnapshot(db, room, reason))
+    .catch((e) => console.error(`❌ Failed to snapshot room ${roomId} (${reason}):`, e?.message || e))
+    .finally(() => {
+      if (roomStateWrites.get(roomId) === next) roomStateWrites.delete(roomId);
+    });
+  roomStateWrites.set(roomId, next);
+}
+
+function forgetRoomState(roomId) {
+  const prev = roomStateWrites.get(roomId) || Promise.resolve();
+  prev
+    .then(() => roomStateStore.deleteRoomSnapshot(db, roomId))
+    .catch((e) => console.error(`❌ Failed to delete snapshot for room ${roomId}:`, e?.message || e));
+}
+
+async function restorePersistedRooms() {
+  // With several instances a room is loaded by whichever takes its lease (loadOwnedRoom)
+  if (clusterMode) {
+    resolveRoomStateRestored();
+    return;
+  }
+  try {
+    const restored = await roomStateStore.loadRoomSnapshots(db);
+    for (const room of restored) {
+      if (rooms.has(room.id)) continue;
+      rooms.set(room.id, room);
+    }
+    if (restored.length) {
+      routineServerLog(`♻️ Restored ${restored.length} room(s) from saved state`);
+    }
+  } catch (e) {
+    console.error('❌ Failed to restore rooms from saved state:', e?.message || e);
+  } finally {
+    resolveRoomStateRestored();
+  }
+}
+/** This instance just took the room's lease: bring the room in from its saved state unless it is here already. */
+async function loadOwnedRoom(roomId) {
+  await roomStateRestored;
+  if (rooms.has(roomId)) return;
+  try {
+    const room = await roomStateStore.loadRoomSnapshot(db, roomId, { keepStaff: true });
+    if (room && !rooms.has(roomId)) {
+      rooms.set(roomId, room);
+      routineServerLog(`♻️ Took over room ${roomId} from saved state`);
+    }
+  } catch (e) {
+    console.error(`❌ Failed to load room ${roomId} from saved state:`, e?.message || e);
+  }
+}
+
+/** Stop everything this instance drives for a room (its timers, its copy of the state) and forget it. */
+function stopRoomLocally(roomId) {
+  clearRoomTimer(roomId);
+  clearPlaybackWatcher(roomId);
+  clearPlayerCardUpdateTimer(roomId);
+  clearTimeout(clipReplayTimers.get(roomId));
+  clipReplayTimers.delete(roomId);
+  clearStageCelebration(roomId);
+  for (const key of [...autoClaimTimers.keys()]) {
+    if (key.startsWith(`${roomId}:`)) {
+      clearTimeout(autoClaimTimers.get(key));
+      autoClaimTimers.delete(key);
+    }
+  }
+  rooms.delete(roomId);
+  playerCardSync.forget(roomId);
+  clusterRouting.forgetRoom(roomId);
+}
+
+/** Another instance holds the lease now (ours lapsed): it drives the room from here on. */
+function dropRoomLocally(roomId, owner) {
+  logger.warn(`⚠️ Lost the lease for room ${roomId} to ${owner || 'nobody'}; dropping local state`, 'lease-lost', 20);
+  stopRoomLocally(roomId);
+}
+
+/**
+ * Zero-downtime deploys: on SIGTERM save every room this instance owns and release its leases, so the
+ * next event for each room lets another instance take it over. Like a restart, a room that was playing
+ * comes back paused there.
+ */
+async function handOverRooms() {
+  const roomIds = roomLeases.ownedRoomIds();
+  for (const roomId of roomIds) {
+    persistRoomState(roomId, 'handover');
+  }
+  await Promise.all(Array.from(roomStateWrites.values()));
+  for (const roomId of roomIds) stopRoomLocally(roomId);
+  await roomLeases.releaseAll();
+  routineServerLog(`👋 Handed over ${roomIds.length} room(s)`);
+}
+
 const PREQUEUE_WINDOW_DEFAULT = 10;
+
+/** Rooms this instance holds that were opened under a license for this org, excluding `exceptRoomId`. */
+function countLocalLicensedRooms(licenseOrg, exceptRoomId) {
+  let count = 0;
+  for (const r of rooms.values()) {
+    if (r.id !== exceptRoomId && r.license && r.license.organizationId === licenseOrg) count++;
+  }
+  return count;
+}
+
+/** Live licensed rooms for this org across every instance, excluding `exceptRoomId` (the room being opened). */
+async function countLicensedRooms(licenseOrg, exceptRoomId) {
+  const remote = await askOtherInstances('tempo:count-licensed-rooms', licenseOrg, exceptRoomId);
+  return remote.reduce((sum, n) => sum + (Number(n) || 0), countLocalLicensedRooms(licenseOrg, exceptRoomId));
+}
+
 // Utility: count non-host players in a room
 function getNonHostPlayerCount(room) {
   if (!room) return 0;
@@ -515,42 +721,20 @@ async function playSongAtIndex(roomId, deviceId, songIndex) {
           return;
     }
 
+    const playback = playbackFor(roomId);
     try {
-      await spotifyFor(roomId).withRetries('transferPlayback(initial)', () => spotifyFor(roomId).transferPlayback(targetDeviceId, false), { attempts: 3, backoffMs: 300 });
+      await playback.activateDevice(targetDeviceId, { repeatOff: true });
     } catch (e) {
       console.warn('⚠️ Transfer playback failed (will still try play):', e?.message || e);
     }
     routineServerLog(`🎵 Starting playback on device: ${targetDeviceId}`);
 
+    const startMs = playbackProviders.pickStartMs(song, room);
     try {
       const startTime = Date.now();
       routineServerLog(`🎵 Starting playback at ${startTime} - Song: ${song.name} by ${song.artist}`);
-      // Enforce deterministic playback mode for direct index plays
-      try { await spotifyFor(roomId).setShuffleState(false, targetDeviceId); } catch (_) {}
-      try { await spotifyFor(roomId).setRepeatState('off', targetDeviceId); } catch (_) {}
-      // Determine randomized start when enabled and safe
-      let startMs = 0;
-      if (room.randomStarts && room.randomStarts !== 'none' && Number.isFinite(song.duration)) {
-        const durationMs = Math.max(0, Number(song.duration));
-        const snippetMs = room.snippetLength * 1000;
-        const bufferMs = 1500;
-        
-        if (room.randomStarts === 'early') {
-          // Early random: first 90 seconds
-          const maxStartMs = 90000; // 90 seconds
-          const safeWindow = Math.min(maxStartMs, Math.max(0, durationMs - snippetMs - bufferMs));
-          if (safeWindow > 3000) {
-            startMs = Math.floor(Math.random() * safeWindow);
-          }
-        } else if (room.randomStarts === 'random') {
-          // Random: anywhere but last 30+ seconds
-          const safeWindow = Math.max(0, durationMs - snippetMs - bufferMs - 30000); // 30 second buffer
-          if (safeWindow > 3000) {
-            startMs = Math.floor(Math.random() * safeWindow);
-          }
-        }
-      }
-      await spotifyFor(roomId).startPlayback(targetDeviceId, [`spotify:track:${song.id}`], startMs);
+      // Direct index plays use the track itself, not the playlist context
+      await playback.playTrack({ deviceId: targetDeviceId, song, index: songIndex, startMs });
       const endTime = Date.now();
       routineServerLog(`✅ Successfully started playback on device: ${targetDeviceId} (took ${endTime - startTime}ms)`);
       
@@ -560,7 +744,7 @@ async function playSongAtIndex(roomId, deviceId, songIndex) {
       // Set initial volume to 100% (or room's saved volume) with single retry
         try {
           const initialVolume = room.volume || 100;
-        await spotifyFor(roomId).withRetries('setVolume(index)', () => spotifyFor(roomId).setVolume(initialVolume, targetDeviceId), { attempts: 2, backoffMs: 300 });
+        await playback.setVolume(initialVolume, targetDeviceId);
         routineServerLog(`🔊 Set initial volume to ${initialVolume}%`);
         } catch (volumeError) {
         console.warn('⚠️ Volume setting failed, continuing anyway:', volumeError?.message || volumeError);
@@ -583,7 +767,9 @@ async function playSongAtIndex(roomId, deviceId, songIndex) {
           ]
         });
       } else {
-        io.to(roomId).emit('playback-error', { message: 'Playback failed on locked device. Ensure it is online and try again.' });
+        io.to(roomId).emit('playback-error', {
+          message: isLocalPlaybackRoom(room) ? errorMsg : 'Playback failed on locked device. Ensure it is online and try again.',
+        });
       }
             return;
     }
@@ -599,7 +785,7 @@ async function playSongAtIndex(roomId, deviceId, songIndex) {
     io.to(roomId).emit('song-playing', {
       songId: song.id,
       songName: song.name,
-      customSongName: customSongTitles.get(song.id) || cleanSongTitle(song.name),
+      customSongName: customTitleFor(room, song.id) || cleanSongTitle(song.name),
       artistName: song.artist,
       explicit: song.explicit === true,
       snippetLength: room.snippetLength,
@@ -756,6 +942,12 @@ class MultiTenantSpotifyManager {
   
   async loadOrgTokens(organizationId) {
     try {
+      // Other instances may have refreshed or replaced them since this one last looked
+      if (clusterMode) {
+        const shared = await sharedStore.get(sharedTokenKey(organizationId));
+        if (shared) return JSON.parse(shared);
+      }
+
       // Try database first (persistent across deployments)
       const dbTokens = await loadTokensFromDatabase(organizationId);
       if (dbTokens) {
@@ -819,7 +1011,11 @@ class MultiTenantSpotifyManager {
         fs.writeFileSync(tokenFile, JSON.stringify(tokens, null, 2), 'utf8');
         routineServerLog(`📁 Tokens for ${organizationId} saved to file (local development only)`);
       }
-      
+
+      if (clusterMode) {
+        await sharedStore.set(sharedTokenKey(organizationId), JSON.stringify(tokens));
+        publishClusterNotice('spotify-tokens', { organizationId });
+      }
     } catch (error) {
       console.error(`❌ Error saving tokens for ${organizationId}:`, error);
     }
@@ -847,50 +1043,33 @@ class MultiTenantSpotifyManager {
         console.error(`❌ Error removing token file for ${organizationId}:`, error);
       }
     }
-  }
-}
 
-// License Key Validation
-function validateLicenseKey(licenseKey) {
-  if (!licenseKey || typeof licenseKey !== 'string') {
-    return null;
-  }
-  
-  const parts = licenseKey.split('-');
-  if (parts.length !== 4 || parts[0] !== 'TEMPO') {
-    return null;
-  }
-  
-  const [prefix, orgCode, year, checksum] = parts;
-  
-  // Validate year
-  const currentYear = new Date().getFullYear();
-  if (parseInt(year) < 2024 || parseInt(year) > currentYear + 1) {
-    return null;
+    if (clusterMode) {
+      try {
+        await sharedStore.del(sharedTokenKey(organizationId));
+        publishClusterNotice('spotify-tokens', { organizationId });
+      } catch (error) {
+        console.error(`❌ Error removing shared tokens for ${organizationId}:`, error);
+      }
+    }
   }
-  
-  // Validate checksum
-  const expectedChecksum = generateChecksum(orgCode, year);
-  if (checksum !== expectedChecksum) {
-    return null;
+
+  /** Another instance saved or cleared this org's tokens: replace the cached copy. */
+  async reloadSharedTokens(organizationId) {
+    const tokens = await this.loadOrgTokens(organizationId);
+    if (!tokens || !tokens.accessToken) {
+      this.orgTokens.delete(organizationId);
+      this.orgServices.delete(organizationId);
+      return;
+    }
+    this.orgTokens.set(organizationId, tokens);
+    const service = this.orgServices.get(organizationId);
+    if (service) service.setTokens(tokens.accessToken, tokens.refreshToken);
   }
-  
-  return orgCode; // Return organization ID
 }
 
-function generateChecksum(orgCode, year) {
-  // Simple checksum - combines org code, year, and secret
-  const secret = process.env.LICENSE_SECRET || 'TEMPO_DEFAULT_SECRET_2024';
-  const combined = orgCode + year + secret;
-  
-  let hash = 0;
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  return Math.abs(hash).toString(16).toUpperCase().substring(0, 6);
+function sharedTokenKey(organizationId) {
+  return `tempo:spotify-tokens:${organizationId}`;
 }
 
 // Database functions for persistent token storage
@@ -912,6 +1091,9 @@ async function initializeDatabase() {
     await usersStore.ensureUsersTable(db);
     await usersStore.ensureHostAllowlistTable(db);
     await organizationsStore.ensureOrganizationsTable(db);
+    await playerProfiles.ensurePlayerProfilesTables(db);
+    await roomStateStore.ensureRoomStateTable(db);
+    await songTitles.ensureCustomSongTitlesTable(db);
     await db.query(`
       CREATE TABLE IF NOT EXISTS host_spotify_playlist_list_cache (
         organization_id VARCHAR(50) PRIMARY KEY,
@@ -1121,6 +1303,41 @@ function spotifyFor(roomId) {
   return multiTenantSpotify.getService(spotifyOrgForRoom(room));
 }
 
+function isLocalPlaybackRoom(room) {
+  return !!room && room.playbackProvider === 'local';
+}
+
+/**
+ * Emit to the one host socket that plays local audio: the room host, else another connected host
+ * (reconnect). Never more than one, or two tabs would play over each other. Returns 1 if sent.
+ */
+function emitToPlaybackHost(roomId, event, payload) {
+  const room = rooms.get(roomId);
+  if (!room) return 0;
+  const candidates = [room.host];
+  room.players.forEach((p, pid) => {
+    if (p.isHost) candidates.push(pid);
+  });
+  for (const id of candidates) {
+    const hostSocket = id && clientSocket(id);
+    if (hostSocket) {
+      hostSocket.emit(event, payload);
+      return 1;
+    }
+  }
+  return 0;
+}
+
+/** Playback provider for the room (see playbackProviders.js): Spotify Connect unless the host chose local files. */
+function playbackFor(roomId) {
+  if (isLocalPlaybackRoom(rooms.get(roomId))) {
+    return playbackProviders.createLocalPlayback((action, payload) =>
+      emitToPlaybackHost(roomId, 'local-playback', { roomId, action, ...payload })
+    );
+  }
+  return playbackProviders.createSpotifyPlayback(spotifyFor(roomId));
+}
+
 // Helper function to get organization from room
 function getOrganizationFromRoom(roomId) {
   const room = rooms.get(roomId);
@@ -1268,8 +1485,10 @@ function startSimpleProgression(roomId, deviceId, snippetLengthSeconds) {
   // Clear any existing timer
   clearRoomTimer(roomId);
   
-  // Start context monitor for hijack detection only
-  startSimpleContextMonitor(roomId, deviceId);
+  // Start context monitor for hijack detection only (Spotify Connect; local audio has no remote state to poll)
+  if (playbackFor(roomId).readsPlaybackState) {
+    startSimpleContextMonitor(roomId, deviceId);
+  }
   
   // Set timer for exact snippet duration
   setRoomTimer(roomId, async () => {
@@ -1299,7 +1518,7 @@ async function playNextSongSimple(roomId, deviceId) {
     
     // Clean up temporary playlist
     if (room.temporaryPlaylistId) {
-      spotifyFor(roomId).deleteTemporaryPlaylist(room.temporaryPlaylistId).catch(err => 
+      playbackFor(roomId).releaseQueue(room.temporaryPlaylistId).catch(err => 
         console.warn('⚠️ Failed to delete temporary playlist:', err)
       );
       room.temporaryPlaylistId = null;
@@ -1319,27 +1538,7 @@ async function playNextSongSimple(roomId, deviceId) {
   }
 
   // Calculate start position if random starts enabled
-  let startMs = 0;
-  if (room.randomStarts && room.randomStarts !== 'none' && Number.isFinite(nextSong.duration)) {
-    const dur = Math.max(0, Number(nextSong.duration));
-    const snippetMs = room.snippetLength * 1000;
-    const bufferMs = 1500;
-    
-    if (room.randomStarts === 'early') {
-      // Early random: first 90 seconds
-      const maxStartMs = 90000; // 90 seconds
-      const safeWindow = Math.min(maxStartMs, Math.max(0, dur - snippetMs - bufferMs));
-      if (safeWindow > 3000) {
-        startMs = Math.floor(Math.random() * safeWindow);
-      }
-    } else if (room.randomStarts === 'random') {
-      // Random: anywhere but last 30+ seconds
-      const safeWindow = Math.max(0, dur - snippetMs - bufferMs - 30000); // 30 second buffer
-      if (safeWindow > 3000) {
-        startMs = Math.floor(Math.random() * safeWindow);
-      }
-    }
-  }
+  const startMs = playbackProviders.pickStartMs(nextSong, room);
 
     // Track called song
     room.calledSongIds = Array.isArray(room.calledSongIds) ? room.calledSongIds : [];
@@ -1355,6 +1554,9 @@ async function playNextSongSimple(roomId, deviceId) {
     explicit: nextSong.explicit === true
   };
   room.currentSongStartMs = startMs; // Store for restart correction
+  roomReport.recordCall(room, room.currentSong, { startMs: room.currentSongStartMs });
+  if (verificationQueue.head(room)) emitVerificationQueue(roomId);
+  persistRoomState(roomId, 'call');
 
   try {
     routineServerLog(`🎵 Starting playback for: ${nextSong.name} by ${nextSong.artist} at ${startMs}ms`);
@@ -1365,11 +1567,16 @@ async function playNextSongSimple(roomId, deviceId) {
     // Simple playlist playback with enhanced logging
     if (room.temporaryPlaylistId) {
       routineServerLog(`🎼 Using playlist context: ${room.temporaryPlaylistId}, track ${room.currentSongIndex}`);
-      await spotifyFor(roomId).startPlaybackFromPlaylist(deviceId, room.temporaryPlaylistId, room.currentSongIndex, startMs);
     } else {
       routineServerLog(`🎵 Using individual track: ${nextSong.id}`);
-      await spotifyFor(roomId).startPlayback(deviceId, [`spotify:track:${nextSong.id}`], startMs);
     }
+    await playbackFor(roomId).playTrack({
+      deviceId,
+      song: nextSong,
+      index: room.currentSongIndex,
+      startMs,
+      queueId: room.temporaryPlaylistId || null,
+    });
 
     routineServerLog(`✅ Playback started successfully for: ${nextSong.name}`);
 
@@ -1377,7 +1584,7 @@ async function playNextSongSimple(roomId, deviceId) {
     io.to(roomId).emit('song-playing', {
       songId: nextSong.id,
       songName: nextSong.name,
-      customSongName: customSongTitles.get(nextSong.id) || cleanSongTitle(nextSong.name),
+      customSongName: customTitleFor(room, nextSong.id) || cleanSongTitle(nextSong.name),
       artistName: nextSong.artist,
       explicit: nextSong.explicit === true,
       snippetLength: room.snippetLength,
@@ -1431,6 +1638,7 @@ async function playNextSongSimple(roomId, deviceId) {
 
     // Start simple progression for next song
     startSimpleProgression(roomId, deviceId, room.snippetLength);
+    applySuddenDeathCall(roomId, nextSong.id);
 
   } catch (error) {
     console.error('❌ Error in simple song advance:', error);
@@ -1439,7 +1647,7 @@ async function playNextSongSimple(roomId, deviceId) {
     // Try to resume playback if it got stuck in paused state
     try {
       routineServerLog('🔄 Attempting to resume playback after song advance failure...');
-      await spotifyFor(roomId).resumePlayback(deviceId);
+      await playbackFor(roomId).resume(deviceId);
       routineServerLog('✅ Resume attempt completed');
     } catch (resumeError) {
       console.warn('⚠️ Failed to resume playback:', resumeError?.message);
@@ -1697,11 +1905,33 @@ io.use((socket, next) => {
 
 // Socket.io connection handling
 io.on('connection', (socket) => {
+  if (clusterMode) clusterRouting.attach(socket);
+  registerSocketHandlers(socket);
+});
+
+// Questions from the other instances (askOtherInstances), answered for the rooms this one holds
+io.on('tempo:count-licensed-rooms', (licenseOrg, exceptRoomId, ack) => ack(countLocalLicensedRooms(licenseOrg, exceptRoomId)));
+io.on('tempo:list-rooms', (ack) => ack(localRoomListEntries()));
+
+/** Handlers for one client socket (or, in cluster mode, the stand-in for a socket on another instance). */
+function registerSocketHandlers(socket) {
   logger.log('User connected:', 'user-connect', 20);
 
+  socket.use(socketProtocol.payloadValidationMiddleware(socket, (msg) => {
+    logger.warn(`⚠️ ${socket.id}: ${msg}`, 'protocol-error', 20);
+  }));
+  socket.use(hostRoles.permissionMiddleware(socket, (roomId) => hostRoles.roleOf(rooms.get(roomId), socket.id), (msg) => {
+    logger.warn(`⚠️ ${socket.id}: ${msg}`, 'permission-denied', 20);
+  }));
+
   // Join room
   socket.on('join-room', async (data) => {
     const { roomId, playerName, isHost = false, clientId, licenseKey, hostSecret, hostToken } = data;
+    await roomStateRestored;
+    if (!isHost && typeof data.cohostCode === 'string' && data.cohostCode.trim()) {
+      joinAsCohost(socket, data);
+      return;
+    }
     const hostSecretEnv = (process.env.TEMPO_HOST_SECRET || '').trim();
     let wantsHost = isHost;
 
@@ -1804,6 +2034,49 @@ io.on('connection', (socket) => {
     }
     logger.info(`Player ${playerName} (${wantsHost ? 'host' : 'player'}) joining room: ${roomId}`, 'player-join');
 
+    /**
+     * Signed license (server/licenses.js): checked on every host join — a new key, or the key the room
+     * already holds (it may have expired since, or come back from a snapshot). With TEMPO_REQUIRE_LICENSE
+     * a failed check blocks the join; otherwise the host joins unlicensed and room-joined carries the
+     * failure so the UI can explain it.
+     */
+    const suppliedLicenseKey = typeof licenseKey === 'string' ? licenseKey.trim() : '';
+    let verifiedLicense = null;
+    let verifiedLicenseKey = '';
+    let licenseFailure = null;
+    if (wantsHost) {
+      const existing = rooms.get(roomId);
+      const keyToCheck = suppliedLicenseKey || (existing && existing.licenseKey) || '';
+      if (keyToCheck || licenses.isLicenseRequired()) {
+        const result = licenses.verifyLicenseKey(keyToCheck);
+        licenseFailure = result.valid
+          ? licenses.checkRoomLimit(result.license, await countLicensedRooms(result.license.organizationId, roomId))
+          : result;
+        if (!licenseFailure) {
+          verifiedLicense = result.license;
+          verifiedLicenseKey = keyToCheck;
+        }
+      }
+      if (licenseFailure && existing && existing.licenseKey === keyToCheck) {
+        // The room's own key no longer holds: it stops counting toward the org's room limit
+        existing.licenseKey = null;
+        existing.license = null;
+      }
+      if (licenseFailure) {
+        logger.warn(`🔑 License check "${licenseFailure.check}" failed for room ${roomId}: ${licenseFailure.message}`, 'license-check', 20);
+        if (licenses.isLicenseRequired()) {
+          socket.emit('join-error', {
+            roomId,
+            code: 'invalid_license',
+            check: licenseFailure.check,
+            error: licenseFailure.message,
+            license: licenseFailure.license,
+          });
+          return;
+        }
+      }
+    }
+
     let organizationId = 'DEFAULT';
 
     // Create room if it doesn't exist
@@ -1812,7 +2085,8 @@ io.on('connection', (socket) => {
       const newRoom = {
         id: roomId,
         organizationId: organizationId, // Add organization support
-        licenseKey: licenseKey || null, // Store license key
+        licenseKey: null, // Set below once a signed license verifies
+        license: null,
         host: wantsHost ? socket.id : null,
         hostClientId: wantsHost && clientId ? clientId : null,
         players: new Map(),
@@ -1832,15 +2106,21 @@ io.on('connection', (socket) => {
         createdAt: new Date().toISOString()
       };
       rooms.set(roomId, newRoom);
-      
-      // Log organization info
-      if (organizationId !== 'DEFAULT') {
-        routineServerLog(`🏢 Room ${roomId} created for organization ${organizationId} with license ${licenseKey}`);
-      }
     }
 
     const room = rooms.get(roomId);
 
+    if (verifiedLicense) {
+      const relicensed = room.licenseKey !== verifiedLicenseKey;
+      room.licenseKey = verifiedLicenseKey;
+      room.license = verifiedLicense;
+      if (relicensed) {
+        routineServerLog(
+          `🏢 Room ${roomId} licensed to ${verifiedLicense.organizationId} (expires ${verifiedLicense.expiresAt}, max rooms ${verifiedLicense.maxRooms || 'unlimited'})`
+        );
+      }
+    }
+
     /**
      * Socket-first room creation (above) does not set ownerUserId. Without it, spotifyOrgForRoom()
      * falls back to DEFAULT and uses the wrong token row — refresh can fail with invalid_client
@@ -1877,7 +2157,7 @@ io.on('connection', (socket) => {
       } else if (room.host === socket.id) {
         effectiveIsHost = true;
       } else {
-        const oldHostSocket = io.sockets.sockets.get(room.host);
+        const oldHostSocket = clientSocket(room.host);
         const oldHostConnected = !!(oldHostSocket && oldHostSocket.connected);
         const sameClientReconnect = clientId && room.hostClientId && clientId === room.hostClientId;
         if (sameClientReconnect) {
@@ -1934,6 +2214,17 @@ io.on('connection', (socket) => {
     };
     
     room.players.set(socket.id, player);
+    if (!effectiveIsHost && data.profileToken) void attachPlayerProfile(room, player, data.profileToken);
+
+    /** Rejoin after a server restart: retire the restored entry (dead socket id) for this client so cards are not listed twice. */
+    if (clientId) {
+      for (const [pid, p] of room.players) {
+        if (pid !== socket.id && p.restored && p.clientId === clientId) {
+          room.players.delete(pid);
+          if (room.bingoCards) room.bingoCards.delete(pid);
+        }
+      }
+    }
 
     if (room.ownerUserId != null && db) {
       try {
@@ -1942,6 +2233,12 @@ io.on('connection', (socket) => {
         console.error('join-room resolveRoomVenueBranding:', e?.message || e);
       }
     }
+
+    try {
+      await loadRoomSongTitles(room);
+    } catch (e) {
+      console.error('join-room loadRoomSongTitles:', e?.message || e);
+    }
     
     if (effectiveIsHost) {
       for (const [pid, p] of room.players) {
@@ -1973,7 +2270,15 @@ io.on('connection', (socket) => {
       playerCount: getNonHostPlayerCount(room),
       hybridInPersonPlusOnline: !!room.hybridInPersonPlusOnline,
       venueBranding: venueBrandingForRoom(room),
+      playbackProvider: room.playbackProvider || 'spotify',
+      license: effectiveIsHost ? room.license || null : null,
+      licenseError: effectiveIsHost && licenseFailure ? { check: licenseFailure.check, message: licenseFailure.message } : null,
     });
+    if (effectiveIsHost) {
+      socket.emit('all-custom-titles-response', customTitlesPayload(room));
+      socket.emit('cohost-roster', hostRoles.rosterPayload(room, roomId, { includeInvites: true }));
+    }
+    socket.emit('leaderboard-updated', leaderboard.leaderboardPayload(room, roomId));
 
     // Log available devices for debugging
     routineServerLog('Available devices:', Array.from(room.players.values()).map(p => p.name));
@@ -1986,29 +2291,8 @@ io.on('connection', (socket) => {
           routineServerLog(`🔄 Host reconnecting - sending full state sync for ${playerName}`);
           
           // Send current game state
-          const playedSongIds = Array.isArray(room.calledSongIds) ? [...room.calledSongIds] : [];
-          if (room.currentSong && room.currentSong.id && !playedSongIds.includes(room.currentSong.id)) {
-            playedSongIds.push(room.currentSong.id);
-          }
-          
-          socket.emit('room-state', {
-            isPlaying: room.gameState === 'playing',
-            pattern: room.pattern || 'line',
-            customMask: Array.from(room.customPattern || []),
-            currentSong: room.currentSong || null,
-            snippetLength: room.snippetLength || 30,
-            playerCount: getNonHostPlayerCount(room),
-            gameState: room.gameState,
-            winners: room.winners || [],
-            playedSongs: playedSongIds,
-            roundWinners: room.roundWinners || [],
-            mixFinalized: room.mixFinalized || false,
-            playlists: room.finalizedPlaylists || room.playlists || [],
-            selectedDeviceId: room.selectedDeviceId || null,
-            hybridInPersonPlusOnline: !!room.hybridInPersonPlusOnline,
-            publicDisplayCallListMode: room.publicDisplayCallListMode || 'auto',
-            venueBranding: venueBrandingForRoom(room),
-          });
+          socket.emit('room-state', hostRoomStatePayload(room));
+          socket.emit('verification-queue', verificationQueue.queuePayload(room, roomId, { calls: callSnapshotFor(room) }));
           
           // Send current song info if playing
           if (room.currentSong && room.snippetLength) {
@@ -2028,8 +2312,8 @@ io.on('connection', (socket) => {
             });
           }
           
-          // Immediately send player cards to reconnecting host
-          sendPlayerCardUpdates(roomId, true); // Immediate update for reconnecting host
+          // Full player-card snapshot; the host follows deltas from its version on
+          emitPlayerCardSnapshot(socket, roomId);
           
           // Note: Pending verifications are sent to all hosts when bingo is called,
           // so if host reconnects during verification, they'll receive it via the normal flow
@@ -2080,6 +2364,12 @@ io.on('connection', (socket) => {
             room.clientCards.set(clientId, card);
           }
         }
+        // New or returning card: refresh the host grid, and resend near-win state so the joiner gets it
+        if (room.nearWins) {
+          room.nearWins.summaryKey = null;
+          if (room.nearWins.byPlayer instanceof Map) room.nearWins.byPlayer.delete(socket.id);
+        }
+        sendPlayerCardUpdates(roomId);
       } catch (e) {
         console.error('❌ Error preparing join-in-progress state:', e?.message || e);
       }
@@ -2103,7 +2393,7 @@ io.on('connection', (socket) => {
     const currentSocketId = socket.id;
     const playerIsHost = player && player.isHost;
     const socketIsRoomHost = roomHostId === currentSocketId;
-    const isCurrentHost = socketIsRoomHost || playerIsHost;
+    const isCurrentHost = isRoomStaff(room, currentSocketId);
     
     routineServerLog(`🔍 Host validation - Room: ${roomId}, Socket: ${currentSocketId}, Room Host: ${roomHostId}, Player Found: ${!!player}, Player isHost: ${!!playerIsHost}, Valid: ${isCurrentHost}`);
     
@@ -2113,7 +2403,7 @@ io.on('connection', (socket) => {
       return;
     }
 
-    if (socket.hostUserId != null && room.ownerUserId == null) {
+    if (socket.hostUserId != null && room.ownerUserId == null && hostRoles.roleOf(room, socket.id) === 'host') {
       room.ownerUserId = socket.hostUserId;
     }
 
@@ -2192,7 +2482,7 @@ io.on('connection', (socket) => {
       const { roomId, pattern, customMask } = data;
       const room = rooms.get(roomId);
       if (!room) return;
-      const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+      const isCurrentHost = room && isRoomStaff(room, socket.id);
       if (!isCurrentHost) return;
       const allowed = new Set(['line', 'four_corners', 'x', 'full_card', 't', 'l', 'u', 'plus', 'custom']);
       room.pattern = allowed.has(pattern) ? pattern : 'line';
@@ -2203,6 +2493,11 @@ io.on('connection', (socket) => {
         room.customPattern = undefined;
       }
       io.to(roomId).emit('pattern-updated', { pattern: room.pattern, customMask: Array.from(room.customPattern || []) });
+      // A hand-picked pattern ends a progressive round's ladder
+      if (room.patternStages) {
+        patternStages.clearStages(room);
+        io.to(roomId).emit('pattern-stage-changed', patternStages.stagePayload(room, roomId));
+      }
       routineServerLog(`🎯 Pattern set to ${room.pattern} for room ${roomId}`);
     } catch (e) {
       console.error('❌ Error setting pattern:', e?.message || e);
@@ -2215,7 +2510,7 @@ io.on('connection', (socket) => {
       const { roomId, hybridInPersonPlusOnline } = data;
       const room = rooms.get(roomId);
       if (!room) return;
-      const isCurrentHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+      const isCurrentHost = isRoomStaff(room, socket.id);
       if (!isCurrentHost) return;
       room.hybridInPersonPlusOnline = !!hybridInPersonPlusOnline;
       io.to(roomId).emit('hybrid-mode-updated', { hybridInPersonPlusOnline: room.hybridInPersonPlusOnline });
@@ -2225,13 +2520,48 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Spotify Connect or local files played by the host browser; locked once the game is running
+  socket.on('set-playback-provider', (data = {}) => {
+    try {
+      const { roomId, provider } = data;
+      const room = rooms.get(roomId);
+      if (!room) return;
+      const isCurrentHost = isRoomStaff(room, socket.id);
+      if (!isCurrentHost) return;
+      if (!playbackProviders.PLAYBACK_PROVIDERS.includes(provider)) return;
+      if (room.gameState === 'playing' || room.mixFinalized) {
+        socket.emit('playback-provider-updated', { provider: room.playbackProvider || 'spotify' });
+        return;
+      }
+      room.playbackProvider = provider;
+      socket.emit('playback-provider-updated', { provider });
+      routineServerLog(`🔈 Playback provider for room ${roomId}: ${provider}`);
+    } catch (e) {
+      console.error('❌ Error setting playback provider:', e?.message || e);
+    }
+  });
+
+  // Host's round plan (HostView eventRounds) — kept for the results report
+  socket.on('set-event-rounds', (data = {}) => {
+    try {
+      const { roomId, rounds } = data;
+      const room = rooms.get(roomId);
+      if (!room) return;
+      const isCurrentHost = isRoomStaff(room, socket.id);
+      if (!isCurrentHost) return;
+      room.eventRounds = roomReport.sanitizeEventRounds(rounds);
+    } catch (e) {
+      console.error('❌ Error saving event rounds:', e?.message || e);
+    }
+  });
+
   // Set public display font size multiplier
   socket.on('set-public-display-font-size', (data = {}) => {
     try {
       const { roomId, fontSize } = data;
       const room = rooms.get(roomId);
       if (!room) return;
-      const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+      const isCurrentHost = room && isRoomStaff(room, socket.id);
       if (!isCurrentHost) return;
       
       // Validate font size (0.5 to 3.0 multiplier)
@@ -2252,7 +2582,7 @@ io.on('connection', (socket) => {
       const { roomId, mode } = data;
       const room = rooms.get(roomId);
       if (!room) return;
-      const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+      const isCurrentHost = room && isRoomStaff(room, socket.id);
       if (!isCurrentHost) return;
       const m = String(mode || '').toLowerCase();
       const next = m === 'grouped' || m === '1x75' ? 'grouped' : m === '5x15' || m === 'columns' ? '5x15' : 'auto';
@@ -2265,385 +2595,95 @@ io.on('connection', (socket) => {
   });
 
   // Player calls BINGO (validated server-side)
-  socket.on('player-bingo', (data) => {
-    const { roomId } = data || {};
-    const room = rooms.get(roomId);
-    if (!room) {
-      socket.emit('bingo-result', { success: false, reason: 'Room not found' });
-      return;
-    }
-    const player = room.players.get(socket.id);
-    if (!player) {
-      console.error(`❌ Player not found for socket ${socket.id} in room ${roomId}`);
-      routineServerLog(`Room has players:`, Array.from(room.players.keys()));
-      socket.emit('bingo-result', { success: false, reason: 'Player not found in room' });
-      return;
-    }
-    if (player.inPerson === undefined) player.inPerson = true;
-    if (!player.bingoCard) {
-      console.error(`❌ Player ${player.name} (${socket.id}) has no bingo card`);
-      routineServerLog(`Room bingo cards:`, Array.from(room.bingoCards?.keys() || []));
-      socket.emit('bingo-result', { success: false, reason: 'No bingo card assigned. Please refresh and rejoin.' });
-      return;
-    }
-    
-    if (player.hasBingo) {
-      socket.emit('bingo-result', { success: false, reason: 'You have already called bingo!' });
-      return;
-    }
-    
-    // CRITICAL: Mark current song as played BEFORE validation so it's included in validation
-    // This ensures that if a player calls bingo while a song is playing, that song counts
-    if (room.currentSong && room.currentSong.id) {
-      room.calledSongIds = Array.isArray(room.calledSongIds) ? room.calledSongIds : [];
-      if (!room.calledSongIds.includes(room.currentSong.id)) {
-        room.calledSongIds.push(room.currentSong.id);
-        logger.debug(`📝 BINGO CALL: Marked current song as played BEFORE validation: ${room.currentSong.name} (${room.currentSong.id})`);
-      } else {
-        logger.debug(`✅ BINGO CALL: Current song already in played list: ${room.currentSong.name} (${room.currentSong.id})`);
-      }
-    } else {
-      console.warn(`⚠️ BINGO CALL: No current song to mark as played! This could cause validation issues.`);
-    }
-    logger.log(
-      `Bingo: ${player.name} — ${(room.calledSongIds || []).length} call(s) on list, validating…`,
-      'bingo-call-summary',
-      20
-    );
-    
-    const validationResult = validateBingoForPattern(player.bingoCard, room);
-
-    const hybridMode = !!room.hybridInPersonPlusOnline;
-    const isRemotePlayer = hybridMode && player.inPerson === false;
+  socket.on('player-bingo', (data) => submitBingoClaim(socket, data));
 
-    if (isRemotePlayer) {
-      if (validationResult.valid) {
-        player.hasBingo = true;
-        socket.emit('bingo-result', {
-          success: true,
-          hybridUnofficial: true,
-          message: 'You completed the pattern! (Online — the round continues until an in-person player wins.)',
-          awaitingVerification: false,
-          isWinner: false
-        });
-        io.to(roomId).emit('bingo-remote-unofficial', {
-          playerId: socket.id,
-          playerName: player.name,
-          patternType: validationResult.type || room.pattern,
-          timestamp: Date.now()
-        });
-        routineServerLog(`🌐 Remote hybrid bingo (unofficial) for ${player.name}`);
-      } else {
-        socket.emit('bingo-result', {
-          success: false,
-          reason: validationResult.reason || 'Pattern not complete or invalid marks',
-          hybridUnofficial: true
+  // Host checks a printed card by its ID (typed or scanned) — opens the same verification panel as a phone claim
+  socket.on('verify-paper-card', (data = {}) => {
+    try {
+      const { roomId, cardId } = data;
+      const room = rooms.get(roomId);
+      if (!room) return;
+      const isHost = isRoomStaff(room, socket.id);
+      if (!isHost) {
+        socket.emit('paper-card-error', { cardId, code: 'not_host', message: 'Only the host can check paper cards.' });
+        return;
+      }
+      if (room.tiebreak) {
+        socket.emit('paper-card-error', { cardId, code: 'tiebreak', message: 'A tie-break is deciding this round.' });
+        return;
+      }
+      const entry = paperCards.getPaperCard(room, cardId);
+      if (!entry) {
+        const normalized = paperCards.normalizeCardId(cardId);
+        socket.emit('paper-card-error', {
+          cardId,
+          code: normalized ? 'not_found' : 'invalid_id',
+          message: normalized
+            ? `No paper card ${normalized} is registered for this mix.`
+            : 'Card IDs are six letters and digits, like ABC-234.',
         });
+        return;
       }
-      return;
-    }
 
-    // Get winning pattern positions for verification display
-    const winningPatternPositions = getWinningPatternPositions(player.bingoCard, room, validationResult);
-    
-    if (validationResult.valid) {
-      // AUTO-PAUSE the game for host verification
+      // Paper players daub by ear: every called song (including the one playing now) counts as marked
+      const claimSnapshot = callSnapshotFor(room);
+      const calledIds = claimSnapshot.calledSongIds;
+      const card = paperCards.markFromCalls(entry, calledIds);
+      entry.lastCheck = card;
+      const playerId = paperCards.paperPlayerId(entry.cardId);
+      const playerName = paperCards.paperPlayerName(entry.cardId);
+      markAudit.recordPaperCheck(room, { key: playerId, playerName, card, socketId: socket.id });
+      const validationResult = validateBingoForPattern(card, room, calledIds);
+      const winningPatternPositions = getWinningPatternPositions(card, room, validationResult, calledIds);
+
       if (room.gameState === 'playing') {
         room.gameState = 'paused_for_verification';
         clearRoomTimer(roomId);
-        
-        // Pause Spotify playback during verification
         (async () => {
           try {
             const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
-            if (deviceId) {
-              await spotifyFor(roomId).pausePlayback(deviceId);
-              routineServerLog(`⏸️ Spotify paused for bingo verification by ${player.name}`);
-            } else {
-              routineServerLog(`⚠️ No device ID available for pausing during bingo verification`);
-            }
+            if (deviceId) await playbackFor(roomId).pause(deviceId);
           } catch (error) {
-            routineServerLog(`⚠️ Failed to pause Spotify during bingo verification: ${error.message}`);
+            routineServerLog(`⚠️ Failed to pause Spotify during paper card verification: ${error.message}`);
           }
         })();
-        
-        routineServerLog(`🛑 Game auto-paused for bingo verification by ${player.name}`);
+        routineServerLog(`🛑 Game auto-paused to verify ${playerName}`);
       }
-      
-      // Current song already added to calledSongIds before validation above
-      // No need to add it again here
-      
-      player.hasBingo = true;
-      const winnerData = { playerId: socket.id, playerName: player.name, timestamp: Date.now() };
-      room.winners.push(winnerData);
-      
-      // Send success to the caller
-      socket.emit('bingo-result', { 
-        success: true, 
-        message: 'BINGO! Waiting for host verification...',
-        isWinner: true,
-        totalWinners: room.winners.length,
-        awaitingVerification: true
-      });
-      
-      // Send detailed verification data to ALL HOSTS (in case host reconnected)
-      // Build actual played songs from calledSongIds with enhanced validation
-      const actuallyPlayedSongs = [];
-      const calledIds = room.calledSongIds || [];
-      const missingFromPlaylist = [];
-      
-      logger.debug(`🔍 BINGO VERIFICATION: Building played songs list from ${calledIds.length} called IDs`);
-      const idSample =
-        calledIds.length <= 12
-          ? calledIds.join(', ')
-          : `${calledIds.slice(0, 8).join(', ')} … +${calledIds.length - 8} more`;
-      logger.debug(`🔍 Called song IDs (sample): [${idSample}]`);
-      
-      for (const songId of calledIds) {
-        // Find the song in the playlist
-        const foundSong = room.playlistSongs?.find(s => s.id === songId);
-        if (foundSong) {
-          actuallyPlayedSongs.push({
-            id: foundSong.id,
-            name: foundSong.name,
-            artist: foundSong.artist
-          });
-        } else {
-          missingFromPlaylist.push(songId);
-          console.warn(`⚠️ Song ID ${songId} in calledSongIds but NOT found in room.playlistSongs`);
-        }
-      }
-      
-      logger.log(
-        `Bingo verify: ${actuallyPlayedSongs.length} resolved from playlist, ${missingFromPlaylist.length} id(s) missing (player ${player.name})`,
-        'bingo-verify-summary',
-        20
-      );
-      logger.debug(
-        `📊 VERIFICATION: first songs ${actuallyPlayedSongs.slice(0, 3).map(s => s.name).join('; ') || '—'} … (${actuallyPlayedSongs.length} total)`
-      );
-      if (missingFromPlaylist.length > 0) {
-        console.warn(`🚨 MISSING SONGS: [${missingFromPlaylist.join(', ')}] - This could indicate a data integrity issue`);
-      }
-      
-      // CRITICAL: Use room.bingoCards as source of truth (it's kept in sync with marks)
-      // Fallback to player.bingoCard if room card doesn't exist
-      const sourceCard = room.bingoCards?.get(socket.id) || player.bingoCard;
-      if (!sourceCard) {
-        console.error(`❌ No card found for player ${player.name} (${socket.id})`);
-        socket.emit('bingo-result', { success: false, reason: 'Card data not found' });
-        return;
-      }
-      
-      // Validate marked squares data using the source card
-      const markedSquares = sourceCard.squares.filter(s => s.marked);
-      const notPlayedMarks = markedSquares.filter(
-        (sq) => !actuallyPlayedSongs.some((p) => p.id === sq.songId) && !sq.isFreeSpace
-      );
-      logger.debug(`🔍 MARKED SQUARES: ${markedSquares.length} marked; ${notPlayedMarks.length} not in played list (non-free)`);
-      logger.debug(
-        `🔍 Card source: ${room.bingoCards?.get(socket.id) ? 'room.bingoCards' : 'player.bingoCard'}`
-      );
-      if (notPlayedMarks.length) {
-        logger.warn(
-          `⚠️ Bingo host verify: ${notPlayedMarks.length} marked square(s) not in playedSongs: ${notPlayedMarks
-            .slice(0, 5)
-            .map((s) => s.songId)
-            .join(', ')}${notPlayedMarks.length > 5 ? '…' : ''}`
-        );
-      }
-      const markedCount = sourceCard.squares.filter(s => s.marked).length;
-      logger.debug(
-        `🔍 Card: ${markedCount} marked / ${sourceCard.squares.length} sq; positions: ${sourceCard.squares
-          .filter((s) => s.marked)
-          .map((s) => s.position)
-          .join(', ')}`
-      );
-      
-      // Create a deep copy to ensure we're sending fresh data
-      const cardToSend = {
-        ...sourceCard,
-        squares: sourceCard.squares.map(s => ({
-          ...s,
-          marked: s.marked === true // Explicit boolean conversion
-        }))
-      };
-      
-      const verificationData = {
-        playerId: socket.id,
-        playerName: player.name,
-        playerCard: cardToSend, // Use the synchronized card with explicit marked properties
-        markedSquares: markedSquares,
-        requiredPattern: room.pattern,
-        customMask: room.pattern === 'custom' ? Array.from(room.customPattern || []) : null,
-        playedSongs: actuallyPlayedSongs, // Use the proper actually played songs
-        calledSongIds: room.calledSongIds || [],
-        currentSongIndex: room.currentSongIndex || 0,
-        timestamp: Date.now(),
-        validationReason: validationResult.reason,
-        winningPatternPositions: winningPatternPositions, // Positions that form the winning pattern
-        winningPatternType: validationResult.type || room.pattern, // Type of winning pattern
-        // Add debug info for troubleshooting
-        debugInfo: {
-          totalCalledIds: calledIds.length,
-          totalPlayedSongs: actuallyPlayedSongs.length,
-          totalMarkedSquares: markedSquares.length,
-          missingFromPlaylist: missingFromPlaylist.length,
-          cardMarkedCount: markedCount,
-          cardSource: room.bingoCards?.get(socket.id) ? 'room.bingoCards' : 'player.bingoCard'
-        }
-      };
-      
-      // Send to ALL hosts in the room (handles reconnection case)
-      let hostsFound = 0;
-      room.players.forEach((playerData, playerId) => {
-        if (playerData.isHost) {
-          const hostSocket = io.sockets.sockets.get(playerId);
-          if (hostSocket) {
-            hostSocket.emit('bingo-verification-needed', verificationData);
-            hostsFound++;
-            routineServerLog(`📤 Sent bingo verification to host: ${playerData.name} (${playerId})`);
-          } else {
-            console.warn(`⚠️ Host socket not found for ${playerData.name} (${playerId}) - may have disconnected`);
-          }
-        }
-      });
-      
-      // Fallback: Also try room.host if no hosts found via player list
-      if (hostsFound === 0 && room.host) {
-        const fallbackHostSocket = io.sockets.sockets.get(room.host);
-        if (fallbackHostSocket) {
-          fallbackHostSocket.emit('bingo-verification-needed', verificationData);
-          routineServerLog(`📤 Sent bingo verification to fallback host (${room.host})`);
-        } else {
-          console.error(`❌ CRITICAL: No host sockets found! Room host: ${room.host}, Hosts in players: ${Array.from(room.players.entries()).filter(([_, p]) => p.isHost).map(([id, p]) => `${p.name}(${id})`).join(', ')}`);
-          // Emit to room as last resort - host should still receive it
-          io.to(roomId).emit('bingo-verification-needed', verificationData);
-          routineServerLog(`📤 Emitted bingo verification to entire room as fallback`);
-        }
-      }
-      
-      // Notify all players about the bingo call (but not confirmed yet)
-      io.to(roomId).emit('bingo-verification-pending', { 
-        playerId: socket.id, 
-        playerName: player.name, 
-        awaitingVerification: true
-      });
-    } else {
-      // INVALID BINGO: Still send to host for verification (host can reject)
-      // This allows players to attempt bingo calls even with invalid marks
-      routineServerLog(`⚠️ Invalid bingo call from ${player.name}, but sending to host for verification`);
-      
-      // AUTO-PAUSE the game for host verification even if invalid
-      if (room.gameState === 'playing') {
-        room.gameState = 'paused_for_verification';
-        clearRoomTimer(roomId);
-        
-        // Pause Spotify playback during verification
-        (async () => {
-          try {
-            const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
-            if (deviceId) {
-              await spotifyFor(roomId).pausePlayback(deviceId);
-              routineServerLog(`⏸️ Spotify paused for invalid bingo verification by ${player.name}`);
-            }
-          } catch (error) {
-            routineServerLog(`⚠️ Failed to pause Spotify during bingo verification: ${error.message}`);
-          }
-        })();
-        
-        routineServerLog(`🛑 Game auto-paused for invalid bingo verification by ${player.name}`);
-      }
-      
-      // Build played songs list
-      const actuallyPlayedSongs = [];
-      const calledIds = room.calledSongIds || [];
-      
-      for (const songId of calledIds) {
-        const foundSong = room.playlistSongs?.find(s => s.id === songId);
-        if (foundSong) {
-          actuallyPlayedSongs.push({
-            id: foundSong.id,
-            name: foundSong.name,
-            artist: foundSong.artist
-          });
-        }
-      }
-      
-      // Use room.bingoCards as source of truth
-      const sourceCard = room.bingoCards?.get(socket.id) || player.bingoCard;
-      if (!sourceCard) {
-        socket.emit('bingo-result', { success: false, reason: 'Card data not found' });
-        return;
+      if (validationResult.valid && !room.winners.some((w) => w.playerId === playerId)) {
+        room.winners.push({ playerId, playerName, timestamp: Date.now() });
       }
-      
-      const markedSquares = sourceCard.squares.filter(s => s.marked);
-      const winningPatternPositions = getWinningPatternPositions(player.bingoCard, room, validationResult);
-      
-      const cardToSend = {
-        ...sourceCard,
-        squares: sourceCard.squares.map(s => ({
-          ...s,
-          marked: s.marked === true
-        }))
-      };
-      
+
+      const calledSet = new Set(calledIds);
+      const playedSongs = (room.playlistSongs || [])
+        .filter((s) => calledSet.has(s.id))
+        .map((s) => ({ id: s.id, name: s.name, artist: s.artist }));
       const verificationData = {
-        playerId: socket.id,
-        playerName: player.name,
-        playerCard: cardToSend,
-        markedSquares: markedSquares,
+        playerId,
+        playerName,
+        playerCard: card,
+        markedSquares: card.squares.filter((s) => s.marked),
         requiredPattern: room.pattern,
         customMask: room.pattern === 'custom' ? Array.from(room.customPattern || []) : null,
-        playedSongs: actuallyPlayedSongs,
-        calledSongIds: room.calledSongIds || [],
+        playedSongs,
+        calledSongIds: calledIds,
+        claimSnapshot,
         currentSongIndex: room.currentSongIndex || 0,
         timestamp: Date.now(),
-        validationReason: validationResult.reason || 'Invalid bingo pattern',
-        isValid: false, // Mark as invalid for host
-        winningPatternPositions: winningPatternPositions,
-        winningPatternType: validationResult.type || room.pattern
+        validationReason: validationResult.reason || (validationResult.valid ? undefined : 'Pattern not complete with the songs called so far'),
+        isValid: !!validationResult.valid,
+        markAudit: markAudit.auditSummary(room, playerId),
+        winningPatternPositions,
+        winningPatternType: validationResult.type || room.pattern,
+        isPaperCard: true,
+        paperCardId: entry.cardId,
       };
-      
-      // Send to ALL hosts even though validation failed
-      let hostsFound = 0;
-      room.players.forEach((playerData, playerId) => {
-        if (playerData.isHost) {
-          const hostSocket = io.sockets.sockets.get(playerId);
-          if (hostSocket) {
-            hostSocket.emit('bingo-verification-needed', verificationData);
-            hostsFound++;
-            routineServerLog(`📤 Sent invalid bingo verification to host: ${playerData.name} (${playerId})`);
-          }
-        }
-      });
-      
-      if (hostsFound === 0 && room.host) {
-        const fallbackHostSocket = io.sockets.sockets.get(room.host);
-        if (fallbackHostSocket) {
-          fallbackHostSocket.emit('bingo-verification-needed', verificationData);
-          routineServerLog(`📤 Sent invalid bingo verification to fallback host (${room.host})`);
-        } else {
-          io.to(roomId).emit('bingo-verification-needed', verificationData);
-          routineServerLog(`📤 Emitted invalid bingo verification to entire room as fallback`);
-        }
-      }
-      
-      // Notify player that bingo call was received (awaiting host verification)
-      socket.emit('bingo-result', { 
-        success: true, 
-        message: 'BINGO! Waiting for host verification...',
-        isWinner: false,
-        awaitingVerification: true,
-        isValid: false // Let player know validation failed but host will verify
-      });
-      
-      // Notify all players about the bingo call
-      io.to(roomId).emit('bingo-verification-pending', { 
-        playerId: socket.id, 
-        playerName: player.name, 
-        awaitingVerification: true
-      });
+      verificationQueue.enqueue(winnerPolicy.recordClaim(room, { playerId, playerName, verificationData }));
+      emitVerificationQueue(roomId);
+      socket.emit('bingo-verification-needed', verificationData);
+      io.to(roomId).emit('bingo-verification-pending', { playerId, playerName, awaitingVerification: true });
+      routineServerLog(`🖨️ Paper card ${entry.cardId} checked in room ${roomId}: ${validationResult.valid ? 'pattern complete' : 'pattern incomplete'}`);
+    } catch (e) {
+      console.error('❌ Error verifying paper card:', e?.message || e);
     }
   });
 
@@ -2660,7 +2700,7 @@ io.on('connection', (socket) => {
       });
       return;
     }
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) {
       socket.emit('bingo-verified', {
         approved: false,
@@ -2672,7 +2712,7 @@ io.on('connection', (socket) => {
     }
     
     let resolvedPlayerId = playerId;
-    let player = room.players.get(playerId);
+    let player = paperCards.isPaperPlayerId(playerId) ? paperCards.paperPlayerFor(room, playerId) : room.players.get(playerId);
     // If caller reconnected, socket id in verification payload may be stale — resolve by display name
     if (!player && bodyPlayerName) {
       for (const [pid, p] of room.players) {
@@ -2695,168 +2735,46 @@ io.on('connection', (socket) => {
       return;
     }
     
+    // Settle this claim under the round's winner policy (claims recorded when they arrived)
+    const claimIds = [playerId, resolvedPlayerId];
+    const snapshotCheck = snapshotCheckFor(room, claimIds);
+    if (snapshotCheck && snapshotCheck.claimTime.valid !== snapshotCheck.approvalTime.valid) {
+      logger.warn(
+        `verify-bingo: ${player.name}'s card is ${snapshotCheck.claimTime.valid ? 'complete' : 'incomplete'} with the ${snapshotCheck.claimTime.callCount} calls at claim time but ${snapshotCheck.approvalTime.valid ? 'complete' : 'incomplete'} with the ${snapshotCheck.approvalTime.callCount} calls now; judged on the claim-time calls`,
+        'bingo-snapshot-drift',
+        10
+      );
+    }
+    if (!winnerPolicy.settleClaim(room, claimIds, approved ? 'approved' : 'rejected', player.name)) {
+      winnerPolicy.recordClaim(room, { playerId: resolvedPlayerId, playerName: player.name });
+      winnerPolicy.settleClaim(room, claimIds, approved ? 'approved' : 'rejected', player.name);
+    }
+    const decision = winnerPolicy.decideRound(room);
+
     if (approved) {
-      // APPROVED: Confirm the win and resume/end game
       routineServerLog(`✅ Host approved bingo for ${player.name}`);
       
       // Current song already marked as played during bingo call
       
-      // Notify the winner (use resolved socket id — may differ after player reconnect)
-      io.to(resolvedPlayerId).emit('bingo-result', {
-        success: true,
-        message: 'BINGO CONFIRMED! You win!',
-        isWinner: true,
-        verified: true
-      });
-      
-      // Notify all players of confirmed win
-      io.to(roomId).emit('bingo-confirmed', {
-        playerId: resolvedPlayerId,
-        playerName: player.name,
-        verified: true
-      });
-      
-      // Serialize winning card + pattern positions for public display modal
-      const sourceCard = room.bingoCards?.get(resolvedPlayerId) || player.bingoCard;
-      let winningCardPayload = null;
-      let winningPositions = [];
-      if (sourceCard && Array.isArray(sourceCard.squares)) {
-        const validationResult = validateBingoForPattern(sourceCard, room);
-        winningPositions = getWinningPatternPositions(sourceCard, room, validationResult);
-        if (!winningPositions.length) {
-          winningPositions = sourceCard.squares.filter((s) => s.marked).map((s) => s.position);
-        }
-        winningCardPayload = {
-          size: sourceCard.size || 5,
-          squares: sourceCard.squares.map((s) => ({
-            position: s.position,
-            songId: s.songId,
-            songName: s.songName,
-            customSongName: s.customSongName,
-            artistName: s.artistName,
-            marked: !!s.marked,
-            isFreeSpace: !!s.isFreeSpace,
-          })),
-        };
-      }
-
-      // NOW emit the actual winner event for public display
-      io.to(roomId).emit('bingo-called', { 
-        playerId: resolvedPlayerId, 
-        playerName: player.name, 
-        winners: room.winners,
-        totalWinners: room.winners.length,
-        isFirstWinner: room.winners.length === 1,
-        awaitingVerification: false,
-        verified: true,
-        pattern: room.pattern || 'line',
-        winningCard: winningCardPayload,
-        winningPositions,
-      });
-      
-      // PAUSE GAME for host to decide: next round or end completely
-      room.gameState = 'round_complete';
-      clearRoomTimer(roomId);
-      clearPlaybackWatcher(roomId);
-      
-      // CRITICAL: Stop Spotify playback when round completes
-      (async () => {
-        try {
-          const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
-          if (deviceId) {
-            await spotifyFor(roomId).pausePlayback(deviceId);
-            routineServerLog(`⏸️ Spotify paused - round complete`);
-          }
-        } catch (error) {
-          console.warn(`⚠️ Failed to pause Spotify on round complete: ${error.message}`);
-        }
-      })();
-      
-      routineServerLog(`🏁 Round complete - ${player.name} wins! Waiting for host decision...`);
-      
-      // Store round winner
-      if (!room.roundWinners) room.roundWinners = [];
-      room.roundWinners.push({
-        roundNumber: (room.roundWinners.length || 0) + 1,
-        playerName: player.name,
-        playerId: resolvedPlayerId,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Notify ALL hosts with next round options (not just the approving host)
-      // This ensures modal appears even if host reconnected or multiple hosts exist
-      let hostsNotified = 0;
-      room.players.forEach((playerData, hostSocketId) => {
-        if (playerData.isHost) {
-          const hostSocket = io.sockets.sockets.get(hostSocketId);
-          if (hostSocket) {
-            hostSocket.emit('bingo-verified', { 
-              approved: true, 
-              playerName: player.name,
-              gameEnded: false,
-              roundComplete: true,
-              roundNumber: room.roundWinners.length,
-              message: `Round ${room.roundWinners.length} complete - ${player.name} wins!`,
-              options: {
-                nextRound: true,
-                endGame: true,
-                changePattern: true,
-                changePlaylists: true
-              }
-            });
-            hostsNotified++;
-            routineServerLog(`📤 Sent round-complete notification to host: ${playerData.name} (${hostSocketId})`);
-          }
-        }
-      });
-      
-      // Fallback: if no active host sockets found, try room.host
-      if (hostsNotified === 0 && room.host) {
-        const fallbackHostSocket = io.sockets.sockets.get(room.host);
-        if (fallbackHostSocket) {
-          fallbackHostSocket.emit('bingo-verified', { 
-            approved: true, 
-            playerName: player.name,
-            gameEnded: false,
-            roundComplete: true,
-            roundNumber: room.roundWinners.length,
-            message: `Round ${room.roundWinners.length} complete - ${player.name} wins!`,
-            options: {
-              nextRound: true,
-              endGame: true,
-              changePattern: true,
-              changePlaylists: true
-            }
-          });
-          routineServerLog(`📤 Sent round-complete notification to fallback host (${room.host})`);
-        } else {
-          // Last resort: emit to entire room
-          io.to(roomId).emit('bingo-verified', { 
-            approved: true, 
-            playerName: player.name,
-            gameEnded: false,
-            roundComplete: true,
-            roundNumber: room.roundWinners.length,
-            message: `Round ${room.roundWinners.length} complete - ${player.name} wins!`,
-            options: {
-              nextRound: true,
-              endGame: true,
-              changePattern: true,
-              changePlaylists: true
-            }
-          });
-          routineServerLog(`📤 Emitted round-complete notification to entire room as last resort`);
-        }
+      if (decision.action === 'wait') {
+        // Other claims on this song still count for a split or tie-break
+        io.to(resolvedPlayerId).emit('bingo-result', {
+          success: true,
+          message: 'Bingo approved! Waiting for the other claims on this song...',
+          isWinner: true,
+          verified: true
+        });
+        socket.emit('bingo-verified', {
+          approved: true,
+          playerName: player.name,
+          roundComplete: false,
+          awaitingClaims: decision.pending,
+          snapshotCheck,
+          message: `${player.name} approved - ${decision.pending} more claim(s) on this song to check`
+        });
       }
-      
-      // Notify all clients that round is complete (not game ended)
-      io.to(roomId).emit('round-complete', { 
-        roomId, 
-        winner: player.name,
-        roundNumber: room.roundWinners.length,
-        roundWinners: room.roundWinners,
-        message: `Round ${room.roundWinners.length} complete! Waiting for next round...`
-      });
+      applyRoundDecision(roomId, decision);
+      emitVerificationQueue(roomId);
       
     } else {
       // REJECTED: Remove from winners, notify player, resume game
@@ -2866,6 +2784,14 @@ io.on('connection', (socket) => {
       room.winners = room.winners.filter(w => w.playerId !== playerId && w.playerId !== resolvedPlayerId);
       player.hasBingo = false;
       player.patternComplete = false; // Allow them to call again
+      roomReport.recordRejectedClaim(room, {
+        playerId: resolvedPlayerId,
+        playerName: player.name,
+        reason,
+        source: 'host',
+        pattern: room.pattern || 'line',
+        card: room.bingoCards?.get(resolvedPlayerId) || player.bingoCard,
+      });
       
       // Notify the player
       io.to(resolvedPlayerId).emit('bingo-result', {
@@ -2878,37 +2804,40 @@ io.on('connection', (socket) => {
       socket.emit('bingo-verified', { 
         approved: false, 
         playerName: player.name,
-        reason: reason 
+        reason: reason,
+        snapshotCheck,
+        awaitingClaims: decision.action === 'wait' ? decision.pending : 0
       });
       
       // Current song already marked as played during bingo call
       
-      // Auto-resume the game
-      if (room.gameState === 'paused_for_verification') {
-        room.gameState = 'playing';
-        // Resume from where we left off - first resume Spotify playback, then start progression timer
-        (async () => {
-          try {
-            const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
-            if (deviceId) {
-              await spotifyFor(roomId).resumePlayback(deviceId);
-              routineServerLog(`▶️ Spotify resumed after rejecting ${player.name}'s bingo`);
-            } else {
-              routineServerLog(`⚠️ No device ID available for resuming after bingo rejection`);
-            }
-            // Now start the progression timer for the remainder of the current song
-            startSimpleProgression(roomId, room.selectedDeviceId, room.snippetLength || 30);
-          } catch (error) {
-            routineServerLog(`⚠️ Failed to resume Spotify after bingo rejection: ${error.message}`);
-            // Still start progression timer as fallback
-            startSimpleProgression(roomId, room.selectedDeviceId, room.snippetLength || 30);
-          }
-        })();
+      // Auto-resume the game unless other claims on this song still decide the round
+      if (!applyRoundDecision(roomId, decision)) {
+        resumeAfterVerification(roomId, 'Bingo rejected, game continues');
         routineServerLog(`▶️ Game resumed after rejecting ${player.name}'s bingo`);
-        
-        // Notify all clients that game has resumed
-        io.to(roomId).emit('game-resumed', { reason: 'Bingo rejected, game continues' });
       }
+      emitVerificationQueue(roomId);
+      persistRoomState(roomId, 'bingo-rejected');
+    }
+  });
+
+  // Host sets the claim on screen aside for a second look; the next claim in the queue comes up
+  socket.on('recheck-bingo-claim', (data = {}) => {
+    try {
+      const { roomId, playerId, note } = data;
+      const room = rooms.get(roomId);
+      if (!room || !isRoomStaff(room, socket.id)) return;
+      const claim = verificationQueue.requeue(room, [playerId], { note, by: socket.id });
+      if (!claim) {
+        // Stale screen: the claim was decided elsewhere; send the queue as it stands
+        socket.emit('verification-queue', verificationQueue.queuePayload(room, roomId, { calls: callSnapshotFor(room) }));
+        return;
+      }
+      routineServerLog(`🔁 ${claim.playerName}'s bingo set aside for a recheck (${verificationQueue.entries(room).length} in queue)`);
+      emitVerificationQueue(roomId);
+      persistRoomState(roomId, 'bingo-recheck');
+    } catch (e) {
+      console.error('❌ Error requeueing bingo claim:', e?.message || e);
     }
   });
 
@@ -2919,7 +2848,7 @@ io.on('connection', (socket) => {
     if (!room) return;
     
     // Verify this is the host
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) return;
     
     // Only resume if game is paused for verification
@@ -2932,7 +2861,7 @@ io.on('connection', (socket) => {
         try {
           const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
           if (deviceId) {
-            await spotifyFor(roomId).resumePlayback(deviceId);
+            await playbackFor(roomId).resume(deviceId);
             routineServerLog(`▶️ Spotify resumed after manual resume`);
           }
           // Start progression timer for the remainder of the current song
@@ -2959,7 +2888,7 @@ io.on('connection', (socket) => {
     if (!room) return;
     
     // Verify this is the host
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) return;
     
     if (action === 'continue') {
@@ -2981,6 +2910,32 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Host looks up the round's calls to settle "that song already played!"
+  socket.on('request-call-history', (data = {}) => {
+    try {
+      const { roomId } = data;
+      const room = rooms.get(roomId);
+      if (!room || !isRoomStaff(room, socket.id)) return;
+      socket.emit('call-history', callHistory.callHistoryPayload(room, roomId, {
+        titleFor: (songId) => customTitleFor(room, songId),
+      }));
+    } catch (e) {
+      console.error('❌ Error building call history:', e?.message || e);
+    }
+  });
+
+  // Replay a few seconds of a called song on the room's device to confirm a dispute
+  socket.on('replay-call-clip', async (data = {}) => {
+    const { roomId, songId } = data;
+    try {
+      const result = await replayCallClip(roomId, songId);
+      socket.emit('call-clip-replayed', { roomId, songId, ...result });
+    } catch (e) {
+      console.error('❌ Error replaying call clip:', e?.message || e);
+      socket.emit('call-clip-replayed', { roomId, songId, ok: false, message: `Replay failed: ${e?.message || e}` });
+    }
+  });
+
   // Emergency stop - immediate halt of all playback
   socket.on('emergency-stop', (data) => {
     const { roomId } = data || {};
@@ -2988,7 +2943,7 @@ io.on('connection', (socket) => {
     if (!room) return;
     
     // Verify this is the host
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) return;
     
     routineServerLog(`🚨 EMERGENCY STOP requested for room ${roomId}`);
@@ -3019,13 +2974,14 @@ io.on('connection', (socket) => {
     if (!room) return;
     
     // Verify this is the host
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) return;
     
     routineServerLog(`🔄 Host restarting game for room ${roomId}`);
     
     // Stop any current playback
     clearRoomTimer(roomId);
+    clearStageCelebration(roomId);
     
     // Reset game state
     room.gameState = 'waiting';
@@ -3035,7 +2991,14 @@ io.on('connection', (socket) => {
     room.winners = [];
     room.playedSongs = [];
     room.calledSongIds = [];
+    markAudit.resetMarkAudit(room);
+    winnerPolicy.resetRoundClaims(room);
+    emitVerificationQueue(roomId);
+    patternStages.clearStages(room);
     room.roundWinners = []; // Reset round winners
+    roomReport.resetResults(room);
+    leaderboard.resetLeaderboard(room);
+    io.to(roomId).emit('leaderboard-updated', leaderboard.leaderboardPayload(room, roomId));
     
     // Reset all player bingo status but keep their cards
     room.players.forEach((player) => {
@@ -3077,7 +3040,7 @@ io.on('connection', (socket) => {
     }
     
     // Verify this is the host
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) {
       console.warn(`⚠️ start-next-round: Socket ${socket.id} is not host for room ${roomId}`);
       socket.emit('error', { message: 'Only host can start next round' });
@@ -3106,7 +3069,7 @@ io.on('connection', (socket) => {
       try {
         const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
         if (deviceId) {
-          await spotifyFor(roomId).pausePlayback(deviceId);
+          await playbackFor(roomId).pause(deviceId);
           routineServerLog(`⏸️ Spotify paused before round reset`);
         }
       } catch (error) {
@@ -3128,6 +3091,10 @@ io.on('connection', (socket) => {
     room.winners = [];
     room.playedSongs = [];
     room.calledSongIds = [];
+    markAudit.resetMarkAudit(room);
+    winnerPolicy.resetRoundClaims(room);
+    emitVerificationQueue(roomId);
+    patternStages.clearStages(room);
     
     // Reset playlist and mix state - host needs to select playlists again
     room.playlists = [];
@@ -3150,6 +3117,7 @@ io.on('connection', (socket) => {
     // Clear all bingo cards - they'll be regenerated when new playlists are selected
     room.bingoCards = new Map();
     room.clientCards = new Map();
+    paperCards.clearPaperCards(room);
     room.oneBySeventyFivePool = [];
     room.fiveByFifteenColumnsIds = [];
     room.fiveByFifteenPlaylistNames = [];
@@ -3217,20 +3185,21 @@ io.on('connection', (socket) => {
     if (!room) return;
     
     // Verify this is the host
-    const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+    const isHost = isRoomStaff(room, socket.id);
     if (!isHost) return;
     
     routineServerLog(`🏁 Host ending game session for room ${roomId}`);
     
     // Stop any current playback and clean up
     clearRoomTimer(roomId);
+    clearStageCelebration(roomId);
     clearPlaybackWatcher(roomId);
     clearPlayerCardUpdateTimer(roomId); // Clear debounce timer
     
     try {
       const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
       if (deviceId) {
-        spotifyFor(roomId).pausePlayback(deviceId).catch(() => {});
+        playbackFor(roomId).pause(deviceId).catch(() => {});
       }
     } catch (e) {}
     
@@ -3250,6 +3219,7 @@ io.on('connection', (socket) => {
       roomId,
       totalRounds: room.roundWinners?.length || 0,
       roundWinners: room.roundWinners || [],
+      leaderboard: leaderboard.leaderboardPayload(room, roomId).standings,
       finalMessage: `Game session complete! ${room.roundWinners?.length || 0} rounds played.`
     });
     
@@ -3329,6 +3299,7 @@ io.on('connection', (socket) => {
       }
       
       io.to(socket.id).emit('room-state', payload);
+      if (room.patternStages) socket.emit('pattern-stage-changed', patternStages.stagePayload(room, roomId));
       routineServerLog(`✅ SYNC-STATE: Sent comprehensive state (${payload.totalPlayedCount} played songs, ${payload.playerCount} players)`);
     } catch (e) {
       console.error('❌ SYNC-STATE error:', e?.message || e);
@@ -3343,36 +3314,10 @@ io.on('connection', (socket) => {
       if (!room) return;
       
       // Verify this is the host
-      const isHost = room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost);
+      const isHost = isRoomStaff(room, socket.id);
       if (!isHost) return;
       
-      // Build playedSongs array that includes current song if it exists
-      const playedSongs = Array.isArray(room.calledSongIds) ? [...room.calledSongIds] : [];
-      if (room.currentSong && room.currentSong.id && !playedSongs.includes(room.currentSong.id)) {
-        playedSongs.push(room.currentSong.id);
-      }
-      
-      const playerCardsData = {};
-      if (room.bingoCards) {
-        room.bingoCards.forEach((card, playerId) => {
-          const player = room.players.get(playerId);
-          if (player && card) {
-            // Only include actual players (not hosts or public display)
-            if (!player.isHost && player.name !== 'Display') {
-              playerCardsData[playerId] = {
-                playerName: player.name,
-                card: card,
-                playedSongs: playedSongs // Include current song if playing
-              };
-            }
-          }
-        });
-      }
-      
-      socket.emit('player-cards-update', playerCardsData);
-      routineServerLog(`📋 Sent ${Object.keys(playerCardsData).length} player cards to host in room ${roomId}`);
-      routineServerLog(`📋 CalledSongIds being sent:`, room.calledSongIds);
-      routineServerLog(`📋 CalledSongIds length:`, room.calledSongIds?.length || 0);
+      emitPlayerCardSnapshot(socket, roomId);
     } catch (e) {
       console.error('❌ Error sending player cards:', e?.message || e);
     }
@@ -3383,11 +3328,16 @@ io.on('connection', (socket) => {
     const { roomId } = data;
     const room = rooms.get(roomId);
     if (!room) return;
-    const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+    const isCurrentHost = room && isRoomStaff(room, socket.id);
     if (!isCurrentHost) return;
     try {
+      clearStageCelebration(roomId);
       room.winners = [];
       room.calledSongIds = [];
+      markAudit.resetMarkAudit(room);
+      winnerPolicy.resetRoundClaims(room);
+      emitVerificationQueue(roomId);
+      patternStages.clearStages(room);
       room.bingoCards = new Map();
       // Reset persistent client-to-card mapping for the new round
       room.clientCards = new Map();
@@ -3410,13 +3360,13 @@ io.on('connection', (socket) => {
       const { roomId, enabled } = data;
       const room = rooms.get(roomId);
       if (!room) return;
-      const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+      const isCurrentHost = room && isRoomStaff(room, socket.id);
       if (!isCurrentHost) return;
       room.superStrictLock = !!enabled;
       io.to(roomId).emit('super-strict-updated', { enabled: room.superStrictLock });
       routineServerLog(`🔒 Super-Strict Lock set to ${room.superStrictLock} for room ${roomId}`);
       // Restart simple context monitor (no aggressive pausing)
-      if (room.gameState === 'playing') {
+      if (room.gameState === 'playing' && playbackFor(roomId).readsPlaybackState) {
         startSimpleContextMonitor(roomId, room.selectedDeviceId);
       }
     } catch (e) {
@@ -3424,6 +3374,36 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Leaderboard points for a round win and for finishing one call away (0 turns near misses off)
+  socket.on('set-leaderboard-scoring', (data = {}) => {
+    try {
+      const { roomId, win, oneAway } = data;
+      const room = rooms.get(roomId);
+      if (!room) return;
+      const scoring = leaderboard.setScoring(room, { win, oneAway });
+      io.to(roomId).emit('leaderboard-updated', leaderboard.leaderboardPayload(room, roomId));
+      persistRoomState(roomId, 'leaderboard-scoring');
+      routineServerLog(`🏅 Leaderboard scoring for room ${roomId}: win ${scoring.win}, one away ${scoring.oneAway}`);
+    } catch (e) {
+      console.error('❌ Error setting leaderboard scoring:', e?.message || e);
+    }
+  });
+
+  // Automatic bingo detection: off, nudge the player, or claim for them after a grace period
+  socket.on('set-auto-bingo', (data = {}) => {
+    try {
+      const { roomId, mode, graceSeconds } = data;
+      const room = rooms.get(roomId);
+      if (!room) return;
+      const settings = autoBingo.setAutoBingo(room, { mode, graceSeconds });
+      io.to(roomId).emit('auto-bingo-updated', { roomId, ...settings });
+      persistRoomState(roomId, 'auto-bingo');
+      routineServerLog(`🎯 Auto bingo for room ${roomId}: ${settings.mode} (${settings.graceSeconds}s grace)`);
+    } catch (e) {
+      console.error('❌ Error setting auto bingo:', e?.message || e);
+    }
+  });
+
   socket.on('start-game', async (data) => {
     routineServerLog('🎮 Start game event received:', data);
     const { roomId, playlists, snippetLength = 30, deviceId, songList, randomStarts = 'none', pattern: incomingPattern, freeSpace } = data;
@@ -3437,7 +3417,7 @@ io.on('connection', (socket) => {
     routineServerLog('🔍 Room players:', Array.from(room?.players.entries() || []).map(([id, player]) => `${player.name}(${player.isHost ? 'host' : 'player'})`));
     
     // Check if this socket is the host (either by room.host or by player.isHost)
-    const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+    const isCurrentHost = room && isRoomStaff(room, socket.id);
     routineServerLog('🔍 Is current host check:', { roomHost: room?.host, socketId: socket.id, playerIsHost: room?.players.get(socket.id)?.isHost, isCurrentHost });
     
     if (room && isCurrentHost) {
@@ -3450,6 +3430,10 @@ io.on('connection', (socket) => {
         room.randomStarts = randomStarts || 'none';
         // Initialize call history and round
         room.calledSongIds = [];
+        markAudit.resetMarkAudit(room);
+        winnerPolicy.resetRoundClaims(room);
+        emitVerificationQueue(roomId);
+        patternStages.clearStages(room);
         room.round = (room.round || 0) + 1;
         // Apply pattern from host if provided; default to 'line' if still unset
         try {
@@ -3480,7 +3464,7 @@ io.on('connection', (socket) => {
           routineServerLog(`📋 Using ${room.finalizedPlaylists ? 'finalized' : 'regular'} playlists for card generation`);
           routineServerLog(`📋 Playlist order: ${playlistsToUse.map((p, i) => `${i + 1}. ${p.name}`).join(', ')}`);
           // If mix was finalized, reuse finalized song order to enforce 1x75 deterministically
-          await generateBingoCards(roomId, playlistsToUse, room.finalizedSongOrder || null);
+          await generateBingoCards(roomId, playlistsToUse, room.finalizedSongOrder || (isLocalPlaybackRoom(room) ? songList : null));
           
           // CRITICAL: Auto-set pattern to 'full_card' for 1x75 mode if pattern wasn't explicitly set
           if (room.oneBySeventyFivePool && room.oneBySeventyFivePool.length === 75 && !incomingPattern) {
@@ -3519,6 +3503,11 @@ io.on('connection', (socket) => {
           }
         }
 
+        // Progressive round: the planned stages set the pattern and advance on each verified win
+        if (patternStages.startStages(room, patternStages.stagesForRoom(room))) {
+          routineServerLog(`🪜 Progressive round: ${room.patternStages.stages.map((st) => st.pattern).join(' → ')}`);
+        }
+
         // Emit game started AFTER columns are ready so display can receive them immediately
         io.to(roomId).emit('game-started', {
           roomId,
@@ -3527,6 +3516,7 @@ io.on('connection', (socket) => {
           pattern: room.pattern,
           customMask: Array.from(room.customPattern || [])
         });
+        io.to(roomId).emit('pattern-stage-changed', patternStages.stagePayload(room, roomId));
         
         // Emit fiveby15 columns if computed during card generation (AFTER game-started so display can sync)
         if (room.fiveByFifteenColumnsIds) {
@@ -3619,15 +3609,16 @@ io.on('connection', (socket) => {
     const { roomId, stopPlayback = true } = data || {};
     const room = rooms.get(roomId);
     if (!room) return;
-    if (room.host !== socket.id && !room.players.get(socket.id)?.isHost) return;
+    if (!isRoomStaff(room, socket.id)) return;
     try {
       clearRoomTimer(roomId);
+      clearStageCelebration(roomId);
       if (stopPlayback) {
         try {
           const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
           if (deviceId) {
             try { await spotifyFor(roomId).transferPlayback(deviceId, false); } catch {}
-            await spotifyFor(roomId).pausePlayback(deviceId);
+            await playbackFor(roomId).pause(deviceId);
           }
         } catch (e) {
           console.warn('⚠️ Pause on end-game failed:', e?.message || e);
@@ -3655,15 +3646,16 @@ io.on('connection', (socket) => {
     const { roomId, stopPlayback = true } = data || {};
     const room = rooms.get(roomId);
     if (!room) return;
-    if (room.host !== socket.id && !room.players.get(socket.id)?.isHost) return;
+    if (!isRoomStaff(room, socket.id)) return;
     try {
       clearRoomTimer(roomId);
+      clearStageCelebration(roomId);
       if (stopPlayback) {
         try {
           const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
           if (deviceId) {
             try { await spotifyFor(roomId).transferPlayback(deviceId, false); } catch {}
-            await spotifyFor(roomId).pausePlayback(deviceId);
+            await playbackFor(roomId).pause(deviceId);
           }
         } catch (e) {
           console.warn('⚠️ Pause on reset-game failed:', e?.message || e);
@@ -3679,6 +3671,7 @@ io.on('connection', (socket) => {
       room.finalizedPlaylists = undefined;
       room.finalizedSongOrder = null;
       room.bingoCards = new Map();
+      paperCards.clearPaperCards(room);
       io.to(roomId).emit('game-reset', { roomId });
       routineServerLog(`🔁 Game reset for room ${roomId}`);
     } catch (e) {
@@ -3691,7 +3684,7 @@ io.on('connection', (socket) => {
     const { roomId } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         routineServerLog('⏭️ Skipping to next song in room:', roomId);
         // Clear existing timer and immediately play next song under our control
@@ -3708,21 +3701,28 @@ io.on('connection', (socket) => {
     const { roomId } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         const pauseTime = Date.now();
         routineServerLog(`⏸️ PAUSE REQUESTED - Room: ${roomId}, Time: ${pauseTime}`);
         routineServerLog(`⏸️ Current Song: ${room.currentSong?.name} by ${room.currentSong?.artist}`);
         routineServerLog(`⏸️ Game State: ${room.gameState}`);
         
-        // Clear the timer when pausing
+        // Clear the timer when pausing (and don't let a stage celebration resume the game)
         clearRoomTimer(roomId);
+        clearStageCelebration(roomId);
         const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
         if (!deviceId) {
           console.error('❌ No device found for pause');
           socket.emit('error', { message: 'No device available for pause' });
           return;
         }
+        if (isLocalPlaybackRoom(room)) {
+          await playbackFor(roomId).pause(deviceId);
+          room.gameState = 'paused';
+          io.to(roomId).emit('playback-paused');
+          return;
+        }
         try {
           // Ensure control on the locked device (do not auto-play)
           await spotifyFor(roomId).transferPlayback(deviceId, false);
@@ -3794,7 +3794,7 @@ io.on('connection', (socket) => {
     const { roomId, resumePosition } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         routineServerLog('▶️ Resuming song in room:', roomId);
         const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
@@ -3806,25 +3806,25 @@ io.on('connection', (socket) => {
 
         // Ensure playback is locked to the device before resuming
         try {
-          await spotifyFor(roomId).transferPlayback(deviceId, false);
+          await playbackFor(roomId).activateDevice(deviceId);
           } catch (e) {
             console.warn('⚠️ Transfer playback failed before resume:', e?.message || e);
           }
 
           if (resumePosition !== undefined) {
             routineServerLog(`🎯 Resuming from position: ${resumePosition}ms`);
-          await spotifyFor(roomId).resumePlayback(deviceId);
-          await spotifyFor(roomId).seekToPosition(resumePosition, deviceId);
+          await playbackFor(roomId).resume(deviceId);
+          await playbackFor(roomId).seek(resumePosition, deviceId);
             routineServerLog(`✅ Resumed and seeked to position: ${resumePosition}ms`);
           } else {
-          await spotifyFor(roomId).resumePlayback(deviceId);
+          await playbackFor(roomId).resume(deviceId);
             routineServerLog('✅ Playback resumed successfully');
           }
           
           // Restore volume to match room's saved volume or default to 100%
           try {
             const targetVolume = room.volume || 100;
-            await spotifyFor(roomId).setVolume(targetVolume, deviceId);
+            await playbackFor(roomId).setVolume(targetVolume, deviceId);
             routineServerLog(`🔊 Restored volume to ${targetVolume}% on resume`);
           } catch (volumeError) {
             console.warn('⚠️ Failed to restore volume on resume:', volumeError?.message || volumeError);
@@ -3871,7 +3871,7 @@ io.on('connection', (socket) => {
     const { roomId, currentPosition = 0 } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         routineServerLog(`⏮️ Previous button clicked at position: ${currentPosition}ms in room:`, roomId);
         
@@ -3905,7 +3905,7 @@ io.on('connection', (socket) => {
     const { roomId } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         routineServerLog('🔀 Shuffling playlist in room:', roomId);
         if (room.playlistSongs) {
@@ -3926,7 +3926,7 @@ io.on('connection', (socket) => {
     const { roomId } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         room.repeatMode = !room.repeatMode;
         routineServerLog(`🔁 Repeat mode ${room.repeatMode ? 'enabled' : 'disabled'} in room:`, roomId);
@@ -3948,7 +3948,7 @@ io.on('connection', (socket) => {
         return;
       }
       // Only host can reveal
-      const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+      const isCurrentHost = room && isRoomStaff(room, socket.id);
       if (!isCurrentHost) {
         console.warn(`⚠️ Reveal-call: Socket ${socket.id} is not the host for room ${roomId}`);
         return;
@@ -4023,7 +4023,7 @@ io.on('connection', (socket) => {
       const { roomId, reason = 'host-request' } = data;
       const room = rooms.get(roomId);
       if (!room) return;
-      const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+      const isCurrentHost = room && isRoomStaff(room, socket.id);
       if (!isCurrentHost) return;
       const ts = Date.now();
       io.to(roomId).emit('force-refresh', { ts, reason });
@@ -4037,7 +4037,7 @@ io.on('connection', (socket) => {
     const { roomId, volume } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         routineServerLog(`🔊 Setting volume to ${volume}% in room:`, roomId);
         // TODO: Implement volume control via Spotify API
@@ -4054,7 +4054,7 @@ io.on('connection', (socket) => {
     const { roomId, position } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       try {
         routineServerLog(`⏱️ Seeking to position ${position}ms in room:`, roomId);
         // TODO: Implement seek via Spotify API
@@ -4071,7 +4071,7 @@ io.on('connection', (socket) => {
     const { roomId, songId, songName, artistName } = data;
     const room = rooms.get(roomId);
     
-    if (room && room.host === socket.id) {
+    if (room && isRoomStaff(room, socket.id)) {
       const fromPool = room.playlistSongs?.find((s) => s.id === songId);
       room.currentSong = {
         id: songId,
@@ -4083,7 +4083,7 @@ io.on('connection', (socket) => {
       io.to(roomId).emit('song-playing', {
         songId,
         songName,
-        customSongName: customSongTitles.get(songId) || cleanSongTitle(songName),
+        customSongName: customTitleFor(room, songId) || cleanSongTitle(songName),
         artistName,
         explicit: fromPool?.explicit === true,
         snippetLength: room.snippetLength
@@ -4111,6 +4111,23 @@ io.on('connection', (socket) => {
         if (square && square.songId === songId) {
           // Toggle mark state to support unmarking
           square.marked = !square.marked;
+
+          let otherLiveSockets = 0;
+          if (player.clientId) {
+            room.players.forEach((p, pid) => {
+              if (pid !== socket.id && p.clientId === player.clientId && io.sockets.sockets.has(pid)) otherLiveSockets++;
+            });
+          }
+          const auditFlags = markAudit.recordMark(room, {
+            key: markAudit.auditKey(player, socket.id),
+            playerName: player.name,
+            socketId: socket.id,
+            position,
+            songId,
+            marked: square.marked,
+            otherLiveSockets,
+          });
+          auditFlags.forEach((flag) => logger.warn(`🚩 Mark audit (${roomId}) ${player.name}: ${flag.message}`, 'mark-audit', 30));
           
           // CRITICAL: Persist mark to room.bingoCards FIRST (source of truth for host)
           if (room.bingoCards && room.bingoCards.has(socket.id)) {
@@ -4208,60 +4225,158 @@ io.on('connection', (socket) => {
     if (!room) return;
     
     // Only host can reset letters
-    const isCurrentHost = room && (room.host === socket.id || (room.players.get(socket.id) && room.players.get(socket.id).isHost));
+    const isCurrentHost = room && isRoomStaff(room, socket.id);
     if (!isCurrentHost) return;
     
     routineServerLog(`🔤 Letter reset requested for public display in room ${roomId}`);
     io.to(roomId).emit('display-reset-letters');
   });
 
-  // Custom song title management
-  socket.on('set-custom-song-title', (data) => {
-    const { songId, customTitle } = data;
-    if (songId && customTitle) {
-      customSongTitles.set(songId, customTitle);
-      routineServerLog(`✏️ Custom title set for song ${songId}: "${customTitle}"`);
-      // Broadcast to all clients in all rooms
-      io.emit('custom-song-title-updated', { songId, customTitle });
+  // Custom song title management (organization-wide, or a per-room override)
+  socket.on('set-custom-song-title', async (data = {}) => {
+    const { roomId, songId, customTitle, scope = songTitles.SCOPE_ORGANIZATION } = data;
+    const room = rooms.get(roomId);
+    if (!room || !songId) return;
+    const isHost = isRoomStaff(room, socket.id);
+    if (!isHost) return;
+    if (!songTitles.isValidScope(scope)) {
+      socket.emit('error', { message: `Unknown custom title scope: ${scope}` });
+      return;
+    }
+    try {
+      await loadRoomSongTitles(room);
+      const orgKey = titleOrgKeyForRoom(room);
+      const scopeId = scope === songTitles.SCOPE_ROOM ? room.id : orgKey;
+      const saved = await songTitles.setTitle(db, scope, scopeId, songId, customTitle);
+      routineServerLog(`✏️ Custom title ${saved ? `set to "${saved}"` : 'cleared'} for song ${songId} (${scope} ${scopeId})`);
+      announceCustomTitle(scope, scopeId, songId);
+      publishClusterNotice('custom-title', { scope, scopeId, songId, title: saved });
+    } catch (e) {
+      console.error('❌ Error saving custom song title:', e?.message || e);
+      socket.emit('error', { message: 'Failed to save custom song title' });
     }
   });
 
-  socket.on('get-custom-song-title', (data) => {
-    const { songId } = data;
-    if (songId) {
-      const customTitle = customSongTitles.get(songId);
-      socket.emit('custom-song-title-response', { songId, customTitle });
+  socket.on('get-custom-song-title', async (data = {}) => {
+    const { roomId, songId } = data;
+    const room = rooms.get(roomId);
+    if (!room || !songId) return;
+    // Same rule as get-all-custom-titles: only sockets in this room may read its titles
+    if (!(room.players.has(socket.id) || isRoomStaff(room, socket.id))) {
+      socket.emit('custom-song-title-response', { songId, customTitle: null, scope: null });
+      return;
     }
+    try {
+      await loadRoomSongTitles(room);
+    } catch (e) {
+      console.error('get-custom-song-title loadRoomSongTitles:', e?.message || e);
+    }
+    socket.emit('custom-song-title-response', {
+      songId,
+      customTitle: customTitleFor(room, songId),
+      scope: songTitles.getTitleScope(titleOrgKeyForRoom(room), room.id, songId),
+    });
   });
 
-  socket.on('get-all-custom-titles', () => {
-    const allTitles = Object.fromEntries(customSongTitles);
-    socket.emit('all-custom-titles-response', allTitles);
+  socket.on('get-all-custom-titles', async (data = {}) => {
+    const room = rooms.get(data.roomId);
+    // Titles are the venue's: only sockets in this room (players, host, co-hosts) may read them
+    if (!room || !(room.players.has(socket.id) || isRoomStaff(room, socket.id))) {
+      socket.emit('all-custom-titles-response', { roomId: data.roomId || null, titles: {}, scopes: {}, organizationName: null });
+      return;
+    }
+    try {
+      await loadRoomSongTitles(room);
+    } catch (e) {
+      console.error('get-all-custom-titles loadRoomSongTitles:', e?.message || e);
+    }
+    socket.emit('all-custom-titles-response', customTitlesPayload(room));
   });
 
 
-  // Handle disconnection
-  socket.on('disconnect', () => {
-    routineServerLog(`User disconnected: ${socket.id}`);
-    
-    // Find and remove player from all rooms
-    for (const [roomId, room] of rooms.entries()) {
-      if (room.players.has(socket.id)) {
-        const player = room.players.get(socket.id);
-        room.players.delete(socket.id);
-        
-        routineServerLog(`Player ${player.name} left room ${roomId}`);
-        
-        // If the host disconnected, assign a new host or end the game
-        if (room.host === socket.id) {
-          if (room.players.size > 0) {
-            // Assign the first remaining player as host
-            const newHost = room.players.values().next().value;
-            room.host = newHost.id;
-            routineServerLog(`Assigned ${newHost.name} as new host for room ${roomId}`);
+  // Co-host invites and roster (host only; permissions in server/hostRoles.js)
+  socket.on('create-cohost-invite', (data = {}) => {
+    try {
+      const { roomId, role } = data;
+      const room = rooms.get(roomId);
+      if (!room) return;
+      const invite = hostRoles.createInvite(room, role);
+      if (!invite) {
+        socket.emit('error', { message: 'Could not create a co-host code (unknown role, or too many open codes).' });
+        return;
+      }
+      routineServerLog(`🤝 Co-host code created for room ${roomId} (${invite.role})`);
+      emitCohostRoster(roomId);
+      persistRoomState(roomId, 'cohost-invite');
+    } catch (e) {
+      console.error('❌ Error creating co-host invite:', e?.message || e);
+    }
+  });
+
+  socket.on('revoke-cohost-invite', (data = {}) => {
+    try {
+      const { roomId, code } = data;
+      const room = rooms.get(roomId);
+      if (!room || !hostRoles.revokeInvite(room, code)) return;
+      emitCohostRoster(roomId);
+      persistRoomState(roomId, 'cohost-invite');
+    } catch (e) {
+      console.error('❌ Error revoking co-host invite:', e?.message || e);
+    }
+  });
+
+  /** Removing a co-host also revokes the code they joined with, so they cannot rejoin with it. */
+  socket.on('remove-cohost', (data = {}) => {
+    try {
+      const { roomId, cohostId } = data;
+      const room = rooms.get(roomId);
+      const cohost = room && room.cohosts instanceof Map ? room.cohosts.get(cohostId) : null;
+      if (!cohost) return;
+      hostRoles.removeCohost(room, cohostId);
+      hostRoles.revokeInvite(room, cohost.code);
+      const cohostSocket = clientSocket(cohostId);
+      if (cohostSocket) {
+        cohostSocket.emit('cohost-removed', { roomId });
+        cohostSocket.leave(roomId);
+      }
+      routineServerLog(`🤝 Removed co-host ${cohost.name} from room ${roomId}`);
+      emitCohostRoster(roomId);
+      persistRoomState(roomId, 'cohost-invite');
+    } catch (e) {
+      console.error('❌ Error removing co-host:', e?.message || e);
+    }
+  });
+
+  // Handle disconnection
+  socket.on('disconnect', () => {
+    routineServerLog(`User disconnected: ${socket.id}`);
+    
+    // Find and remove player from all rooms
+    for (const [roomId, room] of rooms.entries()) {
+      if (hostRoles.removeCohost(room, socket.id)) {
+        routineServerLog(`Co-host left room ${roomId}`);
+        emitCohostRoster(roomId);
+        break;
+      }
+      if (room.players.has(socket.id)) {
+        const player = room.players.get(socket.id);
+        room.players.delete(socket.id);
+        
+        routineServerLog(`Player ${player.name} left room ${roomId}`);
+        
+        // If the host disconnected, assign a new host or end the game
+        if (room.host === socket.id) {
+          if (room.players.size > 0) {
+            // Assign the first remaining player as host
+            const newHost = room.players.values().next().value;
+            room.host = newHost.id;
+            routineServerLog(`Assigned ${newHost.name} as new host for room ${roomId}`);
           } else {
             // No players left, remove the room
             rooms.delete(roomId);
+            forgetRoomState(roomId);
+            playerCardSync.forget(roomId);
+            if (clusterMode) roomLeases.release(roomId).catch(() => {});
             routineServerLog(`Removed empty room: ${roomId}`);
           }
         }
@@ -4277,7 +4392,7 @@ io.on('connection', (socket) => {
       }
     }
   });
-});
+}
 
 // Helper functions
 
@@ -4362,18 +4477,21 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
   }
 
   if (room.ownerUserId == null && room.host) {
-    const hs = io.sockets.sockets.get(room.host);
+    const hs = clientSocket(room.host);
     if (hs && hs.hostUserId != null) {
       room.ownerUserId = hs.hostUserId;
       routineServerLog(`📌 Room ${roomId}: ownerUserId=${room.ownerUserId} (from host socket — Spotify org key)`);
     }
   }
 
-  const org = spotifyOrgForRoom(room);
-  const tokensOk = await multiTenantSpotify.ensureOrgTokensLoaded(org);
-  if (!tokensOk) {
-    console.error('❌ Cannot generate bingo cards: Spotify not connected for this host');
-    return false;
+  const localPlayback = isLocalPlaybackRoom(room);
+  if (!localPlayback) {
+    const org = spotifyOrgForRoom(room);
+    const tokensOk = await multiTenantSpotify.ensureOrgTokensLoaded(org);
+    if (!tokensOk) {
+      console.error('❌ Cannot generate bingo cards: Spotify not connected for this host');
+      return false;
+    }
   }
 
   try {
@@ -4381,7 +4499,11 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
 
     let playlistsWithSongs = playlistsWithSongsFromHostSongOrder(playlists, songOrder);
 
-    if (playlistsWithSongs) {
+    if (!playlistsWithSongs && localPlayback) {
+      // Local files exist only in the host browser; there is nothing to fetch server-side.
+      console.error('❌ Cannot generate bingo cards: local mix is missing track lists from the host');
+      return false;
+    } else if (playlistsWithSongs) {
       const trackTotal = playlistsWithSongs.reduce((n, pl) => n + (Array.isArray(pl.songs) ? pl.songs.length : 0), 0);
       routineServerLog(
         `📋 Using host-provided track lists (${trackTotal} songs) — skipping Spotify /items pagination for bingo`
@@ -4428,7 +4550,8 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
     let perListGloballyUnique = perListUnique;
     if (perListUnique.length === 5) {
       routineServerLog('🔍 Checking for cross-playlist duplicates in 5x15 mode...');
-      const globalSeen = new Set();
+      // Same song under another id (remaster, live, single vs album) is a duplicate too (songMatching.js)
+      const globalSeen = songMatching.createSeenSongs();
       const warnings = [];
       
       perListGloballyUnique = perListUnique.map((pl, index) => {
@@ -4438,8 +4561,8 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
         
         // First pass: collect unique songs and identify duplicates
         for (const song of pl.songs) {
-          if (!globalSeen.has(song.id)) {
-            globalSeen.add(song.id);
+          if (!globalSeen.has(song)) {
+            globalSeen.add(song);
             uniqueSongs.push(song);
           } else {
             duplicatesFound.push(song);
@@ -4459,8 +4582,8 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
             const isAlreadyIncluded = uniqueSongs.some(s => s.id === song.id);
             const isDuplicate = duplicatesFound.some(d => d.id === song.id);
             
-            if (!isAlreadyIncluded && !isDuplicate && !globalSeen.has(song.id)) {
-              globalSeen.add(song.id);
+            if (!isAlreadyIncluded && !isDuplicate && !globalSeen.has(song)) {
+              globalSeen.add(song);
               uniqueSongs.push(song);
               replacementsFound.push(song);
               replacementsAdded++;
@@ -4534,15 +4657,8 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
       }
     }
 
-    let mode = 'fallback';
-    // 1x75 mode: exactly 1 playlist with at least 75 unique songs
-    if (perListGloballyUnique.length === 1 && perListGloballyUnique[0].songs.length >= 75) {
-      mode = '1x75';
-    }
-    // 5x15 mode: exactly 5 playlists each with at least 15 unique songs (after global deduplication)
-    if (perListGloballyUnique.length === 5 && perListGloballyUnique.every(pl => pl.songs.length >= 15)) {
-      mode = '5x15';
-    }
+    // 1x75: one playlist of 75+ unique songs; 5x15: five playlists of 15+ each after global deduplication
+    const mode = cardDeals.cardModeFor(perListGloballyUnique.map((pl) => pl.songs.length));
 
     routineServerLog(`🎯 Card generation mode: ${mode}`);
 
@@ -4682,6 +4798,20 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
       }
     }
 
+    // Seeded deal: card N is reproducible from the seed and the pools below (server/cardDeals.js)
+    const cardPools =
+      mode === '5x15'
+        ? perListGloballyUnique.map((pl) => pl.songs.map((s) => s.id))
+        : mode === '1x75'
+          ? [(rooms.get(roomId)?.oneBySeventyFivePool || []).map((x) => x.id)]
+          : [buildGlobalPool().map((s) => s.id)];
+    const deal = cardDeals.startDeal(room, cardDeals.createMix(mode, useFreeSpace, cardPools));
+    const songById = new Map();
+    for (const pl of perListUnique) {
+      for (const s of pl.songs) if (!songById.has(s.id)) songById.set(s.id, s);
+    }
+    routineServerLog(`🌱 Card deal for room ${roomId}: seed ${deal.seed}, mix ${deal.mixHash.slice(0, 12)}`);
+
   const cards = new Map();
     if (!room.clientCards) room.clientCards = new Map();
   routineServerLog(`👥 Generating cards for ${room.players.size} players`);
@@ -4689,71 +4819,20 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
   for (const [playerId, player] of room.players) {
     try {
       routineServerLog(`🎲 Generating card for player: ${player.name} (${playerId})`);
-      let chosen25 = [];
-      if (mode === '1x75') {
-        // Use the same base computed above to ensure consistency
-        const base = (rooms.get(roomId)?.oneBySeventyFivePool || []).map(x => perListGloballyUnique[0].songs.find(s => s.id === x.id)).filter(Boolean);
-        if (!ensureEnough(base.length)) {
-          console.error(`❌ Not enough songs for 1x75 mode for player ${player.name}: need ${songsNeededPerCard}, have ${base.length}`);
-          continue; // Skip this player but continue with others
-        }
-        chosen25 = properShuffle(base).slice(0, songsNeededPerCard);
-      } else if (mode === '5x15') {
-        // For each of 5 playlists, sample unique tracks from globally deduplicated pools
-        // With free space: middle column (2) has 4 songs; center cell (2-2) is FREE
-        // Note: Cross-playlist duplicates are already removed, so we only need cross-column uniqueness within this card
-        // CRITICAL: Use perListGloballyUnique in the SAME ORDER as display columns to ensure alignment
-        const used = new Set();
-        const columns = [];
-        let ok = true;
-        for (let col = 0; col < 5; col++) {
-          const need = useFreeSpace && col === 2 ? 4 : 5;
-          // Use perListGloballyUnique[col] which matches display column col
-          const playlistName = perListGloballyUnique[col].name || `Column ${col}`;
-          const pool = properShuffle(perListGloballyUnique[col].songs);
-          const colPicks = [];
-          for (const s of pool) {
-            if (!used.has(s.id)) { colPicks.push(s); used.add(s.id); }
-            if (colPicks.length === need) break;
-          }
-          if (colPicks.length < need) { ok = false; break; }
-          columns.push(colPicks);
-          routineServerLog(`🎯 Card for ${player.name}: Column ${col} (${playlistName}) - ${colPicks.length} songs selected`);
-        }
-        if (!ok) {
+      const drawn = cardDeals.dealCard(deal);
+      if (!drawn) {
+        if (mode === '5x15') {
           console.error(`❌ 5x15 mode failed for player ${player.name} - insufficient unique songs per column`);
-          console.error(`❌ This should not happen if playlists have enough songs. Skipping player.`);
-          continue; // Skip this player - don't use fallback that creates different card types
         } else {
-          // Flatten column-major into row-major 5x5 (skip center when free space)
-          // This ensures column 0 songs go to card column 0, column 1 to card column 1, etc.
-          for (let row = 0; row < 5; row++) {
-            for (let col = 0; col < 5; col++) {
-              if (useFreeSpace && row === 2 && col === 2) continue;
-              if (useFreeSpace && col === 2) {
-                const idxInCol = row < 2 ? row : row - 1;
-                chosen25.push(columns[2][idxInCol]);
-              } else {
-                chosen25.push(columns[col][row]);
-              }
-            }
-          }
-          routineServerLog(`✅ Card for ${player.name}: Built with columns in order: ${columns.map((_, idx) => perListGloballyUnique[idx].name).join(', ')}`);
-        }
-      } else {
-        const pool = buildGlobalPool();
-        if (!ensureEnough(pool.length)) {
-          console.error(`❌ Not enough songs in global pool for player ${player.name}: need ${songsNeededPerCard}, have ${pool.length}`);
-          continue; // Skip this player but continue with others
+          ensureEnough(deal.mix.pools[0].length);
+          console.error(`❌ Not enough songs for ${mode} mode for player ${player.name}: need ${songsNeededPerCard}, have ${deal.mix.pools[0].length}`);
         }
-        // CRITICAL: Use completely independent shuffle for bingo cards
-        // This ensures fair randomness separate from playback order
-        chosen25 = properShuffle(pool).slice(0, songsNeededPerCard);
-        routineServerLog(`🎲 Generated TRULY FAIR blackout card for ${player.name} from ${pool.length} song pool`);
+        continue; // Skip this player but continue with others
       }
+      const chosen25 = drawn.songIds.map((id) => songById.get(id));
 
       // Build card
-      const card = { id: playerId, squares: [] };
+      const card = { id: playerId, cardId: drawn.cardId, cardNumber: drawn.cardNumber, squares: [] };
       let idx = 0;
       for (let row = 0; row < 5; row++) {
         for (let col = 0; col < 5; col++) {
@@ -4770,7 +4849,7 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
             position: `${row}-${col}`,
             songId: s.id,
             songName: s.name,
-            customSongName: customSongTitles.get(s.id) || cleanSongTitle(s.name),
+            customSongName: customTitleFor(room, s.id) || cleanSongTitle(s.name),
             artistName: s.artist,
             marked: false
           });
@@ -4783,8 +4862,8 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
     }
 
     const uniqueOnCard = new Set(card.squares.map(q => q.songId));
-      routineServerLog(`✅ Generated card for ${player.name} with ${uniqueOnCard.size} unique songs (mode=${mode})`);
-      routineServerLog(`🎲 Card generation method: ${mode === '5x15' ? '5x15 column-based' : mode === '1x75' ? '1x75 pool-based' : 'global pool'}`);
+      routineServerLog(`✅ Generated card ${card.cardId} for ${player.name} with ${uniqueOnCard.size} unique songs (mode=${mode})`);
+      cardDeals.recordIssued(deal, card, player.name);
 
       if (!room.bingoCards) room.bingoCards = new Map();
     player.bingoCard = card;
@@ -4805,6 +4884,7 @@ async function generateBingoCards(roomId, playlists, songOrder = null) {
   routineServerLog(`✅ Generated ${cards.size} bingo cards for room ${roomId}`);
   routineServerLog(`📋 Players with cards: ${Array.from(cards.keys()).map(id => room.players.get(id)?.name || id).join(', ')}`);
   routineServerLog(`⚠️ Players without cards: ${Array.from(room.players.keys()).filter(id => !cards.has(id)).map(id => room.players.get(id)?.name || id).join(', ') || 'None'}`);
+  emitToHosts(roomId, 'card-deal', cardDeals.dealSummary(deal));
     return cards.size > 0;
   } catch (error) {
     console.error('❌ Error generating bingo cards:', error);
@@ -4827,9 +4907,11 @@ async function generateBingoCardForPlayer(roomId, playerId) {
   
   // Build a single card using the same 1x75 / 5x15 logic used for all players
   try {
-    // Fetch per-playlist songs and de-duplicate per list
-    const playlistsWithSongs = [];
-    for (const playlist of playlists) {
+    // Fetch per-playlist songs and de-duplicate per list (local mixes reuse the host's finalized list)
+    const playlistsWithSongs = isLocalPlaybackRoom(room)
+      ? playlistsWithSongsFromHostSongOrder(playlists, room.finalizedSongs) || []
+      : [];
+    for (const playlist of isLocalPlaybackRoom(room) ? [] : playlists) {
       try {
         const songs = await spotifyFor(roomId).getPlaylistTracks(playlist.id, playlist);
         playlistsWithSongs.push({ ...playlist, songs });
@@ -4858,7 +4940,7 @@ async function generateBingoCardForPlayer(roomId, playerId) {
     let perListGloballyUnique = perListUnique;
     if (perListUnique.length === 5) {
       routineServerLog('🔍 Late-join: Checking for cross-playlist duplicates in 5x15 mode...');
-      const globalSeen = new Set();
+      const globalSeen = songMatching.createSeenSongs();
       
       perListGloballyUnique = perListUnique.map((pl, index) => {
         const uniqueSongs = [];
@@ -4867,8 +4949,8 @@ async function generateBingoCardForPlayer(roomId, playerId) {
         
         // First pass: collect unique songs and identify duplicates
         for (const song of pl.songs) {
-          if (!globalSeen.has(song.id)) {
-            globalSeen.add(song.id);
+          if (!globalSeen.has(song)) {
+            globalSeen.add(song);
             uniqueSongs.push(song);
           } else {
             duplicatesFound.push(song);
@@ -4888,8 +4970,8 @@ async function generateBingoCardForPlayer(roomId, playerId) {
             const isAlreadyIncluded = uniqueSongs.some(s => s.id === song.id);
             const isDuplicate = duplicatesFound.some(d => d.id === song.id);
             
-            if (!isAlreadyIncluded && !isDuplicate && !globalSeen.has(song.id)) {
-              globalSeen.add(song.id);
+            if (!isAlreadyIncluded && !isDuplicate && !globalSeen.has(song)) {
+              globalSeen.add(song);
               uniqueSongs.push(song);
               replacementsFound.push(song);
               replacementsAdded++;
@@ -4916,9 +4998,7 @@ async function generateBingoCardForPlayer(roomId, playerId) {
       });
     }
 
-    let mode = 'fallback';
-    if (perListGloballyUnique.length === 1 && perListGloballyUnique[0].songs.length >= 75) mode = '1x75';
-    if (perListGloballyUnique.length === 5 && perListGloballyUnique.every(pl => pl.songs.length >= 15)) mode = '5x15';
+    const mode = cardDeals.cardModeFor(perListGloballyUnique.map((pl) => pl.songs.length));
     routineServerLog(`🎯 Late-join card mode: ${mode}`);
 
     const buildGlobalPool = () => {
@@ -4940,63 +5020,48 @@ async function generateBingoCardForPlayer(roomId, playerId) {
       return true;
     };
 
-    let chosen25 = [];
-    if (mode === '1x75') {
-      let base = [];
-      if (Array.isArray(room.finalizedSongOrder) && room.finalizedSongOrder.length > 0) {
-        const allowed = new Set(perListGloballyUnique[0].songs.map(s => s.id));
-        base = dedup(room.finalizedSongOrder.filter(s => allowed.has(s.id))).slice(0, 75);
-      } else {
-        base = properShuffle(perListGloballyUnique[0].songs).slice(0, 75);
-      }
-      if (!ensureEnough(base.length)) return;
-      chosen25 = properShuffle(base).slice(0, songsNeededPerCard);
-    } else if (mode === '5x15') {
-      const used = new Set();
-      const columns = [];
-      let ok = true;
-      for (let col = 0; col < 5; col++) {
-        const need = useFreeSpace && col === 2 ? 4 : 5;
-        // Use globally deduplicated pools for late-join cards
-        const pool = properShuffle(perListGloballyUnique[col].songs);
-        const colPicks = [];
-        for (const s of pool) {
-          if (!used.has(s.id)) { colPicks.push(s); used.add(s.id); }
-          if (colPicks.length === need) break;
+    // Continue the room's seeded deal; a room whose cards were never dealt starts one here
+    let deal = cardDeals.currentDeal(room);
+    if (!deal) {
+      let pools;
+      if (mode === '1x75') {
+        let base = [];
+        if (Array.isArray(room.finalizedSongOrder) && room.finalizedSongOrder.length > 0) {
+          const allowed = new Set(perListGloballyUnique[0].songs.map(s => s.id));
+          base = dedup(room.finalizedSongOrder.filter(s => allowed.has(s.id))).slice(0, 75);
+        } else {
+          base = properShuffle(perListGloballyUnique[0].songs).slice(0, 75);
         }
-        if (colPicks.length < need) { ok = false; break; }
-        columns.push(colPicks);
-      }
-      if (!ok) {
-        console.error('❌ 5x15 late-join failed - insufficient unique songs per column');
-        console.error('❌ This should not happen if playlists have enough songs. Cannot generate card.');
-        return; // Don't use fallback that creates different card types
+        pools = [base.map(s => s.id)];
+      } else if (mode === '5x15') {
+        pools = perListGloballyUnique.map(pl => pl.songs.map(s => s.id));
       } else {
-        for (let row = 0; row < 5; row++) {
-          for (let col = 0; col < 5; col++) {
-            if (useFreeSpace && row === 2 && col === 2) continue;
-            if (useFreeSpace && col === 2) {
-              const idxInCol = row < 2 ? row : row - 1;
-              chosen25.push(columns[2][idxInCol]);
-            } else {
-              chosen25.push(columns[col][row]);
-            }
-          }
-        }
+        pools = [buildGlobalPool().map(s => s.id)];
       }
-    } else {
-      const pool = buildGlobalPool();
-      if (!ensureEnough(pool.length)) return;
-      // CRITICAL: Use completely independent shuffle for late-join bingo cards
-      chosen25 = properShuffle(pool).slice(0, songsNeededPerCard);
-      routineServerLog(`🎲 Generated TRULY FAIR late-join card from ${pool.length} song pool`);
+      deal = cardDeals.startDeal(room, cardDeals.createMix(mode, useFreeSpace, pools));
+      emitToHosts(roomId, 'card-deal', cardDeals.dealSummary(deal));
+    }
+    const drawn = cardDeals.dealCard(deal);
+    if (!drawn) {
+      if (deal.mix.mode === '5x15') console.error('❌ 5x15 late-join failed - insufficient unique songs per column');
+      else ensureEnough(deal.mix.pools[0].length);
+      return;
+    }
+    const songById = new Map();
+    for (const s of [...perListUnique.flatMap(pl => pl.songs), ...(Array.isArray(room.finalizedSongs) ? room.finalizedSongs : [])]) {
+      if (s && s.id && !songById.has(s.id)) songById.set(s.id, s);
+    }
+    const chosen25 = drawn.songIds.map(id => songById.get(id));
+    if (chosen25.some(s => !s)) {
+      console.error(`❌ Late-join card ${drawn.cardId}: songs from the deal are missing from the mix`);
+      return;
     }
 
-    const card = { id: playerId, squares: [] };
+    const card = { id: playerId, cardId: drawn.cardId, cardNumber: drawn.cardNumber, squares: [] };
     let idx = 0;
     for (let row = 0; row < 5; row++) {
       for (let col = 0; col < 5; col++) {
-        if (useFreeSpace && row === 2 && col === 2) {
+        if (deal.mix.freeSpace && row === 2 && col === 2) {
           card.squares.push(makeFreeSpaceSquare());
           continue;
         }
@@ -5005,7 +5070,7 @@ async function generateBingoCardForPlayer(roomId, playerId) {
           position: `${row}-${col}`,
           songId: s.id,
           songName: s.name,
-          customSongName: customSongTitles.get(s.id) || cleanSongTitle(s.name),
+          customSongName: customTitleFor(room, s.id) || cleanSongTitle(s.name),
           artistName: s.artist,
           marked: false
         });
@@ -5016,6 +5081,8 @@ async function generateBingoCardForPlayer(roomId, playerId) {
     // Also store on player if present
     const p = room.players.get(playerId);
     if (p) p.bingoCard = card;
+    cardDeals.recordIssued(deal, card, p?.name);
+    routineServerLog(`🎲 Late-join card ${card.cardId} dealt`);
     // Emit card with isNewCard flag to help client detect new rounds
     io.to(playerId).emit('bingo-card', { ...card, isNewCard: true });
     return card;
@@ -5024,6 +5091,67 @@ async function generateBingoCardForPlayer(roomId, playerId) {
   }
 }
 
+/**
+ * Card builder for printed cards: continues the room's seeded deal (cardDeals.js), resolving songs from
+ * the finalized mix only (no Spotify calls). A room with no deal (restored from before deals) starts one
+ * from the 5x15 columns / 1x75 pool / whole mix. The builder returns { squares, cardNumber, cardId } or
+ * null when the mix cannot fill a card; returns null itself when the mix is not finalized.
+ */
+function paperCardBuilder(room) {
+  if (!room || !room.mixFinalized) return null;
+  const meta = new Map();
+  for (const s of Array.isArray(room.finalizedSongs) ? room.finalizedSongs : []) {
+    if (s && s.id && !meta.has(s.id)) meta.set(s.id, { id: s.id, name: s.name, artist: s.artist });
+  }
+  const songFor = (id) => {
+    if (meta.has(id)) return meta.get(id);
+    const m = room.fiveByFifteenMeta && room.fiveByFifteenMeta[id];
+    return m ? { id, name: m.name, artist: m.artist } : null;
+  };
+
+  let deal = cardDeals.currentDeal(room);
+  if (!deal) {
+    const playlistCount = Array.isArray(room.finalizedPlaylists) ? room.finalizedPlaylists.length : 0;
+    let mix;
+    if (playlistCount === 5 && Array.isArray(room.fiveByFifteenColumnsIds) && room.fiveByFifteenColumnsIds.length === 5) {
+      mix = cardDeals.createMix('5x15', room.freeSpaceEnabled, room.fiveByFifteenColumnsIds);
+    } else if (playlistCount === 1 && Array.isArray(room.oneBySeventyFivePool) && room.oneBySeventyFivePool.length > 0) {
+      mix = cardDeals.createMix('1x75', room.freeSpaceEnabled, [room.oneBySeventyFivePool.map((x) => x.id)]);
+    } else {
+      mix = cardDeals.createMix('fallback', room.freeSpaceEnabled, [Array.from(meta.keys())]);
+    }
+    deal = cardDeals.startDeal(room, mix);
+    emitToHosts(room.id, 'card-deal', cardDeals.dealSummary(deal));
+  }
+  const useFreeSpace = deal.mix.freeSpace;
+
+  return () => {
+    const drawn = cardDeals.dealCard(deal);
+    const chosen = drawn ? drawn.songIds.map(songFor) : null;
+    if (!chosen || chosen.some((s) => !s)) return null;
+    const squares = [];
+    let idx = 0;
+    for (let row = 0; row < 5; row++) {
+      for (let col = 0; col < 5; col++) {
+        if (useFreeSpace && row === 2 && col === 2) {
+          squares.push(makeFreeSpaceSquare());
+          continue;
+        }
+        const s = chosen[idx++];
+        squares.push({
+          position: `${row}-${col}`,
+          songId: s.id,
+          songName: s.name,
+          customSongName: customTitleFor(room, s.id) || cleanSongTitle(s.name),
+          artistName: s.artist,
+          marked: false
+        });
+      }
+    }
+    return { squares, cardNumber: drawn.cardNumber, cardId: drawn.cardId };
+  };
+}
+
 async function startAutomaticPlayback(roomId, playlists, deviceId, songList = null) {
   routineServerLog('🎵 Starting automatic playback for room:', roomId);
   const room = rooms.get(roomId);
@@ -5032,19 +5160,26 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
     return;
   }
 
-  const org = spotifyOrgForRoom(room);
-  const tokensOk = await multiTenantSpotify.ensureOrgTokensLoaded(org);
-  if (!tokensOk) {
-    console.error('❌ Cannot start playback: Spotify not connected for this host (no tokens in memory or DB)');
-    io.to(roomId).emit('playback-error', {
-      message: 'Spotify is not connected for this host. Open Connection and connect Spotify, then try Start Game again.',
-    });
+  const localPlayback = isLocalPlaybackRoom(room);
+  if (!localPlayback) {
+    const org = spotifyOrgForRoom(room);
+    const tokensOk = await multiTenantSpotify.ensureOrgTokensLoaded(org);
+    if (!tokensOk) {
+      console.error('❌ Cannot start playback: Spotify not connected for this host (no tokens in memory or DB)');
+      io.to(roomId).emit('playback-error', {
+        message: 'Spotify is not connected for this host. Open Connection and connect Spotify, then try Start Game again.',
+      });
+      return;
+    }
+  } else if (!Array.isArray(songList) || songList.length === 0) {
+    io.to(roomId).emit('playback-error', { message: 'No local tracks were sent. Reload your music folder, then try Start Game again.' });
     return;
   }
 
   try {
     // Ensure token is valid before proceeding
-    await spotifyFor(roomId).ensureValidToken();
+    if (!localPlayback) await spotifyFor(roomId).ensureValidToken();
+    const playback = playbackFor(roomId);
     
     let allSongs = [];
     const perListFetched = [];
@@ -5109,7 +5244,7 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
       let perListGloballyUnique = perListUnique;
       if (perListUnique.length === 5) {
         routineServerLog('🔍 Playback: Applying cross-playlist deduplication for 5x15 mode...');
-        const globalSeen = new Set();
+        const globalSeen = songMatching.createSeenSongs();
         
         perListGloballyUnique = perListUnique.map((pl, index) => {
           const uniqueSongs = [];
@@ -5118,8 +5253,8 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
           
           // First pass: collect unique songs and identify duplicates
           for (const song of pl.songs) {
-            if (!globalSeen.has(song.id)) {
-              globalSeen.add(song.id);
+            if (!globalSeen.has(song)) {
+              globalSeen.add(song);
               uniqueSongs.push(song);
             } else {
               duplicatesFound.push(song);
@@ -5139,8 +5274,8 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
               const isAlreadyIncluded = uniqueSongs.some(s => s.id === song.id);
               const isDuplicate = duplicatesFound.some(d => d.id === song.id);
               
-              if (!isAlreadyIncluded && !isDuplicate && !globalSeen.has(song.id)) {
-                globalSeen.add(song.id);
+              if (!isAlreadyIncluded && !isDuplicate && !globalSeen.has(song)) {
+                globalSeen.add(song);
                 uniqueSongs.push(song);
                 replacementsFound.push(song);
                 replacementsAdded++;
@@ -5250,21 +5385,13 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
     routineServerLog(`📝 Stored ${allSongs.length} songs in room ${roomId} for ordered playback`);
     routineServerLog(`📋 First 5 songs in order: ${allSongs.slice(0, 5).map(s => `${s.name} (${s.id})`).join(', ')}`);
     
-    // Create temporary playlist for context-based playback to prevent hijacks
+    // Create temporary playlist for context-based playback to prevent hijacks (Spotify only)
     try {
-      try {
-        await spotifyFor(roomId).deleteAllGameOfTonesOutputPlaylists();
-      } catch (clearErr) {
-        console.warn(
-          '⚠️ Could not auto-clear prior GOT output playlists (non-fatal):',
-          clearErr?.message || clearErr
-        );
+      room.temporaryPlaylistId = await playback.prepareQueue(roomId, allSongs);
+      if (room.temporaryPlaylistId) {
+        routineServerLog(`🎼 Created temporary playlist for context: ${room.temporaryPlaylistId}`);
+        routineServerLog(`📋 Playlist track order (first 5): ${allSongs.slice(0, 5).map(s => s.id).join(', ')}`);
       }
-      const trackUris = allSongs.map(song => `spotify:track:${song.id}`);
-      const playlistName = `TEMPO Bingo Room ${roomId} - ${new Date().toISOString().slice(0,16)}`;
-      room.temporaryPlaylistId = await spotifyFor(roomId).createTemporaryPlaylist(playlistName, trackUris);
-      routineServerLog(`🎼 Created temporary playlist for context: ${room.temporaryPlaylistId}`);
-      routineServerLog(`📋 Playlist track order (first 5): ${trackUris.slice(0, 5).join(', ')}`);
     } catch (error) {
       console.warn('⚠️ Failed to create temporary playlist, falling back to individual track playback:', error);
       room.temporaryPlaylistId = null;
@@ -5292,54 +5419,22 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
 
     routineServerLog(`🎵 Starting playback on device: ${targetDeviceId}`);
 
+    const startMs = playbackProviders.pickStartMs(firstSong, room);
     try {
-      // Ensure device reports in current devices list; try to activate if needed
-      const devices = await spotifyFor(roomId).getUserDevices();
-      const deviceInList = devices.find(d => d.id === targetDeviceId);
-      if (!deviceInList) {
-        routineServerLog('⚠️ Locked device not in list; attempting activation...');
-        await spotifyFor(roomId).activateDevice(targetDeviceId);
-      }
-
-      await spotifyFor(roomId).transferPlayback(targetDeviceId, false);
-      // Skip-based queue clearing removed to avoid context hijacks
-      // Enforce deterministic playback mode to avoid context/radio fallbacks with delays
-      try { await spotifyFor(roomId).withRetries('setShuffle(false)', () => spotifyFor(roomId).setShuffleState(false, targetDeviceId), { attempts: 2, backoffMs: 200 }); } catch (_) {}
-      await new Promise(resolve => setTimeout(resolve, 200));
+      // Ensure device reports in current devices list; try to activate if needed, then lock it
+      await playback.activateDevice(targetDeviceId, { ensureListed: true });
       // Note: Skip setting repeat to 'off' - startPlaybackFromPlaylist will set it to 'track' to prevent auto-advance
       await new Promise(resolve => setTimeout(resolve, 200));
-      // Use explicit device_id and uris as fallback in case transfer isn't picked up
-      // Randomized start position within track when enabled and safe
-      let startMs = 0;
-      if (room.randomStarts && room.randomStarts !== 'none' && Number.isFinite(firstSong.duration)) {
-        const dur = Math.max(0, Number(firstSong.duration));
-        const snippetMs = room.snippetLength * 1000;
-        const bufferMs = 1500;
-        
-        if (room.randomStarts === 'early') {
-          // Early random: first 90 seconds
-          const maxStartMs = 90000; // 90 seconds
-          const safeWindow = Math.min(maxStartMs, Math.max(0, dur - snippetMs - bufferMs));
-          if (safeWindow > 3000) {
-            startMs = Math.floor(Math.random() * safeWindow);
-          }
-        } else if (room.randomStarts === 'random') {
-          // Random: anywhere but last 30+ seconds
-          const safeWindow = Math.max(0, dur - snippetMs - bufferMs - 30000); // 30 second buffer
-          if (safeWindow > 3000) {
-            startMs = Math.floor(Math.random() * safeWindow);
-          }
-        }
-      }
       routineServerLog(`🎯 Starting first song with randomized offset: ${startMs}ms (${Math.floor(startMs/1000)}s)`);
       
       // Use playlist context if available, otherwise fall back to individual track
       if (room.temporaryPlaylistId) {
         routineServerLog(`🎼 Playing from temporary playlist context: ${room.temporaryPlaylistId}`);
-        await spotifyFor(roomId).withRetries('startPlaybackFromPlaylist(initial)', () => spotifyFor(roomId).startPlaybackFromPlaylist(targetDeviceId, room.temporaryPlaylistId, 0, startMs), { attempts: 3, backoffMs: 400 });
-      } else {
-        await spotifyFor(roomId).withRetries('startPlayback(initial)', () => spotifyFor(roomId).startPlayback(targetDeviceId, [`spotify:track:${firstSong.id}`], startMs), { attempts: 3, backoffMs: 400 });
       }
+      await playback.playTrack(
+        { deviceId: targetDeviceId, song: firstSong, index: 0, startMs, queueId: room.temporaryPlaylistId || null },
+        { attempts: 3 }
+      );
       routineServerLog(`✅ Successfully started playback on device: ${targetDeviceId}`);
       try { 
         const r = rooms.get(roomId); 
@@ -5355,7 +5450,7 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
       // Set initial volume to 100% (or room's saved volume)
       try {
         const initialVolume = room.volume || 100;
-        await spotifyFor(roomId).withRetries('setVolume(initial)', () => spotifyFor(roomId).setVolume(initialVolume, targetDeviceId), { attempts: 2, backoffMs: 300 });
+        await playback.setVolume(initialVolume, targetDeviceId);
         routineServerLog(`🔊 Set initial volume to ${initialVolume}%`);
       } catch (volumeError) {
         console.error('❌ Error setting initial volume:', volumeError);
@@ -5367,16 +5462,10 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
         routineServerLog('🔄 Token expired, refreshing and retrying...');
         try {
           await spotifyFor(roomId).refreshAccessToken();
-          // Re-check device after refresh
-          const devicesAfter = await spotifyFor(roomId).getUserDevices();
-          const stillMissing = !devicesAfter.find(d => d.id === targetDeviceId);
-          if (stillMissing) {
-            routineServerLog('⚠️ Locked device still missing after refresh; attempting activation...');
-            await spotifyFor(roomId).activateDevice(targetDeviceId);
-          }
-          await spotifyFor(roomId).withRetries('transferPlayback(after-refresh)', () => spotifyFor(roomId).transferPlayback(targetDeviceId, false), { attempts: 3, backoffMs: 300 });
+          // Re-check device after refresh (activates it if still missing)
+          await playback.activateDevice(targetDeviceId, { ensureListed: true });
           // Skip-based queue clearing removed to avoid context hijacks
-          await spotifyFor(roomId).withRetries('startPlayback(after-refresh)', () => spotifyFor(roomId).startPlayback(targetDeviceId, [`spotify:track:${firstSong.id}`], startMs), { attempts: 3, backoffMs: 400 });
+          await playback.playTrack({ deviceId: targetDeviceId, song: firstSong, index: 0, startMs }, { attempts: 3 });
           routineServerLog(`✅ Successfully started playback after token refresh`);
           try { const r = rooms.get(roomId); if (r) r.songStartAtMs = Date.now() - (startMs || 0); } catch {}
           
@@ -5386,7 +5475,7 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
           // Set initial volume to 100% (or room's saved volume)
           try {
             const initialVolume = room.volume || 100;
-            await spotifyFor(roomId).withRetries('setVolume(after-refresh)', () => spotifyFor(roomId).setVolume(initialVolume, targetDeviceId), { attempts: 2, backoffMs: 300 });
+            await playback.setVolume(initialVolume, targetDeviceId);
             routineServerLog(`🔊 Set initial volume to ${initialVolume}% after token refresh`);
           } catch (volumeError) {
             console.error('❌ Error setting initial volume after token refresh:', volumeError);
@@ -5396,7 +5485,9 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
           return;
         }
       } else {
-        io.to(roomId).emit('playback-error', { message: 'Unable to start on locked device. Ensure it is online and try again.' });
+        io.to(roomId).emit('playback-error', {
+          message: localPlayback ? message : 'Unable to start on locked device. Ensure it is online and try again.',
+        });
         return;
       }
     }
@@ -5410,11 +5501,14 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
       artist: firstSong.artist,
       explicit: firstSong.explicit === true
     };
+    roomReport.recordCall(room, room.currentSong, { startMs: room.currentSongStartMs });
+    if (verificationQueue.head(room)) emitVerificationQueue(roomId);
+    persistRoomState(roomId, 'call');
 
     io.to(roomId).emit('song-playing', {
       songId: firstSong.id,
       songName: firstSong.name,
-      customSongName: customSongTitles.get(firstSong.id) || cleanSongTitle(firstSong.name),
+      customSongName: customTitleFor(room, firstSong.id) || cleanSongTitle(firstSong.name),
       artistName: firstSong.artist,
       explicit: firstSong.explicit === true,
       snippetLength: room.snippetLength,
@@ -5431,7 +5525,8 @@ async function startAutomaticPlayback(roomId, playlists, deviceId, songList = nu
     room.currentSongIndex = 0;
 
     // Verify playback actually started and is the correct track; attempt resume/correct if needed
-    try {
+    // (only Spotify reports what is playing — the host browser reports local audio problems itself)
+    if (playback.readsPlaybackState) try {
       let playing = false;
       let correctTrack = false;
       for (let i = 0; i < 3; i++) { // Reduced from 5 to 3 attempts
@@ -5496,6 +5591,11 @@ async function playNextSong(roomId, deviceId) {
     })}`);
     return;
   }
+  // This legacy path polls and corrects Spotify state; local rooms use the provider-driven flow.
+  if (isLocalPlaybackRoom(room)) {
+    await playNextSongSimple(roomId, deviceId);
+    return;
+  }
 
   try {
     // Handle repeat mode / end-of-playlist (prevent wrap for 1x75)
@@ -5605,6 +5705,7 @@ async function playNextSong(roomId, deviceId) {
           }
         }
       }
+      room.currentSongStartMs = startMs; // Store for restart correction
       // Use playlist context if available, otherwise fall back to individual track
       if (room.temporaryPlaylistId) {
         routineServerLog(`🎼 Playing next song from playlist context at index ${room.currentSongIndex}`);
@@ -5658,11 +5759,14 @@ async function playNextSong(roomId, deviceId) {
       artist: nextSong.artist,
       explicit: nextSong.explicit === true
     };
+    roomReport.recordCall(room, room.currentSong, { startMs: room.currentSongStartMs });
+    if (verificationQueue.head(room)) emitVerificationQueue(roomId);
+    persistRoomState(roomId, 'call');
 
     io.to(roomId).emit('song-playing', {
       songId: nextSong.id,
       songName: nextSong.name,
-      customSongName: customSongTitles.get(nextSong.id) || cleanSongTitle(nextSong.name),
+      customSongName: customTitleFor(room, nextSong.id) || cleanSongTitle(nextSong.name),
       artistName: nextSong.artist,
       explicit: nextSong.explicit === true,
       snippetLength: room.snippetLength,
@@ -5733,6 +5837,7 @@ async function playNextSong(roomId, deviceId) {
       clearRoomTimer(roomId);
       playNextSong(roomId, targetDeviceId);
     }, playbackDuration);
+    applySuddenDeathCall(roomId, nextSong.id);
 
   } catch (error) {
     console.error('❌ Error playing next song:', error);
@@ -5743,84 +5848,1225 @@ async function playNextSong(roomId, deviceId) {
   }
 }
 
-// Helper function to send real-time player card updates to host
-// Debounce timers for player card updates (one per room)
-const playerCardUpdateTimers = new Map();
+/** Full `room-state` for a host or co-host (re)joining. */
+function hostRoomStatePayload(room) {
+  const playedSongIds = Array.isArray(room.calledSongIds) ? [...room.calledSongIds] : [];
+  if (room.currentSong && room.currentSong.id && !playedSongIds.includes(room.currentSong.id)) {
+    playedSongIds.push(room.currentSong.id);
+  }
+  return {
+    isPlaying: room.gameState === 'playing',
+    pattern: room.pattern || 'line',
+    customMask: Array.from(room.customPattern || []),
+    currentSong: room.currentSong || null,
+    snippetLength: room.snippetLength || 30,
+    playerCount: getNonHostPlayerCount(room),
+    gameState: room.gameState,
+    winners: room.winners || [],
+    playedSongs: playedSongIds,
+    roundWinners: room.roundWinners || [],
+    mixFinalized: room.mixFinalized || false,
+    playlists: room.finalizedPlaylists || room.playlists || [],
+    selectedDeviceId: room.selectedDeviceId || null,
+    hybridInPersonPlusOnline: !!room.hybridInPersonPlusOnline,
+    publicDisplayCallListMode: room.publicDisplayCallListMode || 'auto',
+    venueBranding: venueBrandingForRoom(room),
+    autoBingo: autoBingo.settingsFor(room),
+    cardDeal: cardDeals.dealSummary(cardDeals.currentDeal(room)),
+  };
+}
 
-function sendPlayerCardUpdates(roomId, immediate = false) {
-  try {
-    const room = rooms.get(roomId);
-    if (!room || !room.bingoCards) return;
-    
-    // If immediate flag is set (e.g., game start/end), send right away
-    if (immediate) {
-      clearPlayerCardUpdateTimer(roomId);
-      sendPlayerCardUpdatesNow(roomId);
-      return;
-    }
-    
-    // Debounce: clear existing timer and set new one
-    clearPlayerCardUpdateTimer(roomId);
-    const timerId = setTimeout(() => {
-      sendPlayerCardUpdatesNow(roomId);
-      playerCardUpdateTimers.delete(roomId);
-    }, 120); // debounce for batched updates (marks use immediate path)
-    playerCardUpdateTimers.set(roomId, timerId);
-  } catch (e) {
-    console.error('❌ Error scheduling player card updates:', e?.message || e);
+/**
+ * join-room with a co-host code: the socket joins as staff (no card, not counted as a player) and
+ * gets the host's state sync; verifiers also get the cards and any claims still waiting for a decision.
+ */
+function joinAsCohost(socket, { roomId, playerName, clientId, cohostCode }) {
+  const room = rooms.get(roomId);
+  const invite = hostRoles.findInvite(room, cohostCode);
+  if (!invite) {
+    socket.emit('join-error', {
+      roomId,
+      code: 'invalid_cohost_code',
+      error: 'That co-host code does not match this room. It may have expired or been revoked.',
+    });
+    return;
   }
+  socket.join(roomId);
+  const cohost = hostRoles.addCohost(room, { socketId: socket.id, name: playerName, clientId, invite });
+  socket.emit('room-joined', {
+    roomId,
+    organizationId: room.organizationId || 'DEFAULT',
+    playerName,
+    isHost: false,
+    cohostRole: cohost.role,
+    permissions: hostRoles.permissionsFor(cohost.role),
+    playerCount: getNonHostPlayerCount(room),
+    hybridInPersonPlusOnline: !!room.hybridInPersonPlusOnline,
+    venueBranding: venueBrandingForRoom(room),
+    playbackProvider: room.playbackProvider || 'spotify',
+    license: null,
+    licenseError: null,
+  });
+  socket.emit('room-state', hostRoomStatePayload(room));
+  socket.emit('all-custom-titles-response', customTitlesPayload(room));
+  socket.emit('leaderboard-updated', leaderboard.leaderboardPayload(room, roomId));
+  if (hostRoles.can(cohost.role, 'verify')) {
+    emitPlayerCardSnapshot(socket, roomId);
+    socket.emit('verification-queue', verificationQueue.queuePayload(room, roomId, { calls: callSnapshotFor(room) }));
+  }
+  emitCohostRoster(roomId);
+  routineServerLog(`🤝 ${playerName} joined room ${roomId} as ${cohost.role}`);
 }
 
-function clearPlayerCardUpdateTimer(roomId) {
-  const timerId = playerCardUpdateTimers.get(roomId);
-  if (timerId) {
-    clearTimeout(timerId);
-    playerCardUpdateTimers.delete(roomId);
+/** Host or co-host of any role; which privileged events each may send is decided in hostRoles. */
+function isRoomStaff(room, socketId) {
+  return hostRoles.roleOf(room, socketId) != null;
+}
+
+/** Copy a host-only event to the co-hosts whose role needs it (verifiers get claims and cards). */
+function emitToCohosts(room, event, payload) {
+  for (const cohost of hostRoles.cohostsFor(room, event)) {
+    const cohostSocket = clientSocket(cohost.id);
+    if (cohostSocket) cohostSocket.emit(event, payload);
   }
 }
 
-function sendPlayerCardUpdatesNow(roomId) {
-  try {
-    const room = rooms.get(roomId);
-    if (!room || !room.bingoCards) return;
-    
-    // Build playedSongs array that includes current song if it exists
-    const playedSongs = Array.isArray(room.calledSongIds) ? [...room.calledSongIds] : [];
-    if (room.currentSong && room.currentSong.id && !playedSongs.includes(room.currentSong.id)) {
-      playedSongs.push(room.currentSong.id);
+/** Roster to the host (with open invites) and to co-hosts (who else is on staff). */
+function emitCohostRoster(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const withInvites = hostRoles.rosterPayload(room, roomId, { includeInvites: true });
+  const withoutInvites = hostRoles.rosterPayload(room, roomId);
+  const sent = new Set();
+  for (const socketId of [room.host, ...room.players.keys(), ...room.cohosts.keys()]) {
+    if (!socketId || sent.has(socketId)) continue;
+    const role = hostRoles.roleOf(room, socketId);
+    const staffSocket = role && clientSocket(socketId);
+    if (!staffSocket) continue;
+    sent.add(socketId);
+    staffSocket.emit('cohost-roster', hostRoles.can(role, 'manage_cohosts') ? withInvites : withoutInvites);
+  }
+}
+
+/** Emit to every connected host socket (falls back to room.host, then the whole room) and to co-hosts who need it. */
+function emitToHosts(roomId, event, payload) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  emitToCohosts(room, event, payload);
+  let hostsFound = 0;
+  room.players.forEach((playerData, playerId) => {
+    if (!playerData.isHost) return;
+    const hostSocket = clientSocket(playerId);
+    if (hostSocket) {
+      hostSocket.emit(event, payload);
+      hostsFound++;
     }
-    
-    const playerCardsData = {};
-    room.bingoCards.forEach((card, playerId) => {
-      const player = room.players.get(playerId);
-      if (player && card) {
-        // Only include actual players (not hosts or public display)
-        if (!player.isHost && player.name !== 'Display') {
-          playerCardsData[playerId] = {
-            playerName: player.name,
-            card: card,
-            playedSongs: playedSongs // Include current song if playing
-          };
-        }
-      }
-    });
-    
-    // Send to all hosts in the room
-    room.players.forEach((player, playerId) => {
-      if (player.isHost) {
-        const hostSocket = io.sockets.sockets.get(playerId);
-        if (hostSocket) {
-          hostSocket.emit('player-cards-update', playerCardsData);
-        }
-      }
+  });
+  if (hostsFound > 0) return;
+  const fallbackHostSocket = room.host && clientSocket(room.host);
+  if (fallbackHostSocket) {
+    fallbackHostSocket.emit(event, payload);
+  } else {
+    io.to(roomId).emit(event, payload);
+    routineServerLog(`📤 Emitted ${event} to entire room as fallback`);
+  }
+}
+
+/** Claimants told their queue position, roomId → Set of player ids (so a settled claim hears it left). */
+const queuePositionAudience = new Map();
+
+/** Queue to staff with the verify permission, and each phone claimant their place in it. */
+function emitVerificationQueue(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  emitToHosts(roomId, 'verification-queue', verificationQueue.queuePayload(room, roomId, { calls: callSnapshotFor(room) }));
+  const queued = verificationQueue.entries(room);
+  const told = new Set();
+  queued.forEach((claim, i) => {
+    if (paperCards.isPaperPlayerId(claim.playerId)) return;
+    told.add(claim.playerId);
+    io.to(claim.playerId).emit('verification-queue-position', {
+      roomId,
+      position: i + 1,
+      total: queued.length,
+      recheck: !!claim.recheck,
     });
-    
-    routineServerLog(`📋 Real-time update: Sent ${Object.keys(playerCardsData).length} player cards to host(s) in room ${roomId}`);
+  });
+  for (const playerId of queuePositionAudience.get(roomId) || []) {
+    if (!told.has(playerId)) {
+      io.to(playerId).emit('verification-queue-position', { roomId, position: null, total: queued.length, recheck: false });
+    }
+  }
+  if (told.size) queuePositionAudience.set(roomId, told);
+  else queuePositionAudience.delete(roomId);
+}
+
+/**
+ * A player's bingo claim (the `player-bingo` handler). Also called for an automatic claim when the
+ * room's auto-bingo grace period runs out (`auto`); the claim then carries the card's detection time.
+ */
+function submitBingoClaim(socket, data, { auto = false } = {}) {
+  const { roomId } = data || {};
+  const room = rooms.get(roomId);
+  if (!room) {
+    socket.emit('bingo-result', { success: false, reason: 'Room not found' });
+    return;
+  }
+  clearAutoClaimTimer(roomId, socket.id);
+  const player = room.players.get(socket.id);
+  if (!player) {
+    console.error(`❌ Player not found for socket ${socket.id} in room ${roomId}`);
+    routineServerLog(`Room has players:`, Array.from(room.players.keys()));
+    socket.emit('bingo-result', { success: false, reason: 'Player not found in room' });
+    return;
+  }
+  if (player.inPerson === undefined) player.inPerson = true;
+  if (!player.bingoCard) {
+    console.error(`❌ Player ${player.name} (${socket.id}) has no bingo card`);
+    routineServerLog(`Room bingo cards:`, Array.from(room.bingoCards?.keys() || []));
+    socket.emit('bingo-result', { success: false, reason: 'No bingo card assigned. Please refresh and rejoin.' });
+    return;
+  }
+  
+  if (player.hasBingo) {
+    socket.emit('bingo-result', { success: false, reason: 'You have already called bingo!' });
+    return;
+  }
+
+  if (room.tiebreak) {
+    socket.emit('bingo-result', { success: false, reason: 'A tie-break is deciding this round.' });
+    return;
+  }
+  
+  // CRITICAL: Mark current song as played BEFORE validation so it's included in validation
+  // This ensures that if a player calls bingo while a song is playing, that song counts
+  if (room.currentSong && room.currentSong.id) {
+    room.calledSongIds = Array.isArray(room.calledSongIds) ? room.calledSongIds : [];
+    if (!room.calledSongIds.includes(room.currentSong.id)) {
+      room.calledSongIds.push(room.currentSong.id);
+      logger.debug(`📝 BINGO CALL: Marked current song as played BEFORE validation: ${room.currentSong.name} (${room.currentSong.id})`);
+    } else {
+      logger.debug(`✅ BINGO CALL: Current song already in played list: ${room.currentSong.name} (${room.currentSong.id})`);
+    }
+  } else {
+    console.warn(`⚠️ BINGO CALL: No current song to mark as played! This could cause validation issues.`);
+  }
+  logger.log(
+    `Bingo: ${player.name} — ${(room.calledSongIds || []).length} call(s) on list, validating…`,
+    'bingo-call-summary',
+    20
+  );
+  
+  // Freeze the calls as they stand when the claim arrives; the host decides against this snapshot
+  const claimSnapshot = callSnapshotFor(room);
+  const validationResult = validateBingoForPattern(player.bingoCard, room, claimSnapshot.calledSongIds);
+
+  const hybridMode = !!room.hybridInPersonPlusOnline;
+  const isRemotePlayer = hybridMode && player.inPerson === false;
+
+  if (isRemotePlayer) {
+    if (validationResult.valid) {
+      player.hasBingo = true;
+      socket.emit('bingo-result', {
+        success: true,
+        hybridUnofficial: true,
+        message: 'You completed the pattern! (Online — the round continues until an in-person player wins.)',
+        awaitingVerification: false,
+        isWinner: false
+      });
+      io.to(roomId).emit('bingo-remote-unofficial', {
+        playerId: socket.id,
+        playerName: player.name,
+        patternType: validationResult.type || room.pattern,
+        timestamp: Date.now()
+      });
+      routineServerLog(`🌐 Remote hybrid bingo (unofficial) for ${player.name}`);
+    } else {
+      roomReport.recordRejectedClaim(room, {
+        playerId: socket.id,
+        playerName: player.name,
+        reason: validationResult.reason || 'Pattern not complete or invalid marks',
+        source: 'auto',
+        pattern: room.pattern || 'line',
+        card: room.bingoCards?.get(socket.id) || player.bingoCard,
+      });
+      socket.emit('bingo-result', {
+        success: false,
+        reason: validationResult.reason || 'Pattern not complete or invalid marks',
+        hybridUnofficial: true
+      });
+    }
+    return;
+  }
+
+  // Get winning pattern positions for verification display
+  const winningPatternPositions = getWinningPatternPositions(player.bingoCard, room, validationResult);
+  
+  if (validationResult.valid) {
+    // AUTO-PAUSE the game for host verification
+    if (room.gameState === 'playing') {
+      room.gameState = 'paused_for_verification';
+      clearRoomTimer(roomId);
+      
+      // Pause Spotify playback during verification
+      (async () => {
+        try {
+          const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
+          if (deviceId) {
+            await playbackFor(roomId).pause(deviceId);
+            routineServerLog(`⏸️ Spotify paused for bingo verification by ${player.name}`);
+          } else {
+            routineServerLog(`⚠️ No device ID available for pausing during bingo verification`);
+          }
+        } catch (error) {
+          routineServerLog(`⚠️ Failed to pause Spotify during bingo verification: ${error.message}`);
+        }
+      })();
+      
+      routineServerLog(`🛑 Game auto-paused for bingo verification by ${player.name}`);
+    }
+    
+    // Current song already added to calledSongIds before validation above
+    // No need to add it again here
+    
+    player.hasBingo = true;
+    const winnerData = { playerId: socket.id, playerName: player.name, timestamp: Date.now() };
+    room.winners.push(winnerData);
+    
+    // Send success to the caller
+    socket.emit('bingo-result', { 
+      success: true, 
+      message: 'BINGO! Waiting for host verification...',
+      isWinner: true,
+      totalWinners: room.winners.length,
+      awaitingVerification: true
+    });
+    
+    // Send detailed verification data to ALL HOSTS (in case host reconnected)
+    // Build actual played songs from calledSongIds with enhanced validation
+    const actuallyPlayedSongs = [];
+    const calledIds = claimSnapshot.calledSongIds;
+    const missingFromPlaylist = [];
+    
+    logger.debug(`🔍 BINGO VERIFICATION: Building played songs list from ${calledIds.length} called IDs`);
+    const idSample =
+      calledIds.length <= 12
+        ? calledIds.join(', ')
+        : `${calledIds.slice(0, 8).join(', ')} … +${calledIds.length - 8} more`;
+    logger.debug(`🔍 Called song IDs (sample): [${idSample}]`);
+    
+    for (const songId of calledIds) {
+      // Find the song in the playlist
+      const foundSong = room.playlistSongs?.find(s => s.id === songId);
+      if (foundSong) {
+        actuallyPlayedSongs.push({
+          id: foundSong.id,
+          name: foundSong.name,
+          artist: foundSong.artist
+        });
+      } else {
+        missingFromPlaylist.push(songId);
+        console.warn(`⚠️ Song ID ${songId} in calledSongIds but NOT found in room.playlistSongs`);
+      }
+    }
+    
+    logger.log(
+      `Bingo verify: ${actuallyPlayedSongs.length} resolved from playlist, ${missingFromPlaylist.length} id(s) missing (player ${player.name})`,
+      'bingo-verify-summary',
+      20
+    );
+    logger.debug(
+      `📊 VERIFICATION: first songs ${actuallyPlayedSongs.slice(0, 3).map(s => s.name).join('; ') || '—'} … (${actuallyPlayedSongs.length} total)`
+    );
+    if (missingFromPlaylist.length > 0) {
+      console.warn(`🚨 MISSING SONGS: [${missingFromPlaylist.join(', ')}] - This could indicate a data integrity issue`);
+    }
+    
+    // CRITICAL: Use room.bingoCards as source of truth (it's kept in sync with marks)
+    // Fallback to player.bingoCard if room card doesn't exist
+    const sourceCard = room.bingoCards?.get(socket.id) || player.bingoCard;
+    if (!sourceCard) {
+      console.error(`❌ No card found for player ${player.name} (${socket.id})`);
+      socket.emit('bingo-result', { success: false, reason: 'Card data not found' });
+      return;
+    }
+    
+    // Validate marked squares data using the source card
+    const markedSquares = sourceCard.squares.filter(s => s.marked);
+    const notPlayedMarks = markedSquares.filter(
+      (sq) => !actuallyPlayedSongs.some((p) => p.id === sq.songId) && !sq.isFreeSpace
+    );
+    logger.debug(`🔍 MARKED SQUARES: ${markedSquares.length} marked; ${notPlayedMarks.length} not in played list (non-free)`);
+    logger.debug(
+      `🔍 Card source: ${room.bingoCards?.get(socket.id) ? 'room.bingoCards' : 'player.bingoCard'}`
+    );
+    if (notPlayedMarks.length) {
+      logger.warn(
+        `⚠️ Bingo host verify: ${notPlayedMarks.length} marked square(s) not in playedSongs: ${notPlayedMarks
+          .slice(0, 5)
+          .map((s) => s.songId)
+          .join(', ')}${notPlayedMarks.length > 5 ? '…' : ''}`
+      );
+    }
+    const markedCount = sourceCard.squares.filter(s => s.marked).length;
+    logger.debug(
+      `🔍 Card: ${markedCount} marked / ${sourceCard.squares.length} sq; positions: ${sourceCard.squares
+        .filter((s) => s.marked)
+        .map((s) => s.position)
+        .join(', ')}`
+    );
+    
+    // Create a deep copy to ensure we're sending fresh data
+    const cardToSend = {
+      ...sourceCard,
+      squares: sourceCard.squares.map(s => ({
+        ...s,
+        marked: s.marked === true // Explicit boolean conversion
+      }))
+    };
+    
+    const verificationData = {
+      playerId: socket.id,
+      playerName: player.name,
+      playerCard: cardToSend, // Use the synchronized card with explicit marked properties
+      markedSquares: markedSquares,
+      requiredPattern: room.pattern,
+      customMask: room.pattern === 'custom' ? Array.from(room.customPattern || []) : null,
+      playedSongs: actuallyPlayedSongs, // Use the proper actually played songs
+      calledSongIds: [...calledIds],
+      claimSnapshot,
+      currentSongIndex: room.currentSongIndex || 0,
+      timestamp: Date.now(),
+      validationReason: validationResult.reason,
+      isValid: true,
+      markAudit: markAudit.auditSummary(room, markAudit.auditKey(player, socket.id)),
+      winningPatternPositions: winningPatternPositions, // Positions that form the winning pattern
+      winningPatternType: validationResult.type || room.pattern, // Type of winning pattern
+      detectedAt: autoBingo.detectionFor(room, socket.id)?.detectedAt ?? null,
+      autoClaimed: auto,
+      // Add debug info for troubleshooting
+      debugInfo: {
+        totalCalledIds: calledIds.length,
+        totalPlayedSongs: actuallyPlayedSongs.length,
+        totalMarkedSquares: markedSquares.length,
+        missingFromPlaylist: missingFromPlaylist.length,
+        cardMarkedCount: markedCount,
+        cardSource: room.bingoCards?.get(socket.id) ? 'room.bingoCards' : 'player.bingoCard'
+      }
+    };
+    
+    verificationQueue.enqueue(winnerPolicy.recordClaim(room, {
+      playerId: socket.id,
+      playerName: player.name,
+      verificationData,
+      detection: autoBingo.detectionFor(room, socket.id),
+    }));
+    emitVerificationQueue(roomId);
+    emitToCohosts(room, 'bingo-verification-needed', verificationData);
+    // Send to ALL hosts in the room (handles reconnection case)
+    let hostsFound = 0;
+    room.players.forEach((playerData, playerId) => {
+      if (playerData.isHost) {
+        const hostSocket = clientSocket(playerId);
+        if (hostSocket) {
+          hostSocket.emit('bingo-verification-needed', verificationData);
+          hostsFound++;
+          routineServerLog(`📤 Sent bingo verification to host: ${playerData.name} (${playerId})`);
+        } else {
+          console.warn(`⚠️ Host socket not found for ${playerData.name} (${playerId}) - may have disconnected`);
+        }
+      }
+    });
+    
+    // Fallback: Also try room.host if no hosts found via player list
+    if (hostsFound === 0 && room.host) {
+      const fallbackHostSocket = clientSocket(room.host);
+      if (fallbackHostSocket) {
+        fallbackHostSocket.emit('bingo-verification-needed', verificationData);
+        routineServerLog(`📤 Sent bingo verification to fallback host (${room.host})`);
+      } else {
+        console.error(`❌ CRITICAL: No host sockets found! Room host: ${room.host}, Hosts in players: ${Array.from(room.players.entries()).filter(([_, p]) => p.isHost).map(([id, p]) => `${p.name}(${id})`).join(', ')}`);
+        // Emit to room as last resort - host should still receive it
+        io.to(roomId).emit('bingo-verification-needed', verificationData);
+        routineServerLog(`📤 Emitted bingo verification to entire room as fallback`);
+      }
+    }
+    
+    // Notify all players about the bingo call (but not confirmed yet)
+    io.to(roomId).emit('bingo-verification-pending', { 
+      playerId: socket.id, 
+      playerName: player.name, 
+      awaitingVerification: true
+    });
+  } else {
+    // INVALID BINGO: Still send to host for verification (host can reject)
+    // This allows players to attempt bingo calls even with invalid marks
+    routineServerLog(`⚠️ Invalid bingo call from ${player.name}, but sending to host for verification`);
+    
+    // AUTO-PAUSE the game for host verification even if invalid
+    if (room.gameState === 'playing') {
+      room.gameState = 'paused_for_verification';
+      clearRoomTimer(roomId);
+      
+      // Pause Spotify playback during verification
+      (async () => {
+        try {
+          const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
+          if (deviceId) {
+            await playbackFor(roomId).pause(deviceId);
+            routineServerLog(`⏸️ Spotify paused for invalid bingo verification by ${player.name}`);
+          }
+        } catch (error) {
+          routineServerLog(`⚠️ Failed to pause Spotify during bingo verification: ${error.message}`);
+        }
+      })();
+      
+      routineServerLog(`🛑 Game auto-paused for invalid bingo verification by ${player.name}`);
+    }
+    
+    // Build played songs list
+    const actuallyPlayedSongs = [];
+    const calledIds = claimSnapshot.calledSongIds;
+    
+    for (const songId of calledIds) {
+      const foundSong = room.playlistSongs?.find(s => s.id === songId);
+      if (foundSong) {
+        actuallyPlayedSongs.push({
+          id: foundSong.id,
+          name: foundSong.name,
+          artist: foundSong.artist
+        });
+      }
+    }
+    
+    // Use room.bingoCards as source of truth
+    const sourceCard = room.bingoCards?.get(socket.id) || player.bingoCard;
+    if (!sourceCard) {
+      socket.emit('bingo-result', { success: false, reason: 'Card data not found' });
+      return;
+    }
+    
+    const markedSquares = sourceCard.squares.filter(s => s.marked);
+    const winningPatternPositions = getWinningPatternPositions(player.bingoCard, room, validationResult);
+    
+    const cardToSend = {
+      ...sourceCard,
+      squares: sourceCard.squares.map(s => ({
+        ...s,
+        marked: s.marked === true
+      }))
+    };
+    
+    const verificationData = {
+      playerId: socket.id,
+      playerName: player.name,
+      playerCard: cardToSend,
+      markedSquares: markedSquares,
+      requiredPattern: room.pattern,
+      customMask: room.pattern === 'custom' ? Array.from(room.customPattern || []) : null,
+      playedSongs: actuallyPlayedSongs,
+      calledSongIds: [...calledIds],
+      claimSnapshot,
+      currentSongIndex: room.currentSongIndex || 0,
+      timestamp: Date.now(),
+      validationReason: validationResult.reason || 'Invalid bingo pattern',
+      isValid: false, // Mark as invalid for host
+      markAudit: markAudit.auditSummary(room, markAudit.auditKey(player, socket.id)),
+      winningPatternPositions: winningPatternPositions,
+      winningPatternType: validationResult.type || room.pattern,
+      detectedAt: autoBingo.detectionFor(room, socket.id)?.detectedAt ?? null,
+      autoClaimed: auto
+    };
+    
+    verificationQueue.enqueue(winnerPolicy.recordClaim(room, {
+      playerId: socket.id,
+      playerName: player.name,
+      verificationData,
+      detection: autoBingo.detectionFor(room, socket.id),
+    }));
+    emitVerificationQueue(roomId);
+    emitToCohosts(room, 'bingo-verification-needed', verificationData);
+    // Send to ALL hosts even though validation failed
+    let hostsFound = 0;
+    room.players.forEach((playerData, playerId) => {
+      if (playerData.isHost) {
+        const hostSocket = clientSocket(playerId);
+        if (hostSocket) {
+          hostSocket.emit('bingo-verification-needed', verificationData);
+          hostsFound++;
+          routineServerLog(`📤 Sent invalid bingo verification to host: ${playerData.name} (${playerId})`);
+        }
+      }
+    });
+    
+    if (hostsFound === 0 && room.host) {
+      const fallbackHostSocket = clientSocket(room.host);
+      if (fallbackHostSocket) {
+        fallbackHostSocket.emit('bingo-verification-needed', verificationData);
+        routineServerLog(`📤 Sent invalid bingo verification to fallback host (${room.host})`);
+      } else {
+        io.to(roomId).emit('bingo-verification-needed', verificationData);
+        routineServerLog(`📤 Emitted invalid bingo verification to entire room as fallback`);
+      }
+    }
+    
+    // Notify player that bingo call was received (awaiting host verification)
+    socket.emit('bingo-result', { 
+      success: true, 
+      message: 'BINGO! Waiting for host verification...',
+      isWinner: false,
+      awaitingVerification: true,
+      isValid: false // Let player know validation failed but host will verify
+    });
+    
+    // Notify all players about the bingo call
+    io.to(roomId).emit('bingo-verification-pending', { 
+      playerId: socket.id, 
+      playerName: player.name, 
+      awaitingVerification: true
+    });
+  }
+}
+
+/**
+ * A claimant's card against the calls frozen when the claim arrived (what the decision stands on) and
+ * against the calls now, for disputes; null without a snapshot (claims recorded before this existed).
+ */
+function snapshotCheckFor(room, playerIds) {
+  const claim = room.claimWindow?.claims.find((c) => playerIds.includes(c.playerId));
+  const claimSnapshot = claim?.verificationData?.claimSnapshot;
+  const card = claimCardFor(room, playerIds[playerIds.length - 1]) || claimCardFor(room, playerIds[0]);
+  if (!claimSnapshot || !card || !Array.isArray(card.squares)) return null;
+  const approvalSnapshot = callSnapshotFor(room);
+  const atClaim = validateBingoForPattern(card, room, claimSnapshot.calledSongIds);
+  const atApproval = validateBingoForPattern(card, room, approvalSnapshot.calledSongIds);
+  const check = {
+    claimTime: { valid: !!atClaim.valid, reason: atClaim.reason || null, callCount: claimSnapshot.callCount, takenAt: claimSnapshot.takenAt },
+    approvalTime: { valid: !!atApproval.valid, reason: atApproval.reason || null, callCount: approvalSnapshot.callCount, takenAt: approvalSnapshot.takenAt },
+  };
+  claim.snapshotCheck = check;
+  return check;
+}
+
+/** Card a claimant is judged on: the synced room card, or the paper card as last checked. */
+function claimCardFor(room, playerId) {
+  if (paperCards.isPaperPlayerId(playerId)) return paperCards.paperPlayerFor(room, playerId)?.bingoCard || null;
+  return room.bingoCards?.get(playerId) || room.players.get(playerId)?.bingoCard || null;
+}
+
+/**
+ * Winning card + pattern positions for the public display modal and the results report; `calledSongIds`
+ * is the claim's frozen call sequence when there is one.
+ */
+function winningCardFor(room, playerId, calledSongIds = null) {
+  const sourceCard = claimCardFor(room, playerId);
+  if (!sourceCard || !Array.isArray(sourceCard.squares)) return { card: null, positions: [] };
+  const validationResult = validateBingoForPattern(sourceCard, room, calledSongIds);
+  let positions = getWinningPatternPositions(sourceCard, room, validationResult, calledSongIds);
+  if (!positions.length) {
+    positions = sourceCard.squares.filter((s) => s.marked).map((s) => s.position);
+  }
+  return {
+    card: {
+      size: sourceCard.size || 5,
+      squares: sourceCard.squares.map((s) => ({
+        position: s.position,
+        songId: s.songId,
+        songName: s.songName,
+        customSongName: s.customSongName,
+        artistName: s.artistName,
+        marked: !!s.marked,
+        isFreeSpace: !!s.isFreeSpace,
+      })),
+    },
+    positions,
+  };
+}
+
+/** Clip replays waiting to put the current song back, roomId → timeout (kept off the room so snapshots stay JSON). */
+const clipReplayTimers = new Map();
+
+/**
+ * Play callHistory.CLIP_MS of a called song on the room's device from where its snippet started, then
+ * put the current song back, paused, so resuming the game carries on with it. Refused while songs are
+ * being called. Returns { ok, message }.
+ */
+async function replayCallClip(roomId, songId) {
+  const room = rooms.get(roomId);
+  if (!room) return { ok: false, message: 'Room not found.' };
+  if (room.gameState === 'playing') return { ok: false, message: 'Pause the game before replaying a clip.' };
+  const call = callHistory.findCall(room, songId);
+  const index = (room.playlistSongs || []).findIndex((s) => s.id === songId);
+  if (!call || index < 0) return { ok: false, message: 'That song has not been called this round.' };
+  const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
+  if (!deviceId) return { ok: false, message: 'No playback device is selected.' };
+  const song = room.playlistSongs[index];
+  clearTimeout(clipReplayTimers.get(roomId));
+  await playbackFor(roomId).playTrack({ deviceId, song, index, startMs: call.startMs || 0 }, { attempts: 2 });
+  clipReplayTimers.set(roomId, setTimeout(() => {
+    clipReplayTimers.delete(roomId);
+    void restoreAfterClip(roomId, deviceId);
+  }, callHistory.CLIP_MS));
+  routineServerLog(`🔁 Replaying call #${call.order} (${song.name}) for a dispute in room ${roomId}`);
+  return { ok: true, message: `Replaying ${callHistory.CLIP_MS / 1000}s of ${song.name}` };
+}
+
+async function restoreAfterClip(roomId, deviceId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const playback = playbackFor(roomId);
+  try {
+    const index = room.currentSong ? (room.playlistSongs || []).findIndex((s) => s.id === room.currentSong.id) : -1;
+    if (index >= 0) {
+      await playback.playTrack({
+        deviceId,
+        song: room.playlistSongs[index],
+        index,
+        startMs: room.currentSongStartMs || 0,
+        queueId: room.temporaryPlaylistId || null,
+      });
+    }
+    // The host may have resumed during the clip; then the current song just plays on
+    if (room.gameState !== 'playing') await playback.pause(deviceId);
+  } catch (error) {
+    routineServerLog(`⚠️ Could not restore playback after a clip replay: ${error.message}`);
+  }
+}
+
+/** Pause playback while the host decides (verification, round over). */
+function pausePlaybackForRoom(roomId, label) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  (async () => {
+    try {
+      const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
+      if (deviceId) {
+        await playbackFor(roomId).pause(deviceId);
+        routineServerLog(`⏸️ Playback paused - ${label}`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to pause playback (${label}): ${error.message}`);
+    }
+  })();
+}
+
+/** Back to 'playing' after a verification pause: resume the track, then the progression timer. */
+function resumeAfterVerification(roomId, reason) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState !== 'paused_for_verification') return;
+  room.gameState = 'playing';
+  (async () => {
+    try {
+      const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
+      if (deviceId) {
+        await playbackFor(roomId).resume(deviceId);
+        routineServerLog(`▶️ Playback resumed (${reason})`);
+      } else {
+        routineServerLog(`⚠️ No device ID available for resuming (${reason})`);
+      }
+      // Now start the progression timer for the remainder of the current song
+      startSimpleProgression(roomId, room.selectedDeviceId, room.snippetLength || 30);
+    } catch (error) {
+      routineServerLog(`⚠️ Failed to resume playback (${reason}): ${error.message}`);
+      // Still start progression timer as fallback
+      startSimpleProgression(roomId, room.selectedDeviceId, room.snippetLength || 30);
+    }
+  })();
+  io.to(roomId).emit('game-resumed', { reason });
+}
+
+/**
+ * Close the round with its verified winners (several only for a split prize); in a progressive round
+ * every stage but the last moves on to the next pattern instead. `tiebreak` records how a tie was
+ * settled, for the report; its entrants who did not win are told so.
+ */
+function completeRound(roomId, winners, { policy = 'first', tiebreak = null } = {}) {
+  const room = rooms.get(roomId);
+  if (!room || !winners.length) return;
+  // Winners are judged on the calls frozen with their claim (none after a sudden death)
+  const claimSnapshots = new Map(
+    (room.claimWindow?.claims || []).map((c) => [c.playerId, c.verificationData?.claimSnapshot || null])
+  );
+  winnerPolicy.resetRoundClaims(room);
+  const displayName = winners.map((w) => w.playerName).join(' & ');
+  const withCards = winners.map((w) => {
+    const claimSnapshot = claimSnapshots.get(w.playerId) || null;
+    return { ...w, claimSnapshot, ...winningCardFor(room, w.playerId, claimSnapshot?.calledSongIds) };
+  });
+
+  withCards.forEach((w) => {
+    const others = winners.filter((o) => o.playerId !== w.playerId).map((o) => o.playerName);
+    // Notify the winner (use resolved socket id — may differ after player reconnect)
+    io.to(w.playerId).emit('bingo-result', {
+      success: true,
+      message: others.length ? `BINGO CONFIRMED! You share the prize with ${others.join(' & ')}!` : 'BINGO CONFIRMED! You win!',
+      isWinner: true,
+      verified: true
+    });
+    io.to(roomId).emit('bingo-confirmed', { playerId: w.playerId, playerName: w.playerName, verified: true });
+  });
+  if (tiebreak && Array.isArray(tiebreak.entrants)) {
+    tiebreak.entrants
+      .filter((c) => !winners.some((w) => w.playerId === c.playerId))
+      .forEach((c) => io.to(c.playerId).emit('bingo-result', { success: false, reason: `${displayName} won the tie-break` }));
+  }
+
+  // NOW emit the actual winner event for public display
+  const [primary] = withCards;
+  const stage = patternStages.currentStage(room);
+  io.to(roomId).emit('bingo-called', {
+    playerId: primary.playerId,
+    playerName: displayName,
+    winners: room.winners,
+    totalWinners: room.winners.length,
+    isFirstWinner: room.winners.length === 1,
+    awaitingVerification: false,
+    verified: true,
+    pattern: room.pattern || 'line',
+    winningCard: primary.card,
+    winningPositions: primary.positions,
+    coWinners: winners.length > 1 ? winners.map(({ playerId, playerName }) => ({ playerId, playerName })) : undefined,
+    winnerPolicy: policy,
+    stage: stage ? { index: stage.index, total: stage.total } : undefined,
+  });
+
+  leaderboard.awardWinners(room, winners, { roundNumber: roomReport.currentRoundNumber(room) });
+
+  // Progressive round: an earlier stage's prize moves play on to the next pattern
+  if (patternStages.hasNextStage(room)) {
+    advancePatternStage(roomId, withCards, { policy, tiebreak, stage });
+    return;
+  }
+
+  // PAUSE GAME for host to decide: next round or end completely
+  room.gameState = 'round_complete';
+  clearRoomTimer(roomId);
+  clearPlaybackWatcher(roomId);
+  pausePlaybackForRoom(roomId, 'round complete');
+  routineServerLog(`🏁 Round complete - ${displayName} ${winners.length > 1 ? 'share the prize' : 'wins'}! Waiting for host decision...`);
+
+  // Store round winner
+  if (!room.roundWinners) room.roundWinners = [];
+  const roundNumber = room.roundWinners.length + 1;
+  room.roundWinners.push({
+    roundNumber,
+    playerName: displayName,
+    playerId: primary.playerId,
+    winners: winners.map(({ playerId, playerName }) => ({ playerId, playerName })),
+    winnerPolicy: policy,
+    tiebreak,
+    stages: patternStages.completedStages(room, winners),
+    timestamp: new Date().toISOString()
+  });
+  withCards.forEach((w) => {
+    roomReport.recordWinner(room, {
+      roundNumber,
+      playerId: w.playerId,
+      playerName: w.playerName,
+      pattern: room.pattern || 'line',
+      customMask: room.pattern === 'custom' ? Array.from(room.customPattern || []) : null,
+      card: w.card,
+      winningPositions: w.positions,
+      callCount: w.claimSnapshot?.callCount,
+      winnerPolicy: policy,
+      sharedWith: winners.filter((o) => o.playerId !== w.playerId).map((o) => o.playerName),
+      tiebreak,
+      stage,
+    });
+  });
+  const nearMisses = leaderboard.awardNearMisses(room, {
+    roundNumber,
+    winnerIds: winners.map((w) => w.playerId),
+    cardFor: (playerId) => claimCardFor(room, playerId),
+    squaresToGo: (card) => patternProgress.squaresToGoInRoom(card, room),
+  });
+  if (nearMisses.length) routineServerLog(`🏅 One away in round ${roundNumber}: ${nearMisses.join(', ')}`);
+  void recordProfileRounds(room, roundNumber);
+  io.to(roomId).emit('leaderboard-updated', leaderboard.leaderboardPayload(room, roomId));
+
+  // Notify ALL hosts with next round options (not just the approving host)
+  const message = `Round ${roundNumber} complete - ${displayName} ${winners.length > 1 ? 'share the prize' : 'wins'}!`;
+  emitToHosts(roomId, 'bingo-verified', {
+    approved: true,
+    playerName: displayName,
+    gameEnded: false,
+    roundComplete: true,
+    roundNumber,
+    message,
+    winnerPolicy: policy,
+    options: {
+      nextRound: true,
+      endGame: true,
+      changePattern: true,
+      changePlaylists: true
+    }
+  });
+
+  // Notify all clients that round is complete (not game ended)
+  io.to(roomId).emit('round-complete', {
+    roomId,
+    winner: displayName,
+    roundNumber,
+    roundWinners: room.roundWinners,
+    message: `Round ${roundNumber} complete! Waiting for next round...`
+  });
+  persistRoomState(roomId, 'bingo-approved');
+}
+
+/** Stage-win celebrations waiting to resume calling, roomId → timeout (kept off the room so snapshots stay JSON). */
+const stageCelebrationTimers = new Map();
+
+function clearStageCelebration(roomId) {
+  clearTimeout(stageCelebrationTimers.get(roomId));
+  stageCelebrationTimers.delete(roomId);
+}
+
+/**
+ * A progressive round's stage was won: record it, switch everyone to the next pattern (same cards, same
+ * marks) and resume calling once the public display has shown the winner.
+ */
+function advancePatternStage(roomId, winners, { policy, tiebreak, stage }) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const displayName = winners.map((w) => w.playerName).join(' & ');
+  const roundNumber = (room.roundWinners?.length || 0) + 1;
+  winners.forEach((w) => {
+    roomReport.recordWinner(room, {
+      roundNumber,
+      playerId: w.playerId,
+      playerName: w.playerName,
+      pattern: room.pattern || 'line',
+      customMask: room.pattern === 'custom' ? Array.from(room.customPattern || []) : null,
+      card: w.card,
+      winningPositions: w.positions,
+      callCount: w.claimSnapshot?.callCount,
+      winnerPolicy: policy,
+      sharedWith: winners.filter((o) => o.playerId !== w.playerId).map((o) => o.playerName),
+      tiebreak,
+      stage,
+    });
+  });
+
+  const ladder = room.patternStages;
+  const next = patternStages.advanceStage(room, winners);
+  // Everyone plays on for the next prize, stage winners included
+  room.winners = [];
+  room.players.forEach((p) => {
+    p.hasBingo = false;
+    p.patternComplete = false;
+  });
+  room.gameState = 'paused_for_verification';
+  clearRoomTimer(roomId);
+  clearPlaybackWatcher(roomId);
+  pausePlaybackForRoom(roomId, 'stage won');
+
+  io.to(roomId).emit('pattern-updated', { pattern: room.pattern, customMask: Array.from(room.customPattern || []) });
+  io.to(roomId).emit('pattern-stage-changed', patternStages.stagePayload(room, roomId));
+  io.to(roomId).emit('leaderboard-updated', leaderboard.leaderboardPayload(room, roomId));
+  const nextLabel = next.pattern.replace(/_/g, ' ');
+  emitToHosts(roomId, 'bingo-verified', {
+    approved: true,
+    playerName: displayName,
+    roundComplete: false,
+    stageComplete: true,
+    winnerPolicy: policy,
+    message: `Stage ${stage.index + 1} of ${stage.total} won by ${displayName} - next prize: ${nextLabel}`
+  });
+  routineServerLog(`🪜 Stage ${stage.index + 1}/${stage.total} won by ${displayName}; next pattern ${room.pattern}`);
+  persistRoomState(roomId, 'pattern-stage');
+
+  clearStageCelebration(roomId);
+  stageCelebrationTimers.set(roomId, setTimeout(() => {
+    stageCelebrationTimers.delete(roomId);
+    const current = rooms.get(roomId);
+    // A new claim or a tie-break since then owns the pause
+    if (!current || current.patternStages !== ladder || current.tiebreak || winnerPolicy.pendingClaims(current).length) return;
+    resumeAfterVerification(roomId, `Next prize: ${nextLabel}`);
+  }, patternStages.STAGE_CELEBRATION_MS));
+}
+
+/**
+ * Act on winnerPolicy.decideRound after the host settled a claim: finish the round, show the next claim
+ * on this song, or start a tie-break. Returns false for 'resume' so the caller plays on.
+ */
+function applyRoundDecision(roomId, decision) {
+  const room = rooms.get(roomId);
+  if (!room) return true;
+  const policy = room.claimWindow?.policy || 'first';
+  if (decision.action === 'complete') {
+    completeRound(roomId, decision.winners, { policy });
+    return true;
+  }
+  if (decision.action === 'wait') {
+    const next = verificationQueue.head(room);
+    if (next && next.verificationData) emitToHosts(roomId, 'bingo-verification-needed', next.verificationData);
+    return true;
+  }
+  if (decision.action === 'draw' || decision.action === 'sudden_death') {
+    startTiebreak(roomId, decision.action, decision.candidates);
+    return true;
+  }
+  winnerPolicy.closeClaimWindow(room);
+  return false;
+}
+
+function startTiebreak(roomId, mode, candidates) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  const names = candidates.map((c) => c.playerName).join(', ');
+  winnerPolicy.closeClaimWindow(room);
+  candidates.forEach((c) => io.to(c.playerId).emit('bingo-result', {
+    success: true,
+    message: mode === 'draw' ? 'Tie! A random draw decides the winner…' : 'Tie! Sudden death — the next song decides.',
+    isWinner: false,
+    awaitingVerification: false
+  }));
+
+  if (mode === 'draw') {
+    const tiebreak = { mode: 'draw', candidates, entrants: candidates, startedAt: Date.now() };
+    room.tiebreak = tiebreak;
+    io.to(roomId).emit('round-tiebreak', { roomId, mode: 'draw', phase: 'started', candidates });
+    emitToHosts(roomId, 'bingo-verified', {
+      approved: true,
+      playerName: names,
+      roundComplete: false,
+      tiebreak: { mode: 'draw', candidates },
+      message: `Tie between ${names} — drawing a winner`
+    });
+    routineServerLog(`🎲 Tie-break draw between ${names}`);
+    setTimeout(() => {
+      const current = rooms.get(roomId);
+      if (!current || current.tiebreak !== tiebreak) return;
+      const winner = winnerPolicy.drawWinner(candidates);
+      io.to(roomId).emit('round-tiebreak', { roomId, mode: 'draw', phase: 'resolved', candidates, winnerName: winner.playerName });
+      completeRound(roomId, [winner], { policy: 'tiebreak_draw', tiebreak: { mode: 'draw', entrants: candidates, drawn: true } });
+    }, winnerPolicy.DRAW_REVEAL_MS);
+    return;
+  }
+
+  const tiebreak = winnerPolicy.startSuddenDeath(room, candidates);
+  io.to(roomId).emit('round-tiebreak', {
+    roomId,
+    mode: 'sudden_death',
+    phase: 'started',
+    candidates: tiebreak.candidates,
+    songsPlayed: 0,
+    maxSongs: tiebreak.maxSongs
+  });
+  emitToHosts(roomId, 'bingo-verified', {
+    approved: true,
+    playerName: names,
+    roundComplete: false,
+    tiebreak: { mode: 'sudden_death', candidates: tiebreak.candidates },
+    message: `Tie between ${names} — sudden death, the next song decides`
+  });
+  routineServerLog(`⚔️ Sudden-death tie-break between ${names}`);
+  // The current song already counted for the tie; move on to the deciding call
+  if (room.gameState === 'paused_for_verification') {
+    room.gameState = 'playing';
+    io.to(roomId).emit('game-resumed', { reason: 'Sudden-death tie-break' });
+    playNextSongSimple(roomId, room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id).catch((e) =>
+      console.error('❌ Error starting sudden-death song:', e?.message || e)
+    );
+  }
+}
+
+/** After each call during a sudden death: settle, narrow the field, or keep calling. */
+function applySuddenDeathCall(roomId, songId) {
+  const room = rooms.get(roomId);
+  if (!room || !room.tiebreak || room.tiebreak.mode !== 'sudden_death') return;
+  const entrants = room.tiebreak.entrants || room.tiebreak.candidates;
+  const outcome = winnerPolicy.resolveSuddenDeathCall(room, songId, (playerId) => claimCardFor(room, playerId));
+  if (!outcome) return;
+  const { candidates, songsPlayed, maxSongs } = room.tiebreak;
+  if (outcome.phase === 'resolved') {
+    io.to(roomId).emit('round-tiebreak', {
+      roomId,
+      mode: 'sudden_death',
+      phase: 'resolved',
+      candidates,
+      winnerName: outcome.winner.playerName,
+      songsPlayed,
+      maxSongs
+    });
+    completeRound(roomId, [outcome.winner], {
+      policy: 'tiebreak_song',
+      tiebreak: { mode: 'sudden_death', entrants, songsPlayed, drawn: outcome.drawn }
+    });
+    return;
+  }
+  io.to(roomId).emit('round-tiebreak', { roomId, mode: 'sudden_death', phase: outcome.phase, candidates, songsPlayed, maxSongs });
+}
+
+// Helper function to send real-time player card updates to host
+// Debounce timers for player card updates (one per room)
+const playerCardUpdateTimers = new Map();
+
+function sendPlayerCardUpdates(roomId, immediate = false) {
+  try {
+    const room = rooms.get(roomId);
+    if (!room || !room.bingoCards) return;
+    
+    // If immediate flag is set (e.g., game start/end), send right away
+    if (immediate) {
+      clearPlayerCardUpdateTimer(roomId);
+      sendPlayerCardUpdatesNow(roomId);
+      return;
+    }
+    
+    // Debounce: clear existing timer and set new one
+    clearPlayerCardUpdateTimer(roomId);
+    const timerId = setTimeout(() => {
+      sendPlayerCardUpdatesNow(roomId);
+      playerCardUpdateTimers.delete(roomId);
+    }, 120); // debounce for batched updates (marks use immediate path)
+    playerCardUpdateTimers.set(roomId, timerId);
+  } catch (e) {
+    console.error('❌ Error scheduling player card updates:', e?.message || e);
+  }
+}
+
+function clearPlayerCardUpdateTimer(roomId) {
+  const timerId = playerCardUpdateTimers.get(roomId);
+  if (timerId) {
+    clearTimeout(timerId);
+    playerCardUpdateTimers.delete(roomId);
+  }
+}
+
+/** Distance to the pattern for every player card (hosts and the public display excluded). */
+function cardProgressForRoom(room) {
+  const progress = new Map();
+  if (!room.bingoCards) return progress;
+  const shapes = patternProgress.shapesForRoom(room);
+  const called = patternProgress.calledSetForRoom(room);
+  room.bingoCards.forEach((card, playerId) => {
+    const player = room.players.get(playerId);
+    if (!player || !card || player.isHost || player.name === 'Display') return;
+    const p = patternProgress.cardProgress(card, shapes, called);
+    if (p) progress.set(playerId, p);
+  });
+  return progress;
+}
+
+/**
+ * Push near-win changes: `card-progress` to each player whose distance or missing squares changed, and
+ * the room-wide `near-win-summary` when the counts change. Last-sent keys live on `room.nearWins`.
+ */
+function emitNearWins(roomId, room, progress) {
+  const previous = room.nearWins && room.nearWins.byPlayer instanceof Map ? room.nearWins.byPlayer : new Map();
+  const byPlayer = new Map();
+  let oneAway = 0;
+  let twoAway = 0;
+  for (const [playerId, p] of progress) {
+    if (p.squaresToGo === 1) oneAway++;
+    else if (p.squaresToGo === 2) twoAway++;
+    const key = `${p.squaresToGo}:${p.missing.join(',')}`;
+    byPlayer.set(playerId, key);
+    if (previous.get(playerId) !== key) {
+      io.to(playerId).emit('card-progress', { roomId, squaresToGo: p.squaresToGo, missing: p.missing });
+    }
+  }
+  const summaryKey = `${oneAway}:${twoAway}:${progress.size}`;
+  if (!room.nearWins || room.nearWins.summaryKey !== summaryKey) {
+    io.to(roomId).emit('near-win-summary', { roomId, oneAway, twoAway, cards: progress.size });
+  }
+  room.nearWins = { summaryKey, byPlayer };
+}
+
+/** Pending automatic claims, `${roomId}:${playerId}` → timeout (kept off the room so snapshots stay JSON). */
+const autoClaimTimers = new Map();
+
+function clearAutoClaimTimer(roomId, playerId) {
+  const key = `${roomId}:${playerId}`;
+  const timerId = autoClaimTimers.get(key);
+  if (timerId) {
+    clearTimeout(timerId);
+    autoClaimTimers.delete(key);
+  }
+}
+
+/**
+ * Record cards that just reached bingo; during play, nudge those players and (auto mode) claim for
+ * them when the grace period ends without a claim.
+ */
+function handleBingoDetections(roomId, room, progress) {
+  const detected = autoBingo.updateDetections(room, progress, {
+    songId: room.currentSong?.id || null,
+    callIndex: patternProgress.calledSetForRoom(room).size,
+  });
+  const inPlay = room.gameState === 'playing' || room.gameState === 'paused_for_verification';
+  const { mode, graceSeconds } = autoBingo.settingsFor(room);
+  for (const detection of detected) {
+    const player = room.players.get(detection.playerId);
+    routineServerLog(`🎯 Bingo detected for ${player?.name || detection.playerId} in room ${roomId}`);
+    if (!inPlay || mode === 'off' || !player || player.hasBingo) continue;
+    const autoClaimAt = mode === 'auto' ? detection.detectedAt + graceSeconds * 1000 : null;
+    io.to(detection.playerId).emit('bingo-detected', { roomId, detectedAt: detection.detectedAt, autoClaimAt });
+    if (mode !== 'auto') continue;
+    clearAutoClaimTimer(roomId, detection.playerId);
+    autoClaimTimers.set(
+      `${roomId}:${detection.playerId}`,
+      setTimeout(() => autoClaimBingo(roomId, detection.playerId), graceSeconds * 1000)
+    );
+  }
+}
+
+/** Grace period over: claim for the player if the card still has bingo and nobody decided the round. */
+function autoClaimBingo(roomId, playerId) {
+  autoClaimTimers.delete(`${roomId}:${playerId}`);
+  try {
+    const room = rooms.get(roomId);
+    const socket = clientSocket(playerId);
+    const player = room?.players.get(playerId);
+    if (!room || !socket || !player || player.hasBingo || room.tiebreak) return;
+    if (room.gameState !== 'playing' && room.gameState !== 'paused_for_verification') return;
+    if (!autoBingo.detectionFor(room, playerId)) return;
+    const card = room.bingoCards?.get(playerId) || player.bingoCard;
+    for (const sq of autoBingo.daubCalledSquares(card, patternProgress.calledSetForRoom(room))) {
+      socket.emit('mark-confirmed', { position: sq.position, songId: sq.songId, marked: true });
+    }
+    sendPlayerCardUpdates(roomId);
+    routineServerLog(`🤖 Auto-claiming bingo for ${player.name} in room ${roomId}`);
+    submitBingoClaim(socket, { roomId }, { auto: true });
+  } catch (e) {
+    console.error('❌ Error auto-claiming bingo:', e?.message || e);
+  }
+}
+
+/** Send hosts what changed on the player cards since the last version (playerCardSync). */
+function sendPlayerCardUpdatesNow(roomId) {
+  try {
+    const room = rooms.get(roomId);
+    if (!room || !room.bingoCards) return;
+
+    const progress = cardProgressForRoom(room);
+    emitNearWins(roomId, room, progress);
+    handleBingoDetections(roomId, room, progress);
+
+    const delta = playerCardSync.takeDelta(roomId, room, progress);
+    if (!delta) return;
+    emitToHosts(roomId, 'player-cards-delta', delta);
+    routineServerLog(
+      `📋 Real-time update: player cards v${delta.version} to host(s) in room ${roomId}` +
+        ` (${delta.marks?.length || 0} marks, ${delta.calls?.length || 0} calls, ${Object.keys(delta.cards || {}).length} cards)`
+    );
   } catch (e) {
     console.error('❌ Error sending real-time player card updates:', e?.message || e);
   }
 }
 
+/** Full player-card snapshot for one host socket, after flushing pending changes to every host. */
+function emitPlayerCardSnapshot(socket, roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  clearPlayerCardUpdateTimer(roomId);
+  sendPlayerCardUpdatesNow(roomId);
+  const payload = playerCardSync.snapshot(roomId, room);
+  socket.emit('player-cards-snapshot', payload);
+  routineServerLog(`📋 Sent ${Object.keys(payload.cards).length} player cards (v${payload.version}) to host in room ${roomId}`);
+}
+
 function checkBingo(card) {
   // Check rows
   for (let row = 0; row < 5; row++) {
@@ -5923,14 +7169,34 @@ function validateBingoCardGrid(card) {
   return seen.size === 25;
 }
 
-function validateBingoForPattern(card, room) {
+/**
+ * The call sequence right now: every called song plus the one playing. A bingo claim freezes this when
+ * it arrives (`claimSnapshot`), so verification does not depend on how far playback moved before the host decided.
+ */
+function callSnapshotFor(room) {
+  const calledSongIds = Array.isArray(room?.calledSongIds) ? [...room.calledSongIds] : [];
+  const currentSongId = room?.currentSong?.id || null;
+  if (currentSongId && !calledSongIds.includes(currentSongId)) calledSongIds.push(currentSongId);
+  return {
+    calledSongIds,
+    callCount: calledSongIds.length,
+    currentSongId,
+    currentSongName: room?.currentSong?.name || null,
+    takenAt: Date.now(),
+  };
+}
+
+/** `calledSongIds` validates against a frozen call sequence (a claim's snapshot) instead of the room's live one. */
+function validateBingoForPattern(card, room, calledSongIds = null) {
   const pattern = room?.pattern || 'line';
   // Make a copy to avoid race conditions during validation
-  const playedSongIds = Array.isArray(room?.calledSongIds) ? [...room.calledSongIds] : [];
+  const playedSongIds = Array.isArray(calledSongIds)
+    ? [...calledSongIds]
+    : Array.isArray(room?.calledSongIds) ? [...room.calledSongIds] : [];
   
   // CRITICAL: Always include current song if it exists (defensive programming against race conditions)
   // This ensures validation works even if current song hasn't been added to calledSongIds yet
-  if (room?.currentSong?.id && !playedSongIds.includes(room.currentSong.id)) {
+  if (!calledSongIds && room?.currentSong?.id && !playedSongIds.includes(room.currentSong.id)) {
     playedSongIds.push(room.currentSong.id);
     logger.debug(`🎯 Added current song to validation list: ${room.currentSong.name} (${room.currentSong.id})`);
   }
@@ -6121,13 +7387,16 @@ function validateBingoForPattern(card, room) {
   }
 }
 
-// Helper function to get winning pattern positions for verification display
-function getWinningPatternPositions(card, room, validationResult) {
+// Helper function to get winning pattern positions for verification display;
+// `calledSongIds` is a claim's frozen call sequence, used instead of the room's live one
+function getWinningPatternPositions(card, room, validationResult, calledSongIds = null) {
   const pattern = room?.pattern || 'line';
-  const playedSongIds = Array.isArray(room?.calledSongIds) ? [...room.calledSongIds] : [];
+  const playedSongIds = Array.isArray(calledSongIds)
+    ? [...calledSongIds]
+    : Array.isArray(room?.calledSongIds) ? [...room.calledSongIds] : [];
   
-  // Include current song if it exists
-  if (room?.currentSong?.id && !playedSongIds.includes(room.currentSong.id)) {
+  // Include current song if it exists (not for a frozen sequence)
+  if (!calledSongIds && room?.currentSong?.id && !playedSongIds.includes(room.currentSong.id)) {
     playedSongIds.push(room.currentSong.id);
   }
   
@@ -6217,10 +7486,73 @@ app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', message: 'TEMPO - Music Bingo Server Running' });
 });
 
-app.get('/api/rooms', (req, res) => {
-  try {
-    const list = Array.from(rooms.values()).map((room) => ({
+/**
+ * Room access over REST: the global admin (TEMPO_ADMIN_EMAILS / X-Admin-Secret) sees every room, org
+ * admins the rooms of hosts in their organization, other hosts only the rooms they own.
+ * Sends 401/403 like requireApprovedHostUid and returns null when nobody usable is signed in.
+ */
+async function roomAccessForRequest(req, res) {
+  if (await isGlobalAdminRequest(req)) {
+    return { uid: hostAuth.getHostUserIdFromRequest(req), globalAdmin: true, organizationId: null, orgAdmin: false };
+  }
+  const uid = await requireApprovedHostUid(req, res);
+  if (!uid) return null;
+  const me = (await organizationsStore.getHostSummaries(db, [uid])).get(Number(uid));
+  return {
+    uid: Number(uid),
+    globalAdmin: false,
+    organizationId: me ? me.organizationId : null,
+    orgAdmin: !!me && me.orgRole === 'admin' && me.organizationId != null,
+  };
+}
+
+/** `owner` is the room owner's getHostSummaries entry (undefined without a database). */
+function canAccessRoom(access, room, owner) {
+  if (access.globalAdmin) return true;
+  if (room.ownerUserId != null && Number(room.ownerUserId) === Number(access.uid)) return true;
+  return access.orgAdmin && !!owner && owner.organizationId === access.organizationId;
+}
+
+async function roomOwnerSummaries(roomList) {
+  return organizationsStore.getHostSummaries(
+    db,
+    roomList.filter((r) => r.ownerUserId != null).map((r) => r.ownerUserId)
+  );
+}
+
+function roomOwnerFields(room, owner) {
+  return {
+    ownerUserId: room.ownerUserId == null ? null : Number(room.ownerUserId),
+    ownerName: owner ? owner.displayName || owner.email || null : null,
+    organizationId: owner ? owner.organizationId : null,
+    organizationName: owner ? owner.organizationName : null,
+  };
+}
+
+/** Room from `:roomId` that the caller may manage; sends 404/403 and returns null otherwise. */
+async function accessibleRoomForRequest(req, res) {
+  const access = await roomAccessForRequest(req, res);
+  if (!access) return null;
+  const room = rooms.get(req.params.roomId);
+  if (!room) {
+    res.status(404).json({ error: 'Room not found' });
+    return null;
+  }
+  const owner = (await roomOwnerSummaries([room])).get(Number(room.ownerUserId));
+  if (!canAccessRoom(access, room, owner)) {
+    res.status(403).json({ error: 'room_access_denied', message: 'This room belongs to another host.' });
+    return null;
+  }
+  return { room, access, owner };
+}
+
+/** Listing entries for the rooms this instance holds; archived rooms are hidden from the listing. */
+function localRoomListEntries() {
+  return Array.from(rooms.values())
+    .filter((room) => !room.archived)
+    .map((room) => ({
       id: room.id,
+      ownerUserId: room.ownerUserId,
       playerCount: getNonHostPlayerCount(room),
       gameState: room.gameState,
       pattern: room.pattern || 'line',
@@ -6228,45 +7560,475 @@ app.get('/api/rooms', (req, res) => {
       mixFinalized: !!room.mixFinalized,
       currentSong: room.currentSong
         ? { id: room.currentSong.id, name: room.currentSong.name, artist: room.currentSong.artist }
-        : null
+        : null,
     }));
-    // Filter archived rooms from the response
-    const active = list.filter(r => !rooms.get(r.id)?.archived);
-    res.json({ rooms: active });
+}
+
+app.get('/api/rooms', async (req, res) => {
+  try {
+    const access = await roomAccessForRequest(req, res);
+    if (!access) return;
+    const remote = await askOtherInstances('tempo:list-rooms');
+    const active = [...localRoomListEntries(), ...remote.flat().filter((entry) => entry && entry.id)];
+    const owners = await roomOwnerSummaries(active);
+    const list = active
+      .filter((entry) => canAccessRoom(access, entry, owners.get(Number(entry.ownerUserId))))
+      .map((entry) => ({ ...entry, ...roomOwnerFields(entry, owners.get(Number(entry.ownerUserId))) }));
+    res.json({ rooms: list, scope: access.globalAdmin ? 'all' : access.orgAdmin ? 'organization' : 'own' });
   } catch (e) {
+    console.error('❌ Error listing rooms:', e?.message || e);
     res.status(500).json({ error: 'Failed to list rooms' });
   }
 });
 
-app.get('/api/rooms/:roomId', (req, res) => {
-  const room = rooms.get(req.params.roomId);
-  if (room) {
+/** Anyone (public display, join screens) gets `{ id, playerCount }`; hosts with access get the details. */
+app.get('/api/rooms/:roomId', async (req, res) => {
+  try {
+    const room = rooms.get(req.params.roomId);
+    if (!room) return res.status(404).json({ error: 'Room not found' });
+    const summary = { id: room.id, playerCount: getNonHostPlayerCount(room) };
+    const signedIn = hostAuth.getHostUserIdFromRequest(req) != null || verifyAdminSecret(req);
+    if (!signedIn) return res.json(summary);
+    const access = await roomAccessForRequest(req, res);
+    if (!access) return;
+    const owner = (await roomOwnerSummaries([room])).get(Number(room.ownerUserId));
+    if (!canAccessRoom(access, room, owner)) return res.json(summary);
     res.json({
-      id: room.id,
-      playerCount: getNonHostPlayerCount(room),
+      ...summary,
       gameState: room.gameState,
       currentSong: room.currentSong,
       mixFinalized: !!room.mixFinalized,
       snippetLength: room.snippetLength,
-      hasPlaylist: Array.isArray(room.playlistSongs) && room.playlistSongs.length > 0
+      hasPlaylist: Array.isArray(room.playlistSongs) && room.playlistSongs.length > 0,
+      ...roomOwnerFields(room, owner),
     });
-  } else {
+  } catch (e) {
+    console.error('❌ Error loading room:', e?.message || e);
+    res.status(500).json({ error: 'Failed to load room' });
+  }
+});
+
+/** Results export for hosts who can manage the room: ?format=json (default) | csv | html (printable; use Save as PDF). */
+app.get('/api/rooms/:roomId/report', async (req, res) => {
+  try {
+    const found = await accessibleRoomForRequest(req, res);
+    if (!found) return;
+    const { room } = found;
+    const format = String(req.query.format || 'json').toLowerCase();
+    if (!roomReport.REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: 'invalid_format', message: `format must be one of: ${roomReport.REPORT_FORMATS.join(', ')}` });
+    }
+
+    const report = roomReport.buildRoomReport(room, {
+      titleFor: (songId) => customTitleFor(room, songId),
+      venueBranding: venueBrandingForRoom(room),
+    });
+    const stamp = report.generatedAt.slice(0, 10);
+    const baseName = `tempo-${String(room.id).replace(/[^A-Za-z0-9_-]/g, '')}-results-${stamp}`;
+    res.set('Cache-Control', 'no-store');
+    if (format === 'csv') {
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${baseName}.csv"`);
+      return res.send(roomReport.reportToCsv(report));
+    }
+    if (format === 'html') {
+      res.set('Content-Type', 'text/html; charset=utf-8');
+      return res.send(roomReport.reportToHtml(report));
+    }
+    res.set('Content-Disposition', `attachment; filename="${baseName}.json"`);
+    return res.json(report);
+  } catch (e) {
+    console.error('❌ Error building room report:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to build report' });
+  }
+});
+
+/**
+ * Signed card manifest for hosts who can manage the room (cardDeals.js): seed, mix and every card issued from the
+ * deal with its layout hash. ?seed= picks an earlier deal; default is the current one.
+ * Check a card against it with tools/verify-card.js.
+ */
+app.get('/api/rooms/:roomId/card-manifest', async (req, res) => {
+  try {
+    const found = await accessibleRoomForRequest(req, res);
+    if (!found) return;
+    const { room } = found;
+    const deal = req.query.seed ? cardDeals.findDeal(room, String(req.query.seed)) : cardDeals.currentDeal(room);
+    if (!deal) {
+      return res.status(404).json({ error: 'no_card_deal', message: 'No cards have been dealt in this room yet.' });
+    }
+    const songs = new Map((Array.isArray(room.finalizedSongs) ? room.finalizedSongs : []).map((s) => [s.id, s]));
+    const manifest = cardDeals.buildManifest(room.id, deal, {
+      labelFor: (songId) => {
+        const s = songs.get(songId) || (room.fiveByFifteenMeta && room.fiveByFifteenMeta[songId]);
+        return s ? [customTitleFor(room, songId) || cleanSongTitle(s.name || ''), s.artist].filter(Boolean).join(' — ') : null;
+      },
+    });
+    const baseName = `tempo-${String(room.id).replace(/[^A-Za-z0-9_-]/g, '')}-cards-${deal.seed.slice(0, 8)}`;
+    res.set('Cache-Control', 'no-store');
+    res.set('Content-Disposition', `attachment; filename="${baseName}.json"`);
+    return res.json(cardDeals.signManifest(manifest));
+  } catch (e) {
+    if (e && e.code === 'manifest_key_invalid') {
+      return res.status(503).json({ error: 'manifest_key_invalid', message: 'The server\'s card manifest signing key is misconfigured.' });
+    }
+    console.error('❌ Error building card manifest:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to build card manifest' });
+  }
+});
+
+/** Origin this request reached (behind Railway's proxy too), for absolute links in generated pages. */
+function requestOrigin(req) {
+  const proto = String(req.get('x-forwarded-proto') || req.protocol || 'http').split(',')[0].trim();
+  const host = String(req.get('x-forwarded-host') || req.get('host') || '').split(',')[0].trim();
+  return `${proto}://${host}`;
+}
+
+function sendPaperCardsPage(req, res, room, entries) {
+  const origin = requestOrigin(req);
+  res.set('Cache-Control', 'no-store');
+  res.set('Content-Type', 'text/html; charset=utf-8');
+  return res.send(
+    paperCards.paperCardsToHtml(entries, {
+      roomId: room.id,
+      venueBranding: venueBrandingForRoom(room),
+      qrUrlFor: (cardId) => `${origin}/api/qr?format=svg&size=200&data=${encodeURIComponent(cardId)}`,
+    })
+  );
+}
+
+/** Print a new batch of paper cards for the finalized mix: POST { count } → printable HTML, four per page. */
+app.post('/api/rooms/:roomId/paper-cards', async (req, res) => {
+  try {
+    const found = await accessibleRoomForRequest(req, res);
+    if (!found) return;
+    const { room } = found;
+    const count = Number(req.body && req.body.count);
+    if (!Number.isInteger(count) || count < 1 || count > paperCards.MAX_PAPER_CARDS_PER_BATCH) {
+      return res.status(400).json({
+        error: 'invalid_count',
+        message: `count must be a whole number from 1 to ${paperCards.MAX_PAPER_CARDS_PER_BATCH}`,
+      });
+    }
+    const buildCard = paperCardBuilder(room);
+    if (!buildCard) {
+      return res.status(409).json({ error: 'mix_not_finalized', message: 'Finalize the mix before printing paper cards.' });
+    }
+    const created = paperCards.createPaperCards(room, count, buildCard);
+    const deal = cardDeals.currentDeal(room);
+    for (const entry of created) {
+      cardDeals.recordIssued(deal, { cardNumber: entry.cardNumber, cardId: entry.dealCardId, squares: entry.squares }, paperCards.paperPlayerName(entry.cardId));
+    }
+    if (created.length === 0) {
+      return res.status(409).json({
+        error: 'no_cards_generated',
+        message: 'The finalized mix cannot fill any more unique cards (or the room already has the maximum printed).',
+      });
+    }
+    routineServerLog(`🖨️ Room ${room.id}: registered ${created.length} paper card(s) (${paperCards.ensurePaperCards(room).size} total)`);
+    persistRoomState(room.id, 'paper-cards');
+    return sendPaperCardsPage(req, res, room, created);
+  } catch (e) {
+    console.error('❌ Error generating paper cards:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to generate paper cards' });
+  }
+});
+
+/** Reprint every paper card registered for the current mix. */
+app.get('/api/rooms/:roomId/paper-cards', async (req, res) => {
+  try {
+    const found = await accessibleRoomForRequest(req, res);
+    if (!found) return;
+    const { room } = found;
+    const entries = Array.from(paperCards.ensurePaperCards(room).values());
+    if (entries.length === 0) {
+      return res.status(404).json({ error: 'no_paper_cards', message: 'No paper cards have been printed for this mix yet.' });
+    }
+    return sendPaperCardsPage(req, res, room, entries);
+  } catch (e) {
+    console.error('❌ Error reprinting paper cards:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to reprint paper cards' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Player profiles (server/playerProfiles.js): regulars keep their name and stats across a venue's events
+// ---------------------------------------------------------------------------
+
+/** Database id of the organization whose room this is (via the owner), cached on the room; null if none. */
+async function profileOrganizationIdForRoom(room) {
+  if (!db || !room || room.ownerUserId == null) return null;
+  if (room.profileOrganizationId === undefined) {
+    const org = await organizationsStore.getOrganizationForUserId(db, Number(room.ownerUserId));
+    room.profileOrganizationId = org ? org.id : null;
+  }
+  return room.profileOrganizationId;
+}
+
+function playerTokenFromRequest(req) {
+  const auth = req.headers.authorization;
+  return auth && auth.startsWith('Bearer ') ? hostAuth.verifyPlayerJwt(auth.slice(7)) : null;
+}
+
+/** join-room with a player JWT: link the socket's player to the profile when it belongs to this venue. */
+async function attachPlayerProfile(room, player, token) {
+  try {
+    const session = hostAuth.verifyPlayerJwt(token);
+    if (!session) return;
+    const organizationId = await profileOrganizationIdForRoom(room);
+    if (organizationId == null || session.organizationId !== organizationId) return;
+    const profile = await playerProfiles.getProfile(db, session.profileId);
+    if (!profile) return;
+    player.profileId = profile.id;
+    routineServerLog(`🪪 ${player.name} joined room ${room.id} as profile #${profile.id}`);
+  } catch (e) {
+    logger.warn(`Player profile lookup failed: ${e?.message || e}`, 'player-profile', 1);
+  }
+}
+
+/** Round closed: add it to every signed-in player's stats (wins include any stage won this round). */
+async function recordProfileRounds(room, roundNumber) {
+  if (!db) return;
+  const winnerIds = new Set(
+    (room.results?.winners || []).filter((w) => w.roundNumber === roundNumber).map((w) => w.playerId)
+  );
+  const called = patternProgress.calledSetForRoom(room);
+  const yearById = new Map((room.playlistSongs || []).map((song) => [song.id, song.releaseYear]));
+  for (const [playerId, player] of room.players) {
+    if (!player.profileId || player.isHost) continue;
+    const decades = {};
+    for (const sq of claimCardFor(room, playerId)?.squares || []) {
+      if (sq.isFreeSpace || !sq.marked || !called.has(sq.songId)) continue;
+      const decade = playerProfiles.decadeOf(yearById.get(sq.songId));
+      if (decade) decades[decade] = (decades[decade] || 0) + 1;
+    }
+    try {
+      await playerProfiles.recordRound(db, { profileId: player.profileId, roomId: room.id, won: winnerIds.has(playerId), decades });
+    } catch (e) {
+      console.error('❌ Error recording player profile round:', e?.message || e);
+    }
+  }
+}
+
+/** Room → venue for the public profile routes; sends the error response and returns null. */
+async function profileVenueForRequest(req, res) {
+  if (!db) {
+    res.status(503).json({ error: 'database_required', message: 'Player profiles need a database.' });
+    return null;
+  }
+  const room = rooms.get(req.params.roomId);
+  if (!room) {
     res.status(404).json({ error: 'Room not found' });
+    return null;
+  }
+  const organizationId = await profileOrganizationIdForRoom(room);
+  if (organizationId == null) {
+    res.status(404).json({ error: 'profiles_unavailable', message: 'This venue does not offer player profiles.' });
+    return null;
+  }
+  return { room, organizationId };
+}
+
+/** The signed-in player's profile and stats at this room's venue: { available, profile, stats }. */
+app.get('/api/rooms/:roomId/player-profile', async (req, res) => {
+  try {
+    const room = rooms.get(req.params.roomId);
+    const organizationId = db && room ? await profileOrganizationIdForRoom(room) : null;
+    if (organizationId == null) return res.json({ available: false, profile: null, stats: null });
+    const session = playerTokenFromRequest(req);
+    const profile = session && session.organizationId === organizationId ? await playerProfiles.getProfile(db, session.profileId) : null;
+    if (!profile) return res.json({ available: true, profile: null, stats: null });
+    const stats = await playerProfiles.getStats(db, profile.id);
+    return res.json({ available: true, profile: { id: profile.id, displayName: profile.displayName, email: profile.email }, stats });
+  } catch (e) {
+    console.error('❌ Error loading player profile:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to load profile' });
+  }
+});
+
+/**
+ * Where emailed sign-in links point: PUBLIC_APP_URL, else the first CORS_ORIGINS entry; in development
+ * the local client. Never the request's Host, which a caller could forge to receive someone's token.
+ */
+function magicLinkOrigin() {
+  const configured = publicAppOrigin() || (allowedOriginsEnv && !allowAllCors ? allowedOrigins[0] : '');
+  if (configured) return configured;
+  return isProduction ? null : allowedOrigins[0];
+}
+
+/** Email a single-use sign-in link back to this room's player page. */
+app.post('/api/rooms/:roomId/player-profile/magic-link', async (req, res) => {
+  try {
+    const venue = await profileVenueForRequest(req, res);
+    if (!venue) return;
+    const email = playerProfiles.normalizeEmail(req.body && req.body.email);
+    if (!email) return res.status(400).json({ error: 'invalid_email', message: 'Enter a valid email address.' });
+    const origin = magicLinkOrigin();
+    if (!origin) {
+      return res.status(503).json({ error: 'email_not_configured', message: 'Email sign-in is not set up here. Ask the host for a PIN.' });
+    }
+    if (!playerProfiles.allowMagicLinkRequest({ email, ip: clusterRouting.clientIp(req) })) {
+      return res.status(429).json({ error: 'too_many_requests', message: 'Too many sign-in links requested. Try again in 15 minutes or ask the host for a PIN.' });
+    }
+    const displayName = playerProfiles.cleanDisplayName(req.body && req.body.displayName);
+    const token = await playerProfiles.createMagicLink(db, { organizationId: venue.organizationId, email, displayName });
+    const query = new URLSearchParams({ profileLink: token });
+    if (displayName) query.set('name', displayName);
+    const link = `${origin}/player/${encodeURIComponent(venue.room.id)}?${query.toString()}`;
+    const org = await organizationsStore.getOrganizationById(db, venue.organizationId);
+    const sent = await playerProfiles.sendMagicLinkEmail({ to: email, link, venueName: org ? org.name : null });
+    if (!sent) {
+      if (process.env.NODE_ENV === 'production') {
+        return res.status(503).json({ error: 'email_not_configured', message: 'Email sign-in is not set up here. Ask the host for a PIN.' });
+      }
+      routineServerLog(`✉️ PLAYER_EMAIL_WEBHOOK_URL not set — magic link for ${email}: ${link}`);
+    }
+    return res.json({ sent: true });
+  } catch (e) {
+    console.error('❌ Error sending player magic link:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to send sign-in link' });
+  }
+});
+
+/** Exchange a magic link token for a player session. */
+app.post('/api/player-profile/magic-link/verify', async (req, res) => {
+  try {
+    if (!db) return res.status(503).json({ error: 'database_required', message: 'Player profiles need a database.' });
+    const profile = await playerProfiles.consumeMagicLink(db, req.body && req.body.token);
+    if (!profile) {
+      return res.status(400).json({ error: 'invalid_link', message: 'That sign-in link has expired or was already used.' });
+    }
+    return res.json({
+      token: hostAuth.signPlayerJwt(profile.id, profile.organizationId),
+      profile: { id: profile.id, displayName: profile.displayName, email: profile.email },
+    });
+  } catch (e) {
+    console.error('❌ Error verifying player magic link:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to verify sign-in link' });
+  }
+});
+
+/** Sign in with the name and PIN the venue issued. */
+app.post('/api/rooms/:roomId/player-profile/pin', async (req, res) => {
+  try {
+    const venue = await profileVenueForRequest(req, res);
+    if (!venue) return;
+    const result = await playerProfiles.signInWithPin(db, {
+      organizationId: venue.organizationId,
+      displayName: req.body && req.body.displayName,
+      pin: req.body && req.body.pin,
+    });
+    if (result && result.locked) {
+      return res.status(429).json({ error: 'too_many_attempts', message: 'Too many wrong PINs. Try again in 15 minutes or ask the host.' });
+    }
+    if (!result) return res.status(401).json({ error: 'invalid_pin', message: 'That name and PIN do not match.' });
+    const { profile } = result;
+    return res.json({
+      token: hostAuth.signPlayerJwt(profile.id, profile.organizationId),
+      profile: { id: profile.id, displayName: profile.displayName, email: profile.email },
+    });
+  } catch (e) {
+    console.error('❌ Error signing in with player PIN:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+/** Host's organization for the profile management routes; sends the error response and returns null. */
+async function hostProfileOrganizationForRequest(req, res) {
+  const uid = await requireApprovedHostUid(req, res);
+  if (!uid) return null;
+  if (!db) {
+    res.status(503).json({ error: 'database_required', message: 'Player profiles need a database.' });
+    return null;
+  }
+  const me = (await organizationsStore.getHostSummaries(db, [uid])).get(Number(uid));
+  if (!me || me.organizationId == null) {
+    res.status(403).json({ error: 'no_organization', message: 'Player profiles belong to an organization; ask an admin to add you to one.' });
+    return null;
+  }
+  return me.organizationId;
+}
+
+app.get('/api/org/player-profiles', async (req, res) => {
+  try {
+    const organizationId = await hostProfileOrganizationForRequest(req, res);
+    if (organizationId == null) return;
+    return res.json({ profiles: await playerProfiles.listProfiles(db, organizationId, req.query.q) });
+  } catch (e) {
+    console.error('❌ Error listing player profiles:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to list player profiles' });
+  }
+});
+
+/** Venue-issued profile: POST { displayName, email? } → { profile, pin }; the PIN is only shown here. */
+app.post('/api/org/player-profiles', async (req, res) => {
+  try {
+    const organizationId = await hostProfileOrganizationForRequest(req, res);
+    if (organizationId == null) return;
+    const displayName = playerProfiles.cleanDisplayName(req.body && req.body.displayName);
+    if (!displayName) return res.status(400).json({ error: 'invalid_name', message: 'Enter the player name.' });
+    const created = await playerProfiles.createProfileWithPin(db, { organizationId, displayName, email: req.body && req.body.email });
+    return res.status(201).json(created);
+  } catch (e) {
+    if (e && e.code === '23505') {
+      return res.status(409).json({ error: 'email_taken', message: 'A profile with that email already exists; reissue its PIN instead.' });
+    }
+    console.error('❌ Error creating player profile:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to create player profile' });
+  }
+});
+
+app.post('/api/org/player-profiles/:profileId/pin', async (req, res) => {
+  try {
+    const organizationId = await hostProfileOrganizationForRequest(req, res);
+    if (organizationId == null) return;
+    const pin = await playerProfiles.reissuePin(db, { organizationId, profileId: Number(req.params.profileId) });
+    if (!pin) return res.status(404).json({ error: 'Profile not found' });
+    return res.json({ pin });
+  } catch (e) {
+    console.error('❌ Error reissuing player PIN:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to reissue PIN' });
+  }
+});
+
+/** Merge duplicates: POST { sourceId, targetId } folds the source's history into the target. */
+app.post('/api/org/player-profiles/merge', async (req, res) => {
+  try {
+    const organizationId = await hostProfileOrganizationForRequest(req, res);
+    if (organizationId == null) return;
+    const sourceId = Number(req.body && req.body.sourceId);
+    const targetId = Number(req.body && req.body.targetId);
+    if (!Number.isInteger(sourceId) || !Number.isInteger(targetId) || sourceId === targetId) {
+      return res.status(400).json({ error: 'invalid_merge', message: 'Pick two different profiles.' });
+    }
+    const profile = await playerProfiles.mergeProfiles(db, { organizationId, sourceId, targetId });
+    if (!profile) return res.status(404).json({ error: 'Profile not found' });
+    for (const room of rooms.values()) {
+      room.players.forEach((p) => {
+        if (p.profileId === sourceId) p.profileId = targetId;
+      });
+    }
+    routineServerLog(`🪪 Merged player profile #${sourceId} into #${targetId} (organization ${organizationId})`);
+    return res.json({ profile });
+  } catch (e) {
+    console.error('❌ Error merging player profiles:', e?.message || e);
+    return res.status(500).json({ error: 'Failed to merge profiles' });
   }
 });
 
 app.post('/api/rooms/:roomId/end', async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const room = rooms.get(roomId);
-    if (!room) return res.status(404).json({ error: 'Room not found' });
+    const found = await accessibleRoomForRequest(req, res);
+    if (!found) return;
+    const { room } = found;
+    const roomId = room.id;
     try {
       clearRoomTimer(roomId);
       try {
         const deviceId = room.selectedDeviceId || loadSavedDeviceForRoom(roomId)?.id;
         if (deviceId) {
           try { await spotifyFor(roomId).transferPlayback(deviceId, false); } catch {}
-          await spotifyFor(roomId).pausePlayback(deviceId);
+          await playbackFor(roomId).pause(deviceId);
         }
       } catch {}
       room.gameState = 'ended';
@@ -6289,11 +8051,11 @@ app.post('/api/rooms/:roomId/end', async (req, res) => {
   }
 });
 
-app.post('/api/rooms/:roomId/archive', (req, res) => {
+app.post('/api/rooms/:roomId/archive', async (req, res) => {
   try {
-    const { roomId } = req.params;
-    const room = rooms.get(roomId);
-    if (!room) return res.status(404).json({ error: 'Room not found' });
+    const found = await accessibleRoomForRequest(req, res);
+    if (!found) return;
+    const { room } = found;
     room.archived = true;
     room.archivedAt = Date.now();
     return res.json({ success: true });
@@ -6520,6 +8282,23 @@ function getAdminConfigured() {
   );
 }
 
+function adminEmailList() {
+  return (process.env.TEMPO_ADMIN_EMAILS || '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Same rules as requireAdmin, without sending a response. */
+async function isGlobalAdminRequest(req) {
+  if (verifyAdminSecret(req)) return true;
+  const uid = hostAuth.getHostUserIdFromRequest(req);
+  if (!uid || !db) return false;
+  const row = await usersStore.getUserById(db, uid);
+  const email = usersStore.normalizeHostEmail(row?.email || '');
+  return !!email && adminEmailList().includes(email);
+}
+
 /** Returns true if authorized; otherwise sends response and returns false. */
 async function requireAdmin(req, res) {
   if (!getAdminConfigured()) {
@@ -6541,10 +8320,7 @@ async function requireAdmin(req, res) {
   }
   const row = await usersStore.getUserById(db, uid);
   const email = usersStore.normalizeHostEmail(row?.email || '');
-  const adminEmails = (process.env.TEMPO_ADMIN_EMAILS || '')
-    .split(',')
-    .map((s) => s.trim().toLowerCase())
-    .filter(Boolean);
+  const adminEmails = adminEmailList();
   if (email && adminEmails.includes(email)) return true;
   res.status(401).json({
     error: 'forbidden',
@@ -6570,10 +8346,7 @@ app.get('/api/admin/me', async (req, res) => {
     }
     const row = await usersStore.getUserById(db, uid);
     const email = usersStore.normalizeHostEmail(row?.email || '');
-    const adminEmails = (process.env.TEMPO_ADMIN_EMAILS || '')
-      .split(',')
-      .map((s) => s.trim().toLowerCase())
-      .filter(Boolean);
+    const adminEmails = adminEmailList();
     const admin = !!(email && adminEmails.includes(email));
     return res.json({
       admin,
@@ -6689,7 +8462,14 @@ app.patch('/api/admin/users/:userId/organization', async (req, res) => {
     if (organizationId != null && !Number.isFinite(organizationId)) {
       return res.status(400).json({ error: 'invalid_organization_id', message: 'organizationId must be a number or null.' });
     }
-    const result = await organizationsStore.setUserOrganizationId(db, userId, organizationId);
+    const orgRole = body.orgRole == null || body.orgRole === '' ? null : String(body.orgRole);
+    if (orgRole != null && !organizationsStore.ORG_ROLES.includes(orgRole)) {
+      return res.status(400).json({
+        error: 'invalid_org_role',
+        message: `orgRole must be one of: ${organizationsStore.ORG_ROLES.join(', ')}`,
+      });
+    }
+    const result = await organizationsStore.setUserOrganizationId(db, userId, organizationId, orgRole);
     await organizationsStore.primeTenantSpotifyCredentials(db, multiTenantSpotify, userId);
     res.json({ ok: true, ...result });
   } catch (e) {
@@ -6840,6 +8620,7 @@ app.post('/api/host/rooms', async (req, res) => {
     const uid = await requireApprovedHostUid(req, res);
     if (!uid) return;
     if (!db) return res.status(503).json({ error: 'DATABASE_URL required' });
+    await roomStateRestored;
     const body = req.body && typeof req.body === 'object' ? req.body : {};
     const forceNewRoom = body.forceNewRoom === true || body.forceNew === true;
     const picked = allocateHostOwnedRoom(uid, { forceNew: forceNewRoom });
@@ -6853,6 +8634,7 @@ app.post('/api/host/rooms', async (req, res) => {
         organizationId: 'DEFAULT',
         ownerUserId: uid,
         licenseKey: null,
+        license: null,
         host: null,
         hostClientId: null,
         players: new Map(),
@@ -6893,6 +8675,43 @@ app.post('/api/host/rooms', async (req, res) => {
   }
 });
 
+/** Most rounds the planner asks to estimate in one request (its bucket cap is 12). */
+const MAX_ESTIMATED_ROUNDS = 12;
+
+/**
+ * Round-length estimates for the round planner (server/roundSimulator.js). Body: `rounds` of
+ * `{ playlistSizes, stages }` (song counts in playlist order), plus `freeSpace`, `players` and
+ * `snippetSeconds` for all of them. Returns `estimates` in round order; null where a round cannot be dealt.
+ */
+app.post('/api/round-estimates', async (req, res) => {
+  try {
+    const uid = await requireApprovedHostUid(req, res);
+    if (!uid) return;
+    const body = req.body && typeof req.body === 'object' ? req.body : {};
+    const rounds = Array.isArray(body.rounds) ? body.rounds.slice(0, MAX_ESTIMATED_ROUNDS) : [];
+    const estimates = [];
+    for (const round of rounds) {
+      if (!round || !Array.isArray(round.playlistSizes) || !round.playlistSizes.length) {
+        estimates.push(null);
+        continue;
+      }
+      estimates.push(
+        await roundSimulator.estimateRoundInWorker({
+          playlistSizes: round.playlistSizes,
+          stages: Array.isArray(round.stages) ? round.stages : undefined,
+          freeSpace: body.freeSpace === true,
+          players: body.players,
+          snippetSeconds: body.snippetSeconds,
+        })
+      );
+    }
+    res.json({ estimates });
+  } catch (e) {
+    console.error('POST /api/round-estimates:', e);
+    res.status(500).json({ error: 'failed', message: e?.message || 'Failed' });
+  }
+});
+
 /** Load venue / corporate branding for a host-owned room (organization venue_settings). */
 async function resolveRoomVenueBranding(room) {
   if (!room) return;
@@ -6908,8 +8727,51 @@ async function resolveRoomVenueBranding(room) {
   room.venueBranding = await organizationsStore.getVenueBrandingForHostUserId(db, uid);
 }
 
+/** The room's venue branding, when its license allows custom branding (licenses.hasLicensedFeature). */
 function venueBrandingForRoom(room) {
-  return room && room.venueBranding ? room.venueBranding : null;
+  if (!room || !room.venueBranding) return null;
+  return licenses.hasLicensedFeature(room.license, licenses.LICENSE_FEATURES.CUSTOM_BRANDING) ? room.venueBranding : null;
+}
+
+/** Custom title tenant: the owner's organization, else the owning host, else the room's tenant key. */
+function titleOrgKeyForRoom(room) {
+  if (!room) return 'DEFAULT';
+  return room.titleOrgKey || spotifyOrgForRoom(room);
+}
+
+function customTitleFor(room, songId) {
+  return songTitles.getTitle(titleOrgKeyForRoom(room), room ? room.id : null, songId);
+}
+
+/** Resolve the room's title organization and load its organization titles and room overrides. */
+async function loadRoomSongTitles(room) {
+  if (!room) return;
+  if (db && room.ownerUserId != null && room.titleOrgKey == null) {
+    const org = await organizationsStore.getOrganizationForUserId(db, Number(room.ownerUserId));
+    room.titleOrgKey = org ? `org_${org.id}` : spotifyOrgForRoom(room);
+    room.titleOrgName = org ? org.name : null;
+  }
+  await songTitles.loadScope(db, songTitles.SCOPE_ORGANIZATION, titleOrgKeyForRoom(room));
+  await songTitles.loadScope(db, songTitles.SCOPE_ROOM, room.id);
+}
+
+/** Organization titles reach every live room of that organization; room overrides stay in their room. */
+function announceCustomTitle(scope, scopeId, songId) {
+  const targets = scope === songTitles.SCOPE_ROOM
+    ? [rooms.get(scopeId)].filter(Boolean)
+    : Array.from(rooms.values()).filter((r) => titleOrgKeyForRoom(r) === scopeId);
+  for (const r of targets) {
+    io.to(r.id).emit('custom-song-title-updated', {
+      songId,
+      customTitle: customTitleFor(r, songId) || null,
+      scope: songTitles.getTitleScope(titleOrgKeyForRoom(r), r.id, songId),
+    });
+  }
+}
+
+function customTitlesPayload(room) {
+  const { titles, scopes } = songTitles.listTitles(titleOrgKeyForRoom(room), room.id);
+  return { roomId: room.id, titles, scopes, organizationName: room.titleOrgName || null };
 }
 
 /** Normalize to origin for Spotify app redirect allowlist (https; localhost http allowed). */
@@ -7905,32 +9767,69 @@ app.get('/api/spotify/current', async (req, res) => {
   }
 });
 
-// QR proxy to avoid cross-origin embed restrictions
-app.get('/api/qr', (req, res) => {
+// QR codes are generated here (no third-party service): join links, paper card IDs.
+// ?data=…&format=svg|png&size=px&ecc=L|M|Q|H&margin=modules; `logo=venue&roomId=…` puts the room's
+// venue logo in the centre (SVG only, forces level H).
+const QR_MAX_DATA_LENGTH = 2048;
+const QR_LOGO_MAX_BYTES = 256 * 1024;
+const QR_LOGO_TTL_MS = 60 * 60 * 1000;
+const QR_LOGO_CACHE_MAX = 50;
+const qrLogoCache = new Map();
+
+/** Venue logo as a data: URI (an SVG in <img> cannot load external images); null when unavailable. */
+async function qrLogoDataUri(logoUrl) {
+  const cached = qrLogoCache.get(logoUrl);
+  if (cached && Date.now() - cached.at < QR_LOGO_TTL_MS) return cached.dataUri;
+  let dataUri = null;
   try {
-    const data = req.query.data;
-    const size = String(req.query.size || '192');
-    if (!data) return res.status(400).send('data required');
-    const primary = `https://api.qrserver.com/v1/create-qr-code/?size=${encodeURIComponent(size)}x${encodeURIComponent(size)}&data=${encodeURIComponent(data)}`;
-    const fallback = `https://chart.googleapis.com/chart?cht=qr&chs=${encodeURIComponent(size)}x${encodeURIComponent(size)}&chl=${encodeURIComponent(data)}`;
-
-    const pipeImage = (url) => {
-      https.get(url, (r) => {
-        if (r.statusCode && r.statusCode >= 400) {
-          // try fallback
-          if (url !== fallback) return pipeImage(fallback);
-          return res.status(502).send('QR service failed');
-        }
-        res.setHeader('Content-Type', r.headers['content-type'] || 'image/png');
-        r.pipe(res);
-      }).on('error', () => {
-        if (url !== fallback) return pipeImage(fallback);
-        res.status(502).send('QR fetch error');
-      });
-    };
+    const r = await fetch(logoUrl, { signal: AbortSignal.timeout(5000) });
+    const type = String(r.headers.get('content-type') || '').split(';')[0].trim();
+    if (r.ok && /^image\/(png|jpeg|gif|webp|svg\+xml)$/.test(type)) {
+      const body = Buffer.from(await r.arrayBuffer());
+      if (body.length <= QR_LOGO_MAX_BYTES) dataUri = `data:${type};base64,${body.toString('base64')}`;
+    }
+  } catch (e) {
+    logger.debug(`QR logo fetch failed: ${e?.message || e}`, 'qr-logo', 5);
+  }
+  if (qrLogoCache.size >= QR_LOGO_CACHE_MAX) qrLogoCache.delete(qrLogoCache.keys().next().value);
+  qrLogoCache.set(logoUrl, { dataUri, at: Date.now() });
+  return dataUri;
+}
 
-    pipeImage(primary);
+app.get('/api/qr', async (req, res) => {
+  try {
+    const data = typeof req.query.data === 'string' ? req.query.data : '';
+    if (!data) return res.status(400).send('data required');
+    if (data.length > QR_MAX_DATA_LENGTH) return res.status(413).send('data too long');
+    const format = req.query.format === 'svg' ? 'svg' : 'png';
+    const size = Math.min(2048, Math.max(64, parseInt(String(req.query.size || '192'), 10) || 192));
+    const margin = qrCode.normalizeQuietZone(req.query.margin);
+    let ecc = qrCode.normalizeEcc(req.query.ecc);
+
+    let logoUrl = null;
+    if (format === 'svg' && req.query.logo === 'venue') {
+      const room = rooms.get(String(req.query.roomId || '').trim());
+      const branding = venueBrandingForRoom(room);
+      logoUrl = (branding && branding.logoUrl) || null;
+      if (logoUrl) ecc = 'H';
+    }
+
+    const etag = qrCode.etagFor([data, format, size, margin, ecc, logoUrl || '']);
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', logoUrl ? 'public, max-age=3600' : 'public, max-age=86400');
+    if (req.headers['if-none-match'] === etag) return res.status(304).end();
+
+    const qr = qrCode.encodeQr(data, { ecc });
+    if (format === 'svg') {
+      const logoDataUri = logoUrl ? await qrLogoDataUri(logoUrl) : null;
+      res.type('image/svg+xml').send(qrCode.toSvg(qr, { quietZone: margin, pixelSize: size, logoDataUri }));
+    } else {
+      const scale = Math.max(1, Math.round(size / (qr.size + margin * 2)));
+      res.type('image/png').send(qrCode.toPng(qr, { quietZone: margin, scale }));
+    }
   } catch (e) {
+    if (e instanceof qrCode.QrCapacityError) return res.status(413).send(e.message);
+    console.error('❌ QR generation error:', e);
     res.status(500).send('QR error');
   }
 });
@@ -9105,12 +11004,16 @@ function startDeviceKeepAlive() {
 const PORT = process.env.PORT || 7093;
 server.listen(PORT, async () => {
   console.log(`🎵 TEMPO - Music Bingo server running on port ${PORT}`);
+  if (clusterMode) await startCluster();
   routineServerLog('🎮 Ready for some musical bingo action!');
   routineServerLog('🚀 Cache-busting fix deployed - version 2.0');
   
   // Initialize database
   await initializeDatabase();
 
+  // Bring back rooms that were mid-game before the restart
+  await restorePersistedRooms();
+
   if (db) {
     try {
       const r = await db.query('SELECT id FROM users WHERE organization_id IS NOT NULL');
@@ -9122,6 +11025,11 @@ server.listen(PORT, async () => {
     }
   }
 
+  const manifestKeyProblem = cardDeals.signingKeyProblem();
+  if (manifestKeyProblem) {
+    console.error(`❌ ${manifestKeyProblem}; card manifests are refused until it is fixed or unset.`);
+  }
+
   if (usersStore.isApprovedHostsOnlyMode()) {
     routineServerLog(
       '🔒 TEMPO_APPROVED_HOSTS_ONLY: only allowlisted emails may sign in as hosts, create rooms, or join as host (see TEMPO_HOST_ALLOWLIST_EMAILS + host_allowlist).'
@@ -9135,6 +11043,34 @@ server.listen(PORT, async () => {
   startDeviceKeepAlive();
 });
 
+async function startCluster() {
+  try {
+    roomLeases.start();
+    await clusterRouting.start();
+    await sharedStore.subscribe(CLUSTER_NOTICE_CHANNEL, (raw) => handleClusterNotice(JSON.parse(raw)));
+    process.once('SIGTERM', () => {
+      handOverRooms()
+        .catch((e) => console.error('❌ Room handover failed:', e?.message || e))
+        .finally(() => process.exit(0));
+    });
+    routineServerLog(`🧩 Cluster mode: instance ${instanceId}`);
+  } catch (e) {
+    console.error('❌ Failed to join the cluster:', e?.message || e);
+  }
+}
+
+function handleClusterNotice(notice) {
+  if (!notice || notice.from === instanceId) return;
+  if (notice.type === 'spotify-tokens') {
+    multiTenantSpotify
+      .reloadSharedTokens(notice.organizationId)
+      .catch((e) => console.error(`❌ Failed to reload tokens for ${notice.organizationId}:`, e?.message || e));
+  } else if (notice.type === 'custom-title') {
+    songTitles.applyTitle(notice.scope, notice.scopeId, notice.songId, notice.title);
+    announceCustomTitle(notice.scope, notice.scopeId, notice.songId);
+  }
+}
+
 // Auto-connect to Spotify on server startup (SIMPLIFIED FOR TONIGHT)
 async function autoConnectSpotify() {
   routineServerLog('🔄 Attempting automatic Spotify connection (single-tenant mode)...');
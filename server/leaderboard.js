@@ -0,0 +1,132 @@
+/**
+ * Event leaderboard: points carried across the rounds of one event, keyed by the player's stable
+ * `clientId` so a reconnect (new socket id) keeps the score. State lives on `room.leaderboard`:
+ *   { scoring: { win, oneAway }, players: { [key]: { key, clientId, playerName, points, wins, oneAways } },
+ *     awards: [{ roundNumber, key, playerName, kind: 'win'|'one_away', points, at }] }
+ * A split prize shares the win points (rounded up); a near miss is a card one call from the pattern
+ * when the round closes. restart-game starts a new event, so it clears the board.
+ */
+
+const DEFAULT_SCORING = { win: 10, oneAway: 2 };
+const MAX_POINTS = 1000;
+
+function clampPoints(value, fallback) {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.max(0, Math.min(MAX_POINTS, n)) : fallback;
+}
+
+function ensureLeaderboard(room) {
+  if (!room.leaderboard || typeof room.leaderboard !== 'object') {
+    room.leaderboard = { scoring: { ...DEFAULT_SCORING }, players: {}, awards: [] };
+  }
+  return room.leaderboard;
+}
+
+function resetLeaderboard(room) {
+  const scoring = room.leaderboard && room.leaderboard.scoring;
+  room.leaderboard = null;
+  const board = ensureLeaderboard(room);
+  if (scoring) board.scoring = { ...scoring };
+  return board;
+}
+
+function setScoring(room, { win, oneAway } = {}) {
+  const board = ensureLeaderboard(room);
+  board.scoring = {
+    win: clampPoints(win, board.scoring.win),
+    oneAway: clampPoints(oneAway, board.scoring.oneAway),
+  };
+  return board.scoring;
+}
+
+/** Leaderboard key for a room player: the clientId, or the socket id for clients that never sent one. */
+function keyFor(player, playerId) {
+  return (player && player.clientId) || `socket:${playerId}`;
+}
+
+function award(room, { player, playerId, playerName, roundNumber, kind, points }) {
+  const board = ensureLeaderboard(room);
+  const key = keyFor(player, playerId);
+  const entry = board.players[key] || {
+    key,
+    clientId: (player && player.clientId) || null,
+    playerName,
+    points: 0,
+    wins: 0,
+    oneAways: 0,
+  };
+  entry.playerName = playerName || entry.playerName;
+  entry.points += points;
+  if (kind === 'win') entry.wins += 1;
+  else entry.oneAways += 1;
+  board.players[key] = entry;
+  board.awards.push({ roundNumber, key, playerName: entry.playerName, kind, points, at: new Date().toISOString() });
+}
+
+/** Win points for each verified winner of a prize (a progressive round awards every stage). */
+function awardWinners(room, winners, { roundNumber }) {
+  const board = ensureLeaderboard(room);
+  const points = Math.ceil(board.scoring.win / Math.max(1, winners.length));
+  for (const w of winners) {
+    const player = room.players.get(w.playerId);
+    award(room, { player, playerId: w.playerId, playerName: w.playerName, roundNumber, kind: 'win', points });
+  }
+}
+
+/**
+ * Near-miss points when a round closes. `squaresToGo(card)` is the pattern distance for one card;
+ * winners and hosts are skipped. Returns the players awarded.
+ */
+function awardNearMisses(room, { roundNumber, winnerIds, cardFor, squaresToGo }) {
+  const board = ensureLeaderboard(room);
+  if (!board.scoring.oneAway) return [];
+  const awarded = [];
+  for (const [playerId, player] of room.players) {
+    if (player.isHost || winnerIds.includes(playerId)) continue;
+    if (squaresToGo(cardFor(playerId)) !== 1) continue;
+    award(room, { player, playerId, playerName: player.name, roundNumber, kind: 'one_away', points: board.scoring.oneAway });
+    awarded.push(player.name);
+  }
+  return awarded;
+}
+
+/** Sorted standings; ties share a rank and are ordered by wins, then name. */
+function standings(room) {
+  const board = ensureLeaderboard(room);
+  const rows = Object.values(board.players).sort(
+    (a, b) => b.points - a.points || b.wins - a.wins || a.playerName.localeCompare(b.playerName)
+  );
+  let rank = 0;
+  return rows.map((r, i) => {
+    if (i === 0 || r.points !== rows[i - 1].points) rank = i + 1;
+    return { rank, key: r.key, playerName: r.playerName, points: r.points, wins: r.wins, oneAways: r.oneAways };
+  });
+}
+
+/**
+ * `leaderboard-updated` payload. Keys are not sent (a clientId is a rejoin credential); each row carries
+ * the socket id the player is connected on now, so PlayerView can find its own row.
+ */
+function leaderboardPayload(room, roomId) {
+  const board = ensureLeaderboard(room);
+  const socketByKey = new Map();
+  for (const [playerId, player] of room.players) {
+    if (!player.isHost) socketByKey.set(keyFor(player, playerId), playerId);
+  }
+  return {
+    roomId,
+    scoring: { ...board.scoring },
+    standings: standings(room).map(({ key, ...row }) => ({ ...row, playerId: socketByKey.get(key) || null })),
+  };
+}
+
+module.exports = {
+  DEFAULT_SCORING,
+  ensureLeaderboard,
+  resetLeaderboard,
+  setScoring,
+  awardWinners,
+  awardNearMisses,
+  standings,
+  leaderboardPayload,
+};
@@ -0,0 +1,238 @@
+/**
+ * Signed TEMPO license keys (Ed25519), verified offline against TEMPO_LICENSE_PUBLIC_KEY.
+ *
+ * Format: TEMPO.<base64url JSON claims>.<base64url signature over the claims segment>
+ * Claims: { v, org, exp: 'YYYY-MM-DD' (last valid day, UTC), maxRooms (0 = unlimited), features[], iat }
+ *
+ * Keys are minted by tools/license-generator.js with the matching private key, which never ships
+ * with the server. Generate a pair with `node tools/license-generator.js --keygen`.
+ */
+
+const crypto = require('crypto');
+
+const LICENSE_PREFIX = 'TEMPO';
+const LICENSE_VERSION = 1;
+const ORG_CODE_RE = /^[A-Z0-9]{2,10}$/;
+const FEATURE_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/** Feature flags the server acts on; any other flag is carried and shown but unused. */
+const LICENSE_FEATURES = Object.freeze({
+  /** Venue branding (logo, colors) on the player, display and QR screens. */
+  CUSTOM_BRANDING: 'custom-branding',
+});
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Which check a key failed; the host UI explains each one.
+ * missing | not_configured | format | signature | expired | room_limit
+ */
+const LICENSE_CHECKS = Object.freeze({
+  MISSING: 'missing',
+  NOT_CONFIGURED: 'not_configured',
+  FORMAT: 'format',
+  SIGNATURE: 'signature',
+  EXPIRED: 'expired',
+  ROOM_LIMIT: 'room_limit',
+});
+
+function base64UrlEncode(buf) {
+  return Buffer.from(buf).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Strict decode: non-canonical encodings (e.g. altered padding bits) are rejected so one key has one spelling. */
+function base64UrlDecode(str) {
+  if (typeof str !== 'string' || !/^[A-Za-z0-9_-]+$/.test(str)) return null;
+  const buf = Buffer.from(str.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  return base64UrlEncode(buf) === str ? buf : null;
+}
+
+/**
+ * Accept a PEM (Railway variables may carry literal "\n") or bare base64 DER
+ * (SPKI for public keys, PKCS#8 for private keys).
+ */
+function parseKey(raw, type) {
+  const text = String(raw || '').trim().replace(/\\n/g, '\n');
+  if (!text) return null;
+  const create = type === 'private' ? crypto.createPrivateKey : crypto.createPublicKey;
+  try {
+    if (text.includes('-----BEGIN')) return create(text);
+    return create({
+      key: Buffer.from(text, 'base64'),
+      format: 'der',
+      type: type === 'private' ? 'pkcs8' : 'spki',
+    });
+  } catch {
+    return null;
+  }
+}
+
+function getPublicKey() {
+  return parseKey(process.env.TEMPO_LICENSE_PUBLIC_KEY, 'public');
+}
+
+function isLicenseVerificationConfigured() {
+  return !!getPublicKey();
+}
+
+/** When TEMPO_REQUIRE_LICENSE=1, hosts cannot open a room without a valid key. */
+function isLicenseRequired() {
+  const v = String(process.env.TEMPO_REQUIRE_LICENSE || '').trim().toLowerCase();
+  return v === '1' || v === 'true' || v === 'yes';
+}
+
+function generateKeyPair() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+  };
+}
+
+function isValidDate(s) {
+  if (typeof s !== 'string' || !DATE_RE.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+/** Normalized claims or throws with a message suited to the generator CLI. */
+function normalizeClaims({ org, expires, maxRooms = 0, features = [] }) {
+  const orgCode = String(org || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (!ORG_CODE_RE.test(orgCode)) {
+    throw new Error('Organization code must be 2-10 alphanumeric characters');
+  }
+  if (!isValidDate(expires)) {
+    throw new Error('Expiry must be a date in YYYY-MM-DD format');
+  }
+  const rooms = Number(maxRooms);
+  if (!Number.isInteger(rooms) || rooms < 0 || rooms > 1000) {
+    throw new Error('Max rooms must be a whole number between 0 (unlimited) and 1000');
+  }
+  const flags = Array.from(new Set((features || []).map((f) => String(f).trim().toLowerCase()).filter(Boolean)));
+  const bad = flags.find((f) => !FEATURE_RE.test(f));
+  if (bad) {
+    throw new Error(`Invalid feature flag "${bad}" (lowercase letters, digits and dashes)`);
+  }
+  return { v: LICENSE_VERSION, org: orgCode, exp: expires, maxRooms: rooms, features: flags.sort() };
+}
+
+/** Sign { org, expires, maxRooms, features } with an Ed25519 private key (PEM or base64 PKCS#8). Returns the license key. */
+function signLicense(claims, privateKeyRaw) {
+  const key = parseKey(privateKeyRaw, 'private');
+  if (!key || key.asymmetricKeyType !== 'ed25519') {
+    throw new Error('A valid Ed25519 private key is required to sign licenses');
+  }
+  const body = { ...normalizeClaims(claims), iat: new Date().toISOString().slice(0, 10) };
+  const payload = base64UrlEncode(JSON.stringify(body));
+  const signature = crypto.sign(null, Buffer.from(payload, 'utf8'), key);
+  return `${LICENSE_PREFIX}.${payload}.${base64UrlEncode(signature)}`;
+}
+
+function fail(check, message, license = null) {
+  return { valid: false, check, message, license };
+}
+
+/** Public view of verified claims (stored on the room and sent to the host). */
+function licenseSummary(claims) {
+  return {
+    organizationId: claims.org,
+    expiresAt: claims.exp,
+    maxRooms: claims.maxRooms,
+    features: Array.isArray(claims.features) ? claims.features : [],
+    issuedAt: claims.iat || null,
+  };
+}
+
+/**
+ * Verify a license key offline.
+ * @param {string} licenseKey
+ * @param {{ publicKey?: string, now?: Date }} [opts] publicKey overrides TEMPO_LICENSE_PUBLIC_KEY
+ * @returns {{ valid: true, license: object } | { valid: false, check: string, message: string, license: object|null }}
+ */
+function verifyLicenseKey(licenseKey, opts = {}) {
+  if (!licenseKey || typeof licenseKey !== 'string' || !licenseKey.trim()) {
+    return fail(LICENSE_CHECKS.MISSING, 'A license key is required to host on this server.');
+  }
+  const key = opts.publicKey != null ? parseKey(opts.publicKey, 'public') : getPublicKey();
+  if (!key || key.asymmetricKeyType !== 'ed25519') {
+    return fail(LICENSE_CHECKS.NOT_CONFIGURED, 'This server has no license public key configured.');
+  }
+
+  const parts = licenseKey.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== LICENSE_PREFIX) {
+    return fail(LICENSE_CHECKS.FORMAT, 'License key is not in the TEMPO.<claims>.<signature> format.');
+  }
+  const [, payload, sig] = parts;
+  const sigBuf = base64UrlDecode(sig);
+  const payloadBuf = base64UrlDecode(payload);
+  if (!sigBuf || !payloadBuf) {
+    return fail(LICENSE_CHECKS.FORMAT, 'License key is damaged — it contains unexpected characters or was cut short.');
+  }
+
+  let signatureOk = false;
+  try {
+    signatureOk = crypto.verify(null, Buffer.from(payload, 'utf8'), key, sigBuf);
+  } catch {
+    signatureOk = false;
+  }
+  if (!signatureOk) {
+    return fail(LICENSE_CHECKS.SIGNATURE, 'License signature does not match — the key was altered or issued for another server.');
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(payloadBuf.toString('utf8'));
+  } catch {
+    return fail(LICENSE_CHECKS.FORMAT, 'License claims are not readable.');
+  }
+  if (
+    !claims ||
+    claims.v !== LICENSE_VERSION ||
+    !ORG_CODE_RE.test(claims.org) ||
+    !isValidDate(claims.exp) ||
+    !Number.isInteger(claims.maxRooms) ||
+    (claims.features != null && !Array.isArray(claims.features))
+  ) {
+    return fail(LICENSE_CHECKS.FORMAT, 'License claims are incomplete or from an unsupported version.');
+  }
+
+  const license = licenseSummary(claims);
+  const now = opts.now instanceof Date ? opts.now : new Date();
+  // exp is the last valid day, inclusive (UTC)
+  if (now.getTime() > Date.parse(`${claims.exp}T23:59:59.999Z`)) {
+    return fail(LICENSE_CHECKS.EXPIRED, `License for ${claims.org} expired on ${claims.exp}.`, license);
+  }
+  return { valid: true, license };
+}
+
+/** Room-limit check for a verified license; activeRooms excludes the room being opened. */
+function checkRoomLimit(license, activeRooms) {
+  if (!license || !license.maxRooms || activeRooms < license.maxRooms) return null;
+  return fail(
+    LICENSE_CHECKS.ROOM_LIMIT,
+    `License for ${license.organizationId} allows ${license.maxRooms} concurrent room${license.maxRooms === 1 ? '' : 's'}; ${activeRooms} already open.`,
+    license
+  );
+}
+
+/**
+ * Whether a room may use a licensed feature: always on a server that does not verify licenses
+ * (single-tenant), otherwise only when the room's verified license lists the flag.
+ */
+function hasLicensedFeature(license, feature) {
+  if (!isLicenseVerificationConfigured()) return true;
+  return !!license && Array.isArray(license.features) && license.features.includes(feature);
+}
+
+module.exports = {
+  LICENSE_CHECKS,
+  LICENSE_FEATURES,
+  hasLicensedFeature,
+  isLicenseVerificationConfigured,
+  isLicenseRequired,
+  generateKeyPair,
+  parseKey,
+  normalizeClaims,
+  signLicense,
+  verifyLicenseKey,
+  checkRoomLimit,
+};
@@ -0,0 +1,99 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const licenses = require('./licenses');
+
+const { publicKey, privateKey } = licenses.generateKeyPair();
+const other = licenses.generateKeyPair();
+const ON = new Date('2026-06-01T12:00:00Z');
+
+function mint(claims = {}) {
+  return licenses.signLicense({ org: 'ACME', expires: '2026-12-31', maxRooms: 2, ...claims }, privateKey);
+}
+
+/** Run `fn` with TEMPO_LICENSE_PUBLIC_KEY set (or unset when `value` is null), restoring it afterwards. */
+function withPublicKey(value, fn) {
+  const saved = process.env.TEMPO_LICENSE_PUBLIC_KEY;
+  if (value == null) delete process.env.TEMPO_LICENSE_PUBLIC_KEY;
+  else process.env.TEMPO_LICENSE_PUBLIC_KEY = value;
+  try {
+    return fn();
+  } finally {
+    if (saved === undefined) delete process.env.TEMPO_LICENSE_PUBLIC_KEY;
+    else process.env.TEMPO_LICENSE_PUBLIC_KEY = saved;
+  }
+}
+
+test('normalizeClaims cleans the org code and feature flags', () => {
+  const claims = licenses.normalizeClaims({ org: 'acme-co', expires: '2026-12-31', features: ['Premium-Themes', ' custom-branding', 'custom-branding'] });
+  assert.equal(claims.org, 'ACMECO');
+  assert.deepEqual(claims.features, ['custom-branding', 'premium-themes']);
+  assert.equal(claims.maxRooms, 0);
+});
+
+test('normalizeClaims rejects bad input', () => {
+  assert.throws(() => licenses.normalizeClaims({ org: 'A', expires: '2026-12-31' }), /Organization code/);
+  assert.throws(() => licenses.normalizeClaims({ org: 'ACME', expires: '2026-02-30' }), /Expiry/);
+  assert.throws(() => licenses.normalizeClaims({ org: 'ACME', expires: '2026-12-31', maxRooms: 1.5 }), /Max rooms/);
+  assert.throws(() => licenses.normalizeClaims({ org: 'ACME', expires: '2026-12-31', features: ['no spaces'] }), /Invalid feature flag/);
+});
+
+test('a signed key verifies and carries its claims', () => {
+  const result = licenses.verifyLicenseKey(mint({ features: ['custom-branding'] }), { publicKey, now: ON });
+  assert.equal(result.valid, true);
+  assert.equal(result.license.organizationId, 'ACME');
+  assert.equal(result.license.expiresAt, '2026-12-31');
+  assert.equal(result.license.maxRooms, 2);
+  assert.deepEqual(result.license.features, ['custom-branding']);
+});
+
+test('verifyLicenseKey names the check a key failed', () => {
+  const key = mint();
+  const check = (k, opts = {}) => licenses.verifyLicenseKey(k, { publicKey, now: ON, ...opts }).check;
+  assert.equal(check(''), licenses.LICENSE_CHECKS.MISSING);
+  assert.equal(check(key, { publicKey: '' }), licenses.LICENSE_CHECKS.NOT_CONFIGURED);
+  assert.equal(check('TEMPO.abc'), licenses.LICENSE_CHECKS.FORMAT);
+  assert.equal(check(`${key}!`), licenses.LICENSE_CHECKS.FORMAT);
+  assert.equal(check(key, { publicKey: other.publicKey }), licenses.LICENSE_CHECKS.SIGNATURE);
+
+  const [prefix, , sig] = key.split('.');
+  const forged = Buffer.from(JSON.stringify({ v: 1, org: 'ACME', exp: '2099-12-31', maxRooms: 0 })).toString('base64url');
+  assert.equal(check(`${prefix}.${forged}.${sig}`), licenses.LICENSE_CHECKS.SIGNATURE);
+});
+
+test('a key is valid through its last day (UTC) and expired after', () => {
+  const key = mint();
+  assert.equal(licenses.verifyLicenseKey(key, { publicKey, now: new Date('2026-12-31T23:59:00Z') }).valid, true);
+  const expired = licenses.verifyLicenseKey(key, { publicKey, now: new Date('2027-01-01T00:00:00Z') });
+  assert.equal(expired.check, licenses.LICENSE_CHECKS.EXPIRED);
+  assert.equal(expired.license.organizationId, 'ACME');
+});
+
+test('checkRoomLimit allows up to maxRooms, 0 meaning unlimited', () => {
+  const { license } = licenses.verifyLicenseKey(mint(), { publicKey, now: ON });
+  assert.equal(licenses.checkRoomLimit(license, 1), null);
+  assert.equal(licenses.checkRoomLimit(license, 2).check, licenses.LICENSE_CHECKS.ROOM_LIMIT);
+  assert.equal(licenses.checkRoomLimit({ ...license, maxRooms: 0 }, 500), null);
+});
+
+test('hasLicensedFeature gates features only when licenses are verified', () => {
+  const feature = licenses.LICENSE_FEATURES.CUSTOM_BRANDING;
+  const branded = licenses.verifyLicenseKey(mint({ features: [feature] }), { publicKey, now: ON }).license;
+  const plain = licenses.verifyLicenseKey(mint(), { publicKey, now: ON }).license;
+
+  withPublicKey(null, () => {
+    assert.equal(licenses.hasLicensedFeature(null, feature), true);
+  });
+  withPublicKey(publicKey, () => {
+    assert.equal(licenses.hasLicensedFeature(branded, feature), true);
+    assert.equal(licenses.hasLicensedFeature(plain, feature), false);
+    assert.equal(licenses.hasLicensedFeature(null, feature), false);
+  });
+});
+
+test('parseKey accepts PEM with escaped newlines and bare base64 DER', () => {
+  assert.equal(licenses.parseKey(publicKey.replace(/\n/g, '\\n'), 'public').asymmetricKeyType, 'ed25519');
+  const der = licenses.parseKey(publicKey, 'public').export({ type: 'spki', format: 'der' }).toString('base64');
+  assert.equal(licenses.parseKey(der, 'public').asymmetricKeyType, 'ed25519');
+  assert.equal(licenses.parseKey('not a key', 'public'), null);
+});
@@ -0,0 +1,125 @@
+/**
+ * Per-player audit trail of mark-square events, kept on `room.markAudit` for the current round.
+ * Keyed by the player's clientId (stable across reconnects) or socket id. Each mark/unmark records the
+ * time and the song playing; suspicious patterns raise flags the host sees next to a bingo claim:
+ *   early_mark    marked a square whose song had not been called yet
+ *   burst         BURST_MARKS or more marks inside BURST_WINDOW_MS
+ *   multi_socket  marks for one clientId arriving while another socket with that clientId is connected
+ */
+
+const MAX_EVENTS_PER_PLAYER = 500;
+const MAX_FLAGS_PER_PLAYER = 50;
+const BURST_MARKS = 4;
+const BURST_WINDOW_MS = 1000;
+/** Events included with a verification request; the full log stays on the server. */
+const RECENT_EVENTS_IN_SUMMARY = 25;
+
+const FLAG_TYPES = ['early_mark', 'burst', 'multi_socket'];
+
+function ensureMarkAudit(room) {
+  if (!(room.markAudit instanceof Map)) room.markAudit = new Map();
+  return room.markAudit;
+}
+
+/** Marks reset with every round, so does their history. */
+function resetMarkAudit(room) {
+  room.markAudit = new Map();
+}
+
+function auditKey(player, socketId) {
+  return (player && player.clientId) || socketId;
+}
+
+function addFlag(entry, flag) {
+  if (entry.flags.length >= MAX_FLAGS_PER_PLAYER) return;
+  entry.flags.push(flag);
+}
+
+/**
+ * Record one toggle and return any flags it raised.
+ * `otherLiveSockets`: connected sockets in the room with the same clientId, other than this one.
+ */
+function recordMark(room, { key, playerName, socketId, position, songId, marked, otherLiveSockets = 0 }) {
+  const audit = ensureMarkAudit(room);
+  let entry = audit.get(key);
+  if (!entry) {
+    entry = { playerName, events: [], flags: [] };
+    audit.set(key, entry);
+  }
+  entry.playerName = playerName;
+
+  const at = Date.now();
+  const currentSongId = (room.currentSong && room.currentSong.id) || null;
+  const called = (Array.isArray(room.calledSongIds) && room.calledSongIds.includes(songId)) || currentSongId === songId;
+  const event = { at, action: marked ? 'mark' : 'unmark', position, songId, currentSongId, called, socketId };
+  entry.events.push(event);
+  if (entry.events.length > MAX_EVENTS_PER_PLAYER) entry.events.shift();
+
+  const raised = [];
+  if (marked && !called) {
+    raised.push({ type: 'early_mark', at, position, songId, message: `Marked ${position} before its song was called` });
+  }
+  if (marked) {
+    const recentMarks = entry.events.filter((e) => e.action === 'mark' && at - e.at < BURST_WINDOW_MS);
+    const alreadyFlagged = entry.flags.some((f) => f.type === 'burst' && at - f.at < BURST_WINDOW_MS);
+    if (recentMarks.length >= BURST_MARKS && !alreadyFlagged) {
+      raised.push({ type: 'burst', at, message: `${recentMarks.length} squares marked within ${BURST_WINDOW_MS / 1000}s` });
+    }
+  }
+  if (otherLiveSockets > 0 && !entry.flags.some((f) => f.type === 'multi_socket' && f.socketId === socketId)) {
+    raised.push({
+      type: 'multi_socket',
+      at,
+      socketId,
+      message: `Marking from ${otherLiveSockets + 1} connected devices with the same player ID`,
+    });
+  }
+  raised.forEach((flag) => addFlag(entry, flag));
+  return raised;
+}
+
+/**
+ * Record a host check of a paper card: one mark event per called square not marked in an earlier check.
+ * Paper marks are derived from the calls, so they never raise flags (all of them arrive at once).
+ */
+function recordPaperCheck(room, { key, playerName, card, socketId }) {
+  const audit = ensureMarkAudit(room);
+  let entry = audit.get(key);
+  if (!entry) {
+    entry = { playerName, events: [], flags: [] };
+    audit.set(key, entry);
+  }
+  entry.playerName = playerName;
+
+  const at = Date.now();
+  const currentSongId = (room.currentSong && room.currentSong.id) || null;
+  const recorded = new Set(entry.events.map((e) => e.position));
+  for (const square of card.squares || []) {
+    if (!square.marked || square.isFreeSpace || recorded.has(square.position)) continue;
+    entry.events.push({ at, action: 'mark', position: square.position, songId: square.songId, currentSongId, called: true, socketId });
+    if (entry.events.length > MAX_EVENTS_PER_PLAYER) entry.events.shift();
+  }
+}
+
+/** What the host's verification panel shows next to a claim; null when the player never marked. */
+function auditSummary(room, key) {
+  const entry = room.markAudit instanceof Map ? room.markAudit.get(key) : null;
+  if (!entry) return null;
+  const counts = {};
+  for (const type of FLAG_TYPES) counts[type] = entry.flags.filter((f) => f.type === type).length;
+  return {
+    flags: entry.flags.map(({ type, at, position, message }) => ({ type, at, position: position || null, message })),
+    flagCounts: counts,
+    eventCount: entry.events.length,
+    recentEvents: entry.events.slice(-RECENT_EVENTS_IN_SUMMARY).map(({ socketId, ...e }) => e),
+  };
+}
+
+module.exports = {
+  ensureMarkAudit,
+  resetMarkAudit,
+  auditKey,
+  recordMark,
+  recordPaperCheck,
+  auditSummary,
+};
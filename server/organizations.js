@@ -84,6 +84,9 @@ async function ensureOrganizationsTable(db) {
   await db.query(`
     CREATE INDEX IF NOT EXISTS idx_users_organization_id ON users (organization_id)
   `);
+  await db.query(`
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS org_role TEXT NOT NULL DEFAULT 'member'
+  `);
   return true;
 }
 
@@ -152,17 +155,27 @@ async function createOrganization(db, { name, spotifyClientId, spotifyClientSecr
   return r.rows[0];
 }
 
-async function setUserOrganizationId(db, userId, organizationId) {
+/** `admin` hosts see and manage every room run by hosts of their organization. */
+const ORG_ROLES = ['member', 'admin'];
+
+/** Move a host into (or out of) an organization; `orgRole` is kept when omitted, reset when leaving. */
+async function setUserOrganizationId(db, userId, organizationId, orgRole = null) {
   if (!db) throw new Error('DATABASE_URL required');
   await ensureOrganizationsTable(db);
+  if (orgRole != null && !ORG_ROLES.includes(orgRole)) {
+    throw new Error(`orgRole must be one of: ${ORG_ROLES.join(', ')}`);
+  }
   if (organizationId == null) {
-    await db.query('UPDATE users SET organization_id = NULL WHERE id = $1', [userId]);
-    return { ok: true, userId, organizationId: null };
+    await db.query(`UPDATE users SET organization_id = NULL, org_role = 'member' WHERE id = $1`, [userId]);
+    return { ok: true, userId, organizationId: null, orgRole: 'member' };
   }
   const check = await db.query('SELECT 1 FROM organizations WHERE id = $1', [organizationId]);
   if (check.rows.length === 0) throw new Error('organization not found');
-  await db.query('UPDATE users SET organization_id = $2 WHERE id = $1', [userId, organizationId]);
-  return { ok: true, userId, organizationId };
+  const r = await db.query(
+    'UPDATE users SET organization_id = $2, org_role = COALESCE($3, org_role) WHERE id = $1 RETURNING org_role',
+    [userId, organizationId, orgRole]
+  );
+  return { ok: true, userId, organizationId, orgRole: r.rows[0] ? r.rows[0].org_role : orgRole || 'member' };
 }
 
 const MAX_VENUE = {
@@ -295,7 +308,52 @@ async function getVenueBrandingForHostUserId(db, userId) {
   return venueBrandingPayloadFromSettings(merged);
 }
 
+/** { id, name } of the host user's organization, or null when the user has none. */
+async function getOrganizationForUserId(db, userId) {
+  if (!db || userId == null) return null;
+  await ensureOrganizationsTable(db);
+  const r = await db.query(
+    `SELECT o.id, o.name
+     FROM users u
+     JOIN organizations o ON o.id = u.organization_id
+     WHERE u.id = $1`,
+    [userId]
+  );
+  if (r.rows.length === 0) return null;
+  return { id: r.rows[0].id, name: r.rows[0].name };
+}
+
+/**
+ * Owner / organization details for a set of host user ids (room listings):
+ * Map of id → { userId, email, displayName, organizationId, organizationName, orgRole }.
+ */
+async function getHostSummaries(db, userIds) {
+  const ids = Array.from(new Set(userIds.map(Number).filter(Number.isFinite)));
+  const out = new Map();
+  if (!db || ids.length === 0) return out;
+  await ensureOrganizationsTable(db);
+  const r = await db.query(
+    `SELECT u.id, u.email, u.display_name, u.organization_id, u.org_role, o.name AS organization_name
+     FROM users u
+     LEFT JOIN organizations o ON o.id = u.organization_id
+     WHERE u.id = ANY($1::int[])`,
+    [ids]
+  );
+  for (const row of r.rows) {
+    out.set(Number(row.id), {
+      userId: Number(row.id),
+      email: row.email || null,
+      displayName: row.display_name || null,
+      organizationId: row.organization_id == null ? null : Number(row.organization_id),
+      organizationName: row.organization_name || null,
+      orgRole: ORG_ROLES.includes(row.org_role) ? row.org_role : 'member',
+    });
+  }
+  return out;
+}
+
 module.exports = {
+  ORG_ROLES,
   ensureOrganizationsTable,
   getCredentialsForUserId,
   getCredentialOptionsForUser,
@@ -306,4 +364,6 @@ module.exports = {
   getOrganizationById,
   patchOrganizationVenueSettings,
   getVenueBrandingForHostUserId,
+  getOrganizationForUserId,
+  getHostSummaries,
 };
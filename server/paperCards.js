@@ -0,0 +1,256 @@
+/**
+ * Printed bingo cards for in-person players without phones. The host prints a batch for the finalized
+ * mix; each card gets a short ID (also in its QR code) and is registered on `room.paperCards` so a bingo
+ * shout can be checked by typing or scanning that ID into the verification panel. Paper cards have no
+ * digital marks: every square whose song has been called counts as daubed.
+ */
+
+const crypto = require('crypto');
+
+const MAX_PAPER_CARDS_PER_BATCH = 200;
+const MAX_PAPER_CARDS_PER_ROOM = 1000;
+/** No 0/O, 1/I/L — IDs are read aloud and typed from paper. */
+const CARD_ID_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CARD_ID_LENGTH = 6;
+const PAPER_PLAYER_PREFIX = 'paper:';
+/** Attempts per card to find a layout no other card in the room already has. */
+const MAX_LAYOUT_ATTEMPTS = 25;
+
+function ensurePaperCards(room) {
+  if (!(room.paperCards instanceof Map)) room.paperCards = new Map();
+  return room.paperCards;
+}
+
+/** Printed cards belong to one mix; a new mix or full reset retires them. */
+function clearPaperCards(room) {
+  room.paperCards = new Map();
+}
+
+function formatCardId(raw) {
+  return `${raw.slice(0, 3)}-${raw.slice(3)}`;
+}
+
+/** Canonical `ABC-DEF` form of typed or scanned input (case, spaces and dashes ignored), or null. */
+function normalizeCardId(input) {
+  const raw = String(input || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (raw.length !== CARD_ID_LENGTH) return null;
+  for (const ch of raw) {
+    if (!CARD_ID_ALPHABET.includes(ch)) return null;
+  }
+  return formatCardId(raw);
+}
+
+function newCardId(taken) {
+  for (;;) {
+    let raw = '';
+    for (let i = 0; i < CARD_ID_LENGTH; i++) raw += CARD_ID_ALPHABET[crypto.randomInt(CARD_ID_ALPHABET.length)];
+    const id = formatCardId(raw);
+    if (!taken.has(id)) return id;
+  }
+}
+
+function layoutKey(squares) {
+  return squares.map((s) => `${s.position}:${s.songId}`).sort().join('|');
+}
+
+/**
+ * Generate and register `count` cards with layouts unique within the room.
+ * `buildCard()` returns `{ squares, cardNumber, cardId }` for a fresh card drawn from the room's card
+ * deal (25 squares, same shape as player cards) or null when the mix cannot fill one. Entries keep the
+ * deal's number and ID as `cardNumber` / `dealCardId`. Returns the new entries; fewer than `count`
+ * when the mix runs out of layouts.
+ */
+function createPaperCards(room, count, buildCard) {
+  const cards = ensurePaperCards(room);
+  const layouts = new Set(Array.from(cards.values()).map((c) => layoutKey(c.squares)));
+  const batch = Date.now();
+  const created = [];
+  for (let n = 0; n < count && cards.size < MAX_PAPER_CARDS_PER_ROOM; n++) {
+    let drawn = null;
+    for (let attempt = 0; attempt < MAX_LAYOUT_ATTEMPTS; attempt++) {
+      const candidate = buildCard();
+      if (!candidate) return created;
+      const key = layoutKey(candidate.squares);
+      if (!layouts.has(key)) {
+        layouts.add(key);
+        drawn = candidate;
+        break;
+      }
+    }
+    if (!drawn) break;
+    const cardId = newCardId(cards);
+    const entry = {
+      cardId,
+      cardNumber: drawn.cardNumber,
+      dealCardId: drawn.cardId,
+      squares: drawn.squares,
+      createdAt: new Date(batch).toISOString(),
+      batch,
+    };
+    cards.set(cardId, entry);
+    created.push(entry);
+  }
+  return created;
+}
+
+function isPaperPlayerId(playerId) {
+  return typeof playerId === 'string' && playerId.startsWith(PAPER_PLAYER_PREFIX);
+}
+
+function paperPlayerId(cardId) {
+  return `${PAPER_PLAYER_PREFIX}${cardId}`;
+}
+
+function paperPlayerName(cardId) {
+  return `Paper card ${cardId}`;
+}
+
+function getPaperCard(room, cardIdOrPlayerId) {
+  if (!(room.paperCards instanceof Map)) return null;
+  const raw = isPaperPlayerId(cardIdOrPlayerId) ? cardIdOrPlayerId.slice(PAPER_PLAYER_PREFIX.length) : cardIdOrPlayerId;
+  const cardId = normalizeCardId(raw);
+  return cardId ? room.paperCards.get(cardId) || null : null;
+}
+
+/** Card with every called song (and the free space) marked, in the shape the verification panel expects. */
+function markFromCalls(entry, calledSongIds) {
+  const called = new Set(calledSongIds || []);
+  return {
+    id: paperPlayerId(entry.cardId),
+    paperCardId: entry.cardId,
+    squares: entry.squares.map((s) => ({ ...s, marked: !!s.isFreeSpace || called.has(s.songId) })),
+  };
+}
+
+/**
+ * Stand-in for `room.players` entries so verify-bingo can approve or reject a paper claim.
+ * `bingoCard` carries the marks computed when the host checked the card.
+ */
+function paperPlayerFor(room, playerId) {
+  const entry = getPaperCard(room, playerId);
+  if (!entry) return null;
+  return {
+    name: paperPlayerName(entry.cardId),
+    isPaper: true,
+    bingoCard: entry.lastCheck || markFromCalls(entry, []),
+  };
+}
+
+function escapeHtml(value) {
+  return String(value == null ? '' : value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function safeColor(value, fallback) {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{3,8}$/.test(value.trim()) ? value.trim() : fallback;
+}
+
+function safeHttpUrl(value) {
+  if (typeof value !== 'string') return '';
+  try {
+    const u = new URL(value.trim());
+    return u.protocol === 'https:' || u.protocol === 'http:' ? u.href : '';
+  } catch {
+    return '';
+  }
+}
+
+function paperCardHtml(entry, branding, qrUrlFor) {
+  const byPos = new Map(entry.squares.map((s) => [s.position, s]));
+  const rows = [];
+  for (let row = 0; row < 5; row++) {
+    let cells = '';
+    for (let col = 0; col < 5; col++) {
+      const sq = byPos.get(`${row}-${col}`);
+      if (!sq) {
+        cells += '<td></td>';
+      } else if (sq.isFreeSpace) {
+        cells += '<td class="free">FREE</td>';
+      } else {
+        const artist = sq.artistName ? `<small>${escapeHtml(sq.artistName)}</small>` : '';
+        cells += `<td>${escapeHtml(sq.customSongName || sq.songName || '')}${artist}</td>`;
+      }
+    }
+    rows.push(`<tr>${cells}</tr>`);
+  }
+  const logoUrl = safeHttpUrl(branding.logoUrl);
+  return `
+<article class="paper-card">
+  <header>
+    ${logoUrl ? `<img class="logo" src="${escapeHtml(logoUrl)}" alt="">` : ''}
+    <span class="title">${escapeHtml(branding.eventTitle || 'TEMPO Music Bingo')}</span>
+  </header>
+  <table>${rows.join('')}</table>
+  <footer>
+    <div>
+      <div class="card-id">${escapeHtml(entry.cardId)}</div>
+      ${branding.sponsorLine ? `<div class="sponsor">${escapeHtml(branding.sponsorLine)}</div>` : ''}
+      ${branding.footerText ? `<div class="muted">${escapeHtml(branding.footerText)}</div>` : ''}
+    </div>
+    <img class="qr" src="${escapeHtml(qrUrlFor(entry.cardId))}" alt="QR ${escapeHtml(entry.cardId)}">
+  </footer>
+</article>`;
+}
+
+/**
+ * Printable page, four cards per sheet; Print → Save as PDF gives the PDF copy.
+ * `qrUrlFor(cardId)` must be absolute — the page is opened from a blob URL.
+ */
+function paperCardsToHtml(entries, { roomId, venueBranding = null, qrUrlFor }) {
+  const branding = venueBranding || {};
+  const primary = safeColor(branding.primaryColor, '#111111');
+  const accent = safeColor(branding.accentColor, '#666666');
+  const pages = [];
+  for (let i = 0; i < entries.length; i += 4) {
+    pages.push(`<section class="sheet">${entries.slice(i, i + 4).map((e) => paperCardHtml(e, branding, qrUrlFor)).join('')}</section>`);
+  }
+  const title = `${branding.eventTitle || `Room ${roomId}`} — Paper cards`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: letter; margin: 0.35in; }
+  body { font-family: system-ui, -apple-system, Segoe UI, Roboto, sans-serif; color: #111; margin: 0; }
+  .sheet { display: grid; grid-template-columns: 1fr 1fr; grid-template-rows: 1fr 1fr; gap: 0.25in; height: 10.2in; page-break-after: always; }
+  .sheet:last-child { page-break-after: auto; }
+  .paper-card { border: 2px solid ${primary}; border-radius: 8px; padding: 8px; display: flex; flex-direction: column; page-break-inside: avoid; }
+  .paper-card header { display: flex; align-items: center; gap: 8px; color: ${primary}; font-weight: 800; font-size: 0.95rem; margin-bottom: 6px; }
+  .paper-card .logo { max-height: 28px; max-width: 90px; object-fit: contain; }
+  .paper-card table { border-collapse: collapse; table-layout: fixed; width: 100%; flex: 1; font-size: 0.62rem; }
+  .paper-card td { border: 1px solid ${accent}; padding: 2px; text-align: center; vertical-align: middle; word-break: break-word; }
+  .paper-card td small { display: block; color: #666; font-size: 0.55rem; }
+  .paper-card td.free { font-weight: 800; color: ${primary}; }
+  .paper-card footer { display: flex; justify-content: space-between; align-items: flex-end; margin-top: 6px; font-size: 0.6rem; }
+  .paper-card .card-id { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 1.1rem; font-weight: 800; letter-spacing: 0.08em; }
+  .paper-card .sponsor { color: ${accent}; font-weight: 600; }
+  .paper-card .qr { width: 0.85in; height: 0.85in; }
+  .muted { color: #666; }
+</style>
+</head>
+<body>
+${pages.join('\n')}
+</body>
+</html>
+`;
+}
+
+module.exports = {
+  MAX_PAPER_CARDS_PER_BATCH,
+  ensurePaperCards,
+  clearPaperCards,
+  normalizeCardId,
+  createPaperCards,
+  isPaperPlayerId,
+  paperPlayerId,
+  paperPlayerName,
+  getPaperCard,
+  markFromCalls,
+  paperPlayerFor,
+  paperCardsToHtml,
+};
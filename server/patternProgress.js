@@ -0,0 +1,121 @@
+/**
+ * How far a card is from the room's pattern, counted in calls rather than marks: a square is covered
+ * when it is the free space or its song has been called. Used for near-miss ("one away") scoring and
+ * the live tension indicators, which recompute every card on each call (see `cardProgress`).
+ */
+
+const SIZE = 5;
+
+function row(r) {
+  return Array.from({ length: SIZE }, (_, c) => `${r}-${c}`);
+}
+
+function col(c) {
+  return Array.from({ length: SIZE }, (_, r) => `${r}-${c}`);
+}
+
+const DIAGONALS = [
+  Array.from({ length: SIZE }, (_, i) => `${i}-${i}`),
+  Array.from({ length: SIZE }, (_, i) => `${i}-${SIZE - 1 - i}`),
+];
+
+/** Every way to complete each pattern; 'line' is any one of 12, the rest are a single shape. */
+const PATTERN_SHAPES = {
+  line: [...Array.from({ length: SIZE }, (_, r) => row(r)), ...Array.from({ length: SIZE }, (_, c) => col(c)), ...DIAGONALS],
+  four_corners: [['0-0', '0-4', '4-0', '4-4']],
+  x: [Array.from(new Set([...DIAGONALS[0], ...DIAGONALS[1]]))],
+  full_card: [Array.from({ length: SIZE }, (_, r) => row(r)).flat()],
+  t: [[...row(0), '1-2', '2-2', '3-2', '4-2']],
+  l: [[...col(0), '4-1', '4-2', '4-3', '4-4']],
+  u: [[...col(0), ...col(4), '4-1', '4-2', '4-3']],
+  plus: [[...row(2), '0-2', '1-2', '3-2', '4-2']],
+};
+
+/** Position lists for the room's pattern; a custom pattern is its mask (falls back to 'line' if empty). */
+function shapesForRoom(room) {
+  const pattern = (room && room.pattern) || 'line';
+  if (pattern === 'custom') {
+    const mask = room.customPattern ? Array.from(room.customPattern) : [];
+    return mask.length ? [mask] : PATTERN_SHAPES.line;
+  }
+  return PATTERN_SHAPES[pattern] || PATTERN_SHAPES.line;
+}
+
+/** Called song ids plus the song now playing (it counts as called for validation too). */
+function calledSetForRoom(room) {
+  const called = new Set(Array.isArray(room && room.calledSongIds) ? room.calledSongIds : []);
+  if (room && room.currentSong && room.currentSong.id) called.add(room.currentSong.id);
+  return called;
+}
+
+/** position → square per card, rebuilt only when the card's squares array is replaced. */
+const positionIndex = new WeakMap();
+
+function squaresByPosition(card) {
+  const cached = positionIndex.get(card);
+  if (cached && cached.squares === card.squares) return cached.byPos;
+  const byPos = new Map(card.squares.map((s) => [s.position, s]));
+  positionIndex.set(card, { squares: card.squares, byPos });
+  return byPos;
+}
+
+/**
+ * Fewest uncalled squares left on any way to complete the pattern (0 = a valid bingo is available),
+ * or null when the card has no squares.
+ */
+function squaresToGo(card, shapes, called) {
+  if (!card || !Array.isArray(card.squares) || card.squares.length === 0) return null;
+  const byPos = squaresByPosition(card);
+  let best = Infinity;
+  for (const shape of shapes) {
+    let missing = 0;
+    for (const pos of shape) {
+      const sq = byPos.get(pos);
+      if (!sq || !(sq.isFreeSpace || called.has(sq.songId))) missing++;
+      if (missing >= best) break;
+    }
+    if (missing < best) best = missing;
+    if (best === 0) break;
+  }
+  return best === Infinity ? null : best;
+}
+
+function squaresToGoInRoom(card, room) {
+  return squaresToGo(card, shapesForRoom(room), calledSetForRoom(room));
+}
+
+/**
+ * `squaresToGo` plus the uncalled positions that would finish it: the union over every shape tied for
+ * closest, so a card one away on two lines lists both squares. Null when the card has no squares.
+ */
+function cardProgress(card, shapes, called) {
+  if (!card || !Array.isArray(card.squares) || card.squares.length === 0) return null;
+  const byPos = squaresByPosition(card);
+  let best = Infinity;
+  let missing = new Set();
+  for (const shape of shapes) {
+    const open = [];
+    for (const pos of shape) {
+      const sq = byPos.get(pos);
+      if (!sq || !(sq.isFreeSpace || called.has(sq.songId))) open.push(pos);
+      if (open.length > best) break;
+    }
+    if (open.length < best) {
+      best = open.length;
+      missing = new Set(open);
+    } else if (open.length === best) {
+      open.forEach((pos) => missing.add(pos));
+    }
+  }
+  if (best === Infinity) return null;
+  return { squaresToGo: best, missing: best === 0 ? [] : Array.from(missing).sort() };
+}
+
+module.exports = {
+  PATTERN_SHAPES,
+  shapesForRoom,
+  calledSetForRoom,
+  squaresToGo,
+  squaresToGoInRoom,
+  cardProgress,
+};
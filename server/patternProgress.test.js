@@ -0,0 +1,75 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const patternProgress = require('./patternProgress');
+
+/** 5x5 card whose square r-c holds song `s<r><c>`, with the free space in the middle. */
+function makeCard() {
+  const squares = [];
+  for (let r = 0; r < 5; r++) {
+    for (let c = 0; c < 5; c++) {
+      const isFreeSpace = r === 2 && c === 2;
+      squares.push({ position: `${r}-${c}`, songId: isFreeSpace ? null : `s${r}${c}`, isFreeSpace });
+    }
+  }
+  return { squares };
+}
+
+const songsAt = (...positions) => new Set(positions.map((p) => `s${p.replace('-', '')}`));
+
+test('every pattern has 5x5 positions and line has 12 shapes', () => {
+  assert.equal(patternProgress.PATTERN_SHAPES.line.length, 12);
+  assert.equal(patternProgress.PATTERN_SHAPES.x[0].length, 9);
+  assert.equal(patternProgress.PATTERN_SHAPES.full_card[0].length, 25);
+  for (const shapes of Object.values(patternProgress.PATTERN_SHAPES)) {
+    for (const shape of shapes) shape.forEach((pos) => assert.match(pos, /^[0-4]-[0-4]$/));
+  }
+});
+
+test('shapesForRoom uses the custom mask, falling back to line', () => {
+  assert.deepEqual(patternProgress.shapesForRoom({ pattern: 'custom', customPattern: new Set(['0-0', '1-1']) }), [['0-0', '1-1']]);
+  assert.equal(patternProgress.shapesForRoom({ pattern: 'custom', customPattern: new Set() }), patternProgress.PATTERN_SHAPES.line);
+  assert.equal(patternProgress.shapesForRoom({ pattern: 'no_such_pattern' }), patternProgress.PATTERN_SHAPES.line);
+  assert.equal(patternProgress.shapesForRoom({ pattern: 'plus' }), patternProgress.PATTERN_SHAPES.plus);
+});
+
+test('calledSetForRoom includes the song playing now', () => {
+  const called = patternProgress.calledSetForRoom({ calledSongIds: ['a', 'b'], currentSong: { id: 'c' } });
+  assert.deepEqual([...called].sort(), ['a', 'b', 'c']);
+  assert.equal(patternProgress.calledSetForRoom(null).size, 0);
+});
+
+test('squaresToGo counts the free space as covered', () => {
+  const card = makeCard();
+  const line = patternProgress.PATTERN_SHAPES.line;
+  // Middle row: free space plus 2-0, 2-1, 2-3 called
+  assert.equal(patternProgress.squaresToGo(card, line, songsAt('2-0', '2-1', '2-3')), 1);
+  assert.equal(patternProgress.squaresToGo(card, line, songsAt('2-0', '2-1', '2-3', '2-4')), 0);
+  assert.equal(patternProgress.squaresToGo(card, line, new Set()), 4);
+  assert.equal(patternProgress.squaresToGo({ squares: [] }, line, new Set()), null);
+});
+
+test('squaresToGoInRoom reads the pattern and calls from the room', () => {
+  const room = { pattern: 'four_corners', calledSongIds: ['s00', 's04', 's40'], currentSong: { id: 's44' } };
+  assert.equal(patternProgress.squaresToGoInRoom(makeCard(), room), 0);
+  room.currentSong = null;
+  assert.equal(patternProgress.squaresToGoInRoom(makeCard(), room), 1);
+});
+
+test('cardProgress lists the missing squares of every closest shape', () => {
+  const card = makeCard();
+  const line = patternProgress.PATTERN_SHAPES.line;
+  // One away on row 0 (needs 0-4) and on column 0 (needs 4-0)
+  const progress = patternProgress.cardProgress(card, line, songsAt('0-0', '0-1', '0-2', '0-3', '1-0', '2-0', '3-0'));
+  assert.deepEqual(progress, { squaresToGo: 1, missing: ['0-4', '4-0'] });
+  assert.deepEqual(patternProgress.cardProgress(card, line, songsAt('0-0', '1-1', '3-3', '4-4')), { squaresToGo: 0, missing: [] });
+});
+
+test('the position index follows a card whose squares are replaced', () => {
+  const card = makeCard();
+  const line = patternProgress.PATTERN_SHAPES.line;
+  const called = songsAt('0-0', '0-1', '0-2', '0-3', '0-4');
+  assert.equal(patternProgress.squaresToGo(card, line, called), 0);
+  card.squares = card.squares.map((s) => (s.position === '0-4' ? { ...s, songId: 'other' } : s));
+  assert.equal(patternProgress.squaresToGo(card, line, called), 1);
+});
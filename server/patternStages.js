@@ -0,0 +1,126 @@
+/**
+ * Progressive rounds: an ordered list of prize stages on a planned round (e.g. line → four corners →
+ * full card) played on the same cards. The running state lives on `room.patternStages`:
+ *   { stages: [{ pattern, customMask }], index, completed: [{ stageIndex, pattern, winners, at }] }
+ * `room.pattern` / `room.customPattern` always hold the current stage, so validation is unchanged.
+ */
+
+const STAGE_PATTERNS = new Set(['line', 'four_corners', 'x', 'full_card', 't', 'l', 'u', 'plus', 'custom']);
+const MAX_STAGES = 6;
+const MASK_POSITION = /^(0|1|2|3|4)-(0|1|2|3|4)$/;
+/** Winner card stays on the public display this long before calling resumes on the next stage. */
+const STAGE_CELEBRATION_MS = 8000;
+
+/** Keep valid stages only; a custom stage without any mask squares is dropped. */
+function sanitizeStages(stages) {
+  if (!Array.isArray(stages)) return [];
+  const clean = [];
+  for (const raw of stages.slice(0, MAX_STAGES)) {
+    const stage = raw && typeof raw === 'object' ? raw : {};
+    if (!STAGE_PATTERNS.has(stage.pattern)) continue;
+    if (stage.pattern === 'custom') {
+      const mask = Array.isArray(stage.customMask) ? stage.customMask.filter((p) => MASK_POSITION.test(p)) : [];
+      if (mask.length === 0) continue;
+      clean.push({ pattern: 'custom', customMask: Array.from(new Set(mask)) });
+    } else {
+      clean.push({ pattern: stage.pattern });
+    }
+  }
+  return clean;
+}
+
+/** Stages of the active planned round (or the plan entry for the current round number); [] when none. */
+function stagesForRoom(room) {
+  const planned = Array.isArray(room.eventRounds) ? room.eventRounds : [];
+  const roundNumber = (Array.isArray(room.roundWinners) ? room.roundWinners.length : 0) + 1;
+  const active = planned.find((r) => r.status === 'active') || planned[roundNumber - 1];
+  return active ? sanitizeStages(active.stages) : [];
+}
+
+function applyStage(room) {
+  const stage = room.patternStages.stages[room.patternStages.index];
+  room.pattern = stage.pattern;
+  room.customPattern = stage.pattern === 'custom' ? new Set(stage.customMask) : undefined;
+  return stage;
+}
+
+/** Start a progressive round; a single stage is just a pattern, so only two or more are tracked. */
+function startStages(room, stages) {
+  const clean = sanitizeStages(stages);
+  room.patternStages = null;
+  if (clean.length === 0) return null;
+  if (clean.length === 1) {
+    room.pattern = clean[0].pattern;
+    room.customPattern = clean[0].pattern === 'custom' ? new Set(clean[0].customMask) : undefined;
+    return null;
+  }
+  room.patternStages = { stages: clean, index: 0, completed: [] };
+  applyStage(room);
+  return room.patternStages;
+}
+
+function clearStages(room) {
+  room.patternStages = null;
+}
+
+/** { index, total, pattern } for the stage being played, or null outside a progressive round. */
+function currentStage(room) {
+  const ps = room.patternStages;
+  if (!ps) return null;
+  return { index: ps.index, total: ps.stages.length, pattern: ps.stages[ps.index].pattern };
+}
+
+function hasNextStage(room) {
+  const ps = room.patternStages;
+  return !!ps && ps.index + 1 < ps.stages.length;
+}
+
+/** Record the stage's winners and move to the next pattern; returns the new stage. */
+function advanceStage(room, winners) {
+  const ps = room.patternStages;
+  ps.completed.push({
+    stageIndex: ps.index,
+    pattern: ps.stages[ps.index].pattern,
+    winners: winners.map((w) => w.playerName),
+    at: new Date().toISOString(),
+  });
+  ps.index += 1;
+  return applyStage(room);
+}
+
+/** Winners of finished stages, including the one just won on the final stage. */
+function completedStages(room, finalWinners) {
+  const ps = room.patternStages;
+  if (!ps) return null;
+  const completed = [...ps.completed];
+  if (finalWinners && finalWinners.length) {
+    completed.push({
+      stageIndex: ps.index,
+      pattern: ps.stages[ps.index].pattern,
+      winners: finalWinners.map((w) => w.playerName),
+      at: new Date().toISOString(),
+    });
+  }
+  return completed;
+}
+
+/** `pattern-stage-changed` payload; `stages: []` tells clients the round is no longer progressive. */
+function stagePayload(room, roomId) {
+  const ps = room.patternStages;
+  if (!ps) return { roomId, stageIndex: 0, stages: [], completed: [] };
+  return { roomId, stageIndex: ps.index, stages: ps.stages, completed: ps.completed };
+}
+
+module.exports = {
+  MAX_STAGES,
+  STAGE_CELEBRATION_MS,
+  sanitizeStages,
+  stagesForRoom,
+  startStages,
+  clearStages,
+  currentStage,
+  hasNextStage,
+  advanceStage,
+  completedStages,
+  stagePayload,
+};
@@ -0,0 +1,146 @@
+/**
+ * Playback providers: what `playSongAtIndex`, `playNextSongSimple` and `startAutomaticPlayback` drive.
+ *
+ * - spotify: Spotify Connect through SpotifyService (temporary playlist context, locked device).
+ * - local:   audio files from a folder or M3U playlist the host picked in the browser. The server only
+ *            sends play / pause / seek / volume commands to the host's sockets; files never leave the
+ *            host machine. Track ids are `local:<hash>` so they can never be sent to Spotify.
+ *
+ * Every provider exposes the same methods:
+ *   prepareQueue(roomId, songs) → queue id | null    releaseQueue(queueId)
+ *   activateDevice(deviceId, { ensureListed, repeatOff })   listDevices()
+ *   playTrack({ deviceId, song, index, startMs, queueId }, { attempts })
+ *   pause(deviceId)  resume(deviceId)  seek(positionMs, deviceId)  setVolume(volume, deviceId)
+ * `readsPlaybackState` says whether the server can poll what is actually playing (hijack monitor,
+ * start verification); local playback is only known to the host browser.
+ */
+
+const PLAYBACK_PROVIDERS = ['spotify', 'local'];
+const LOCAL_TRACK_PREFIX = 'local:';
+/** Pseudo device the host UI selects in local mode; keeps the "device required" checks meaningful. */
+const LOCAL_DEVICE_ID = 'local-host-browser';
+
+function isLocalTrackId(id) {
+  return typeof id === 'string' && id.startsWith(LOCAL_TRACK_PREFIX);
+}
+
+/**
+ * Snippet start offset for random starts ('none' | 'early' | 'random'); needs `song.duration` in ms.
+ * early: within the first 90s; random: anywhere that still leaves the snippet plus 30s of tail.
+ */
+function pickStartMs(song, { randomStarts, snippetLength }) {
+  if (!randomStarts || randomStarts === 'none' || !song || !Number.isFinite(song.duration)) return 0;
+  const durationMs = Math.max(0, Number(song.duration));
+  const snippetMs = (snippetLength || 30) * 1000;
+  const bufferMs = 1500;
+  let safeWindow = 0;
+  if (randomStarts === 'early') {
+    safeWindow = Math.min(90000, Math.max(0, durationMs - snippetMs - bufferMs));
+  } else if (randomStarts === 'random') {
+    safeWindow = Math.max(0, durationMs - snippetMs - bufferMs - 30000);
+  }
+  return safeWindow > 3000 ? Math.floor(Math.random() * safeWindow) : 0;
+}
+
+/** @param {import('./spotify')} service SpotifyService for the room's tenant */
+function createSpotifyPlayback(service) {
+  const retry = (label, fn, attempts) =>
+    attempts > 1 ? service.withRetries(label, fn, { attempts, backoffMs: 400 }) : fn();
+
+  return {
+    id: 'spotify',
+    readsPlaybackState: true,
+
+    /** Temporary playlist holding the game order, so Spotify plays in context and cannot drift to radio. */
+    async prepareQueue(roomId, songs) {
+      try {
+        await service.deleteAllGameOfTonesOutputPlaylists();
+      } catch (clearErr) {
+        console.warn('⚠️ Could not auto-clear prior GOT output playlists (non-fatal):', clearErr?.message || clearErr);
+      }
+      const trackUris = songs.map((song) => `spotify:track:${song.id}`);
+      const playlistName = `TEMPO Bingo Room ${roomId} - ${new Date().toISOString().slice(0, 16)}`;
+      return service.createTemporaryPlaylist(playlistName, trackUris);
+    },
+
+    async releaseQueue(queueId) {
+      if (queueId) await service.deleteTemporaryPlaylist(queueId);
+    },
+
+    /**
+     * Transfer to the locked device with shuffle off; `ensureListed` wakes a device missing from /devices
+     * first, `repeatOff` is for single-track plays (playlist context sets repeat itself).
+     */
+    async activateDevice(deviceId, { ensureListed = false, repeatOff = false } = {}) {
+      if (ensureListed) {
+        const devices = await service.getUserDevices();
+        if (!devices.find((d) => d.id === deviceId)) {
+          await service.activateDevice(deviceId);
+        }
+      }
+      await service.withRetries('transferPlayback', () => service.transferPlayback(deviceId, false), { attempts: 3, backoffMs: 300 });
+      try {
+        await service.withRetries('setShuffle(false)', () => service.setShuffleState(false, deviceId), { attempts: 2, backoffMs: 200 });
+      } catch (_) {}
+      if (repeatOff) {
+        try { await service.setRepeatState('off', deviceId); } catch (_) {}
+      }
+    },
+
+    async playTrack({ deviceId, song, index, startMs = 0, queueId = null }, { attempts = 1 } = {}) {
+      if (queueId) {
+        return retry('startPlaybackFromPlaylist', () => service.startPlaybackFromPlaylist(deviceId, queueId, index, startMs), attempts);
+      }
+      return retry('startPlayback', () => service.startPlayback(deviceId, [`spotify:track:${song.id}`], startMs), attempts);
+    },
+
+    pause: (deviceId) => service.pausePlayback(deviceId),
+    resume: (deviceId) => service.resumePlayback(deviceId),
+    seek: (positionMs, deviceId) => service.seekToPosition(positionMs, deviceId),
+    setVolume: (volume, deviceId) =>
+      service.withRetries('setVolume', () => service.setVolume(volume, deviceId), { attempts: 2, backoffMs: 300 }),
+    listDevices: () => service.getUserDevices(),
+  };
+}
+
+/**
+ * @param {(action: string, payload: object) => number} send emits `local-playback` to the room's host
+ *   sockets and returns how many received it
+ */
+function createLocalPlayback(send) {
+  const command = async (action, payload = {}) => {
+    if (send(action, payload) === 0) {
+      throw new Error('Host browser is not connected — local audio plays from the host page.');
+    }
+  };
+
+  return {
+    id: 'local',
+    readsPlaybackState: false,
+    prepareQueue: async () => null,
+    releaseQueue: async () => {},
+    activateDevice: async () => {},
+
+    async playTrack({ song, index, startMs = 0 }) {
+      if (!isLocalTrackId(song && song.id)) {
+        throw new Error(`Track ${song && song.id} is not a local file`);
+      }
+      await command('play', { trackId: song.id, index, startMs });
+    },
+
+    pause: () => command('pause'),
+    resume: () => command('resume'),
+    seek: (positionMs) => command('seek', { positionMs }),
+    setVolume: (volume) => command('volume', { volume }),
+    listDevices: async () => [{ id: LOCAL_DEVICE_ID, name: 'Host browser (local files)', type: 'Computer', is_active: true }],
+  };
+}
+
+module.exports = {
+  PLAYBACK_PROVIDERS,
+  LOCAL_DEVICE_ID,
+  isLocalTrackId,
+  pickStartMs,
+  createSpotifyPlayback,
+  createLocalPlayback,
+};
@@ -0,0 +1,145 @@
+/**
+ * Versioned player-card sync for host screens. A host gets one full `player-cards-snapshot` when it
+ * connects (or asks), then `player-cards-delta` events carrying only what changed since the previous
+ * version: square marks, calls appended to the played list, distances to the pattern, and whole cards
+ * only for players who joined or were dealt a new card. Every delta has `version` = previous + 1 under
+ * a `syncId`; a host that sees a gap (or a different syncId after a server restart) asks for a snapshot.
+ *
+ * The last state sent is mirrored per room in memory (not on the room, so it never reaches persistence);
+ * `takeDelta` diffs the room against it, advances the mirror and returns null when nothing changed.
+ */
+
+const crypto = require('crypto');
+
+/** roomId → { syncId, version, playedSongs, cards: Map(playerId → { playerName, cardKey, marks, squaresToGo }) } */
+const syncStates = new Map();
+
+function stateFor(roomId) {
+  let state = syncStates.get(roomId);
+  if (!state) {
+    state = { syncId: crypto.randomBytes(6).toString('hex'), version: 0, playedSongs: [], cards: new Map() };
+    syncStates.set(roomId, state);
+  }
+  return state;
+}
+
+/** Called songs in order, with the song now playing last. */
+function playedSongsFor(room) {
+  const played = Array.isArray(room.calledSongIds) ? [...room.calledSongIds] : [];
+  if (room.currentSong && room.currentSong.id && !played.includes(room.currentSong.id)) {
+    played.push(room.currentSong.id);
+  }
+  return played;
+}
+
+/** Player cards the host sees (hosts and the public display excluded): playerId → { player, card }. */
+function visibleCards(room) {
+  const cards = new Map();
+  if (!room.bingoCards) return cards;
+  room.bingoCards.forEach((card, playerId) => {
+    const player = room.players.get(playerId);
+    if (!player || !card || player.isHost || player.name === 'Display') return;
+    cards.set(playerId, { player, card });
+  });
+  return cards;
+}
+
+/** Identifies the dealt card, so a new round's card is sent whole instead of as marks. */
+function cardKeyFor(card) {
+  return (card.squares || []).map((sq) => `${sq.position}=${sq.songId}`).join('|');
+}
+
+function marksFor(card) {
+  const marks = new Map();
+  for (const sq of card.squares || []) marks.set(sq.position, !!sq.marked);
+  return marks;
+}
+
+function mirrorEntry(player, card, squaresToGo) {
+  return { playerName: player.name, cardKey: cardKeyFor(card), marks: marksFor(card), squaresToGo };
+}
+
+function isPrefix(prefix, list) {
+  return prefix.length <= list.length && prefix.every((id, i) => list[i] === id);
+}
+
+/**
+ * Diff the room against what hosts were last sent and advance the mirror.
+ * @param {Map<string, { squaresToGo: number|null }>} progress distance to the pattern per player
+ * @returns {object|null} `player-cards-delta` payload, or null when nothing changed
+ */
+function takeDelta(roomId, room, progress) {
+  const state = stateFor(roomId);
+  const delta = { roomId, syncId: state.syncId, version: state.version + 1 };
+  let changed = false;
+
+  const played = playedSongsFor(room);
+  if (isPrefix(state.playedSongs, played)) {
+    if (played.length > state.playedSongs.length) {
+      delta.calls = played.slice(state.playedSongs.length);
+      changed = true;
+    }
+  } else {
+    // New round or a reset: the list is replaced rather than appended to.
+    delta.playedSongs = played;
+    changed = true;
+  }
+  state.playedSongs = played;
+
+  const current = visibleCards(room);
+  for (const [playerId, { player, card }] of current) {
+    const squaresToGo = progress.get(playerId)?.squaresToGo ?? null;
+    const sent = state.cards.get(playerId);
+    const next = mirrorEntry(player, card, squaresToGo);
+    state.cards.set(playerId, next);
+    if (!sent || sent.cardKey !== next.cardKey || sent.playerName !== next.playerName) {
+      (delta.cards = delta.cards || {})[playerId] = { playerName: player.name, card, squaresToGo };
+      changed = true;
+      continue;
+    }
+    for (const [position, marked] of next.marks) {
+      if (sent.marks.get(position) === marked) continue;
+      (delta.marks = delta.marks || []).push({ playerId, position, marked });
+      changed = true;
+    }
+    if (sent.squaresToGo !== squaresToGo) {
+      (delta.squaresToGo = delta.squaresToGo || {})[playerId] = squaresToGo;
+      changed = true;
+    }
+  }
+  for (const playerId of [...state.cards.keys()]) {
+    if (current.has(playerId)) continue;
+    state.cards.delete(playerId);
+    (delta.removed = delta.removed || []).push(playerId);
+    changed = true;
+  }
+
+  if (!changed) return null;
+  state.version = delta.version;
+  return delta;
+}
+
+/**
+ * `player-cards-snapshot` payload at the current version, built from the mirror. Take any pending
+ * delta first, so the snapshot and the deltas that follow it agree.
+ */
+function snapshot(roomId, room) {
+  const state = stateFor(roomId);
+  const current = visibleCards(room);
+  const cards = {};
+  for (const [playerId, sent] of state.cards) {
+    const entry = current.get(playerId);
+    if (entry) cards[playerId] = { playerName: sent.playerName, card: entry.card, squaresToGo: sent.squaresToGo };
+  }
+  return { roomId, syncId: state.syncId, version: state.version, playedSongs: state.playedSongs, cards };
+}
+
+function forget(roomId) {
+  syncStates.delete(roomId);
+}
+
+module.exports = {
+  takeDelta,
+  snapshot,
+  forget,
+};
@@ -0,0 +1,413 @@
+/**
+ * Recurring player profiles, per organization (venue). Requires DATABASE_URL.
+ * A player signs in with an emailed magic link or with their name plus a venue-issued PIN; either way
+ * they get a player JWT (hostAuth.signPlayerJwt) that PlayerView sends with join-room.
+ * Stats are one row per room played (`player_profile_games`): rounds, wins and called-and-marked songs
+ * per release decade. Merging moves those rows onto the surviving profile and leaves the old one
+ * pointing at it (`merged_into`), so old sessions keep working.
+ */
+
+const crypto = require('crypto');
+
+const MAGIC_LINK_TTL_MS = 30 * 60 * 1000;
+const PIN_LENGTH = 6;
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+/** Magic link requests allowed per window, per email address and per requesting IP. */
+const MAGIC_LINKS_PER_EMAIL = 3;
+const MAGIC_LINKS_PER_IP = 10;
+const MAGIC_LINK_WINDOW_MS = 15 * 60 * 1000;
+const MAX_DISPLAY_NAME = 40;
+
+async function ensurePlayerProfilesTables(db) {
+  if (!db) return false;
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS player_profiles (
+      id SERIAL PRIMARY KEY,
+      organization_id INTEGER NOT NULL REFERENCES organizations(id),
+      display_name TEXT NOT NULL,
+      email TEXT,
+      pin_hash TEXT,
+      merged_into INTEGER REFERENCES player_profiles(id),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at TIMESTAMP
+    )
+  `);
+  await db.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_player_profiles_org_email
+      ON player_profiles (organization_id, email) WHERE email IS NOT NULL
+  `);
+  await db.query(`
+    CREATE INDEX IF NOT EXISTS idx_player_profiles_org_name
+      ON player_profiles (organization_id, lower(display_name))
+  `);
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS player_profile_games (
+      profile_id INTEGER NOT NULL REFERENCES player_profiles(id),
+      room_id TEXT NOT NULL,
+      rounds_played INTEGER NOT NULL DEFAULT 0,
+      wins INTEGER NOT NULL DEFAULT 0,
+      decades JSONB NOT NULL DEFAULT '{}'::jsonb,
+      first_played_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_played_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (profile_id, room_id)
+    )
+  `);
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS player_magic_links (
+      token_hash TEXT PRIMARY KEY,
+      organization_id INTEGER NOT NULL REFERENCES organizations(id),
+      email TEXT NOT NULL,
+      display_name TEXT,
+      expires_at TIMESTAMP NOT NULL,
+      used_at TIMESTAMP
+    )
+  `);
+  return true;
+}
+
+function normalizeEmail(email) {
+  const e = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e) && e.length <= 254 ? e : '';
+}
+
+function cleanDisplayName(name) {
+  return typeof name === 'string' ? name.trim().replace(/\s+/g, ' ').slice(0, MAX_DISPLAY_NAME) : '';
+}
+
+function sha256(value) {
+  return crypto.createHash('sha256').update(String(value)).digest('hex');
+}
+
+function hashPin(pin) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(String(pin), salt, 32).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function pinMatches(pin, stored) {
+  const [scheme, salt, hash] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const candidate = crypto.scryptSync(String(pin), salt, 32);
+  const expected = Buffer.from(hash, 'hex');
+  return expected.length === candidate.length && crypto.timingSafeEqual(candidate, expected);
+}
+
+function generatePin() {
+  return String(crypto.randomInt(10 ** PIN_LENGTH)).padStart(PIN_LENGTH, '0');
+}
+
+function profileFromRow(row) {
+  if (!row) return null;
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    displayName: row.display_name,
+    email: row.email || null,
+    hasPin: !!row.pin_hash,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at || null,
+  };
+}
+
+const PROFILE_COLUMNS = 'id, organization_id, display_name, email, pin_hash, merged_into, created_at, last_seen_at';
+
+/** Profile by id, following merges to the surviving profile. */
+async function getProfile(db, id) {
+  if (!db) return null;
+  let currentId = Number(id);
+  for (let hops = 0; hops < 10 && Number.isFinite(currentId); hops++) {
+    const r = await db.query(`SELECT ${PROFILE_COLUMNS} FROM player_profiles WHERE id = $1`, [currentId]);
+    const row = r.rows[0];
+    if (!row) return null;
+    if (row.merged_into == null) return profileFromRow(row);
+    currentId = row.merged_into;
+  }
+  return null;
+}
+
+async function touchProfile(db, id) {
+  await db.query('UPDATE player_profiles SET last_seen_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+}
+
+/** Venue-created profile; returns the profile and its PIN (shown once, only the hash is stored). */
+async function createProfileWithPin(db, { organizationId, displayName, email }) {
+  if (!db) throw new Error('DATABASE_URL is required for player profiles');
+  const name = cleanDisplayName(displayName);
+  if (!name) throw new Error('display name required');
+  const pin = generatePin();
+  const r = await db.query(
+    `INSERT INTO player_profiles (organization_id, display_name, email, pin_hash)
+     VALUES ($1, $2, $3, $4)
+     RETURNING ${PROFILE_COLUMNS}`,
+    [organizationId, name, normalizeEmail(email) || null, hashPin(pin)]
+  );
+  return { profile: profileFromRow(r.rows[0]), pin };
+}
+
+/** New PIN for an existing profile in the organization; null when not found. */
+async function reissuePin(db, { organizationId, profileId }) {
+  const pin = generatePin();
+  const r = await db.query(
+    `UPDATE player_profiles SET pin_hash = $3
+     WHERE id = $1 AND organization_id = $2 AND merged_into IS NULL
+     RETURNING id`,
+    [profileId, organizationId, hashPin(pin)]
+  );
+  return r.rows.length ? pin : null;
+}
+
+/** Failed PIN attempts per organization + name, so a PIN cannot be guessed by brute force. */
+const pinFailures = new Map();
+
+function pinLockKey(organizationId, name) {
+  return `${organizationId}:${name.toLowerCase()}`;
+}
+
+function isPinLocked(organizationId, name) {
+  const entry = pinFailures.get(pinLockKey(organizationId, name));
+  return !!entry && entry.count >= MAX_PIN_FAILURES && Date.now() - entry.at < PIN_LOCKOUT_MS;
+}
+
+function notePinFailure(organizationId, name) {
+  if (pinFailures.size > 1000) {
+    for (const [k, e] of pinFailures) if (Date.now() - e.at >= PIN_LOCKOUT_MS) pinFailures.delete(k);
+  }
+  const key = pinLockKey(organizationId, name);
+  const entry = pinFailures.get(key);
+  const fresh = !entry || Date.now() - entry.at >= PIN_LOCKOUT_MS;
+  pinFailures.set(key, { count: fresh ? 1 : entry.count + 1, at: Date.now() });
+}
+
+/**
+ * Sign in with name + PIN. Returns { profile } on success, { locked: true } after too many failures,
+ * or null when nothing matches.
+ */
+async function signInWithPin(db, { organizationId, displayName, pin }) {
+  const name = cleanDisplayName(displayName);
+  if (!db || !name || !/^\d{4,8}$/.test(String(pin || ''))) return null;
+  if (isPinLocked(organizationId, name)) return { locked: true };
+  const r = await db.query(
+    `SELECT ${PROFILE_COLUMNS} FROM player_profiles
+     WHERE organization_id = $1 AND lower(display_name) = lower($2) AND merged_into IS NULL AND pin_hash IS NOT NULL`,
+    [organizationId, name]
+  );
+  const row = r.rows.find((candidate) => pinMatches(pin, candidate.pin_hash));
+  if (!row) {
+    notePinFailure(organizationId, name);
+    return null;
+  }
+  pinFailures.delete(pinLockKey(organizationId, name));
+  await touchProfile(db, row.id);
+  return { profile: profileFromRow(row) };
+}
+
+/** Recent magic link requests (timestamps) per `email:` / `ip:` key, so the mail webhook cannot be used to spam. */
+const magicLinkRequests = new Map();
+
+/** Count a magic link request; false (and nothing counted) when the email or the IP is over its limit. */
+function allowMagicLinkRequest({ email, ip }) {
+  const now = Date.now();
+  if (magicLinkRequests.size > 1000) {
+    for (const [k, times] of magicLinkRequests) if (times.every((t) => now - t >= MAGIC_LINK_WINDOW_MS)) magicLinkRequests.delete(k);
+  }
+  const checks = [
+    [`email:${email}`, MAGIC_LINKS_PER_EMAIL],
+    [`ip:${ip || 'unknown'}`, MAGIC_LINKS_PER_IP],
+  ];
+  const recent = checks.map(([key]) => (magicLinkRequests.get(key) || []).filter((t) => now - t < MAGIC_LINK_WINDOW_MS));
+  if (checks.some(([, limit], i) => recent[i].length >= limit)) return false;
+  checks.forEach(([key], i) => magicLinkRequests.set(key, [...recent[i], now]));
+  return true;
+}
+
+/** Store a single-use sign-in link; returns the raw token to put in the emailed URL. */
+async function createMagicLink(db, { organizationId, email, displayName }) {
+  const token = crypto.randomBytes(24).toString('base64url');
+  await db.query(
+    `INSERT INTO player_magic_links (token_hash, organization_id, email, display_name, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [sha256(token), organizationId, email, cleanDisplayName(displayName) || null, new Date(Date.now() + MAGIC_LINK_TTL_MS)]
+  );
+  await db.query('DELETE FROM player_magic_links WHERE expires_at < CURRENT_TIMESTAMP');
+  return token;
+}
+
+/** Use a magic link: the profile for its email (created on first use), or null if unknown/expired/used. */
+async function consumeMagicLink(db, token) {
+  if (!db || typeof token !== 'string' || !token) return null;
+  const r = await db.query(
+    `UPDATE player_magic_links SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING organization_id, email, display_name`,
+    [sha256(token)]
+  );
+  const link = r.rows[0];
+  if (!link) return null;
+  const existing = await db.query(
+    `SELECT ${PROFILE_COLUMNS} FROM player_profiles WHERE organization_id = $1 AND email = $2`,
+    [link.organization_id, link.email]
+  );
+  if (existing.rows[0]) {
+    const profile = await getProfile(db, existing.rows[0].id);
+    if (profile) await touchProfile(db, profile.id);
+    return profile;
+  }
+  const created = await db.query(
+    `INSERT INTO player_profiles (organization_id, display_name, email, last_seen_at)
+     VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+     RETURNING ${PROFILE_COLUMNS}`,
+    [link.organization_id, link.display_name || link.email.split('@')[0], link.email]
+  );
+  return profileFromRow(created.rows[0]);
+}
+
+/**
+ * Deliver a magic link through PLAYER_EMAIL_WEBHOOK_URL (POST JSON { to, subject, text, link }), for
+ * whatever mail service the deployment uses. Returns false when no webhook is configured.
+ */
+async function sendMagicLinkEmail({ to, link, venueName }) {
+  const url = (process.env.PLAYER_EMAIL_WEBHOOK_URL || '').trim();
+  if (!url) return false;
+  const where = venueName ? ` at ${venueName}` : '';
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      to,
+      subject: `Your TEMPO sign-in link${where}`,
+      text: `Open this link on your phone to keep your name and stats${where}:\n\n${link}\n\nIt works once and expires in 30 minutes.`,
+      link,
+    }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) throw new Error(`email webhook responded ${res.status}`);
+  return true;
+}
+
+function addDecades(into, decades) {
+  const out = { ...(into || {}) };
+  for (const [decade, count] of Object.entries(decades || {})) {
+    const n = Number(count);
+    if (Number.isFinite(n) && n > 0) out[decade] = (Number(out[decade]) || 0) + n;
+  }
+  return out;
+}
+
+/** Add one finished round to the profile's row for this room. */
+async function recordRound(db, { profileId, roomId, won, decades }) {
+  if (!db) return;
+  const r = await db.query('SELECT decades FROM player_profile_games WHERE profile_id = $1 AND room_id = $2', [profileId, roomId]);
+  const merged = addDecades(r.rows[0] && r.rows[0].decades, decades);
+  await db.query(
+    `INSERT INTO player_profile_games (profile_id, room_id, rounds_played, wins, decades)
+     VALUES ($1, $2, 1, $3, $4)
+     ON CONFLICT (profile_id, room_id) DO UPDATE SET
+       rounds_played = player_profile_games.rounds_played + 1,
+       wins = player_profile_games.wins + EXCLUDED.wins,
+       decades = $4,
+       last_played_at = CURRENT_TIMESTAMP`,
+    [profileId, roomId, won ? 1 : 0, JSON.stringify(merged)]
+  );
+}
+
+/** Games (rooms) played, rounds, wins and the top three decades by called-and-marked songs. */
+async function getStats(db, profileId) {
+  const r = await db.query(
+    `SELECT room_id, rounds_played, wins, decades, last_played_at FROM player_profile_games
+     WHERE profile_id = $1 ORDER BY last_played_at DESC`,
+    [profileId]
+  );
+  let decades = {};
+  for (const row of r.rows) decades = addDecades(decades, row.decades);
+  return {
+    gamesPlayed: r.rows.length,
+    roundsPlayed: r.rows.reduce((n, row) => n + row.rounds_played, 0),
+    wins: r.rows.reduce((n, row) => n + row.wins, 0),
+    favoriteDecades: Object.entries(decades)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 3)
+      .map(([decade, count]) => ({ decade, count })),
+    lastPlayedAt: r.rows[0] ? r.rows[0].last_played_at : null,
+  };
+}
+
+/** Profiles in an organization (name or email search), with stat totals for the host's list. */
+async function listProfiles(db, organizationId, query = '') {
+  const q = typeof query === 'string' ? query.trim().slice(0, 80) : '';
+  const r = await db.query(
+    `SELECT p.id, p.organization_id, p.display_name, p.email, p.pin_hash, p.merged_into, p.created_at, p.last_seen_at,
+            COUNT(g.room_id)::int AS games_played, COALESCE(SUM(g.wins), 0)::int AS wins
+     FROM player_profiles p
+     LEFT JOIN player_profile_games g ON g.profile_id = p.id
+     WHERE p.organization_id = $1 AND p.merged_into IS NULL
+       AND ($2 = '' OR p.display_name ILIKE '%' || $2 || '%' OR p.email ILIKE '%' || $2 || '%')
+     GROUP BY p.id
+     ORDER BY lower(p.display_name), p.id
+     LIMIT 200`,
+    [organizationId, q]
+  );
+  return r.rows.map((row) => ({ ...profileFromRow(row), gamesPlayed: row.games_played, wins: row.wins }));
+}
+
+/**
+ * Fold `sourceId` into `targetId` (same organization): game rows move over (rooms both played are
+ * summed), the target keeps its name and PIN and takes the source's email if it has none.
+ * Returns the surviving profile, or null when either id is not an active profile of the organization.
+ */
+async function mergeProfiles(db, { organizationId, sourceId, targetId }) {
+  if (Number(sourceId) === Number(targetId)) return null;
+  const r = await db.query(
+    `SELECT ${PROFILE_COLUMNS} FROM player_profiles
+     WHERE id = ANY($1::int[]) AND organization_id = $2 AND merged_into IS NULL`,
+    [[Number(sourceId), Number(targetId)], organizationId]
+  );
+  const source = r.rows.find((row) => row.id === Number(sourceId));
+  const target = r.rows.find((row) => row.id === Number(targetId));
+  if (!source || !target) return null;
+
+  const games = await db.query('SELECT room_id, rounds_played, wins, decades FROM player_profile_games WHERE profile_id = $1', [source.id]);
+  for (const g of games.rows) {
+    const existing = await db.query('SELECT decades FROM player_profile_games WHERE profile_id = $1 AND room_id = $2', [target.id, g.room_id]);
+    await db.query(
+      `INSERT INTO player_profile_games (profile_id, room_id, rounds_played, wins, decades)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (profile_id, room_id) DO UPDATE SET
+         rounds_played = player_profile_games.rounds_played + EXCLUDED.rounds_played,
+         wins = player_profile_games.wins + EXCLUDED.wins,
+         decades = EXCLUDED.decades`,
+      [target.id, g.room_id, g.rounds_played, g.wins, JSON.stringify(addDecades(existing.rows[0] && existing.rows[0].decades, g.decades))]
+    );
+  }
+  await db.query('DELETE FROM player_profile_games WHERE profile_id = $1', [source.id]);
+  await db.query('UPDATE player_profiles SET merged_into = $2, email = NULL, pin_hash = NULL WHERE id = $1', [source.id, target.id]);
+  if (!target.email && source.email) {
+    await db.query('UPDATE player_profiles SET email = $2 WHERE id = $1', [target.id, source.email]);
+  }
+  return getProfile(db, target.id);
+}
+
+/** '1980s' for 1987; null without a usable year. */
+function decadeOf(year) {
+  const y = Number(year);
+  return Number.isInteger(y) && y >= 1900 && y <= 2100 ? `${Math.floor(y / 10) * 10}s` : null;
+}
+
+module.exports = {
+  ensurePlayerProfilesTables,
+  normalizeEmail,
+  cleanDisplayName,
+  getProfile,
+  createProfileWithPin,
+  reissuePin,
+  signInWithPin,
+  allowMagicLinkRequest,
+  createMagicLink,
+  consumeMagicLink,
+  sendMagicLinkEmail,
+  recordRound,
+  getStats,
+  listProfiles,
+  mergeProfiles,
+  decadeOf,
+};
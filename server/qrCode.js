@@ -0,0 +1,466 @@
+/**
+ * Built-in QR code encoder (ISO/IEC 18004, byte mode, versions 1–40) used by `/api/qr`.
+ * The text is encoded as UTF-8 at the smallest version that fits the requested error-correction
+ * level; the mask with the lowest penalty score is chosen. Output is an SVG document or a grayscale
+ * PNG. A centre logo (SVG only) always encodes at level H so the covered modules can be recovered.
+ */
+
+const crypto = require('crypto');
+const zlib = require('zlib');
+
+const ECC_LEVELS = ['L', 'M', 'Q', 'H'];
+/** Format-information bits per level (not in L/M/Q/H order). */
+const ECC_FORMAT_BITS = { L: 1, M: 0, Q: 3, H: 2 };
+const DEFAULT_ECC = 'M';
+const DEFAULT_QUIET_ZONE = 4;
+const MAX_QUIET_ZONE = 16;
+/** Side of the logo box as a fraction of the symbol; level H recovers up to ~30% damage. */
+const LOGO_FRACTION = 0.22;
+/** Bump when the output changes so cached ETags stop matching. */
+const ENCODER_REVISION = 1;
+
+// Indexed [level][version]; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+const NUM_ERROR_CORRECTION_BLOCKS = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+class QrCapacityError extends Error {
+  constructor(length, ecc) {
+    super(`Data too long for a QR code (${length} bytes at level ${ecc})`);
+    this.name = 'QrCapacityError';
+  }
+}
+
+function normalizeEcc(value) {
+  const v = String(value || '').toUpperCase();
+  return ECC_LEVELS.includes(v) ? v : DEFAULT_ECC;
+}
+
+function normalizeQuietZone(value) {
+  const n = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(n) ? Math.min(MAX_QUIET_ZONE, Math.max(0, n)) : DEFAULT_QUIET_ZONE;
+}
+
+// ---- Reed–Solomon over GF(256), polynomial 0x11D ----
+
+function gfMultiply(x, y) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree) {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data, divisor) {
+  const result = new Array(divisor.length).fill(0);
+  for (const b of data) {
+    const factor = b ^ result.shift();
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+// ---- Capacity ----
+
+function rawDataModules(version) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version, ecc) {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecc][version] * NUM_ERROR_CORRECTION_BLOCKS[ecc][version]
+  );
+}
+
+function alignmentPositions(version, size) {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+// ---- Data ----
+
+function encodeData(bytes, version, ecc) {
+  const bits = [];
+  const append = (value, length) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  for (const b of bytes) append(b, 8);
+
+  const capacityBits = dataCodewords(version, ecc) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    let v = 0;
+    for (let j = 0; j < 8; j++) v = (v << 1) | bits[i + j];
+    codewords.push(v);
+  }
+  return codewords;
+}
+
+/** Split into blocks, append each block's ECC and interleave. */
+function addEccAndInterleave(data, version, ecc) {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecc][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLen);
+
+  const blocks = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const eccBytes = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(eccBytes));
+  }
+
+  const result = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the placeholder byte of short blocks.
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+// ---- Matrix ----
+
+function createMatrix(version) {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array(size).fill(false));
+  const set = (x, y, dark) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const align = alignmentPositions(version, size);
+  align.forEach((cx, i) => {
+    align.forEach((cy, j) => {
+      const last = align.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+
+  const matrix = { version, size, modules, isFunction, set };
+  drawFormatBits(matrix, 'M', 0); // reserve the format area; redrawn once the mask is chosen
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+  return matrix;
+}
+
+function drawFormatBits({ size, set }, ecc, mask) {
+  const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i) => ((bits >>> i) & 1) !== 0;
+
+  for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+  set(8, 7, bit(6));
+  set(8, 8, bit(7));
+  set(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+  set(8, size - 8, true);
+}
+
+/** Zigzag placement: two-module columns from the right, alternating up and down, skipping the timing column. */
+function drawCodewords({ size, modules, isFunction }, codewords) {
+  let i = 0;
+  const totalBits = codewords.length * 8;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && i < totalBits) {
+          modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+const MASKS = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function applyMask({ size, modules, isFunction }, mask) {
+  const invert = MASKS[mask];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isFunction[y][x] && invert(x, y)) modules[y][x] = !modules[y][x];
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/** Penalty rules N1–N4 of the specification; lower is easier to scan. */
+function penaltyScore({ size, modules }) {
+  let score = 0;
+  const at = (x, y, horizontal) => (horizontal ? modules[y][x] : modules[x][y]);
+
+  for (const horizontal of [true, false]) {
+    for (let a = 0; a < size; a++) {
+      let runColor = null;
+      let runLength = 0;
+      for (let b = 0; b < size; b++) {
+        const dark = at(b, a, horizontal);
+        if (dark === runColor) {
+          runLength++;
+          if (runLength === 5) score += 3;
+          else if (runLength > 5) score += 1;
+        } else {
+          runColor = dark;
+          runLength = 1;
+        }
+        if (b + 11 <= size) {
+          for (const pattern of FINDER_LIKE) {
+            if (pattern.every((p, k) => at(b + k, a, horizontal) === p)) score += 40;
+          }
+        }
+      }
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x + 1 < size && y + 1 < size) {
+        const c = modules[y][x];
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10;
+  return score;
+}
+
+/**
+ * Encode text into a QR matrix: `{ version, size, ecc, mask, modules }` where `modules[y][x]` is true
+ * for dark. Throws QrCapacityError when the text does not fit version 40.
+ */
+function encodeQr(text, { ecc = DEFAULT_ECC } = {}) {
+  const level = normalizeEcc(ecc);
+  const bytes = Array.from(Buffer.from(String(text), 'utf8'));
+  let version = 1;
+  for (; version <= 40; version++) {
+    const usedBits = 4 + (version <= 9 ? 8 : 16) + bytes.length * 8;
+    if (usedBits <= dataCodewords(version, level) * 8) break;
+  }
+  if (version > 40) throw new QrCapacityError(bytes.length, level);
+
+  const matrix = createMatrix(version);
+  drawCodewords(matrix, addEccAndInterleave(encodeData(bytes, version, level), version, level));
+
+  let best = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, level, mask);
+    const score = penaltyScore(matrix);
+    if (score < bestScore) {
+      best = mask;
+      bestScore = score;
+    }
+    applyMask(matrix, mask); // XOR again to undo
+  }
+  applyMask(matrix, best);
+  drawFormatBits(matrix, level, best);
+  return { version, size: matrix.size, ecc: level, mask: best, modules: matrix.modules };
+}
+
+// ---- Output ----
+
+function escapeXmlAttr(value) {
+  return String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * SVG document; one path for all dark modules. `logoDataUri` must already be a data: URI, since an
+ * SVG shown through <img> does not load external resources.
+ */
+function toSvg(qr, { quietZone = DEFAULT_QUIET_ZONE, pixelSize = null, logoDataUri = null } = {}) {
+  const dim = qr.size + quietZone * 2;
+  let path = '';
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y][x]) path += `M${x + quietZone},${y + quietZone}h1v1h-1z`;
+    }
+  }
+  const sizeAttrs = pixelSize ? ` width="${pixelSize}" height="${pixelSize}"` : '';
+  let logo = '';
+  if (logoDataUri) {
+    const box = Math.ceil(qr.size * LOGO_FRACTION);
+    const at = (dim - box) / 2;
+    const pad = 0.5;
+    logo =
+      `<rect x="${at}" y="${at}" width="${box}" height="${box}" rx="1" fill="#fff"/>` +
+      `<image x="${at + pad}" y="${at + pad}" width="${box - pad * 2}" height="${box - pad * 2}" ` +
+      `preserveAspectRatio="xMidYMid meet" href="${escapeXmlAttr(logoDataUri)}"/>`;
+  }
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}"${sizeAttrs} shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/>${logo}</svg>\n`
+  );
+}
+
+const CRC_TABLE = (() => {
+  const table = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c;
+  }
+  return table;
+})();
+
+function crc32(buf) {
+  let c = -1;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ -1) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 8-bit grayscale PNG, `scale` pixels per module. */
+function toPng(qr, { quietZone = DEFAULT_QUIET_ZONE, scale = 8 } = {}) {
+  const dim = (qr.size + quietZone * 2) * scale;
+  const rowLength = dim + 1;
+  const raw = Buffer.alloc(rowLength * dim, 0xff);
+  for (let py = 0; py < dim; py++) {
+    raw[py * rowLength] = 0; // filter: none
+    const y = Math.floor(py / scale) - quietZone;
+    if (y < 0 || y >= qr.size) continue;
+    for (let px = 0; px < dim; px++) {
+      const x = Math.floor(px / scale) - quietZone;
+      if (x >= 0 && x < qr.size && qr.modules[y][x]) raw[py * rowLength + 1 + px] = 0;
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(dim, 0);
+  header.writeUInt32BE(dim, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/** Strong ETag for a request's parameters; the output is deterministic for the same inputs. */
+function etagFor(parts) {
+  const hash = crypto.createHash('sha1').update(JSON.stringify([ENCODER_REVISION, ...parts])).digest('hex');
+  return `"qr-${hash.slice(0, 27)}"`;
+}
+
+module.exports = {
+  ECC_LEVELS,
+  QrCapacityError,
+  normalizeEcc,
+  normalizeQuietZone,
+  encodeQr,
+  toSvg,
+  toPng,
+  etagFor,
+};
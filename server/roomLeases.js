@@ -0,0 +1,138 @@
+/**
+ * Room ownership leases. With several server instances exactly one owns a room at a time: it keeps
+ * the room in memory, drives its playback timers and handles its socket events; the others forward
+ * that room's events to it (clusterRouting.js). A lease is the shared-store key
+ * `tempo:room-owner:<roomId>` holding the owner's instance id with a TTL, renewed every TTL / 3.
+ *
+ * An instance that stops renewing (crash, stalled event loop) loses its rooms after the TTL and the
+ * next event for the room lets another instance take it over from the saved snapshot. Renewal and
+ * release compare the owner and extend or delete in one step (sharedStore extendIfValue /
+ * deleteIfValue), so they never touch a lease someone else has taken; a lease found taken is reported
+ * through `onLost` so the room can be dropped locally. A lease taken for a room that never showed up
+ * here (a mistyped code, a REST lookup of a room with no snapshot) is released at the first renewal
+ * after a full TTL, instead of being renewed forever.
+ */
+
+const LEASE_TTL_MS = 15000;
+/** How long another instance's ownership is trusted before asking the store again. */
+const OWNER_CACHE_MS = 2000;
+
+function leaseKey(roomId) {
+  return `tempo:room-owner:${roomId}`;
+}
+
+/**
+ * @param {ReturnType<import('./sharedStore').createSharedStore>} store
+ * @param {{
+ *   instanceId: string,
+ *   ttlMs?: number,
+ *   onLost?: (roomId: string, owner: string|null) => void,
+ *   inUse?: (roomId: string) => boolean,
+ * }} options inUse tells whether this instance holds the room's state
+ */
+function createRoomLeases(store, { instanceId, ttlMs = LEASE_TTL_MS, onLost = () => {}, inUse = () => true }) {
+  /** roomId → time the lease was last confirmed */
+  const owned = new Map();
+  /** roomId → time this instance took the lease */
+  const acquiredAt = new Map();
+  /** roomId → { owner, until } for rooms other instances hold */
+  const ownerCache = new Map();
+  let renewTimer = null;
+
+  function isOwner(roomId) {
+    const confirmedAt = owned.get(roomId);
+    return confirmedAt != null && Date.now() - confirmedAt < ttlMs;
+  }
+
+  /** Instance id holding the room, or null when nobody does. */
+  async function ownerOf(roomId) {
+    if (isOwner(roomId)) return instanceId;
+    const cached = ownerCache.get(roomId);
+    if (cached && cached.until > Date.now()) return cached.owner;
+    const owner = await store.get(leaseKey(roomId));
+    if (owner && owner !== instanceId) ownerCache.set(roomId, { owner, until: Date.now() + OWNER_CACHE_MS });
+    else ownerCache.delete(roomId);
+    return owner || null;
+  }
+
+  /** Take the room when nobody holds it; true when this instance owns it afterwards. */
+  async function acquire(roomId) {
+    if (isOwner(roomId)) return true;
+    const key = leaseKey(roomId);
+    // Our own lease from before a stall is extended while it is still ours
+    const ok =
+      (await store.set(key, instanceId, { ttlMs, onlyIfAbsent: true })) ||
+      (await store.extendIfValue(key, instanceId, ttlMs));
+    if (!ok) return false;
+    owned.set(roomId, Date.now());
+    acquiredAt.set(roomId, Date.now());
+    ownerCache.delete(roomId);
+    return true;
+  }
+
+  async function release(roomId) {
+    if (!owned.has(roomId)) return;
+    owned.delete(roomId);
+    acquiredAt.delete(roomId);
+    await store.deleteIfValue(leaseKey(roomId), instanceId);
+  }
+
+  async function renewAll() {
+    for (const roomId of [...owned.keys()]) {
+      try {
+        if (Date.now() - (acquiredAt.get(roomId) || 0) > ttlMs && !inUse(roomId)) {
+          await release(roomId);
+          continue;
+        }
+        const key = leaseKey(roomId);
+        // Expired but nobody took it: claim it again
+        const kept =
+          (await store.extendIfValue(key, instanceId, ttlMs)) ||
+          (await store.set(key, instanceId, { ttlMs, onlyIfAbsent: true }));
+        if (kept) {
+          owned.set(roomId, Date.now());
+        } else if (owned.has(roomId)) {
+          owned.delete(roomId);
+          acquiredAt.delete(roomId);
+          onLost(roomId, await store.get(key));
+        }
+      } catch (e) {
+        console.error(`❌ Failed to renew lease for room ${roomId}:`, e?.message || e);
+      }
+    }
+  }
+
+  return {
+    instanceId,
+    isOwner,
+    ownerOf,
+    acquire,
+    release,
+    ownedRoomIds: () => [...owned.keys()],
+    /** Forget a cached owner (it told us it no longer has the room). */
+    forgetOwner: (roomId) => ownerCache.delete(roomId),
+    start() {
+      if (renewTimer) return;
+      renewTimer = setInterval(() => {
+        renewAll().catch((e) => console.error('❌ Lease renewal failed:', e?.message || e));
+      }, Math.max(1000, Math.floor(ttlMs / 3)));
+      renewTimer.unref();
+    },
+    async releaseAll() {
+      if (renewTimer) clearInterval(renewTimer);
+      renewTimer = null;
+      for (const roomId of [...owned.keys()]) {
+        try {
+          await release(roomId);
+        } catch (e) {
+          console.error(`❌ Failed to release lease for room ${roomId}:`, e?.message || e);
+        }
+      }
+    },
+  };
+}
+
+module.exports = {
+  LEASE_TTL_MS,
+  createRoomLeases,
+};
@@ -0,0 +1,384 @@
+/**
+ * Post-game results for a room: the host's event rounds, call order, verified winners (with their card
+ * and winning positions), rejected bingo claims and the event leaderboard. Entries accumulate on `room.results` while the game
+ * runs, so they survive round resets and ride along in room snapshots. Rendered as JSON, CSV or
+ * printable HTML for GET /api/rooms/:roomId/report.
+ */
+
+const { normalizeWinnerPolicy } = require('./winnerPolicy');
+const { sanitizeStages } = require('./patternStages');
+const leaderboard = require('./leaderboard');
+
+const REPORT_FORMATS = ['json', 'csv', 'html'];
+const MAX_EVENT_ROUNDS = 50;
+const ROUND_STATUSES = new Set(['completed', 'active', 'planned', 'unplanned']);
+
+function ensureResults(room) {
+  if (!room.results || typeof room.results !== 'object') {
+    room.results = { startedAt: new Date().toISOString(), calls: [], winners: [], rejectedClaims: [] };
+  }
+  return room.results;
+}
+
+/** Start a fresh session log (restart-game wipes round history, so the report starts over too). */
+function resetResults(room) {
+  room.results = null;
+  return ensureResults(room);
+}
+
+/** Rounds are numbered by completed wins, matching `room.roundWinners`. */
+function currentRoundNumber(room) {
+  return (Array.isArray(room.roundWinners) ? room.roundWinners.length : 0) + 1;
+}
+
+function toIso(ts) {
+  const d = ts instanceof Date ? ts : new Date(ts == null ? Date.now() : ts);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** Card as stored in the report: layout, song labels and marks only. */
+function snapshotCard(card) {
+  if (!card || !Array.isArray(card.squares)) return null;
+  return {
+    size: card.size || 5,
+    cardId: card.cardId || card.paperCardId || null,
+    squares: card.squares.map((s) => ({
+      position: s.position,
+      songId: s.songId,
+      songName: s.songName,
+      customSongName: s.customSongName,
+      artistName: s.artistName,
+      marked: !!s.marked,
+      isFreeSpace: !!s.isFreeSpace,
+    })),
+  };
+}
+
+/** `startMs` is where the snippet started in the track (random starts), for replaying it later. */
+function recordCall(room, song, { startMs = null } = {}) {
+  if (!room || !song || !song.id) return;
+  const results = ensureResults(room);
+  const roundNumber = currentRoundNumber(room);
+  const inRound = results.calls.filter((c) => c.roundNumber === roundNumber);
+  const last = inRound[inRound.length - 1];
+  // Restarting the same track (resume, replay) is not a new call
+  if (last && last.songId === song.id) return;
+  results.calls.push({
+    roundNumber,
+    order: inRound.length + 1,
+    songId: song.id,
+    songName: song.name || '',
+    artistName: song.artist || '',
+    calledAt: toIso(),
+    startMs: Number.isFinite(startMs) ? startMs : null,
+  });
+}
+
+/**
+ * @param {{ roundNumber: number, playerId: string, playerName: string, pattern: string, customMask?: string[]|null, card: object|null, winningPositions: string[], callCount?: number, winnerPolicy?: string, sharedWith?: string[], tiebreak?: object|null, stage?: { index: number, total: number }|null }} entry
+ * `callCount` is the calls frozen with the winning claim (defaults to the round's calls so far);
+ * `sharedWith` names the other winners of a split prize; `tiebreak` records how a tie was settled;
+ * `stage` is set for the prizes of a progressive round.
+ */
+function recordWinner(room, entry) {
+  if (!room || !entry) return;
+  const results = ensureResults(room);
+  results.winners.push({
+    roundNumber: entry.roundNumber,
+    playerId: entry.playerId,
+    playerName: entry.playerName,
+    pattern: entry.pattern || 'line',
+    customMask: entry.customMask || null,
+    winningPositions: Array.isArray(entry.winningPositions) ? entry.winningPositions : [],
+    callCount: Number.isInteger(entry.callCount)
+      ? entry.callCount
+      : results.calls.filter((c) => c.roundNumber === entry.roundNumber).length,
+    card: entry.card ? snapshotCard(entry.card) : null,
+    winnerPolicy: normalizeWinnerPolicy(entry.winnerPolicy),
+    sharedWith: Array.isArray(entry.sharedWith) ? entry.sharedWith : [],
+    tiebreak: entry.tiebreak || null,
+    stage: entry.stage ? { index: entry.stage.index, total: entry.stage.total } : null,
+    verifiedAt: toIso(),
+  });
+}
+
+/**
+ * @param {{ playerId: string, playerName: string, reason?: string, source: 'host'|'auto', pattern: string, card?: object|null }} entry
+ * source 'host' = rejected in the verification panel; 'auto' = the server refused the claim outright.
+ */
+function recordRejectedClaim(room, entry) {
+  if (!room || !entry) return;
+  const results = ensureResults(room);
+  results.rejectedClaims.push({
+    roundNumber: currentRoundNumber(room),
+    playerId: entry.playerId,
+    playerName: entry.playerName,
+    reason: entry.reason || 'Invalid pattern',
+    source: entry.source === 'auto' ? 'auto' : 'host',
+    pattern: entry.pattern || 'line',
+    card: entry.card ? snapshotCard(entry.card) : null,
+    rejectedAt: toIso(),
+  });
+}
+
+/** Host-planned rounds (HostView `eventRounds`), trimmed to what the report shows. */
+function sanitizeEventRounds(rounds) {
+  if (!Array.isArray(rounds)) return [];
+  return rounds.slice(0, MAX_EVENT_ROUNDS).map((r, i) => {
+    const round = r && typeof r === 'object' ? r : {};
+    return {
+      id: String(round.id || `round-${i + 1}`).slice(0, 64),
+      name: String(round.name || `Round ${i + 1}`).slice(0, 120),
+      playlistNames: Array.isArray(round.playlistNames)
+        ? round.playlistNames.slice(0, 20).map((n) => String(n).slice(0, 200))
+        : [],
+      songCount: Number.isFinite(Number(round.songCount)) ? Number(round.songCount) : 0,
+      status: ROUND_STATUSES.has(round.status) ? round.status : 'unplanned',
+      startedAt: round.startedAt != null ? toIso(round.startedAt) : null,
+      completedAt: round.completedAt != null ? toIso(round.completedAt) : null,
+      winnerPolicy: normalizeWinnerPolicy(round.winnerPolicy),
+      stages: sanitizeStages(round.stages),
+    };
+  });
+}
+
+/**
+ * Seed of the card deal (cardDeals.js) in use when round `roundNumber` started: the newest deal dealt
+ * before its first call, or the current deal for a round with no calls yet.
+ */
+function cardSeedForRound(room, results, roundNumber) {
+  const deals = Array.isArray(room.cardDeals) ? room.cardDeals : [];
+  const firstCall = results.calls.find((c) => c.roundNumber === roundNumber);
+  const dealt = firstCall ? deals.filter((d) => d.dealtAt <= firstCall.calledAt) : deals;
+  return dealt.length ? dealt[dealt.length - 1].seed : null;
+}
+
+/**
+ * Assemble the report. `titleFor(songId)` returns the custom display title, if any.
+ * Played rounds beyond the host's plan (or with no plan at all) are listed by number.
+ */
+function buildRoomReport(room, { titleFor = () => undefined, venueBranding = null } = {}) {
+  const results = ensureResults(room);
+  const planned = Array.isArray(room.eventRounds) ? room.eventRounds : [];
+  const roundWinners = Array.isArray(room.roundWinners) ? room.roundWinners : [];
+  const playedRounds = Math.max(
+    roundWinners.length,
+    ...results.calls.map((c) => c.roundNumber),
+    ...results.rejectedClaims.map((c) => c.roundNumber),
+    0
+  );
+
+  const rounds = [];
+  for (let n = 1; n <= Math.max(playedRounds, planned.length); n++) {
+    const plan = planned[n - 1] || null;
+    const winner = roundWinners.find((w) => w.roundNumber === n) || null;
+    rounds.push({
+      roundNumber: n,
+      name: plan ? plan.name : `Round ${n}`,
+      playlistNames: plan ? plan.playlistNames : [],
+      plannedSongCount: plan ? plan.songCount : null,
+      status: plan ? plan.status : winner ? 'completed' : room.gameState === 'ended' ? 'ended' : 'active',
+      startedAt: plan ? plan.startedAt : null,
+      completedAt: (plan && plan.completedAt) || (winner ? winner.timestamp : null),
+      winnerName: winner ? winner.playerName : null,
+      winnerPolicy: (winner && winner.winnerPolicy) || (plan && plan.winnerPolicy) || 'first',
+      tiebreak: (winner && winner.tiebreak) || null,
+      stages: plan ? plan.stages : [],
+      callCount: results.calls.filter((c) => c.roundNumber === n).length,
+      cardSeed: cardSeedForRound(room, results, n),
+    });
+  }
+
+  return {
+    roomId: room.id,
+    generatedAt: toIso(),
+    sessionStartedAt: results.startedAt,
+    gameState: room.gameState,
+    eventTitle: (venueBranding && venueBranding.eventTitle) || null,
+    rounds,
+    calls: results.calls.map((c) => ({ ...c, displayTitle: titleFor(c.songId) || c.songName })),
+    winners: results.winners,
+    rejectedClaims: results.rejectedClaims,
+    scoring: { ...leaderboard.ensureLeaderboard(room).scoring },
+    leaderboard: leaderboard.standings(room).map(({ key, ...row }) => row),
+  };
+}
+
+const POLICY_LABELS = {
+  first: 'first verified wins',
+  split: 'split between same-song claims',
+  tiebreak_song: 'sudden-death tie-break',
+  tiebreak_draw: 'random-draw tie-break',
+};
+
+function stageNote(stage) {
+  return stage ? `stage ${stage.index + 1} of ${stage.total}` : '';
+}
+
+/** "line → four_corners → full_card" for a progressive round; '' otherwise. */
+function stagesLabel(stages) {
+  return Array.isArray(stages) && stages.length > 1 ? stages.map((s) => s.pattern).join(' → ') : '';
+}
+
+/** "tie-break: Ana, Ben → draw" style note for a settled tie. */
+function tiebreakNote(tiebreak) {
+  if (!tiebreak || !Array.isArray(tiebreak.entrants)) return '';
+  const names = tiebreak.entrants.map((e) => e.playerName).join(', ');
+  if (tiebreak.mode === 'draw') return `tie-break between ${names}: random draw`;
+  return `tie-break between ${names}: sudden death over ${tiebreak.songsPlayed || 0} song(s)${tiebreak.drawn ? ', then a draw' : ''}`;
+}
+
+function csvCell(value) {
+  if (value == null) return '';
+  let s = Array.isArray(value) ? value.join(' ') : String(value);
+  // Player names are user input: keep spreadsheets from treating them as formulas
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** One flat sheet: a `section` column tells round, call, winner, rejected and leaderboard rows apart. */
+function reportToCsv(report) {
+  const header = ['section', 'round', 'order', 'time', 'player', 'song_id', 'title', 'artist', 'pattern', 'positions', 'detail'];
+  const rows = [header];
+  for (const r of report.rounds) {
+    rows.push(['round', r.roundNumber, '', r.completedAt || r.startedAt || '', r.winnerName || '', '', r.name, '', '', '',
+      `${r.status}; ${r.callCount} calls; ${POLICY_LABELS[r.winnerPolicy] || r.winnerPolicy}${stagesLabel(r.stages) ? `; stages ${stagesLabel(r.stages)}` : ''}${r.playlistNames.length ? `; ${r.playlistNames.join(' / ')}` : ''}${r.cardSeed ? `; card seed ${r.cardSeed}` : ''}`]);
+  }
+  for (const c of report.calls) {
+    rows.push(['call', c.roundNumber, c.order, c.calledAt, '', c.songId, c.displayTitle, c.artistName, '', '', '']);
+  }
+  for (const w of report.winners) {
+    rows.push(['winner', w.roundNumber, '', w.verifiedAt, w.playerName, '', '', '', w.pattern, w.winningPositions,
+      [`${w.callCount} calls`, stageNote(w.stage), w.sharedWith && w.sharedWith.length ? `shared with ${w.sharedWith.join(' & ')}` : '', tiebreakNote(w.tiebreak)]
+        .filter(Boolean)
+        .join('; ')]);
+  }
+  for (const c of report.rejectedClaims) {
+    rows.push(['rejected', c.roundNumber, '', c.rejectedAt, c.playerName, '', '', '', c.pattern, '',
+      `${c.source === 'auto' ? 'server' : 'host'}: ${c.reason}`]);
+  }
+  for (const p of report.leaderboard) {
+    rows.push(['leaderboard', '', p.rank, '', p.playerName, '', '', '', '', '',
+      `${p.points} pts; ${p.wins} win(s); ${p.oneAways} one away`]);
+  }
+  return `${rows.map((row) => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+function escapeHtml(value) {
+  return String(value == null ? '' : value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatTime(iso) {
+  if (!iso) return '';
+  return iso.replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+function cardHtml(card, highlight) {
+  if (!card) return '<p class="muted">Card not available.</p>';
+  const size = card.size || 5;
+  const byPos = new Map(card.squares.map((s) => [s.position, s]));
+  const lit = new Set(highlight || []);
+  const rows = [];
+  for (let row = 0; row < size; row++) {
+    let cells = '';
+    for (let col = 0; col < size; col++) {
+      const pos = `${row}-${col}`;
+      const sq = byPos.get(pos);
+      const cls = [sq && sq.marked ? 'marked' : '', lit.has(pos) ? 'win' : ''].filter(Boolean).join(' ');
+      const label = !sq ? '' : sq.isFreeSpace ? 'FREE' : sq.customSongName || sq.songName || '';
+      const artist = sq && sq.artistName && !sq.isFreeSpace ? `<small>${escapeHtml(sq.artistName)}</small>` : '';
+      cells += `<td class="${cls}">${escapeHtml(label)}${artist}</td>`;
+    }
+    rows.push(`<tr>${cells}</tr>`);
+  }
+  return `<table class="card">${rows.join('')}</table>`;
+}
+
+/** Self-contained page; the browser's Print → Save as PDF gives the PDF copy. */
+function reportToHtml(report) {
+  const title = report.eventTitle ? `${report.eventTitle} — Room ${report.roomId}` : `Room ${report.roomId}`;
+  const sections = report.rounds.map((r) => {
+    const calls = report.calls.filter((c) => c.roundNumber === r.roundNumber);
+    const winners = report.winners.filter((w) => w.roundNumber === r.roundNumber);
+    const rejected = report.rejectedClaims.filter((c) => c.roundNumber === r.roundNumber);
+    return `
+<section class="round">
+  <h2>${escapeHtml(r.name)} <span class="muted">· ${escapeHtml(r.status)} · ${escapeHtml(POLICY_LABELS[r.winnerPolicy] || r.winnerPolicy)}</span></h2>
+  ${r.playlistNames.length ? `<p class="muted">Playlists: ${escapeHtml(r.playlistNames.join(', '))}</p>` : ''}
+  ${stagesLabel(r.stages) ? `<p class="muted">Prize stages: ${escapeHtml(stagesLabel(r.stages))}</p>` : ''}
+  ${r.cardSeed ? `<p class="muted">Card seed: <code>${escapeHtml(r.cardSeed)}</code></p>` : ''}
+  <h3>Call order (${calls.length})</h3>
+  ${calls.length ? `<ol class="calls">${calls.map((c) => `<li>${escapeHtml(c.displayTitle)} <span class="muted">— ${escapeHtml(c.artistName)} · ${escapeHtml(formatTime(c.calledAt))}</span></li>`).join('')}</ol>` : '<p class="muted">No songs called.</p>'}
+  <h3>Winners</h3>
+  ${winners.length ? winners.map((w) => `
+  <div class="claim">
+    <p><strong>${escapeHtml(w.playerName)}</strong>${w.card && w.card.cardId ? ` <span class="muted">(card ${escapeHtml(w.card.cardId)})</span>` : ''} · ${escapeHtml(w.pattern)} · verified ${escapeHtml(formatTime(w.verifiedAt))} after ${w.callCount} calls${w.stage ? ` · ${escapeHtml(stageNote(w.stage))}` : ''}${w.sharedWith && w.sharedWith.length ? ` · shared with ${escapeHtml(w.sharedWith.join(' & '))}` : ''}${w.tiebreak ? ` · ${escapeHtml(tiebreakNote(w.tiebreak))}` : ''}</p>
+    ${cardHtml(w.card, w.winningPositions)}
+  </div>`).join('') : '<p class="muted">No verified winner.</p>'}
+  ${rejected.length ? `<h3>Rejected claims</h3>${rejected.map((c) => `
+  <div class="claim">
+    <p><strong>${escapeHtml(c.playerName)}</strong> · ${escapeHtml(formatTime(c.rejectedAt))} · ${c.source === 'auto' ? 'refused by server' : 'rejected by host'}: ${escapeHtml(c.reason)}</p>
+    ${c.card ? cardHtml(c.card, []) : ''}
+  </div>`).join('')}` : ''}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} — Results</title>
+<style>
+  body { font-family: system-ui, -apple-system, Segoe UI, Roboto, sans-serif; color: #111; margin: 24px; }
+  h1 { margin: 0 0 4px; }
+  h2 { margin: 0 0 6px; border-bottom: 2px solid #111; padding-bottom: 4px; }
+  h3 { margin: 16px 0 6px; font-size: 1rem; }
+  .muted { color: #666; font-weight: normal; }
+  .round { margin-top: 28px; page-break-inside: avoid; }
+  .calls { columns: 2; font-size: 0.85rem; margin: 0; }
+  .claim { margin: 8px 0 14px; page-break-inside: avoid; }
+  .card { border-collapse: collapse; table-layout: fixed; width: 100%; max-width: 620px; font-size: 0.72rem; }
+  .card td { border: 1px solid #999; padding: 4px; height: 48px; text-align: center; vertical-align: middle; }
+  .card td small { display: block; color: #666; }
+  .card td.marked { background: #e6f4ea; }
+  .standings { border-collapse: collapse; font-size: 0.9rem; }
+  .standings th, .standings td { border-bottom: 1px solid #ccc; padding: 4px 12px; text-align: left; }
+  .card td.win { background: #b7e4c7; font-weight: 700; outline: 2px solid #1b7f3b; outline-offset: -2px; }
+  @media print { body { margin: 0; } .round { page-break-before: auto; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Session started ${escapeHtml(formatTime(report.sessionStartedAt))} · report generated ${escapeHtml(formatTime(report.generatedAt))} · ${report.winners.length} winner(s), ${report.rejectedClaims.length} rejected claim(s)</p>
+${report.leaderboard.length ? `
+<section class="round">
+  <h2>Leaderboard <span class="muted">· ${report.scoring.win} pts per win · ${report.scoring.oneAway} pts one away</span></h2>
+  <table class="standings">
+    <tr><th>#</th><th>Player</th><th>Points</th><th>Wins</th><th>One away</th></tr>
+    ${report.leaderboard.map((p) => `<tr><td>${p.rank}</td><td>${escapeHtml(p.playerName)}</td><td>${p.points}</td><td>${p.wins}</td><td>${p.oneAways}</td></tr>`).join('')}
+  </table>
+</section>` : ''}
+${sections.join('\n') || '<p class="muted">No rounds played yet.</p>'}
+</body>
+</html>
+`;
+}
+
+module.exports = {
+  REPORT_FORMATS,
+  ensureResults,
+  resetResults,
+  currentRoundNumber,
+  recordCall,
+  recordWinner,
+  recordRejectedClaim,
+  sanitizeEventRounds,
+  buildRoomReport,
+  reportToCsv,
+  reportToHtml,
+};
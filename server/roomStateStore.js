@@ -0,0 +1,212 @@
+/**
+ * Room state snapshots so a redeploy or crash mid-game does not wipe cards and call history.
+ * Uses the `room_state` table when DATABASE_URL is set; otherwise one JSON file per room under
+ * server/room_state/ (local dev only — not persistent on Railway).
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOM_STATE_DIR = path.join(__dirname, 'room_state');
+
+/** Snapshots older than this are ignored on boot (hours). Override with TEMPO_ROOM_STATE_MAX_AGE_HOURS. */
+function maxSnapshotAgeMs() {
+  const h = Number(process.env.TEMPO_ROOM_STATE_MAX_AGE_HOURS);
+  return (Number.isFinite(h) && h > 0 ? h : 24) * 60 * 60 * 1000;
+}
+
+async function ensureRoomStateTable(db) {
+  if (!db) return false;
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS room_state (
+      room_id VARCHAR(100) PRIMARY KEY,
+      state JSONB NOT NULL,
+      reason TEXT,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  return true;
+}
+
+/** JSON replacer: rooms hold Maps (players, bingoCards, clientCards) and a Set (customPattern). */
+function encodeCollections(key, value) {
+  if (value instanceof Map) return { __type: 'Map', entries: Array.from(value.entries()) };
+  if (value instanceof Set) return { __type: 'Set', values: Array.from(value.values()) };
+  return value;
+}
+
+function decodeCollections(key, value) {
+  if (value && typeof value === 'object' && value.__type === 'Map' && Array.isArray(value.entries)) {
+    return new Map(value.entries);
+  }
+  if (value && typeof value === 'object' && value.__type === 'Set' && Array.isArray(value.values)) {
+    return new Set(value.values);
+  }
+  return value;
+}
+
+/**
+ * Plain-JSON snapshot of a room. `player.bingoCard` is dropped (it mirrors room.bingoCards and is
+ * re-linked on hydrate) so each card is stored once per map.
+ */
+function serializeRoom(room) {
+  const players = new Map();
+  if (room.players instanceof Map) {
+    for (const [pid, p] of room.players) {
+      if (!p) continue;
+      const { bingoCard, ...rest } = p;
+      players.set(pid, rest);
+    }
+  }
+  return JSON.stringify({ ...room, players }, encodeCollections);
+}
+
+/**
+ * Rebuild a live room from a snapshot. Sockets did not survive the restart, so the host slot is
+ * cleared (hostClientId still lets the same host reclaim it) and every player entry is marked
+ * `restored` until that client rejoins. Playback timers are gone too, so a playing room comes back paused.
+ * `keepStaff`: another server instance is taking the room over and the host and co-hosts may still be
+ * connected through other instances, so their slots stay.
+ */
+function hydrateRoom(json, { keepStaff = false } = {}) {
+  const room = JSON.parse(json, decodeCollections);
+  if (!room || typeof room !== 'object' || !room.id) return null;
+  if (!(room.players instanceof Map)) room.players = new Map();
+  if (!(room.bingoCards instanceof Map)) room.bingoCards = new Map();
+  if (!(room.clientCards instanceof Map)) room.clientCards = new Map();
+
+  for (const [pid, p] of room.players) {
+    p.restored = true;
+    const card = room.bingoCards.get(pid);
+    if (card) {
+      p.bingoCard = card;
+      // Keep bySocket and byClient pointing at one object so marks stay in sync after rejoin
+      if (p.clientId && room.clientCards.has(p.clientId)) {
+        room.clientCards.set(p.clientId, card);
+      }
+    }
+  }
+
+  if (!keepStaff) {
+    room.host = null;
+    // Co-hosts rejoin with their code; open invites (room.cohostInvites) survive the restart
+    room.cohosts = new Map();
+  } else if (!(room.cohosts instanceof Map)) {
+    room.cohosts = new Map();
+  }
+  if (room.gameState === 'playing') room.gameState = 'paused';
+  room.restoredAt = new Date().toISOString();
+  return room;
+}
+
+function roomStateFile(roomId) {
+  return path.join(ROOM_STATE_DIR, `${encodeURIComponent(String(roomId))}.json`);
+}
+
+async function saveRoomSnapshot(db, room, reason) {
+  if (!room || !room.id) return false;
+  const json = serializeRoom(room);
+  if (db) {
+    await db.query(
+      `INSERT INTO room_state (room_id, state, reason, updated_at)
+       VALUES ($1, $2::jsonb, $3, CURRENT_TIMESTAMP)
+       ON CONFLICT (room_id) DO UPDATE SET
+         state = EXCLUDED.state,
+         reason = EXCLUDED.reason,
+         updated_at = CURRENT_TIMESTAMP`,
+      [String(room.id), json, reason || null]
+    );
+    return true;
+  }
+  await fs.promises.mkdir(ROOM_STATE_DIR, { recursive: true });
+  const file = roomStateFile(room.id);
+  const tmp = `${file}.tmp`;
+  await fs.promises.writeFile(tmp, json, 'utf8');
+  await fs.promises.rename(tmp, file);
+  return true;
+}
+
+async function deleteRoomSnapshot(db, roomId) {
+  if (roomId == null) return false;
+  if (db) {
+    await db.query('DELETE FROM room_state WHERE room_id = $1', [String(roomId)]);
+    return true;
+  }
+  try {
+    await fs.promises.unlink(roomStateFile(roomId));
+  } catch (e) {
+    if (e && e.code !== 'ENOENT') throw e;
+  }
+  return true;
+}
+
+/** Hydrated rooms from snapshots newer than the max age, oldest first. */
+async function loadRoomSnapshots(db) {
+  const cutoff = Date.now() - maxSnapshotAgeMs();
+  const raw = [];
+  if (db) {
+    const r = await db.query(
+      'SELECT room_id, state::text AS state, updated_at FROM room_state WHERE updated_at >= $1 ORDER BY updated_at ASC',
+      [new Date(cutoff)]
+    );
+    for (const row of r.rows) raw.push({ roomId: row.room_id, json: row.state });
+  } else {
+    let names = [];
+    try {
+      names = await fs.promises.readdir(ROOM_STATE_DIR);
+    } catch (e) {
+      if (e && e.code === 'ENOENT') return [];
+      throw e;
+    }
+    const files = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const file = path.join(ROOM_STATE_DIR, name);
+      const st = await fs.promises.stat(file);
+      if (st.mtimeMs < cutoff) continue;
+      files.push({ file, mtimeMs: st.mtimeMs, roomId: decodeURIComponent(name.slice(0, -5)) });
+    }
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const f of files) {
+      raw.push({ roomId: f.roomId, json: await fs.promises.readFile(f.file, 'utf8') });
+    }
+  }
+
+  const out = [];
+  for (const { roomId, json } of raw) {
+    try {
+      const room = hydrateRoom(json);
+      if (room) out.push(room);
+    } catch (e) {
+      console.error(`roomStateStore: skipping unreadable snapshot for room ${roomId}:`, e?.message || e);
+    }
+  }
+  return out;
+}
+
+/** One room's snapshot hydrated (see hydrateRoom for options), or null when there is none. */
+async function loadRoomSnapshot(db, roomId, options = {}) {
+  let json = null;
+  if (db) {
+    const r = await db.query('SELECT state::text AS state FROM room_state WHERE room_id = $1', [String(roomId)]);
+    if (r.rows.length) json = r.rows[0].state;
+  } else {
+    try {
+      json = await fs.promises.readFile(roomStateFile(roomId), 'utf8');
+    } catch (e) {
+      if (e && e.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+  return json ? hydrateRoom(json, options) : null;
+}
+
+module.exports = {
+  ensureRoomStateTable,
+  serializeRoom,
+  hydrateRoom,
+  saveRoomSnapshot,
+  deleteRoomSnapshot,
+  loadRoomSnapshots,
+  loadRoomSnapshot,
+};
@@ -0,0 +1,105 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const roomStateStore = require('./roomStateStore');
+
+function sampleRoom() {
+  const card = { id: 'card-1', squares: [{ position: '0-0', songId: 's1', marked: true }] };
+  return {
+    id: 'ROOM1',
+    host: 'host-socket',
+    hostClientId: 'host-client',
+    gameState: 'playing',
+    players: new Map([['p1', { name: 'Ada', clientId: 'c1', bingoCard: card }]]),
+    bingoCards: new Map([['p1', card]]),
+    clientCards: new Map([['c1', { ...card }]]),
+    cohosts: new Map([['co-socket', { name: 'Bo' }]]),
+    customPattern: new Set(['0-0', '4-4']),
+    calledSongIds: ['s1'],
+  };
+}
+
+/** Stand-in for the pg pool: keeps room_state rows in memory and answers the queries the store sends. */
+function memoryDb() {
+  const rows = new Map();
+  return {
+    rows,
+    async query(sql, params = []) {
+      if (sql.includes('INSERT INTO room_state')) {
+        rows.set(params[0], { room_id: params[0], state: params[1], reason: params[2], updated_at: new Date() });
+        return { rows: [] };
+      }
+      if (sql.includes('DELETE FROM room_state')) {
+        rows.delete(params[0]);
+        return { rows: [] };
+      }
+      if (sql.includes('WHERE room_id = $1')) {
+        return { rows: rows.has(params[0]) ? [rows.get(params[0])] : [] };
+      }
+      if (sql.includes('WHERE updated_at >= $1')) {
+        return { rows: [...rows.values()].filter((r) => r.updated_at >= params[0]) };
+      }
+      return { rows: [] };
+    },
+  };
+}
+
+test('serializeRoom keeps Maps and Sets and stores each card once', () => {
+  const json = roomStateStore.serializeRoom(sampleRoom());
+  const plain = JSON.parse(json);
+  assert.equal(plain.players.__type, 'Map');
+  assert.equal(plain.customPattern.__type, 'Set');
+  assert.equal(plain.players.entries[0][1].bingoCard, undefined);
+});
+
+test('hydrateRoom rebuilds collections and re-links cards', () => {
+  const room = roomStateStore.hydrateRoom(roomStateStore.serializeRoom(sampleRoom()));
+  assert.ok(room.players instanceof Map);
+  assert.deepEqual([...room.customPattern], ['0-0', '4-4']);
+  const player = room.players.get('p1');
+  assert.equal(player.restored, true);
+  assert.equal(player.bingoCard, room.bingoCards.get('p1'));
+  assert.equal(room.clientCards.get('c1'), room.bingoCards.get('p1'));
+});
+
+test('hydrateRoom pauses a playing room and clears staff slots', () => {
+  const room = roomStateStore.hydrateRoom(roomStateStore.serializeRoom(sampleRoom()));
+  assert.equal(room.gameState, 'paused');
+  assert.equal(room.host, null);
+  assert.equal(room.hostClientId, 'host-client');
+  assert.equal(room.cohosts.size, 0);
+  assert.ok(room.restoredAt);
+});
+
+test('hydrateRoom keeps the host and co-hosts for a takeover', () => {
+  const room = roomStateStore.hydrateRoom(roomStateStore.serializeRoom(sampleRoom()), { keepStaff: true });
+  assert.equal(room.host, 'host-socket');
+  assert.equal(room.cohosts.get('co-socket').name, 'Bo');
+});
+
+test('hydrateRoom rejects a snapshot without a room id', () => {
+  assert.equal(roomStateStore.hydrateRoom(JSON.stringify({ players: [] })), null);
+});
+
+test('snapshots round-trip through the room_state table', async () => {
+  const db = memoryDb();
+  assert.equal(await roomStateStore.saveRoomSnapshot(db, sampleRoom(), 'test'), true);
+  assert.equal(db.rows.get('ROOM1').reason, 'test');
+
+  const one = await roomStateStore.loadRoomSnapshot(db, 'ROOM1', { keepStaff: true });
+  assert.equal(one.host, 'host-socket');
+  const all = await roomStateStore.loadRoomSnapshots(db);
+  assert.deepEqual(all.map((r) => r.id), ['ROOM1']);
+
+  await roomStateStore.deleteRoomSnapshot(db, 'ROOM1');
+  assert.equal(await roomStateStore.loadRoomSnapshot(db, 'ROOM1'), null);
+});
+
+test('loadRoomSnapshots skips unreadable snapshots', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const db = memoryDb();
+  await roomStateStore.saveRoomSnapshot(db, sampleRoom(), 'test');
+  db.rows.set('BROKEN', { room_id: 'BROKEN', state: '{not json', updated_at: new Date() });
+  const rooms = await roomStateStore.loadRoomSnapshots(db);
+  assert.deepEqual(rooms.map((r) => r.id), ['ROOM1']);
+});
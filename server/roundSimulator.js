@@ -0,0 +1,222 @@
+/**
+ * Round-length estimates for planning: a Monte Carlo run over the real card rules. Each trial deals
+ * `players` cards from a fresh seed with cardDeals.drawCard (5x15 columns, 1x75 pool or the global-pool
+ * fallback, free space on or off), shuffles the call order over every song of the mix and finds the
+ * call on which the first card covers the pattern (the shapes in patternProgress.js, or a custom mask).
+ *
+ * Stages of a progressive round are played on the same cards and calls, so stage k is won on the
+ * later of stage k-1's winning call and the first call any card covers stage k's shape. Minutes
+ * count one snippet per call. tools/simulate-round.js is the CLI; the round planner asks
+ * POST /api/round-estimates, which runs `estimateRound` off the event loop (`estimateRoundInWorker`).
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+const { Worker, isMainThread, parentPort, workerData } = require('worker_threads');
+const { cardModeFor, createMix, drawCard, songPositions } = require('./cardDeals');
+const { PATTERN_SHAPES } = require('./patternProgress');
+
+const DEFAULT_TRIALS = 1000;
+/** Trials per planner estimate: enough for stable medians, quick enough to run on every planner change. */
+const ESTIMATE_TRIALS = 300;
+/** Cards dealt per planner estimate at most; big rooms get fewer trials (never under MIN_ESTIMATE_TRIALS). */
+const ESTIMATE_CARD_BUDGET = 20000;
+const MIN_ESTIMATE_TRIALS = 50;
+/** Recent planner estimates by request, so re-renders and repeated plans do not simulate again. */
+const ESTIMATE_CACHE_SIZE = 100;
+const MAX_TRIALS = 20000;
+const MAX_PLAYERS = 500;
+const MASK_POSITION = /^[0-4]-[0-4]$/;
+
+function clampInt(value, min, max, fallback) {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
+/**
+ * A stand-in mix the size of the planned round: for 5x15 one column per playlist (`columnSizes`, or
+ * songCount / 5 each), the 75 for 1x75, otherwise one pool of every song. Null when the mode does not
+ * fit the song count.
+ */
+function planMix(mode, songCount, freeSpace, columnSizes = null) {
+  const count = clampInt(songCount, 0, 100000, 0);
+  const ids = (prefix, n) => Array.from({ length: n }, (_, i) => `${prefix}${i}`);
+  if (mode === '5x15') {
+    const sizes = Array.isArray(columnSizes) && columnSizes.length === 5
+      ? columnSizes.map((n) => clampInt(n, 0, 100000, 0))
+      : Array.from({ length: 5 }, () => Math.floor(count / 5));
+    if (sizes.some((n) => n < 15)) return null;
+    return createMix('5x15', freeSpace, sizes.map((n, col) => ids(`c${col}:`, n)));
+  }
+  if (mode === '1x75') {
+    return count >= 75 ? createMix('1x75', freeSpace, [ids('s', 75)]) : null;
+  }
+  return count >= (freeSpace ? 24 : 25) ? createMix('fallback', freeSpace, [ids('s', count)]) : null;
+}
+
+/** Ways to complete a stage: a preset's shapes, or the custom mask as one shape (null when empty). */
+function stageShapes(stage) {
+  const pattern = stage && stage.pattern;
+  if (pattern === 'custom') {
+    const mask = Array.isArray(stage.customMask) ? [...new Set(stage.customMask.filter((p) => MASK_POSITION.test(p)))] : [];
+    return mask.length ? [mask] : null;
+  }
+  return PATTERN_SHAPES[pattern] || null;
+}
+
+function shuffled(array) {
+  const out = [...array];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Nearest-rank percentile of an ascending array. */
+function percentile(sorted, p) {
+  if (!sorted.length) return null;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+function summarize(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1);
+  return {
+    mean: Math.round(mean * 10) / 10,
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    min: sorted[0] ?? null,
+    max: sorted[sorted.length - 1] ?? null,
+  };
+}
+
+function toMinutes(summary, snippetSeconds) {
+  const out = {};
+  for (const [key, songs] of Object.entries(summary)) {
+    out[key] = songs == null ? null : Math.round(((songs * snippetSeconds) / 60) * 10) / 10;
+  }
+  return out;
+}
+
+/**
+ * Simulate a round. `stages` is [{ pattern, customMask? }] (one entry for a single-prize round).
+ * Returns { mode, songCount, callPool, players, snippetSeconds, freeSpace, trials, stages: [{ pattern,
+ * songs, minutes }] } with songs/minutes as { mean, p10, p50, p90, min, max } to that stage's first
+ * winner, or null when the mix cannot fill a card or no stage has a usable shape.
+ */
+function simulateRound({ mode = 'fallback', songCount, columnSizes = null, freeSpace = false, players = 20, snippetSeconds = 30, stages, trials = DEFAULT_TRIALS } = {}) {
+  const mix = planMix(mode, songCount, !!freeSpace, columnSizes);
+  if (!mix) return null;
+  const plan = (Array.isArray(stages) && stages.length ? stages : [{ pattern: 'line' }])
+    .map((stage) => ({ pattern: stage.pattern, shapes: stageShapes(stage) }))
+    .filter((stage) => stage.shapes);
+  if (!plan.length) return null;
+
+  const playerCount = clampInt(players, 1, MAX_PLAYERS, 20);
+  const trialCount = clampInt(trials, 1, MAX_TRIALS, DEFAULT_TRIALS);
+  const seconds = Math.max(1, Number(snippetSeconds) || 30);
+  const positions = songPositions(mix.freeSpace);
+  const callPool = [...new Set(mix.pools.flat())];
+  const wins = plan.map(() => []);
+
+  for (let t = 0; t < trialCount; t++) {
+    const seed = crypto.randomBytes(8).toString('hex');
+    const callIndex = new Map(shuffled(callPool).map((id, i) => [id, i]));
+    const firstCover = plan.map(() => Infinity);
+    for (let n = 1; n <= playerCount; n++) {
+      const songIds = drawCard(mix, seed, n);
+      // Call on which each square is covered; the free centre is covered from the start
+      const coveredAt = new Map(positions.map((pos, i) => [pos, callIndex.get(songIds[i])]));
+      if (mix.freeSpace) coveredAt.set('2-2', -1);
+      plan.forEach((stage, k) => {
+        for (const shape of stage.shapes) {
+          let done = -1;
+          for (const pos of shape) done = Math.max(done, coveredAt.get(pos));
+          if (done < firstCover[k]) firstCover[k] = done;
+        }
+      });
+    }
+    let wonAt = -1;
+    plan.forEach((_, k) => {
+      wonAt = Math.max(wonAt, firstCover[k]);
+      wins[k].push(wonAt + 1);
+    });
+  }
+
+  return {
+    mode: mix.mode,
+    songCount: clampInt(songCount, 0, 100000, 0),
+    callPool: callPool.length,
+    players: playerCount,
+    snippetSeconds: seconds,
+    freeSpace: mix.freeSpace,
+    trials: trialCount,
+    stages: plan.map((stage, k) => {
+      const songs = summarize(wins[k]);
+      return { pattern: stage.pattern, songs, minutes: toMinutes(songs, seconds) };
+    }),
+  };
+}
+
+/**
+ * Estimate a planned round from its playlists' song counts, in playlist order: the card mode the game
+ * would pick for them (cardDeals.cardModeFor), then `simulateRound` at ESTIMATE_TRIALS (fewer for big rooms).
+ */
+function estimateRound({ playlistSizes, freeSpace = false, players = 20, snippetSeconds = 30, stages } = {}) {
+  const sizes = (Array.isArray(playlistSizes) ? playlistSizes : []).map((n) => clampInt(n, 0, 100000, 0));
+  const mode = cardModeFor(sizes);
+  const playerCount = clampInt(players, 1, MAX_PLAYERS, 20);
+  return simulateRound({
+    mode,
+    songCount: sizes.reduce((sum, n) => sum + n, 0),
+    columnSizes: mode === '5x15' ? sizes : null,
+    freeSpace,
+    players: playerCount,
+    snippetSeconds,
+    stages,
+    trials: Math.max(MIN_ESTIMATE_TRIALS, Math.min(ESTIMATE_TRIALS, Math.floor(ESTIMATE_CARD_BUDGET / playerCount))),
+  });
+}
+
+const estimateCache = new Map();
+let estimateQueue = Promise.resolve();
+
+/**
+ * `estimateRound` on a worker thread so a large simulation does not stall the game server; one at a
+ * time, and answered from a small cache when the same plan comes back.
+ */
+function estimateRoundInWorker(options) {
+  const key = JSON.stringify(options);
+  if (estimateCache.has(key)) return Promise.resolve(estimateCache.get(key));
+  const run = () =>
+    new Promise((resolve, reject) => {
+      const worker = new Worker(path.join(__dirname, 'roundSimulator.js'), { workerData: { estimateRound: options } });
+      worker.once('message', resolve);
+      worker.once('error', reject);
+      worker.once('exit', (code) => {
+        if (code !== 0) reject(new Error(`round simulator exited with code ${code}`));
+      });
+    });
+  const result = estimateQueue.then(run, run).then((estimate) => {
+    estimateCache.set(key, estimate);
+    if (estimateCache.size > ESTIMATE_CACHE_SIZE) estimateCache.delete(estimateCache.keys().next().value);
+    return estimate;
+  });
+  estimateQueue = result.catch(() => {});
+  return result;
+}
+
+if (!isMainThread && workerData && workerData.estimateRound) {
+  parentPort.postMessage(estimateRound(workerData.estimateRound));
+}
+
+module.exports = {
+  DEFAULT_TRIALS,
+  planMix,
+  stageShapes,
+  simulateRound,
+  estimateRound,
+  estimateRoundInWorker,
+};
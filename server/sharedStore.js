@@ -0,0 +1,182 @@
+/**
+ * Shared key/value store and pub/sub for running several server instances side by side (room leases,
+ * socket.io fan-out, token and title invalidation). TEMPO_SHARED_STORE_URL, e.g.
+ * redis://:password@host:6379/0 or rediss://… for TLS, connects every instance to the same Redis
+ * (ioredis) and turns cluster mode on. Unset, an in-process store keeps today's single-instance behavior.
+ *
+ * Values are strings; callers JSON-encode. Compare-and-extend / compare-and-delete run as Lua scripts
+ * so a lease is never extended or removed after another instance has taken it.
+ */
+
+const Redis = require('ioredis');
+const { createAdapter } = require('@socket.io/redis-adapter');
+
+/** PEXPIRE the key only while it still holds ARGV[1]. */
+const EXTEND_IF_VALUE_LUA = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/** DEL the key only while it still holds ARGV[1]. */
+const DELETE_IF_VALUE_LUA = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/** Store command → Lua source; tools/shared-store-standin.js runs these two and no other scripts. */
+const LUA_SCRIPTS = Object.freeze({ extendIfValue: EXTEND_IF_VALUE_LUA, deleteIfValue: DELETE_IF_VALUE_LUA });
+
+function deliver(handlers, channel, message) {
+  for (const handler of handlers.get(channel) || []) {
+    try {
+      handler(message);
+    } catch (e) {
+      console.error(`❌ Shared store handler for ${channel} failed:`, e?.message || e);
+    }
+  }
+}
+
+/** Log connection errors once per outage instead of on every retry. */
+function watchConnection(client, label) {
+  let failing = false;
+  client.on('error', (e) => {
+    if (failing) return;
+    failing = true;
+    console.error(`❌ Shared store ${label} connection error:`, e?.message || e);
+  });
+  client.on('ready', () => {
+    failing = false;
+  });
+  return client;
+}
+
+function createRedisStore(url) {
+  /** channel → Set(handler) */
+  const handlers = new Map();
+  const commands = watchConnection(new Redis(url), 'command');
+  for (const [name, lua] of Object.entries(LUA_SCRIPTS)) commands.defineCommand(name, { numberOfKeys: 1, lua });
+  // A connection in subscriber mode cannot run other commands; ioredis resubscribes after a reconnect
+  const subscriber = watchConnection(commands.duplicate(), 'subscriber');
+  subscriber.on('message', (channel, message) => deliver(handlers, channel, message));
+  let adapterSubscriber = null;
+
+  return {
+    shared: true,
+    async get(key) {
+      return commands.get(key);
+    },
+    /** True when the value was written (false when `onlyIfAbsent` and the key exists). */
+    async set(key, value, { ttlMs = null, onlyIfAbsent = false } = {}) {
+      const args = [key, value];
+      if (ttlMs) args.push('PX', Math.max(1, Math.round(ttlMs)));
+      if (onlyIfAbsent) args.push('NX');
+      return (await commands.set(...args)) === 'OK';
+    },
+    async del(key) {
+      return commands.del(key);
+    },
+    /** True when the key still held `value` and got the new TTL. */
+    async extendIfValue(key, value, ttlMs) {
+      return (await commands.extendIfValue(key, value, Math.max(1, Math.round(ttlMs)))) === 1;
+    },
+    /** True when the key still held `value` and was removed. */
+    async deleteIfValue(key, value) {
+      return (await commands.deleteIfValue(key, value)) === 1;
+    },
+    async publish(channel, message) {
+      return commands.publish(channel, message);
+    },
+    async subscribe(channel, handler) {
+      const first = !handlers.has(channel);
+      if (first) handlers.set(channel, new Set());
+      handlers.get(channel).add(handler);
+      if (first) await subscriber.subscribe(channel);
+    },
+    /** `io.adapter(store.socketAdapter())`: socket.io broadcasts fan out to every instance through Redis. */
+    socketAdapter() {
+      if (!adapterSubscriber) adapterSubscriber = watchConnection(commands.duplicate(), 'adapter');
+      return createAdapter(commands, adapterSubscriber);
+    },
+    close() {
+      commands.disconnect();
+      subscriber.disconnect();
+      if (adapterSubscriber) adapterSubscriber.disconnect();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// In-process store (single instance)
+// ---------------------------------------------------------------------------
+
+function createMemoryStore() {
+  /** key → { value, expiresAt } */
+  const entries = new Map();
+  const handlers = new Map();
+
+  const live = (key) => {
+    const e = entries.get(key);
+    if (e && e.expiresAt != null && e.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return e || null;
+  };
+
+  return {
+    shared: false,
+    async get(key) {
+      const e = live(key);
+      return e ? e.value : null;
+    },
+    async set(key, value, { ttlMs = null, onlyIfAbsent = false } = {}) {
+      if (onlyIfAbsent && live(key)) return false;
+      entries.set(key, { value: String(value), expiresAt: ttlMs ? Date.now() + ttlMs : null });
+      return true;
+    },
+    async del(key) {
+      const had = !!live(key);
+      entries.delete(key);
+      return had ? 1 : 0;
+    },
+    async extendIfValue(key, value, ttlMs) {
+      const e = live(key);
+      if (!e || e.value !== String(value)) return false;
+      e.expiresAt = Date.now() + ttlMs;
+      return true;
+    },
+    async deleteIfValue(key, value) {
+      const e = live(key);
+      if (!e || e.value !== String(value)) return false;
+      entries.delete(key);
+      return true;
+    },
+    async publish(channel, message) {
+      const set = handlers.get(channel);
+      if (!set) return 0;
+      setImmediate(() => deliver(handlers, channel, String(message)));
+      return set.size;
+    },
+    async subscribe(channel, handler) {
+      if (!handlers.has(channel)) handlers.set(channel, new Set());
+      handlers.get(channel).add(handler);
+    },
+    close() {
+      entries.clear();
+      handlers.clear();
+    },
+  };
+}
+
+/** Store for this process: Redis when TEMPO_SHARED_STORE_URL is set, in-process otherwise. */
+function createSharedStore(url = process.env.TEMPO_SHARED_STORE_URL || '') {
+  return url ? createRedisStore(url) : createMemoryStore();
+}
+
+module.exports = {
+  LUA_SCRIPTS,
+  createSharedStore,
+  createMemoryStore,
+};
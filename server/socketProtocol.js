@@ -0,0 +1,159 @@
+/**
+ * Runtime validation for client → server socket payloads.
+ * Shapes mirror `ClientToServerEvents` in client/src/socketProtocol.ts — keep the two in step.
+ * Malformed payloads are dropped before they reach a handler and the sender gets `protocol-error`.
+ *
+ * @typedef {import('../client/src/socketProtocol').ClientToServerEvents} ClientToServerEvents
+ * @typedef {import('../client/src/socketProtocol').ServerToClientEvents} ServerToClientEvents
+ * @typedef {import('../client/src/socketProtocol').ProtocolErrorPayload} ProtocolErrorPayload
+ */
+
+/**
+ * Field specs: 'string' | 'number' | 'boolean' | 'array' | 'object', suffixed with '?' when optional.
+ * Optional fields also accept null. Unknown fields are allowed (older clients send extras).
+ */
+const ROOM = { roomId: 'string' };
+
+const CLIENT_EVENT_SCHEMAS = {
+  'join-room': {
+    ...ROOM,
+    playerName: 'string',
+    isHost: 'boolean?',
+    clientId: 'string?',
+    licenseKey: 'string?',
+    hostSecret: 'string?',
+    hostToken: 'string?',
+    inPerson: 'boolean?',
+    cohostCode: 'string?',
+    profileToken: 'string?',
+  },
+  'finalize-mix': { ...ROOM, playlists: 'array', songList: 'array?', freeSpace: 'boolean?' },
+  'set-pattern': { ...ROOM, pattern: 'string', customMask: 'array?' },
+  'set-hybrid-mode': { ...ROOM, hybridInPersonPlusOnline: 'boolean' },
+  'set-playback-provider': { ...ROOM, provider: 'string' },
+  'set-event-rounds': { ...ROOM, rounds: 'array' },
+  'set-public-display-font-size': { ...ROOM, fontSize: 'number' },
+  'set-public-display-call-list-mode': { ...ROOM, mode: 'string' },
+  'player-bingo': ROOM,
+  'verify-bingo': { ...ROOM, playerId: 'string', playerName: 'string?', approved: 'boolean', reason: 'string?' },
+  'recheck-bingo-claim': { ...ROOM, playerId: 'string', playerName: 'string?', note: 'string?' },
+  'request-call-history': ROOM,
+  'replay-call-clip': { ...ROOM, songId: 'string' },
+  'verify-paper-card': { ...ROOM, cardId: 'string' },
+  'manual-resume-game': ROOM,
+  'continue-or-end': { ...ROOM, action: 'string' },
+  'emergency-stop': ROOM,
+  'restart-game': ROOM,
+  'start-next-round': { ...ROOM, fullReset: 'boolean?' },
+  'end-game-session': ROOM,
+  'sync-state': ROOM,
+  'request-player-cards': ROOM,
+  'new-round': ROOM,
+  'set-super-strict': { ...ROOM, enabled: 'boolean' },
+  'set-leaderboard-scoring': { ...ROOM, win: 'number?', oneAway: 'number?' },
+  'set-auto-bingo': { ...ROOM, mode: 'string', graceSeconds: 'number?' },
+  'start-game': {
+    ...ROOM,
+    playlists: 'array',
+    snippetLength: 'number?',
+    deviceId: 'string?',
+    songList: 'array?',
+    randomStarts: 'string?',
+    pattern: 'string?',
+    customMask: 'array?',
+    freeSpace: 'boolean?',
+  },
+  'end-game': { ...ROOM, stopPlayback: 'boolean?' },
+  'reset-game': { ...ROOM, stopPlayback: 'boolean?' },
+  'skip-song': ROOM,
+  'pause-song': ROOM,
+  'resume-song': { ...ROOM, resumePosition: 'number?' },
+  'previous-song': { ...ROOM, currentPosition: 'number?' },
+  'shuffle-playlist': ROOM,
+  'toggle-repeat': ROOM,
+  'reveal-call': { ...ROOM, revealToDisplay: 'boolean?', revealToPlayers: 'boolean?', hint: 'string?' },
+  'force-refresh': { ...ROOM, reason: 'string?' },
+  'set-volume': { ...ROOM, volume: 'number' },
+  'seek-song': { ...ROOM, position: 'number' },
+  'play-song': { ...ROOM, songId: 'string', songName: 'string', artistName: 'string' },
+  'mark-square': { ...ROOM, songId: 'string', position: 'string' },
+  'display-show-rules': ROOM,
+  'display-show-splash': ROOM,
+  'display-show-call-list': ROOM,
+  'display-reset-letters': ROOM,
+  'set-custom-song-title': { ...ROOM, songId: 'string', customTitle: 'string', scope: 'string?' },
+  'get-custom-song-title': { ...ROOM, songId: 'string' },
+  'get-all-custom-titles': ROOM,
+  'create-cohost-invite': { ...ROOM, role: 'string' },
+  'revoke-cohost-invite': { ...ROOM, code: 'string' },
+  'remove-cohost': { ...ROOM, cohostId: 'string' },
+};
+
+function typeOfValue(v) {
+  if (Array.isArray(v)) return 'array';
+  if (v === null) return 'null';
+  return typeof v;
+}
+
+/**
+ * @param {string} event
+ * @param {unknown} payload
+ * @returns {string[]} human-readable problems; empty when the payload is valid or the event is not described
+ */
+function validateClientPayload(event, payload) {
+  const schema = CLIENT_EVENT_SCHEMAS[event];
+  if (!schema) return [];
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return [`payload must be an object, got ${typeOfValue(payload)}`];
+  }
+  const issues = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    const optional = spec.endsWith('?');
+    const expected = optional ? spec.slice(0, -1) : spec;
+    const value = payload[field];
+    if (value === undefined || value === null) {
+      if (!optional) issues.push(`${field} is required`);
+      continue;
+    }
+    const actual = typeOfValue(value);
+    if (actual !== expected) {
+      issues.push(`${field} must be ${expected}, got ${actual}`);
+      continue;
+    }
+    if (expected === 'number' && !Number.isFinite(value)) {
+      issues.push(`${field} must be a finite number`);
+    } else if (field === 'roomId' && !value.trim()) {
+      issues.push('roomId must not be empty');
+    }
+  }
+  return issues;
+}
+
+/**
+ * Per-socket middleware (`socket.use`). Drops invalid packets and replies with `protocol-error`.
+ * @param {import('socket.io').Socket<ClientToServerEvents, ServerToClientEvents>} socket
+ * @param {(msg: string) => void} [onReject]
+ */
+function payloadValidationMiddleware(socket, onReject) {
+  return (packet, next) => {
+    const [event, payload] = packet;
+    const issues = validateClientPayload(event, payload);
+    if (issues.length === 0) return next();
+    /** @type {ProtocolErrorPayload} */
+    const error = {
+      event,
+      code: 'invalid_payload',
+      message: `Malformed ${event} payload: ${issues.join('; ')}`,
+      issues,
+    };
+    if (onReject) onReject(error.message);
+    socket.emit('protocol-error', error);
+    // Not calling next() drops the packet; next(err) would raise a socket-level 'error' instead
+  };
+}
+
+module.exports = {
+  CLIENT_EVENT_SCHEMAS,
+  validateClientPayload,
+  payloadValidationMiddleware,
+};
@@ -0,0 +1,95 @@
+/**
+ * "Same song" across playlists: two tracks with different ids (remaster, live cut, single vs album
+ * release) count as one song when they share an ISRC, or the same cleaned title and primary artist.
+ * Titles are cleaned with the default rules of cleanSongTitle (client/src/utils/songTitleCleaner.ts)
+ * and normalized like the host search (client/src/utils/fuzzySearch.ts); the host's finalize step
+ * matches with the same keys (client/src/utils/songDuplicates.ts). tools/check-title-rules.js runs both
+ * on fixture titles and fails when they disagree.
+ */
+
+/** cleanSongTitle's default rules, in its order: each strips a trailing suffix. */
+const TITLE_SUFFIXES = [
+  // Remastered
+  /\s*\(\d{4}\s+remaster(ed)?(\s+version)?\)\s*$/i,
+  /\s*-\s*\d{4}\s+remaster(ed)?(\s+version)?\s*$/i,
+  /\s*-\s*remastered\s*\d*\s*$/i,
+  /\s*\(remastered\s*\d*\)\s*$/i,
+  /\s*\[remastered\s*\d*\]\s*$/i,
+  /\s*remastered\s*\d*\s*$/i,
+  // Live
+  /\s*-\s*live\s*at\s*[^)]*\)?\s*$/i,
+  /\s*\(live\s*at\s*[^)]*\)\s*$/i,
+  /\s*\[live\s*at\s*[^\]]*\]\s*$/i,
+  /\s*live\s*at\s*[^)]*\)?\s*$/i,
+  /\s*-\s*live\s*$/i,
+  /\s*\(live\)\s*$/i,
+  /\s*\[live\]\s*$/i,
+  // Explicit / clean
+  /\s*-\s*(explicit|clean)\s*$/i,
+  /\s*\((explicit|clean)\)\s*$/i,
+  /\s*\[(explicit|clean)\]\s*$/i,
+  // Versions
+  /\s*-\s*(single\s*version|radio\s*edit|album\s*version|extended\s*version|short\s*version|instrumental|acoustic|studio\s*version)\s*$/i,
+  /\s*\((single\s*version|radio\s*edit|album\s*version|extended\s*version|instrumental|acoustic|studio\s*version)\)\s*$/i,
+  // Years
+  /\s*-\s*\d{4}\s*$/i,
+  /\s*\(\d{4}\)\s*$/i,
+  /\s*\[\d{4}\]\s*$/i,
+  // Parenthetical credits and sources
+  /\s*\((feat\.?|featuring|with|from)\s*[^)]*\)\s*$/i,
+  /\s*\(soundtrack\s*version\)\s*$/i,
+  /\s*\(original\s*motion\s*picture\s*soundtrack\)\s*$/i,
+];
+
+function cleanTitle(title) {
+  if (!title || typeof title !== 'string') return '';
+  let cleaned = title.trim();
+  for (const suffix of TITLE_SUFFIXES) cleaned = cleaned.replace(suffix, '');
+  cleaned = cleaned.replace(/^\s*-\s*/, '').replace(/\s*-\s*$/, '').replace(/\s+/g, ' ').trim();
+  return cleaned.length < 3 ? title.trim() : cleaned;
+}
+
+/** Lowercase, accents and punctuation dropped, '&' read as 'and'. */
+function normalizeText(text) {
+  return String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** First credited artist: Spotify joins artists with ", "; local files may say "A feat. B". */
+function primaryArtist(artist) {
+  return String(artist || '').split(/,|\s+(?:feat\.?|ft\.?|featuring)\s+/i)[0].trim();
+}
+
+/** Keys that identify the song: `isrc:…` when known, and `title:<title>|<primary artist>`. */
+function songMatchKeys(song) {
+  const keys = [];
+  const isrc = song && typeof song.isrc === 'string' ? song.isrc.replace(/[^a-z0-9]/gi, '').toUpperCase() : '';
+  if (isrc) keys.push(`isrc:${isrc}`);
+  const title = normalizeText(cleanTitle(song && song.name));
+  if (title) keys.push(`title:${title}|${normalizeText(primaryArtist(song && song.artist))}`);
+  return keys;
+}
+
+/** Songs taken so far, for cross-playlist dedup: `has(song)` is true for the same id or any shared key. */
+function createSeenSongs() {
+  const seen = new Set();
+  return {
+    has: (song) => seen.has(`id:${song.id}`) || songMatchKeys(song).some((k) => seen.has(k)),
+    add: (song) => {
+      seen.add(`id:${song.id}`);
+      for (const k of songMatchKeys(song)) seen.add(k);
+    },
+  };
+}
+
+module.exports = {
+  cleanTitle,
+  primaryArtist,
+  songMatchKeys,
+  createSeenSongs,
+};
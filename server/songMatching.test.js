@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const songMatching = require('./songMatching');
+
+test('cleanTitle strips release suffixes', () => {
+  assert.equal(songMatching.cleanTitle('Hey Jude (2015 Remaster)'), 'Hey Jude');
+  assert.equal(songMatching.cleanTitle('Hotel California - Live at the Forum, Inglewood'), 'Hotel California');
+  assert.equal(songMatching.cleanTitle('Africa - Radio Edit'), 'Africa');
+  assert.equal(songMatching.cleanTitle('Umbrella (featuring JAY-Z)'), 'Umbrella');
+  assert.equal(songMatching.cleanTitle('Dancing Queen (Live) - 2014 Remastered'), 'Dancing Queen');
+  assert.equal(songMatching.cleanTitle('  Fernando   -  '), 'Fernando');
+});
+
+test('cleanTitle leaves song names that only look like suffixes', () => {
+  assert.equal(songMatching.cleanTitle('Live and Let Die'), 'Live and Let Die');
+  assert.equal(songMatching.cleanTitle('1999'), '1999');
+  assert.equal(songMatching.cleanTitle('With or Without You'), 'With or Without You');
+});
+
+test('cleanTitle keeps the original when too little would be left', () => {
+  assert.equal(songMatching.cleanTitle('Go (2010)'), 'Go (2010)');
+  assert.equal(songMatching.cleanTitle(''), '');
+  assert.equal(songMatching.cleanTitle(null), '');
+});
+
+test('primaryArtist takes the first credited artist', () => {
+  assert.equal(songMatching.primaryArtist('The Kid LAROI, Justin Bieber'), 'The Kid LAROI');
+  assert.equal(songMatching.primaryArtist('JAY-Z feat. Alicia Keys'), 'JAY-Z');
+  assert.equal(songMatching.primaryArtist('Rihanna featuring JAY-Z'), 'Rihanna');
+  assert.equal(songMatching.primaryArtist(undefined), '');
+});
+
+test('songMatchKeys gives an ISRC key and a normalized title key', () => {
+  assert.deepEqual(songMatching.songMatchKeys({ name: 'Déjà Vu & Me (Live)', artist: 'Beyoncé, Jay-Z', isrc: 'us-sm1-23-00001' }), [
+    'isrc:USSM12300001',
+    'title:deja vu and me|beyonce',
+  ]);
+  assert.deepEqual(songMatching.songMatchKeys({ name: 'Angie', artist: 'The Rolling Stones' }), ['title:angie|the rolling stones']);
+  assert.deepEqual(songMatching.songMatchKeys({}), []);
+});
+
+test('createSeenSongs matches by id, ISRC or cleaned title and artist', () => {
+  const seen = songMatching.createSeenSongs();
+  seen.add({ id: '1', name: 'Hey Jude (2015 Remaster)', artist: 'The Beatles', isrc: 'GBAYE0601477' });
+  assert.equal(seen.has({ id: '1', name: 'Anything', artist: 'Anyone' }), true);
+  assert.equal(seen.has({ id: '2', name: 'Hey Jude - Live', artist: 'The Beatles, Paul McCartney' }), true);
+  assert.equal(seen.has({ id: '3', name: 'Hey Jude', artist: 'Wilson Pickett', isrc: 'GBAYE0601477' }), true);
+  assert.equal(seen.has({ id: '4', name: 'Hey Jude', artist: 'Wilson Pickett' }), false);
+});
@@ -0,0 +1,156 @@
+/**
+ * Custom song title overrides, scoped per organization with optional per-room overrides.
+ * A room override wins over its organization's title. Persisted in `custom_song_titles` when
+ * DATABASE_URL is set; otherwise kept in memory for the life of the process.
+ */
+
+const SCOPE_ORGANIZATION = 'organization';
+const SCOPE_ROOM = 'room';
+const MAX_TITLE_LEN = 200;
+
+/** `${scopeType}:${scopeId}` -> Map(songId -> title) */
+const titlesByScope = new Map();
+/** Scope keys already read from the database (or initialized in memory). */
+const loadedScopes = new Set();
+
+function scopeKey(scopeType, scopeId) {
+  return `${scopeType}:${scopeId}`;
+}
+
+function isValidScope(scopeType) {
+  return scopeType === SCOPE_ORGANIZATION || scopeType === SCOPE_ROOM;
+}
+
+async function ensureCustomSongTitlesTable(db) {
+  if (!db) return false;
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS custom_song_titles (
+      scope_type VARCHAR(20) NOT NULL,
+      scope_id VARCHAR(100) NOT NULL,
+      song_id VARCHAR(100) NOT NULL,
+      custom_title TEXT NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (scope_type, scope_id, song_id)
+    )
+  `);
+  return true;
+}
+
+async function loadScope(db, scopeType, scopeId) {
+  if (!isValidScope(scopeType) || scopeId == null) return;
+  const key = scopeKey(scopeType, scopeId);
+  if (loadedScopes.has(key)) return;
+  const titles = titlesByScope.get(key) || new Map();
+  if (db) {
+    const r = await db.query(
+      'SELECT song_id, custom_title FROM custom_song_titles WHERE scope_type = $1 AND scope_id = $2',
+      [scopeType, String(scopeId)]
+    );
+    for (const row of r.rows) {
+      // In-memory edits made while the load was in flight take precedence
+      if (!titles.has(row.song_id)) titles.set(row.song_id, row.custom_title);
+    }
+  }
+  titlesByScope.set(key, titles);
+  loadedScopes.add(key);
+}
+
+/** Room override, then organization title; undefined when neither is set. Sync — call loadScope first. */
+function getTitle(orgKey, roomId, songId) {
+  if (!songId) return undefined;
+  const roomTitles = roomId != null ? titlesByScope.get(scopeKey(SCOPE_ROOM, roomId)) : null;
+  if (roomTitles && roomTitles.has(songId)) return roomTitles.get(songId);
+  const orgTitles = orgKey != null ? titlesByScope.get(scopeKey(SCOPE_ORGANIZATION, orgKey)) : null;
+  if (orgTitles && orgTitles.has(songId)) return orgTitles.get(songId);
+  return undefined;
+}
+
+/** Which scope the effective title for a song comes from, or null when it is not overridden. */
+function getTitleScope(orgKey, roomId, songId) {
+  if (!songId) return null;
+  const roomTitles = roomId != null ? titlesByScope.get(scopeKey(SCOPE_ROOM, roomId)) : null;
+  if (roomTitles && roomTitles.has(songId)) return SCOPE_ROOM;
+  const orgTitles = orgKey != null ? titlesByScope.get(scopeKey(SCOPE_ORGANIZATION, orgKey)) : null;
+  if (orgTitles && orgTitles.has(songId)) return SCOPE_ORGANIZATION;
+  return null;
+}
+
+/** Effective titles for a room plus which scope each one came from. */
+function listTitles(orgKey, roomId) {
+  const titles = {};
+  const scopes = {};
+  const orgTitles = orgKey != null ? titlesByScope.get(scopeKey(SCOPE_ORGANIZATION, orgKey)) : null;
+  const roomTitles = roomId != null ? titlesByScope.get(scopeKey(SCOPE_ROOM, roomId)) : null;
+  if (orgTitles) {
+    for (const [songId, title] of orgTitles) {
+      titles[songId] = title;
+      scopes[songId] = SCOPE_ORGANIZATION;
+    }
+  }
+  if (roomTitles) {
+    for (const [songId, title] of roomTitles) {
+      titles[songId] = title;
+      scopes[songId] = SCOPE_ROOM;
+    }
+  }
+  return { titles, scopes };
+}
+
+/** Set (or clear, when title is empty) one override. Returns the stored title or null when cleared. */
+async function setTitle(db, scopeType, scopeId, songId, title) {
+  if (!isValidScope(scopeType)) throw new Error(`invalid title scope: ${scopeType}`);
+  if (scopeId == null || !songId) throw new Error('scopeId and songId are required');
+  const clean = String(title == null ? '' : title).trim().slice(0, MAX_TITLE_LEN);
+  const key = scopeKey(scopeType, scopeId);
+  if (!titlesByScope.has(key)) titlesByScope.set(key, new Map());
+  const titles = titlesByScope.get(key);
+
+  if (!clean) {
+    titles.delete(songId);
+    if (db) {
+      await db.query(
+        'DELETE FROM custom_song_titles WHERE scope_type = $1 AND scope_id = $2 AND song_id = $3',
+        [scopeType, String(scopeId), songId]
+      );
+    }
+    return null;
+  }
+
+  titles.set(songId, clean);
+  if (db) {
+    await db.query(
+      `INSERT INTO custom_song_titles (scope_type, scope_id, song_id, custom_title, updated_at)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+       ON CONFLICT (scope_type, scope_id, song_id) DO UPDATE SET
+         custom_title = EXCLUDED.custom_title,
+         updated_at = CURRENT_TIMESTAMP`,
+      [scopeType, String(scopeId), songId, clean]
+    );
+  }
+  return clean;
+}
+
+/**
+ * Mirror an override another server instance just saved (memory only; that instance wrote the
+ * database, and a later loadScope keeps this edit over the rows it reads).
+ */
+function applyTitle(scopeType, scopeId, songId, title) {
+  if (!isValidScope(scopeType) || scopeId == null || !songId) return;
+  const key = scopeKey(scopeType, scopeId);
+  if (!titlesByScope.has(key)) titlesByScope.set(key, new Map());
+  if (title) titlesByScope.get(key).set(songId, title);
+  else titlesByScope.get(key).delete(songId);
+}
+
+module.exports = {
+  SCOPE_ORGANIZATION,
+  SCOPE_ROOM,
+  isValidScope,
+  ensureCustomSongTitlesTable,
+  loadScope,
+  getTitle,
+  getTitleScope,
+  listTitles,
+  setTitle,
+  applyTitle,
+};
@@ -200,16 +200,22 @@ function mapPlaylistItemRowToHostSong(row, playlistId, playlistInfo) {
   } else if (episodeLike && tr.show && typeof tr.show.name === 'string') {
     albumName = tr.show.name;
   }
+  // release_date is '1987', '1987-05' or '1987-05-01' depending on release_date_precision
+  const releaseYear =
+    tr.album && typeof tr.album.release_date === 'string' ? parseInt(tr.album.release_date.slice(0, 4), 10) || null : null;
 
   return {
     id: tr.id,
     name: typeof tr.name === 'string' ? tr.name : '(unknown)',
     artist: artistStr,
     album: albumName,
+    releaseYear,
     duration: typeof tr.duration_ms === 'number' ? tr.duration_ms : 0,
     uri: typeof tr.uri === 'string' ? tr.uri : '',
     previewUrl: tr.preview_url != null ? tr.preview_url : null,
     explicit: tr.explicit === true,
+    /** Same recording across releases; used to spot one song on two playlists (songMatching.js). */
+    isrc: tr.external_ids && typeof tr.external_ids.isrc === 'string' ? tr.external_ids.isrc : null,
     sourcePlaylistId: playlistId,
     sourcePlaylistName: playlistInfo?.name || 'Unknown Playlist',
   };
@@ -1422,7 +1428,8 @@ class SpotifyService {
         preview_url: track.preview_url,
         uri: track.uri,
         external_urls: track.external_urls,
-        explicit: track.explicit === true
+        explicit: track.explicit === true,
+        isrc: track.external_ids && typeof track.external_ids.isrc === 'string' ? track.external_ids.isrc : null
       }));
     } catch (error) {
       this._rethrowIfRateLimited(error, 'searchTracks');
@@ -0,0 +1,74 @@
+/**
+ * Verification queue: bingo claims wait for the host first come, first served, and the host decides
+ * them one at a time. The entries are the pending claims of `room.claimWindow` (winnerPolicy), ordered
+ * by `claim.queuedAt`; each carries the verificationData built when it arrived (card snapshot, called
+ * songs, validation result, timestamp), so a second claim never replaces the one on screen.
+ *
+ * "Needs recheck" sends the head claim to the back of the queue with a note; it stays pending, so the
+ * round cannot be decided without it.
+ */
+
+const winnerPolicy = require('./winnerPolicy');
+
+/** Put a claim just recorded (or re-opened after a rejection) at the back of the queue. */
+function enqueue(claim) {
+  claim.queuedAt = Date.now();
+  claim.recheck = null;
+  return claim;
+}
+
+/** Pending claims in the order the host should see them. */
+function entries(room) {
+  return winnerPolicy
+    .pendingClaims(room)
+    .slice()
+    .sort((a, b) => (a.queuedAt || a.claimedAt) - (b.queuedAt || b.claimedAt));
+}
+
+function head(room) {
+  return entries(room)[0] || null;
+}
+
+/** Move a pending claim to the back and flag it for a second look; null when it is not queued. */
+function requeue(room, playerIds, { note = '', by = null } = {}) {
+  const claim = entries(room).find((c) => playerIds.includes(c.playerId));
+  if (!claim) return null;
+  claim.queuedAt = Date.now();
+  claim.recheck = {
+    note: String(note || '').slice(0, 200),
+    by,
+    requestedAt: claim.queuedAt,
+    count: ((claim.recheck && claim.recheck.count) || 0) + 1,
+  };
+  return claim;
+}
+
+/**
+ * `verification-queue` payload for staff with the verify permission. `calls` is the room's call
+ * sequence now, shown next to each claim's frozen one.
+ */
+function queuePayload(room, roomId, { calls = null } = {}) {
+  return {
+    roomId,
+    calls,
+    entries: entries(room).map((c, i) => ({
+      position: i + 1,
+      playerId: c.playerId,
+      playerName: c.playerName,
+      claimedAt: c.claimedAt,
+      queuedAt: c.queuedAt || c.claimedAt,
+      isValid: c.verificationData ? c.verificationData.isValid !== false : null,
+      isPaperCard: !!(c.verificationData && c.verificationData.isPaperCard),
+      recheck: c.recheck || null,
+      verificationData: c.verificationData,
+    })),
+  };
+}
+
+module.exports = {
+  enqueue,
+  entries,
+  head,
+  requeue,
+  queuePayload,
+};
@@ -0,0 +1,81 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const verificationQueue = require('./verificationQueue');
+const winnerPolicy = require('./winnerPolicy');
+
+/** Each Date.now() call is one second after the last, so queue order never ties. */
+function tickingClock(t) {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => (now += 1000));
+}
+
+function claimFor(room, playerId, verificationData = { isValid: true }) {
+  return verificationQueue.enqueue(winnerPolicy.recordClaim(room, { playerId, playerName: playerId.toUpperCase(), verificationData }));
+}
+
+test('claims queue first come, first served', (t) => {
+  tickingClock(t);
+  const room = {};
+  claimFor(room, 'p1');
+  claimFor(room, 'p2');
+  claimFor(room, 'p3');
+  assert.deepEqual(verificationQueue.entries(room).map((c) => c.playerId), ['p1', 'p2', 'p3']);
+  assert.equal(verificationQueue.head(room).playerId, 'p1');
+});
+
+test('settled claims leave the queue', (t) => {
+  tickingClock(t);
+  const room = {};
+  claimFor(room, 'p1');
+  claimFor(room, 'p2');
+  winnerPolicy.settleClaim(room, ['p1'], 'approved');
+  assert.equal(verificationQueue.head(room).playerId, 'p2');
+  winnerPolicy.settleClaim(room, ['p2'], 'rejected');
+  assert.equal(verificationQueue.head(room), null);
+});
+
+test('requeue sends a claim to the back with a recheck note', (t) => {
+  tickingClock(t);
+  const room = {};
+  claimFor(room, 'p1');
+  claimFor(room, 'p2');
+  const moved = verificationQueue.requeue(room, ['p1'], { note: 'Check square 2-3', by: 'host' });
+  assert.deepEqual(verificationQueue.entries(room).map((c) => c.playerId), ['p2', 'p1']);
+  assert.deepEqual({ note: moved.recheck.note, by: moved.recheck.by, count: moved.recheck.count }, { note: 'Check square 2-3', by: 'host', count: 1 });
+  assert.equal(verificationQueue.requeue(room, ['p1']).recheck.count, 2);
+  assert.equal(verificationQueue.requeue(room, ['nobody']), null);
+  assert.equal(verificationQueue.requeue(room, ['p2'], { note: 'x'.repeat(500) }).recheck.note.length, 200);
+});
+
+test('a re-opened claim goes to the back without its old recheck', (t) => {
+  tickingClock(t);
+  const room = {};
+  claimFor(room, 'p1');
+  claimFor(room, 'p2');
+  verificationQueue.requeue(room, ['p1'], { note: 'again' });
+  winnerPolicy.settleClaim(room, ['p1'], 'rejected');
+  claimFor(room, 'p1');
+  const entries = verificationQueue.entries(room);
+  assert.deepEqual(entries.map((c) => c.playerId), ['p2', 'p1']);
+  assert.equal(entries[1].recheck, null);
+});
+
+test('queuePayload numbers the entries and flags invalid and paper claims', (t) => {
+  tickingClock(t);
+  const room = {};
+  claimFor(room, 'p1', { isValid: false });
+  claimFor(room, 'paper:ABC234', { isValid: true, isPaperCard: true });
+  claimFor(room, 'p3', null);
+  const payload = verificationQueue.queuePayload(room, 'ROOM1', { calls: { callCount: 3 } });
+  assert.equal(payload.roomId, 'ROOM1');
+  assert.deepEqual(payload.calls, { callCount: 3 });
+  assert.deepEqual(
+    payload.entries.map(({ position, playerId, isValid, isPaperCard }) => ({ position, playerId, isValid, isPaperCard })),
+    [
+      { position: 1, playerId: 'p1', isValid: false, isPaperCard: false },
+      { position: 2, playerId: 'paper:ABC234', isValid: true, isPaperCard: true },
+      { position: 3, playerId: 'p3', isValid: null, isPaperCard: false },
+    ]
+  );
+});
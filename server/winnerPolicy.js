@@ -0,0 +1,175 @@
+/**
+ * Per-round winner policy: what happens when more than one player claims bingo on the same song.
+ *   first          the first claim the host approves wins (classic behaviour)
+ *   split          every claim approved while the game is paused on that song shares the prize
+ *   tiebreak_song  tied players go to sudden death: extra songs are called until exactly one of them
+ *                  has the song on their card (a draw decides after MAX_SUDDEN_DEATH_SONGS)
+ *   tiebreak_draw  tied players are drawn at random, revealed on the public display
+ *
+ * Claims collect in `room.claimWindow` from the first claim of a song until the host has decided every
+ * one of them; `room.tiebreak` holds a running sudden death. Both are cleared when a round resets.
+ * A claim carries its card's detection (autoBingo.js) when the server saw the bingo: among approved
+ * claims, only those that completed on the earliest call go on to a tie-break.
+ */
+
+const crypto = require('crypto');
+
+const WINNER_POLICIES = ['first', 'split', 'tiebreak_song', 'tiebreak_draw'];
+const DEFAULT_WINNER_POLICY = 'first';
+const MAX_SUDDEN_DEATH_SONGS = 5;
+/** How long the public display spins names before the draw result is announced. */
+const DRAW_REVEAL_MS = 4000;
+
+function normalizeWinnerPolicy(value) {
+  return WINNER_POLICIES.includes(value) ? value : DEFAULT_WINNER_POLICY;
+}
+
+/**
+ * The active planned round's policy; falls back to the plan entry for the current round number
+ * (rounds are numbered by completed wins, as in roomReport).
+ */
+function winnerPolicyForRoom(room) {
+  const planned = Array.isArray(room.eventRounds) ? room.eventRounds : [];
+  const roundNumber = (Array.isArray(room.roundWinners) ? room.roundWinners.length : 0) + 1;
+  const active = planned.find((r) => r.status === 'active') || planned[roundNumber - 1];
+  return normalizeWinnerPolicy(active && active.winnerPolicy);
+}
+
+/** Add (or re-open, after a rejection) a claim; opens the window on the first claim of the song. */
+function recordClaim(room, { playerId, playerName, verificationData = null, detection = null }) {
+  if (!room.claimWindow) {
+    room.claimWindow = {
+      policy: winnerPolicyForRoom(room),
+      songId: (room.currentSong && room.currentSong.id) || null,
+      openedAt: Date.now(),
+      claims: [],
+    };
+  }
+  const window = room.claimWindow;
+  let claim = window.claims.find((c) => c.playerId === playerId);
+  if (!claim) {
+    claim = { playerId, playerName, claimedAt: Date.now() };
+    window.claims.push(claim);
+  }
+  claim.status = 'pending';
+  claim.verificationData = verificationData;
+  claim.detectedAt = detection ? detection.detectedAt : null;
+  claim.detectedCallIndex = detection ? detection.callIndex : null;
+  return claim;
+}
+
+/** Host decision on one claim. `playerIds` covers a stale socket id plus the one resolved after reconnect. */
+function settleClaim(room, playerIds, status, playerName) {
+  const window = room.claimWindow;
+  if (!window) return null;
+  const claim = window.claims.find((c) => playerIds.includes(c.playerId));
+  if (!claim) return null;
+  claim.status = status;
+  claim.playerId = playerIds[playerIds.length - 1] || claim.playerId;
+  if (playerName) claim.playerName = playerName;
+  return claim;
+}
+
+function pendingClaims(room) {
+  return room.claimWindow ? room.claimWindow.claims.filter((c) => c.status === 'pending') : [];
+}
+
+function approvedClaims(room) {
+  return room.claimWindow ? room.claimWindow.claims.filter((c) => c.status === 'approved') : [];
+}
+
+/** Approved claims whose card completed on the earliest call; claims without a detection all stay in. */
+function earliestCompleted(claims) {
+  const indexes = claims.map((c) => c.detectedCallIndex).filter((i) => Number.isInteger(i));
+  if (indexes.length !== claims.length) return claims;
+  const first = Math.min(...indexes);
+  return claims.filter((c) => c.detectedCallIndex === first);
+}
+
+/**
+ * What to do after the host settles a claim:
+ *   { action: 'complete', winners }    round over (one winner, or a split prize)
+ *   { action: 'wait', pending }        more claims on this song still need the host
+ *   { action: 'resume' }               nobody approved, play on
+ *   { action: 'draw' | 'sudden_death', candidates }
+ */
+function decideRound(room) {
+  const window = room.claimWindow;
+  if (!window) return { action: 'resume' };
+  const approvedList = approvedClaims(room);
+  const approved = approvedList.map(({ playerId, playerName }) => ({ playerId, playerName }));
+  if (window.policy === 'first' && approved.length) return { action: 'complete', winners: approved.slice(0, 1) };
+  const pending = pendingClaims(room);
+  if (pending.length) return { action: 'wait', pending: pending.length };
+  if (approved.length === 0) return { action: 'resume' };
+  if (approved.length === 1 || window.policy === 'split') return { action: 'complete', winners: approved };
+  const tied = earliestCompleted(approvedList).map(({ playerId, playerName }) => ({ playerId, playerName }));
+  if (tied.length === 1) return { action: 'complete', winners: tied };
+  return { action: window.policy === 'tiebreak_draw' ? 'draw' : 'sudden_death', candidates: tied };
+}
+
+function closeClaimWindow(room) {
+  room.claimWindow = null;
+}
+
+function drawWinner(candidates) {
+  return candidates[crypto.randomInt(candidates.length)];
+}
+
+function startSuddenDeath(room, candidates) {
+  room.tiebreak = {
+    mode: 'sudden_death',
+    candidates: candidates.map(({ playerId, playerName }) => ({ playerId, playerName })),
+    entrants: candidates.map(({ playerId, playerName }) => ({ playerId, playerName })),
+    songsPlayed: 0,
+    maxSongs: MAX_SUDDEN_DEATH_SONGS,
+    startedAt: Date.now(),
+  };
+  return room.tiebreak;
+}
+
+/**
+ * Apply one sudden-death call. `cardFor(playerId)` returns the candidate's card.
+ *   { phase: 'resolved', winner, drawn }   one candidate holds the song (or the draw after the last song)
+ *   { phase: 'narrowed', candidates }      several (not all) hold it; only they stay in
+ *   { phase: 'continue' }                  nobody or everybody holds it; call another song
+ */
+function resolveSuddenDeathCall(room, songId, cardFor) {
+  const tiebreak = room.tiebreak;
+  if (!tiebreak || tiebreak.mode !== 'sudden_death') return null;
+  tiebreak.songsPlayed += 1;
+  const holders = tiebreak.candidates.filter((c) => {
+    const card = cardFor(c.playerId);
+    return !!card && Array.isArray(card.squares) && card.squares.some((s) => s.songId === songId && !s.isFreeSpace);
+  });
+  if (holders.length === 1) return { phase: 'resolved', winner: holders[0], drawn: false };
+  const narrowed = holders.length > 1 && holders.length < tiebreak.candidates.length;
+  if (narrowed) tiebreak.candidates = holders;
+  if (tiebreak.songsPlayed >= tiebreak.maxSongs) {
+    return { phase: 'resolved', winner: drawWinner(tiebreak.candidates), drawn: true };
+  }
+  return narrowed ? { phase: 'narrowed', candidates: tiebreak.candidates } : { phase: 'continue' };
+}
+
+/** Round reset: drop open claims and any running tie-break. */
+function resetRoundClaims(room) {
+  room.claimWindow = null;
+  room.tiebreak = null;
+}
+
+module.exports = {
+  WINNER_POLICIES,
+  MAX_SUDDEN_DEATH_SONGS,
+  DRAW_REVEAL_MS,
+  normalizeWinnerPolicy,
+  winnerPolicyForRoom,
+  recordClaim,
+  settleClaim,
+  pendingClaims,
+  decideRound,
+  closeClaimWindow,
+  drawWinner,
+  startSuddenDeath,
+  resolveSuddenDeathCall,
+  resetRoundClaims,
+};
@@ -0,0 +1,141 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+const winnerPolicy = require('./winnerPolicy');
+
+function roomWithPolicy(policy) {
+  return { currentSong: { id: 'song-7' }, eventRounds: [{ status: 'active', winnerPolicy: policy }] };
+}
+
+function claim(room, playerId, callIndex) {
+  const detection = callIndex == null ? null : { detectedAt: 1000 + callIndex, callIndex };
+  return winnerPolicy.recordClaim(room, { playerId, playerName: playerId.toUpperCase(), detection });
+}
+
+function cardWith(...songIds) {
+  return { squares: songIds.map((songId, i) => ({ position: `0-${i}`, songId })) };
+}
+
+test('normalizeWinnerPolicy falls back to first', () => {
+  assert.equal(winnerPolicy.normalizeWinnerPolicy('split'), 'split');
+  assert.equal(winnerPolicy.normalizeWinnerPolicy('most'), 'first');
+  assert.equal(winnerPolicy.normalizeWinnerPolicy(undefined), 'first');
+});
+
+test('winnerPolicyForRoom reads the active round, else the plan entry for the round number', () => {
+  assert.equal(winnerPolicy.winnerPolicyForRoom(roomWithPolicy('tiebreak_draw')), 'tiebreak_draw');
+  const room = { roundWinners: [{}], eventRounds: [{ winnerPolicy: 'split' }, { winnerPolicy: 'tiebreak_song' }] };
+  assert.equal(winnerPolicy.winnerPolicyForRoom(room), 'tiebreak_song');
+  assert.equal(winnerPolicy.winnerPolicyForRoom({}), 'first');
+});
+
+test('the first claim opens the window on the current song; a repeat claim re-opens it', () => {
+  const room = roomWithPolicy('split');
+  claim(room, 'p1');
+  assert.equal(room.claimWindow.policy, 'split');
+  assert.equal(room.claimWindow.songId, 'song-7');
+  winnerPolicy.settleClaim(room, ['p1'], 'rejected');
+  claim(room, 'p1');
+  assert.equal(room.claimWindow.claims.length, 1);
+  assert.equal(winnerPolicy.pendingClaims(room).length, 1);
+});
+
+test('settleClaim follows a player to their new socket id', () => {
+  const room = roomWithPolicy('first');
+  claim(room, 'old-socket');
+  const settled = winnerPolicy.settleClaim(room, ['old-socket', 'new-socket'], 'approved', 'Ada');
+  assert.equal(settled.playerId, 'new-socket');
+  assert.equal(settled.playerName, 'Ada');
+  assert.equal(winnerPolicy.settleClaim(room, ['someone-else'], 'approved'), null);
+});
+
+test('first: the first approval completes the round even with claims pending', () => {
+  const room = roomWithPolicy('first');
+  claim(room, 'p1');
+  claim(room, 'p2');
+  winnerPolicy.settleClaim(room, ['p2'], 'approved');
+  assert.deepEqual(winnerPolicy.decideRound(room), { action: 'complete', winners: [{ playerId: 'p2', playerName: 'P2' }] });
+});
+
+test('split: waits for every claim, then shares the prize', () => {
+  const room = roomWithPolicy('split');
+  claim(room, 'p1');
+  claim(room, 'p2');
+  claim(room, 'p3');
+  winnerPolicy.settleClaim(room, ['p1'], 'approved');
+  assert.deepEqual(winnerPolicy.decideRound(room), { action: 'wait', pending: 2 });
+  winnerPolicy.settleClaim(room, ['p2'], 'approved');
+  winnerPolicy.settleClaim(room, ['p3'], 'rejected');
+  const decision = winnerPolicy.decideRound(room);
+  assert.equal(decision.action, 'complete');
+  assert.deepEqual(decision.winners.map((w) => w.playerId), ['p1', 'p2']);
+});
+
+test('nobody approved: resume', () => {
+  const room = roomWithPolicy('split');
+  claim(room, 'p1');
+  winnerPolicy.settleClaim(room, ['p1'], 'rejected');
+  assert.deepEqual(winnerPolicy.decideRound(room), { action: 'resume' });
+  assert.deepEqual(winnerPolicy.decideRound({}), { action: 'resume' });
+});
+
+test('tie-breaks only include claims that completed on the earliest call', () => {
+  const room = roomWithPolicy('tiebreak_draw');
+  claim(room, 'p1', 12);
+  claim(room, 'p2', 12);
+  claim(room, 'p3', 14);
+  ['p1', 'p2', 'p3'].forEach((id) => winnerPolicy.settleClaim(room, [id], 'approved'));
+  const decision = winnerPolicy.decideRound(room);
+  assert.equal(decision.action, 'draw');
+  assert.deepEqual(decision.candidates.map((c) => c.playerId), ['p1', 'p2']);
+});
+
+test('a single earliest completion wins outright; claims without a detection all tie', () => {
+  const room = roomWithPolicy('tiebreak_song');
+  claim(room, 'p1', 10);
+  claim(room, 'p2', 11);
+  ['p1', 'p2'].forEach((id) => winnerPolicy.settleClaim(room, [id], 'approved'));
+  assert.deepEqual(winnerPolicy.decideRound(room).winners, [{ playerId: 'p1', playerName: 'P1' }]);
+
+  const undetected = roomWithPolicy('tiebreak_song');
+  claim(undetected, 'p1', 10);
+  claim(undetected, 'p2');
+  ['p1', 'p2'].forEach((id) => winnerPolicy.settleClaim(undetected, [id], 'approved'));
+  assert.equal(winnerPolicy.decideRound(undetected).action, 'sudden_death');
+});
+
+test('sudden death resolves on the first song only one candidate holds', () => {
+  const room = {};
+  const cards = { p1: cardWith('a', 'b'), p2: cardWith('a', 'c'), p3: cardWith('a', 'b') };
+  winnerPolicy.startSuddenDeath(room, [{ playerId: 'p1', playerName: 'P1' }, { playerId: 'p2', playerName: 'P2' }, { playerId: 'p3', playerName: 'P3' }]);
+  const call = (songId) => winnerPolicy.resolveSuddenDeathCall(room, songId, (id) => cards[id]);
+
+  assert.deepEqual(call('a'), { phase: 'continue' });
+  assert.deepEqual(call('z'), { phase: 'continue' });
+  assert.deepEqual(call('b').candidates.map((c) => c.playerId), ['p1', 'p3']);
+  assert.deepEqual(call('c'), { phase: 'continue' });
+  assert.equal(room.tiebreak.entrants.length, 3);
+});
+
+test('sudden death ends in a draw among the remaining candidates after the last song', () => {
+  const room = {};
+  const cards = { p1: cardWith('a'), p2: cardWith('a') };
+  winnerPolicy.startSuddenDeath(room, [{ playerId: 'p1', playerName: 'P1' }, { playerId: 'p2', playerName: 'P2' }]);
+  let result;
+  for (let i = 0; i < winnerPolicy.MAX_SUDDEN_DEATH_SONGS; i++) {
+    result = winnerPolicy.resolveSuddenDeathCall(room, 'a', (id) => cards[id]);
+  }
+  assert.equal(result.phase, 'resolved');
+  assert.equal(result.drawn, true);
+  assert.ok(['p1', 'p2'].includes(result.winner.playerId));
+});
+
+test('resetRoundClaims clears the window and the tie-break', () => {
+  const room = roomWithPolicy('tiebreak_song');
+  claim(room, 'p1');
+  winnerPolicy.startSuddenDeath(room, [{ playerId: 'p1', playerName: 'P1' }]);
+  winnerPolicy.resetRoundClaims(room);
+  assert.equal(room.claimWindow, null);
+  assert.equal(room.tiebreak, null);
+  assert.equal(winnerPolicy.resolveSuddenDeathCall(room, 'a', () => null), null);
+});
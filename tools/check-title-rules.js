@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * Drift check for "same song" matching: server/songMatching.js keeps its own copy of cleanSongTitle's
+ * default rules (client/src/utils/songTitleCleaner.ts) and of the host's match keys
+ * (client/src/utils/songDuplicates.ts). This runs both on a fixture list of titles and artists and
+ * fails when any cleaned title or match key differs. The client files are transpiled with the
+ * client's TypeScript (npm run install-client).
+ *
+ * Usage:
+ *   node tools/check-title-rules.js [--verbose]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const clientUtils = path.join(__dirname, '..', 'client', 'src', 'utils');
+const ts = require(require.resolve('typescript', { paths: [path.join(__dirname, '..', 'client')] }));
+const songMatching = require(path.join(__dirname, '..', 'server', 'songMatching'));
+
+/** One per rule in TITLE_SUFFIXES, plus titles that must come through unchanged. */
+const FIXTURES = [
+  // Remastered
+  { name: 'Hey Jude (2015 Remaster)', artist: 'The Beatles' },
+  { name: 'Hey Jude (2009 Remastered Version)', artist: 'The Beatles' },
+  { name: 'Let It Be - 2009 Remastered', artist: 'The Beatles' },
+  { name: 'Let It Be - 2021 Remaster Version', artist: 'The Beatles' },
+  { name: 'Paint It Black - Remastered 2002', artist: 'The Rolling Stones' },
+  { name: 'Paint It Black (Remastered)', artist: 'The Rolling Stones' },
+  { name: 'Wild Horses [Remastered 1994]', artist: 'The Rolling Stones' },
+  { name: 'Angie Remastered', artist: 'The Rolling Stones' },
+  // Live
+  { name: 'Hotel California - Live at the Forum, Inglewood', artist: 'Eagles' },
+  { name: 'Hotel California (Live at the Capital Centre)', artist: 'Eagles' },
+  { name: 'Take It Easy [Live at Wembley]', artist: 'Eagles' },
+  { name: 'Desperado Live at Budokan', artist: 'Eagles' },
+  { name: 'Heartache Tonight - Live', artist: 'Eagles' },
+  { name: 'Tequila Sunrise (Live)', artist: 'Eagles' },
+  { name: 'Lyin Eyes [Live]', artist: 'Eagles' },
+  // Explicit / clean
+  { name: 'Lose Yourself - Explicit', artist: 'Eminem' },
+  { name: 'Lose Yourself - Clean', artist: 'Eminem' },
+  { name: 'Without Me (Explicit)', artist: 'Eminem' },
+  { name: 'Without Me (Clean)', artist: 'Eminem' },
+  { name: 'Stan [Explicit]', artist: 'Eminem, Dido' },
+  { name: 'Stan [Clean]', artist: 'Eminem' },
+  // Versions
+  { name: 'Africa - Single Version', artist: 'Toto' },
+  { name: 'Africa - Radio Edit', artist: 'Toto' },
+  { name: 'Rosanna - Album Version', artist: 'Toto' },
+  { name: 'Rosanna - Extended Version', artist: 'Toto' },
+  { name: 'Hold the Line - Short Version', artist: 'Toto' },
+  { name: 'Hold the Line - Instrumental', artist: 'Toto' },
+  { name: 'Hold the Line - Acoustic', artist: 'Toto' },
+  { name: 'Hold the Line - Studio Version', artist: 'Toto' },
+  { name: 'Africa (Single Version)', artist: 'Toto' },
+  { name: 'Africa (Radio Edit)', artist: 'Toto' },
+  { name: 'Africa (Album Version)', artist: 'Toto' },
+  { name: 'Africa (Extended Version)', artist: 'Toto' },
+  { name: 'Africa (Short Version)', artist: 'Toto' },
+  { name: 'Africa (Instrumental)', artist: 'Toto' },
+  { name: 'Africa (Acoustic)', artist: 'Toto' },
+  { name: 'Africa (Studio Version)', artist: 'Toto' },
+  // Years
+  { name: 'Blue Monday - 1988', artist: 'New Order' },
+  { name: 'Blue Monday (1983)', artist: 'New Order' },
+  { name: 'Blue Monday [1988]', artist: 'New Order' },
+  // Parenthetical credits and sources
+  { name: 'Empire State of Mind (feat. Alicia Keys)', artist: 'JAY-Z feat. Alicia Keys' },
+  { name: 'Empire State of Mind (feat Alicia Keys)', artist: 'JAY-Z ft. Alicia Keys' },
+  { name: 'Umbrella (featuring JAY-Z)', artist: 'Rihanna featuring JAY-Z' },
+  { name: 'Stay (with Justin Bieber)', artist: 'The Kid LAROI, Justin Bieber' },
+  { name: 'Let It Go (From "Frozen")', artist: 'Idina Menzel' },
+  { name: 'My Heart Will Go On (Soundtrack Version)', artist: 'Céline Dion' },
+  { name: 'Eye of the Tiger (Original Motion Picture Soundtrack)', artist: 'Survivor' },
+  // Stacked suffixes, dashes, spacing and accents
+  { name: 'Dancing Queen (Live) - 2014 Remastered', artist: 'ABBA' },
+  { name: 'Waterloo - Single Version - 1974', artist: 'ABBA' },
+  { name: '  Fernando   -  ', artist: 'ABBA' },
+  { name: '- Mamma Mia', artist: 'ABBA' },
+  { name: 'Déjà Vu & Me', artist: 'Beyoncé' },
+  // Short once cleaned: under three characters the original is kept
+  { name: 'ABC (Live)', artist: 'The Jackson 5' },
+  { name: 'Go (2010)', artist: 'Moby' },
+  // Unchanged
+  { name: 'Bohemian Rhapsody', artist: 'Queen' },
+  { name: 'Live and Let Die', artist: 'Wings' },
+  { name: 'Clean Bandit', artist: 'Someone' },
+  { name: '1999', artist: 'Prince' },
+  { name: 'Summer of 69', artist: 'Bryan Adams' },
+  { name: 'With or Without You', artist: 'U2' },
+  { name: '(I Can\'t Get No) Satisfaction', artist: 'The Rolling Stones' },
+  { name: 'Smells Like Teen Spirit', artist: 'Nirvana', isrc: 'usgf19942501' },
+];
+
+/** Load a client module: transpiled to CommonJS, with its relative imports loaded the same way. */
+function loadClientModule(name, cache = new Map()) {
+  if (cache.has(name)) return cache.get(name);
+  const file = path.join(clientUtils, `${name}.ts`);
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+    fileName: file,
+  });
+  const exports = {};
+  cache.set(name, exports);
+  const requireClient = (spec) => {
+    if (!spec.startsWith('./')) throw new Error(`${name}.ts imports ${spec}; only ./ utils can be loaded`);
+    return loadClientModule(spec.slice(2), cache);
+  };
+  new Function('exports', 'require', outputText)(exports, requireClient);
+  return exports;
+}
+
+function main() {
+  const verbose = process.argv.includes('--verbose');
+  const { cleanSongTitle } = loadClientModule('songTitleCleaner');
+  const { songMatchKeys } = loadClientModule('songDuplicates');
+
+  let failures = 0;
+  for (const song of FIXTURES) {
+    const server = { title: songMatching.cleanTitle(song.name), keys: songMatching.songMatchKeys(song) };
+    const client = { title: cleanSongTitle(song.name), keys: songMatchKeys(song) };
+    const same = server.title === client.title && JSON.stringify(server.keys) === JSON.stringify(client.keys);
+    if (!same) {
+      failures++;
+      console.log(`❌ ${JSON.stringify(song.name)}`);
+      console.log(`   server: ${JSON.stringify(server.title)} ${JSON.stringify(server.keys)}`);
+      console.log(`   client: ${JSON.stringify(client.title)} ${JSON.stringify(client.keys)}`);
+    } else if (verbose) {
+      console.log(`✅ ${JSON.stringify(song.name)} → ${JSON.stringify(server.title)}`);
+    }
+  }
+  if (failures) {
+    console.log(`\n❌ ${failures} of ${FIXTURES.length} fixture(s) differ: update TITLE_SUFFIXES in server/songMatching.js to match songTitleCleaner.ts.`);
+    process.exit(1);
+  }
+  console.log(`✅ Server and client title rules agree on ${FIXTURES.length} fixtures.`);
+}
+
+main();
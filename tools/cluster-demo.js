@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+
+/**
+ * Two-instance check for horizontal scaling: starts two servers on the same Redis, puts the host on
+ * instance B and a player on instance A, runs a few calls with the local playback provider and checks
+ * that the player sees every call B drives, that B gets the player's mark and that a REST lookup of
+ * the room through A is answered by B.
+ *
+ * Usage (needs the client's socket.io-client: npm run install-client):
+ *   node tools/cluster-demo.js [--port-a 5101] [--port-b 5102] [--standin-port 6390] [--store-url redis://…]
+ * Both servers share an in-memory Redis stand-in (tools/shared-store-standin.js) started on
+ * --standin-port; pass --store-url to use a real Redis instead. Other env (SPOTIFY_*, DATABASE_URL, ...)
+ * is passed through to both servers.
+ */
+
+const path = require('path');
+const { spawn } = require('child_process');
+
+const io = require(require.resolve('socket.io-client', { paths: [path.join(__dirname, '..', 'client')] }));
+const { createStandin } = require('./shared-store-standin');
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(name);
+  return i !== -1 ? process.argv[i + 1] : fallback;
+}
+
+const PORT_A = Number(arg('--port-a', 5101));
+const PORT_B = Number(arg('--port-b', 5102));
+const STANDIN_PORT = Number(arg('--standin-port', 6390));
+const STORE_URL = arg('--store-url', null) || `redis://127.0.0.1:${STANDIN_PORT}`;
+const ROOM_ID = `CLUSTER${Math.floor(Math.random() * 10000)}`;
+const SONGS = Array.from({ length: 30 }, (_, i) => ({
+  id: `local:demo${i}`,
+  name: `Demo Song ${i}`,
+  artist: `Demo Artist ${i}`,
+  duration: 200000,
+  sourcePlaylistId: 'demo',
+  sourcePlaylistName: 'Demo',
+}));
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function startServer(name, port) {
+  const child = spawn(process.execPath, [path.join(__dirname, '..', 'server', 'index.js')], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      TEMPO_SHARED_STORE_URL: STORE_URL,
+      TEMPO_INSTANCE_ID: name,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  const prefix = (chunk) => chunk.toString().split('\n').filter(Boolean).map((l) => `[${name}] ${l}`).join('\n');
+  child.stdout.on('data', (chunk) => {
+    if (process.env.VERBOSE) console.log(prefix(chunk));
+  });
+  child.stderr.on('data', (chunk) => console.error(prefix(chunk)));
+  return child;
+}
+
+function connect(port) {
+  return io(`http://127.0.0.1:${port}`, { transports: ['websocket'], reconnection: false });
+}
+
+async function main() {
+  let standin = null;
+  if (!arg('--store-url', null)) {
+    standin = createStandin();
+    await new Promise((resolve, reject) => standin.once('error', reject).listen(STANDIN_PORT, '127.0.0.1', resolve));
+    console.log(`🧪 Shared store stand-in on ${STORE_URL}`);
+  }
+  const servers = [startServer('A', PORT_A), startServer('B', PORT_B)];
+  const sockets = [];
+  let ok = false;
+  try {
+    await wait(4000);
+    const host = connect(PORT_B);
+    const player = connect(PORT_A);
+    sockets.push(host, player);
+
+    const callsSeenByPlayer = [];
+    const marksSeenByHost = [];
+    let card = null;
+    player.on('song-playing', (d) => callsSeenByPlayer.push(d.songName));
+    player.on('bingo-card', (c) => {
+      card = c;
+    });
+    host.on('player-cards-delta', (d) => marksSeenByHost.push(...(d.marks || [])));
+
+    host.emit('join-room', { roomId: ROOM_ID, playerName: 'Host', isHost: true, clientId: 'cluster-demo-host' });
+    await wait(800);
+    host.emit('set-playback-provider', { roomId: ROOM_ID, provider: 'local' });
+    host.emit('finalize-mix', { roomId: ROOM_ID, playlists: [{ id: 'demo', name: 'Demo' }], songList: SONGS });
+    await wait(800);
+    player.emit('join-room', { roomId: ROOM_ID, playerName: 'Pat', isHost: false, clientId: 'cluster-demo-player' });
+    await wait(1000);
+    host.emit('start-game', {
+      roomId: ROOM_ID,
+      playlists: [{ id: 'demo', name: 'Demo' }],
+      songList: SONGS,
+      deviceId: 'local-host-browser',
+      snippetLength: 30,
+      pattern: 'line',
+    });
+    await wait(2500);
+    for (let i = 0; i < 2; i++) {
+      host.emit('skip-song', { roomId: ROOM_ID });
+      await wait(1000);
+    }
+    const square = card && card.squares.find((sq) => !sq.isFreeSpace);
+    if (square) {
+      player.emit('mark-square', { roomId: ROOM_ID, position: square.position, songId: square.songId });
+      await wait(1000);
+    }
+
+    const lookup = await fetch(`http://127.0.0.1:${PORT_A}/api/rooms/${ROOM_ID}`);
+    const summary = lookup.ok ? await lookup.json() : null;
+
+    console.log(`Host on B (:${PORT_B}), player on A (:${PORT_A}), room ${ROOM_ID}`);
+    console.log(`Calls the player saw: ${callsSeenByPlayer.join(', ') || 'none'}`);
+    console.log(`Player card dealt through A: ${card ? 'yes' : 'no'}`);
+    console.log(`Player marks the host saw: ${marksSeenByHost.length}`);
+    console.log(`GET /api/rooms/${ROOM_ID} through A: ${lookup.status}${summary ? ` (${summary.playerCount} player(s))` : ''}`);
+    ok = callsSeenByPlayer.length >= 3 && !!card && marksSeenByHost.length > 0 && !!summary && summary.playerCount >= 1;
+    console.log(ok ? '✅ Player on A followed the game driven by B' : '❌ Cross-instance check failed');
+  } finally {
+    for (const socket of sockets) socket.close();
+    for (const child of servers) child.kill('SIGTERM');
+    await wait(1000);
+    if (standin) standin.close();
+  }
+  process.exit(ok ? 0 : 1);
+}
+
+main().catch((e) => {
+  console.error('❌ Cluster demo failed:', e?.message || e);
+  process.exit(1);
+});
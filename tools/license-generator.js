@@ -2,104 +2,81 @@
 
 /**
  * TEMPO License Key Generator
- * 
- * Generates license keys for multi-tenant TEMPO deployments
- * Format: TEMPO-{ORG_CODE}-{YEAR}-{CHECKSUM}
- * 
+ *
+ * Mints Ed25519-signed license keys for multi-tenant TEMPO deployments (see server/licenses.js).
+ * Format: TEMPO.<claims>.<signature> — claims carry org code, expiry, max concurrent rooms and features.
+ *
+ * Signing needs TEMPO_LICENSE_PRIVATE_KEY (or --key-file); the server only holds the public key.
+ *
  * Usage:
- *   node license-generator.js ACME
- *   node license-generator.js BETA 2025
- *   node license-generator.js --list
+ *   node tools/license-generator.js --keygen
+ *   node tools/license-generator.js ACME --expires 2027-06-30 --rooms 3 --features custom-branding,premium-themes
+ *   node tools/license-generator.js --verify TEMPO.eyJ2Ijo...
  */
 
-const crypto = require('crypto');
+const path = require('path');
+const fs = require('fs');
 
-// Default secret - should match server/index.js
-const DEFAULT_SECRET = process.env.LICENSE_SECRET || 'TEMPO_DEFAULT_SECRET_2024';
+try {
+  require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+} catch {
+  /* optional */
+}
 
-function generateChecksum(orgCode, year, secret = DEFAULT_SECRET) {
-  const combined = orgCode + year + secret;
-  
-  let hash = 0;
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  
-  return Math.abs(hash).toString(16).toUpperCase().substring(0, 6);
+const licenses = require(path.join(__dirname, '..', 'server', 'licenses'));
+
+function defaultExpiry() {
+  const d = new Date();
+  d.setUTCFullYear(d.getUTCFullYear() + 1);
+  return d.toISOString().slice(0, 10);
 }
 
-function generateLicenseKey(orgCode, year = null) {
-  // Validate org code
-  if (!orgCode || typeof orgCode !== 'string') {
-    throw new Error('Organization code is required');
-  }
-  
-  // Clean and validate org code
-  orgCode = orgCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
-  if (orgCode.length < 2 || orgCode.length > 10) {
-    throw new Error('Organization code must be 2-10 alphanumeric characters');
-  }
-  
-  // Default to current year
-  if (!year) {
-    year = new Date().getFullYear();
+/** Split argv into positionals and --flag values (`--flag value` or `--flag=value`). */
+function parseArgs(argv) {
+  const positional = [];
+  const flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const name = (eq === -1 ? arg : arg.slice(0, eq)).replace(/^-+/, '');
+    if (eq !== -1) {
+      flags[name] = arg.slice(eq + 1);
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('-')) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = true;
+    }
   }
-  
-  // Validate year
-  const currentYear = new Date().getFullYear();
-  if (year < 2024 || year > currentYear + 5) {
-    throw new Error(`Year must be between 2024 and ${currentYear + 5}`);
+  return { positional, flags };
+}
+
+function readKey(flagPath, envName) {
+  if (typeof flagPath === 'string') {
+    return fs.readFileSync(path.resolve(flagPath), 'utf8');
   }
-  
-  // Generate checksum
-  const checksum = generateChecksum(orgCode, year.toString());
-  
-  // Format license key
-  const licenseKey = `TEMPO-${orgCode}-${year}-${checksum}`;
-  
+  return process.env[envName] || '';
+}
+
+function generateLicenseKey(orgCode, { expires = defaultExpiry(), maxRooms = 0, features = [], privateKey } = {}) {
+  const input = { org: orgCode, expires, maxRooms, features };
+  const claims = licenses.normalizeClaims(input);
+  const licenseKey = licenses.signLicense(input, privateKey);
   return {
     licenseKey,
-    organizationId: orgCode,
-    year: year,
-    checksum: checksum,
-    envVarPrefix: orgCode === 'DEFAULT' ? '' : `ORG_${orgCode}_`
+    organizationId: claims.org,
+    expiresAt: claims.exp,
+    maxRooms: claims.maxRooms,
+    features: claims.features,
+    envVarPrefix: claims.org === 'DEFAULT' ? '' : `ORG_${claims.org}_`,
   };
 }
 
-function validateLicenseKey(licenseKey) {
-  if (!licenseKey || typeof licenseKey !== 'string') {
-    return { valid: false, error: 'License key is required' };
-  }
-  
-  const parts = licenseKey.split('-');
-  if (parts.length !== 4 || parts[0] !== 'TEMPO') {
-    return { valid: false, error: 'Invalid license key format' };
-  }
-  
-  const [prefix, orgCode, year, checksum] = parts;
-  
-  // Validate year
-  const currentYear = new Date().getFullYear();
-  const yearNum = parseInt(year);
-  if (yearNum < 2024 || yearNum > currentYear + 5) {
-    return { valid: false, error: `Invalid year: ${year}` };
-  }
-  
-  // Validate checksum
-  const expectedChecksum = generateChecksum(orgCode, year);
-  if (checksum !== expectedChecksum) {
-    return { valid: false, error: 'Invalid checksum' };
-  }
-  
-  return {
-    valid: true,
-    organizationId: orgCode,
-    year: yearNum,
-    checksum: checksum,
-    envVarPrefix: orgCode === 'DEFAULT' ? '' : `ORG_${orgCode}_`
-  };
+function verifyLicenseKey(licenseKey, publicKey) {
+  return licenses.verifyLicenseKey(licenseKey, publicKey ? { publicKey } : {});
 }
 
 function displayHelp() {
@@ -107,16 +84,23 @@ function displayHelp() {
 🎵 TEMPO License Key Generator
 
 USAGE:
-  node license-generator.js <ORG_CODE> [YEAR]
-  node license-generator.js --validate <LICENSE_KEY>
-  node license-generator.js --list
+  node license-generator.js --keygen
+  node license-generator.js <ORG_CODE> [--expires YYYY-MM-DD] [--rooms N] [--features a,b]
+  node license-generator.js --verify <LICENSE_KEY>
   node license-generator.js --help
 
+OPTIONS:
+  --expires YYYY-MM-DD   Last day the key is valid (UTC). Default: one year from today
+  --rooms N              Max concurrent rooms for the org. Default: 0 (unlimited)
+  --features a,b         Comma-separated feature flags (lowercase, digits, dashes)
+  --key-file PATH        Private key PEM (instead of TEMPO_LICENSE_PRIVATE_KEY)
+  --public-key-file PATH Public key PEM for --verify (instead of TEMPO_LICENSE_PUBLIC_KEY)
+
 EXAMPLES:
-  node license-generator.js ACME           # Generate for ACME (current year)
-  node license-generator.js BETA 2025     # Generate for BETA (year 2025)
-  node license-generator.js --validate TEMPO-ACME-2024-A1B2C3
-  node license-generator.js --list         # List example organizations
+  node license-generator.js --keygen
+  node license-generator.js ACME --expires 2027-06-30 --rooms 3
+  node license-generator.js BETA --features custom-branding,premium-themes
+  node license-generator.js --verify TEMPO.eyJ2IjoxLCJvcmciOiJBQ01FIi...
 
 ORGANIZATION CODES:
   - 2-10 alphanumeric characters
@@ -125,88 +109,79 @@ ORGANIZATION CODES:
   - Examples: ACME, BETA, CORP123, MUSIC
 
 ENVIRONMENT VARIABLES:
-  LICENSE_SECRET - Custom secret for checksum generation
-                  (should match server deployment)
+  TEMPO_LICENSE_PRIVATE_KEY - Ed25519 private key (PEM); keep it off the server
+  TEMPO_LICENSE_PUBLIC_KEY  - Matching public key; set this on the server deployment
 `);
 }
 
-function listExamples() {
-  const examples = [
-    'ACME',
-    'BETA', 
-    'CORP',
-    'MUSIC',
-    'EVENT',
-    'PARTY',
-    'CLUB',
-    'RADIO'
-  ];
-  
-  console.log('\n🏢 Example License Keys:\n');
-  
-  examples.forEach(org => {
-    try {
-      const license = generateLicenseKey(org);
-      console.log(`Organization: ${org.padEnd(8)} → ${license.licenseKey}`);
-    } catch (error) {
-      console.log(`Organization: ${org.padEnd(8)} → Error: ${error.message}`);
-    }
-  });
-  
-  console.log('\n💡 Environment Variable Setup:');
-  console.log('For each customer, add these to Railway Variables:');
-  console.log('  ORG_ACME_SPOTIFY_ACCESS_TOKEN=...');
-  console.log('  ORG_ACME_SPOTIFY_REFRESH_TOKEN=...');
+function runKeygen() {
+  const { publicKey, privateKey } = licenses.generateKeyPair();
+  const oneLine = (pem) => pem.trim().replace(/\n/g, '\\n');
+  console.log('\n🔑 New license signing key pair\n');
+  console.log('Server (Railway Variables):');
+  console.log(`  TEMPO_LICENSE_PUBLIC_KEY=${oneLine(publicKey)}`);
+  console.log('');
+  console.log('Generator only — store securely, never on the server:');
+  console.log(`  TEMPO_LICENSE_PRIVATE_KEY=${oneLine(privateKey)}`);
+  console.log('');
+  console.log('⚠️  Replacing the key pair invalidates every license signed with the old private key.');
   console.log('');
 }
 
-// Main CLI logic
-function main() {
-  const args = process.argv.slice(2);
-  
-  if (args.length === 0 || args[0] === '--help' || args[0] === '-h') {
-    displayHelp();
-    return;
+function runVerify(licenseKey, flags) {
+  if (!licenseKey) {
+    console.error('❌ License key required for verification');
+    process.exit(1);
   }
-  
-  if (args[0] === '--list' || args[0] === '-l') {
-    listExamples();
-    return;
+  let publicKey = '';
+  try {
+    publicKey = readKey(flags['public-key-file'], 'TEMPO_LICENSE_PUBLIC_KEY');
+  } catch (error) {
+    console.error(`❌ Error: ${error.message}`);
+    process.exit(1);
   }
-  
-  if (args[0] === '--validate' || args[0] === '-v') {
-    if (!args[1]) {
-      console.error('❌ License key required for validation');
-      process.exit(1);
-    }
-    
-    const result = validateLicenseKey(args[1]);
-    if (result.valid) {
-      console.log('✅ License key is VALID');
-      console.log(`   Organization: ${result.organizationId}`);
-      console.log(`   Year: ${result.year}`);
-      console.log(`   Checksum: ${result.checksum}`);
-      console.log(`   Env Prefix: ${result.envVarPrefix || '(none - default org)'}`);
-    } else {
-      console.log('❌ License key is INVALID');
-      console.log(`   Error: ${result.error}`);
-      process.exit(1);
-    }
+
+  const result = verifyLicenseKey(licenseKey, publicKey);
+  if (result.valid) {
+    const { license } = result;
+    console.log('✅ License key is VALID');
+    console.log(`   Organization: ${license.organizationId}`);
+    console.log(`   Expires: ${license.expiresAt}`);
+    console.log(`   Max rooms: ${license.maxRooms || 'unlimited'}`);
+    console.log(`   Features: ${license.features.length ? license.features.join(', ') : '(none)'}`);
+    console.log(`   Issued: ${license.issuedAt || 'unknown'}`);
     return;
   }
-  
-  // Generate license key
-  const orgCode = args[0];
-  const year = args[1] ? parseInt(args[1]) : null;
-  
+  console.log('❌ License key is INVALID');
+  console.log(`   Failed check: ${result.check}`);
+  console.log(`   Error: ${result.message}`);
+  if (result.license) {
+    console.log(`   Organization: ${result.license.organizationId}`);
+    console.log(`   Expires: ${result.license.expiresAt}`);
+  }
+  process.exit(1);
+}
+
+function runGenerate(orgCode, flags) {
   try {
-    const license = generateLicenseKey(orgCode, year);
-    
+    const privateKey = readKey(flags['key-file'], 'TEMPO_LICENSE_PRIVATE_KEY');
+    if (!privateKey.trim()) {
+      throw new Error('Set TEMPO_LICENSE_PRIVATE_KEY or pass --key-file (create one with --keygen)');
+    }
+    const features = typeof flags.features === 'string' ? flags.features.split(',') : [];
+    const license = generateLicenseKey(orgCode, {
+      expires: typeof flags.expires === 'string' ? flags.expires : undefined,
+      maxRooms: flags.rooms !== undefined ? flags.rooms : 0,
+      features,
+      privateKey,
+    });
+
     console.log('\n🎵 TEMPO License Key Generated!\n');
     console.log(`License Key: ${license.licenseKey}`);
     console.log(`Organization: ${license.organizationId}`);
-    console.log(`Year: ${license.year}`);
-    console.log(`Checksum: ${license.checksum}`);
+    console.log(`Expires: ${license.expiresAt}`);
+    console.log(`Max rooms: ${license.maxRooms || 'unlimited'}`);
+    console.log(`Features: ${license.features.length ? license.features.join(', ') : '(none)'}`);
     console.log('');
     console.log('🚀 Environment Variables for Railway:');
     console.log(`   ${license.envVarPrefix}SPOTIFY_ACCESS_TOKEN=<customer_access_token>`);
@@ -216,22 +191,49 @@ function main() {
     console.log(`1. Customer connects their Spotify account`);
     console.log(`2. Get their tokens from /api/spotify/tokens endpoint`);
     console.log(`3. Add the environment variables above to Railway`);
-    console.log(`4. Customer uses license key: ${license.licenseKey}`);
+    console.log(`4. Customer enters the license key in the host Setup tab`);
     console.log('');
-    
   } catch (error) {
     console.error(`❌ Error: ${error.message}`);
     process.exit(1);
   }
 }
 
+// Main CLI logic
+function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+
+  if ((positional.length === 0 && Object.keys(flags).length === 0) || flags.help || flags.h) {
+    displayHelp();
+    return;
+  }
+
+  if (flags.keygen) {
+    runKeygen();
+    return;
+  }
+
+  // --validate kept as an alias for older runbooks
+  const verifyArg = flags.verify !== undefined ? flags.verify : flags.validate;
+  if (verifyArg !== undefined) {
+    runVerify(typeof verifyArg === 'string' ? verifyArg : positional[0], flags);
+    return;
+  }
+
+  if (!positional[0]) {
+    console.error('❌ Organization code is required');
+    displayHelp();
+    process.exit(1);
+  }
+  runGenerate(positional[0], flags);
+}
+
 // Export for testing
 if (require.main === module) {
   main();
 } else {
   module.exports = {
     generateLicenseKey,
-    validateLicenseKey,
-    generateChecksum
+    verifyLicenseKey,
   };
 }
@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+
+/**
+ * In-memory stand-in for Redis, for running two or more TEMPO servers locally without installing
+ * Redis. Speaks the Redis protocol for what server/sharedStore.js (ioredis) and the socket.io Redis
+ * adapter use: GET, SET with PX/EX/NX/XX, DEL, PEXPIRE, PUBLISH, (P)SUBSCRIBE, (P)UNSUBSCRIBE,
+ * PUBSUB NUMSUB/NUMPAT, and EVAL/EVALSHA for sharedStore's own Lua scripts only; plus PING, AUTH,
+ * SELECT, INFO, CLIENT and QUIT. Values are kept as bytes (the adapter sends msgpack). Nothing is persisted.
+ *
+ * Usage:
+ *   node tools/shared-store-standin.js [--port 6390]
+ *   TEMPO_SHARED_STORE_URL=redis://127.0.0.1:6390 PORT=5001 node server/index.js
+ *   TEMPO_SHARED_STORE_URL=redis://127.0.0.1:6390 PORT=5002 node server/index.js
+ * tools/cluster-demo.js starts one itself unless given --store-url.
+ */
+
+const crypto = require('crypto');
+const net = require('net');
+const path = require('path');
+
+const { LUA_SCRIPTS } = require(path.join(__dirname, '..', 'server', 'sharedStore'));
+
+const CRLF = Buffer.from('\r\n');
+
+function simple(s) {
+  return Buffer.from(`+${s}\r\n`);
+}
+function error(s) {
+  return Buffer.from(`-${s}\r\n`);
+}
+function integer(n) {
+  return Buffer.from(`:${n}\r\n`);
+}
+function bulk(value) {
+  if (value == null) return Buffer.from('$-1\r\n');
+  const buf = Buffer.isBuffer(value) ? value : Buffer.from(String(value));
+  return Buffer.concat([Buffer.from(`$${buf.length}\r\n`), buf, CRLF]);
+}
+function array(items) {
+  return Buffer.concat([Buffer.from(`*${items.length}\r\n`), ...items]);
+}
+
+/** One command (array of bulk strings, as Buffers) from `buf` at `offset`: { command, next } or null if incomplete. */
+function readCommand(buf, offset) {
+  if (offset >= buf.length) return null;
+  const lineEnd = buf.indexOf(CRLF, offset);
+  if (lineEnd === -1) return null;
+  if (buf[offset] !== 0x2a /* '*' */) {
+    // Inline command (e.g. typed over telnet)
+    const words = buf.toString('utf8', offset, lineEnd).trim().split(/\s+/).filter(Boolean);
+    return { command: words.map((w) => Buffer.from(w)), next: lineEnd + 2 };
+  }
+  const count = Number(buf.toString('utf8', offset + 1, lineEnd));
+  const command = [];
+  let next = lineEnd + 2;
+  for (let i = 0; i < count; i++) {
+    const end = buf.indexOf(CRLF, next);
+    if (end === -1) return null;
+    const length = Number(buf.toString('utf8', next + 1, end));
+    const start = end + 2;
+    if (buf.length < start + length + 2) return null;
+    command.push(buf.subarray(start, start + length));
+    next = start + length + 2;
+  }
+  return { command, next };
+}
+
+function globToRegExp(pattern) {
+  const escaped = pattern.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+function createStandin() {
+  /** key → { value: Buffer, expiresAt } */
+  const entries = new Map();
+  /** channel → Set(socket) */
+  const channels = new Map();
+  /** pattern → { re, sockets: Set(socket) } */
+  const patterns = new Map();
+
+  const live = (key) => {
+    const e = entries.get(key);
+    if (e && e.expiresAt != null && e.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return e || null;
+  };
+
+  /** sharedStore's scripts by source and by SHA1 (ioredis tries EVALSHA first). */
+  const scripts = new Map();
+  const addScript = (lua, run) => {
+    scripts.set(lua, run);
+    scripts.set(crypto.createHash('sha1').update(lua).digest('hex'), run);
+  };
+  addScript(LUA_SCRIPTS.extendIfValue, ([key], [value, ttlMs]) => {
+    const e = live(key);
+    if (!e || !e.value.equals(value)) return integer(0);
+    e.expiresAt = Date.now() + Number(ttlMs);
+    return integer(1);
+  });
+  addScript(LUA_SCRIPTS.deleteIfValue, ([key], [value]) => {
+    const e = live(key);
+    if (!e || !e.value.equals(value)) return integer(0);
+    entries.delete(key);
+    return integer(1);
+  });
+
+  const subscriptionCount = (socket) => socket.channels.size + socket.patterns.size;
+
+  function set(args) {
+    const [key, value, ...opts] = args;
+    if (key == null || value == null) return error("ERR wrong number of arguments for 'set' command");
+    let expiresAt = null;
+    let nx = false;
+    let xx = false;
+    for (let i = 0; i < opts.length; i++) {
+      const opt = String(opts[i]).toUpperCase();
+      if (opt === 'NX') nx = true;
+      else if (opt === 'XX') xx = true;
+      else if (opt === 'PX' || opt === 'EX') {
+        const n = Number(String(opts[++i]));
+        if (!Number.isFinite(n) || n <= 0) return error('ERR invalid expire time in set');
+        expiresAt = Date.now() + (opt === 'EX' ? n * 1000 : n);
+      } else return error('ERR syntax error');
+    }
+    const exists = !!live(String(key));
+    if ((nx && exists) || (xx && !exists)) return bulk(null);
+    entries.set(String(key), { value: Buffer.from(value), expiresAt });
+    return simple('OK');
+  }
+
+  function publish(channel, message) {
+    let receivers = 0;
+    for (const sub of channels.get(channel) || []) {
+      sub.write(array([bulk('message'), bulk(channel), bulk(message)]));
+      receivers++;
+    }
+    for (const [pattern, { re, sockets }] of patterns) {
+      if (!re.test(channel)) continue;
+      for (const sub of sockets) {
+        sub.write(array([bulk('pmessage'), bulk(pattern), bulk(channel), bulk(message)]));
+        receivers++;
+      }
+    }
+    return integer(receivers);
+  }
+
+  function subscribe(socket, names, kind) {
+    return Buffer.concat(
+      names.map((name) => {
+        if (kind === 'psubscribe') {
+          if (!patterns.has(name)) patterns.set(name, { re: globToRegExp(name), sockets: new Set() });
+          patterns.get(name).sockets.add(socket);
+          socket.patterns.add(name);
+        } else {
+          if (!channels.has(name)) channels.set(name, new Set());
+          channels.get(name).add(socket);
+          socket.channels.add(name);
+        }
+        return array([bulk(kind), bulk(name), integer(subscriptionCount(socket))]);
+      })
+    );
+  }
+
+  function unsubscribe(socket, names, kind) {
+    const own = kind === 'punsubscribe' ? socket.patterns : socket.channels;
+    const list = names.length ? names : [...own];
+    if (!list.length) return array([bulk(kind), bulk(null), integer(subscriptionCount(socket))]);
+    return Buffer.concat(
+      list.map((name) => {
+        own.delete(name);
+        if (kind === 'punsubscribe') {
+          const entry = patterns.get(name);
+          if (entry) {
+            entry.sockets.delete(socket);
+            if (!entry.sockets.size) patterns.delete(name);
+          }
+        } else {
+          const set = channels.get(name);
+          if (set) {
+            set.delete(socket);
+            if (!set.size) channels.delete(name);
+          }
+        }
+        return array([bulk(kind), bulk(name), integer(subscriptionCount(socket))]);
+      })
+    );
+  }
+
+  function evalScript(scriptOrSha, args) {
+    const run = scripts.get(scriptOrSha);
+    if (!run) return error('NOSCRIPT No matching script. Only sharedStore scripts are supported.');
+    const numKeys = Number(String(args[0]));
+    const keys = args.slice(1, 1 + numKeys).map(String);
+    return run(keys, args.slice(1 + numKeys));
+  }
+
+  function run(socket, [name, ...args]) {
+    const text = (i) => (args[i] == null ? undefined : String(args[i]));
+    switch (String(name || '').toUpperCase()) {
+      case 'PING':
+        return args.length ? bulk(args[0]) : simple('PONG');
+      case 'AUTH':
+      case 'SELECT':
+      case 'CLIENT':
+        return simple('OK');
+      case 'INFO':
+        return bulk('# Server\r\nredis_version:7.0.0\r\nredis_mode:standalone\r\nloading:0\r\n');
+      case 'GET': {
+        const e = live(text(0));
+        return bulk(e ? e.value : null);
+      }
+      case 'SET':
+        return set(args);
+      case 'DEL': {
+        let n = 0;
+        for (const key of args.map(String)) {
+          if (live(key)) n++;
+          entries.delete(key);
+        }
+        return integer(n);
+      }
+      case 'PEXPIRE': {
+        const e = live(text(0));
+        const ms = Number(text(1));
+        if (!e || !Number.isFinite(ms)) return integer(0);
+        e.expiresAt = Date.now() + ms;
+        return integer(1);
+      }
+      case 'EVAL':
+        return evalScript(text(0), args.slice(1));
+      case 'EVALSHA':
+        return evalScript(String(text(0)).toLowerCase(), args.slice(1));
+      case 'PUBLISH':
+        return publish(text(0), args[1]);
+      case 'SUBSCRIBE':
+        return subscribe(socket, args.map(String), 'subscribe');
+      case 'PSUBSCRIBE':
+        return subscribe(socket, args.map(String), 'psubscribe');
+      case 'UNSUBSCRIBE':
+        return unsubscribe(socket, args.map(String), 'unsubscribe');
+      case 'PUNSUBSCRIBE':
+        return unsubscribe(socket, args.map(String), 'punsubscribe');
+      case 'PUBSUB': {
+        const sub = String(text(0) || '').toUpperCase();
+        if (sub === 'NUMSUB') {
+          return array(args.slice(1).map(String).flatMap((ch) => [bulk(ch), integer((channels.get(ch) || new Set()).size)]));
+        }
+        if (sub === 'NUMPAT') return integer(patterns.size);
+        return error(`ERR unknown PUBSUB subcommand '${sub}'`);
+      }
+      case 'QUIT':
+        socket.end(simple('OK'));
+        return null;
+      default:
+        return error(`ERR unknown command '${name}'`);
+    }
+  }
+
+  return net.createServer((socket) => {
+    socket.channels = new Set();
+    socket.patterns = new Set();
+    let pending = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+      let offset = 0;
+      for (let read = readCommand(pending, offset); read; read = readCommand(pending, offset)) {
+        offset = read.next;
+        if (!read.command.length) continue;
+        const reply = run(socket, read.command);
+        if (reply) socket.write(reply);
+      }
+      pending = pending.subarray(offset);
+    });
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      unsubscribe(socket, [], 'unsubscribe');
+      unsubscribe(socket, [], 'punsubscribe');
+    });
+  });
+}
+
+if (require.main === module) {
+  const i = process.argv.indexOf('--port');
+  const port = Number(i !== -1 ? process.argv[i + 1] : process.env.PORT) || 6390;
+  createStandin().listen(port, '127.0.0.1', () => {
+    console.log(`🧪 Shared store stand-in listening on redis://127.0.0.1:${port}`);
+  });
+}
+
+module.exports = { createStandin };
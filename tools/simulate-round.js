@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+
+/**
+ * Round-length planner: how many songs (and minutes) until the first winner, from a Monte Carlo run
+ * over the real card rules (server/roundSimulator.js).
+ *
+ * Usage:
+ *   node tools/simulate-round.js --songs 75 --players 20
+ *   node tools/simulate-round.js --mode 5x15 --songs 75 --players 40 --pattern full_card --free-space
+ *   node tools/simulate-round.js --songs 120 --pattern line,four_corners,full_card --snippet 20
+ *   node tools/simulate-round.js --songs 75 --pattern custom --mask 0-0,0-4,2-2,4-0,4-4
+ *   node tools/simulate-round.js --playlists 20,18,15,30,25 --players 30
+ *
+ * --mode is 5x15, 1x75 or fallback (default: 1x75 when --songs is 75 or more, else fallback).
+ * --playlists takes each playlist's song count instead of --songs; the mode is then the one the game
+ * picks for those playlists (5x15 needs five of 15+), with one 5x15 column per playlist.
+ * --pattern takes one pattern or a comma-separated list of prize stages played on the same cards.
+ * --trials sets the number of simulated rounds (default 1000); --json prints the raw result.
+ */
+
+const path = require('path');
+
+const { simulateRound, DEFAULT_TRIALS } = require(path.join(__dirname, '..', 'server', 'roundSimulator'));
+const { cardModeFor } = require(path.join(__dirname, '..', 'server', 'cardDeals'));
+
+function argValue(name, fallback = null) {
+  const i = process.argv.indexOf(name);
+  return i !== -1 && process.argv[i + 1] != null ? process.argv[i + 1] : fallback;
+}
+
+function main() {
+  const playlistSizes = argValue('--playlists') != null ? String(argValue('--playlists')).split(',').map(Number) : null;
+  const songCount = playlistSizes ? playlistSizes.reduce((sum, n) => sum + n, 0) : Number(argValue('--songs'));
+  if (!Number.isFinite(songCount) || songCount <= 0) {
+    console.error('Usage: node tools/simulate-round.js --songs <n> | --playlists <n,n,...> [--players 20] [--snippet 30] [--mode 5x15|1x75|fallback] [--pattern line[,full_card...]] [--mask 0-0,4-4,...] [--free-space] [--trials 1000] [--json]');
+    process.exit(1);
+  }
+  const mode = argValue('--mode', playlistSizes ? cardModeFor(playlistSizes) : songCount >= 75 ? '1x75' : 'fallback');
+  const mask = String(argValue('--mask', '')).split(',').filter(Boolean);
+  const stages = String(argValue('--pattern', 'line'))
+    .split(',')
+    .filter(Boolean)
+    .map((pattern) => (pattern === 'custom' ? { pattern, customMask: mask } : { pattern }));
+
+  const result = simulateRound({
+    mode,
+    songCount,
+    columnSizes: playlistSizes,
+    freeSpace: process.argv.includes('--free-space'),
+    players: argValue('--players', 20),
+    snippetSeconds: argValue('--snippet', 30),
+    stages,
+    trials: argValue('--trials', DEFAULT_TRIALS),
+  });
+  if (!result) {
+    console.error(`❌ Cannot simulate: ${songCount} songs do not fill a ${mode} card, or no pattern is usable (custom needs --mask).`);
+    process.exit(1);
+  }
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log(
+    `${result.mode} · ${result.callPool} songs called from · ${result.players} player(s) · ${result.snippetSeconds}s snippets · free space ${result.freeSpace ? 'on' : 'off'} · ${result.trials} trials`
+  );
+  for (const stage of result.stages) {
+    const { songs, minutes } = stage;
+    console.log(`\n${stage.pattern}: first winner after`);
+    console.log(`  median  ${songs.p50} songs  (~${minutes.p50} min)`);
+    console.log(`  mean    ${songs.mean} songs  (~${minutes.mean} min)`);
+    console.log(`  p10–p90 ${songs.p10}–${songs.p90} songs  (~${minutes.p10}–${minutes.p90} min)`);
+    console.log(`  range   ${songs.min}–${songs.max} songs`);
+  }
+}
+
+main();
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * Card audit: regenerates a bingo card from a signed card manifest (GET /api/rooms/:roomId/card-manifest,
+ * or Card manifest in the host screen) and checks it against the manifest and against what a player showed.
+ *
+ * Usage:
+ *   node tools/verify-card.js <manifest.json> --card 3f9a1c2e-12          regenerate card 12 of that deal
+ *   node tools/verify-card.js <manifest.json> --card 12 --shown card.json  also compare a card as shown
+ *   node tools/verify-card.js <manifest.json> --list                       list every issued card
+ *
+ * `--shown` takes a card as JSON ({ squares: [{ position, songId }] }, e.g. a winner's card from the
+ * results report). The signature is checked against TEMPO_CARD_MANIFEST_PUBLIC_KEY (or --public-key <file>)
+ * when set; otherwise only against the key inside the manifest. A manifest marked `keyConfigured: false`
+ * was signed with a key the server made up for one run, so it is reported as unverifiable and fails.
+ * Exit code 0 only when every check passes.
+ */
+
+const path = require('path');
+const fs = require('fs');
+
+try {
+  require('dotenv').config({ path: path.join(__dirname, '..', '.env') });
+} catch {
+  /* optional */
+}
+
+const cardDeals = require(path.join(__dirname, '..', 'server', 'cardDeals'));
+
+function argValue(name) {
+  const i = process.argv.indexOf(name);
+  return i !== -1 ? process.argv[i + 1] : null;
+}
+
+function readJson(file, what) {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    console.error(`Could not read ${what} ${file}: ${e.message}`);
+    process.exit(1);
+  }
+}
+
+function printCard(squares, songs) {
+  const byPos = new Map(squares.map((s) => [s.position, s.songId]));
+  for (let row = 0; row < 5; row++) {
+    const cells = [];
+    for (let col = 0; col < 5; col++) {
+      const songId = byPos.get(`${row}-${col}`);
+      cells.push(songId ? `${songs[songId] || songId}` : 'FREE');
+    }
+    console.log(`  ${row + 1}: ${cells.join(' | ')}`);
+  }
+}
+
+function main() {
+  const file = process.argv[2];
+  if (!file || file.startsWith('--')) {
+    console.error('Usage: node tools/verify-card.js <manifest.json> (--card <id|number> [--shown <card.json>] | --list) [--public-key <file>]');
+    process.exit(1);
+  }
+  const signed = readJson(file, 'manifest');
+  const keyFile = argValue('--public-key');
+  const publicKey = keyFile ? fs.readFileSync(keyFile, 'utf8') : process.env.TEMPO_CARD_MANIFEST_PUBLIC_KEY || null;
+
+  let ok = true;
+  const check = cardDeals.verifyManifest(signed, { publicKey });
+  if (signed.keyConfigured === false) {
+    console.log(
+      '❌ Unverifiable: the server had no TEMPO_CARD_MANIFEST_PRIVATE_KEY and signed with a key made up for one run, so nothing ties this manifest to it.'
+    );
+    ok = false;
+  } else if (!check.valid) {
+    console.log(`❌ ${check.message}`);
+    ok = false;
+  } else if (check.pinned) {
+    console.log(`✅ ${check.message} (server key)`);
+  } else {
+    console.log(`⚠️ ${check.message} Checked against the key inside the manifest only — pass --public-key to tie it to the server.`);
+  }
+
+  const manifest = signed.manifest || {};
+  console.log(`Room ${manifest.roomId} · seed ${manifest.seed} · ${manifest.mix?.mode} mix ${String(manifest.mixHash).slice(0, 12)} · ${manifest.cards?.length || 0} card(s) issued`);
+
+  if (process.argv.includes('--list')) {
+    for (const c of manifest.cards || []) {
+      const again = cardDeals.regenerateCard(manifest, c.cardNumber);
+      const match = again && again.matchesManifest;
+      if (!match) ok = false;
+      console.log(`  ${match ? '✅' : '❌'} ${c.cardId}  ${c.holder || ''}`);
+    }
+    process.exit(ok ? 0 : 1);
+  }
+
+  const card = argValue('--card');
+  if (!card) {
+    console.error('Pass --card <id|number> or --list.');
+    process.exit(1);
+  }
+  const shownFile = argValue('--shown');
+  const shown = shownFile ? readJson(shownFile, 'card') : null;
+  const shownSquares = shown ? (Array.isArray(shown) ? shown : shown.squares) : null;
+
+  const result = cardDeals.regenerateCard(manifest, card, shownSquares);
+  if (!result) {
+    console.log(`❌ Card ${card} cannot be regenerated from this manifest (wrong deal, or the mix cannot fill it).`);
+    process.exit(1);
+  }
+  console.log(`\nCard ${result.cardId}${result.issued?.holder ? ` (${result.issued.holder})` : ''}:`);
+  printCard(result.squares, manifest.songs || {});
+  console.log('');
+
+  if (!result.issued) {
+    console.log(`❌ Card ${result.cardId} was never issued in this deal.`);
+    ok = false;
+  } else if (result.matchesManifest) {
+    console.log('✅ Regenerated card matches the manifest.');
+  } else {
+    console.log('❌ Regenerated card does not match the manifest.');
+    ok = false;
+  }
+  if (result.matchesShown === true) {
+    console.log('✅ The card shown matches.');
+  } else if (result.matchesShown === false) {
+    console.log('❌ The card shown is not this card.');
+    ok = false;
+  }
+  process.exit(ok ? 0 : 1);
+}
+
+main();